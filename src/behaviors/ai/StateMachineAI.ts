@@ -0,0 +1,291 @@
+/**
+ * @fileoverview StateMachineAI behavior deciding what a non-player entity does
+ */
+
+import { IAIBehavior } from '../interfaces';
+import { Character } from '../../game-objects/Character';
+import { NonPlayerEntity } from '../../game-objects/entities/NonPlayerEntity';
+import { getOrientationFromDirection } from '../../geometry/orientation';
+import { AI_COMBAT_MODES, AI_DEFAULTS, AI_STATES, AIState } from '../../constants/ai';
+import { EVENTS } from '../../constants/events';
+import { SCENES } from '../../constants/scenes';
+import { GameManager } from '../../scenes/GameManager';
+import { AIConfig, AIDebugInfo } from '../../types/entities/ai-types';
+import { StateMachine } from '../../utils/StateMachine';
+import { PathFollower } from '../movement/PathFollower';
+import { WanderMovement } from '../movement/WanderMovement';
+import { PatrolMovement } from '../movement/PatrolMovement';
+
+/**
+ * Default settings, overridden by the behavior params and the Tiled object
+ */
+const DEFAULT_CONFIG: AIConfig = {
+  combatMode: AI_DEFAULTS.COMBAT_MODE,
+  sightRange: AI_DEFAULTS.SIGHT_RANGE,
+  attackRange: AI_DEFAULTS.ATTACK_RANGE,
+  leashDistance: AI_DEFAULTS.LEASH_DISTANCE,
+  alertDuration: AI_DEFAULTS.ALERT_DURATION,
+  fleeHealthRatio: AI_DEFAULTS.FLEE_HEALTH_RATIO,
+  fleeDistance: AI_DEFAULTS.FLEE_DISTANCE,
+  speed: AI_DEFAULTS.SPEED,
+};
+
+/**
+ * AI behavior built on a finite state machine
+ *
+ * The entity rests at its home (idle), or roams with its movement behavior when
+ * it is a WanderMovement (wander) or a PatrolMovement (patrol). Once it notices
+ * the player it stops (alert), then chases and attacks, fleeing when hurt and
+ * returning home when the player gets away or the chase leads too far. Outside
+ * of the roaming states the AI drives the movement itself.
+ */
+export class StateMachineAI implements IAIBehavior {
+  private config: AIConfig;
+  private machine: StateMachine<NonPlayerEntity> | null = null;
+  private follower: PathFollower;
+  private home: Phaser.Math.Vector2 | null = null;
+  private provoked = false;
+  private givingUp = false;
+  private lastHp = 0;
+  private now = 0;
+
+  /**
+   * Create a new StateMachineAI
+   * @param config - Settings overriding the defaults
+   */
+  constructor(config: Partial<AIConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.follower = new PathFollower(this.config.speed);
+  }
+
+  /**
+   * Update method called every frame
+   */
+  update(character: Character): void {
+    if (!(character instanceof NonPlayerEntity) || !character.active || character.hp <= 0) return;
+
+    this.now = character.getPlayTime();
+    if (!this.machine) {
+      this.machine = this.createMachine(character);
+    }
+
+    if (character.hp < this.lastHp) {
+      this.provoked = true;
+    }
+    this.lastHp = character.hp;
+
+    this.machine.update(this.now);
+  }
+
+  /**
+   * Name of the current state
+   */
+  getState(): string | null {
+    return this.machine ? this.machine.getState() : null;
+  }
+
+  /**
+   * Snapshot of the AI for debugging
+   */
+  getDebugInfo(): AIDebugInfo {
+    return {
+      state: this.getState(),
+      previousState: this.machine ? this.machine.getPreviousState() : null,
+      timeInState: this.machine ? this.machine.getTimeInState(this.now) : 0,
+      combatMode: this.config.combatMode,
+      provoked: this.provoked,
+      history: this.machine ? this.machine.getHistory() : [],
+    };
+  }
+
+  /**
+   * Build the state machine, the home is where the entity stands on its first update
+   */
+  private createMachine(entity: NonPlayerEntity): StateMachine<NonPlayerEntity> {
+    this.home = entity.getCenter();
+    this.lastHp = entity.hp;
+
+    const gameManager = entity.getScene().scene.get(SCENES.GAME_MANAGER) as GameManager;
+    const machine = new StateMachine<NonPlayerEntity>(entity, change => {
+      entity.setData('aiState', change.to);
+      gameManager?.eventBus.emit(EVENTS.AI_STATE_CHANGED, {
+        entity,
+        from: change.from as AIState | null,
+        to: change.to as AIState,
+      });
+    });
+
+    machine
+      .addState(AI_STATES.IDLE, {
+        enter: e => {
+          this.halt(e);
+          this.provoked = false;
+          this.givingUp = false;
+        },
+      })
+      .addState(AI_STATES.WANDER, {
+        update: e => e.getMovementBehavior().update(e),
+        exit: e => e.getMovementBehavior().stop(e),
+      })
+      .addState(AI_STATES.PATROL, {
+        update: e => e.getMovementBehavior().update(e),
+        exit: e => e.getMovementBehavior().stop(e),
+      })
+      .addState(AI_STATES.ALERT, {
+        enter: e => {
+          this.halt(e);
+          this.facePlayer(e);
+        },
+      })
+      .addState(AI_STATES.CHASE, {
+        enter: e => this.follower.setTarget(e, this.getPlayer(e).getCenter()),
+        update: e => {
+          this.follower.updateTarget(e, this.getPlayer(e).getCenter());
+          this.follower.follow(e);
+        },
+      })
+      .addState(AI_STATES.ATTACK, {
+        enter: e => this.halt(e),
+        update: e => {
+          this.facePlayer(e);
+          e.attack();
+        },
+      })
+      .addState(AI_STATES.FLEE, {
+        enter: e => this.follower.setTarget(e, this.getFleeTarget(e)),
+        update: e => {
+          this.follower.updateTarget(e, this.getFleeTarget(e));
+          this.follower.follow(e);
+        },
+      })
+      .addState(AI_STATES.RETURN_HOME, {
+        enter: e => {
+          // An entity dragged too far ignores the player until it is back home
+          this.givingUp = this.isTooFarFromHome(e);
+          this.follower.setTarget(e, this.home as Phaser.Math.Vector2);
+        },
+        update: e => this.follower.follow(e),
+      });
+
+    // Transitions are checked in order, the first one holding wins
+    machine
+      .addTransition('*', AI_STATES.FLEE, e => this.shouldFlee(e))
+      .addTransition(AI_STATES.FLEE, AI_STATES.RETURN_HOME, e =>
+        !this.isPlayerAlive(e) || this.getDistanceToPlayer(e) >= this.config.fleeDistance,
+      )
+      .addTransition(
+        [AI_STATES.IDLE, AI_STATES.WANDER, AI_STATES.PATROL, AI_STATES.RETURN_HOME],
+        AI_STATES.ALERT,
+        e => this.isHostile(e),
+      )
+      .addTransition(AI_STATES.ALERT, AI_STATES.CHASE, (e, timeInState) =>
+        timeInState >= this.config.alertDuration && this.isHostile(e),
+      )
+      .addTransition(AI_STATES.ALERT, AI_STATES.RETURN_HOME, e => !this.isHostile(e))
+      .addTransition([AI_STATES.CHASE, AI_STATES.ATTACK], AI_STATES.RETURN_HOME, e =>
+        this.isTooFarFromHome(e) || !this.isHostile(e),
+      )
+      .addTransition(AI_STATES.CHASE, AI_STATES.ATTACK, e =>
+        this.getDistanceToPlayer(e) <= this.config.attackRange,
+      )
+      // A margin keeps the entity from switching back and forth at the edge of the range
+      .addTransition(AI_STATES.ATTACK, AI_STATES.CHASE, e =>
+        this.getDistanceToPlayer(e) > this.config.attackRange * 1.25,
+      )
+      .addTransition(AI_STATES.RETURN_HOME, AI_STATES.IDLE, e =>
+        this.isHome(e) || this.follower.isFinished(),
+      )
+      .addTransition(AI_STATES.IDLE, AI_STATES.PATROL, e =>
+        e.getMovementBehavior() instanceof PatrolMovement,
+      )
+      .addTransition(AI_STATES.IDLE, AI_STATES.WANDER, e =>
+        e.getMovementBehavior() instanceof WanderMovement,
+      );
+
+    machine.setState(AI_STATES.IDLE, this.now);
+    return machine;
+  }
+
+  /**
+   * Whether the entity wants to fight the player
+   */
+  private isHostile(entity: NonPlayerEntity): boolean {
+    if (this.givingUp || !this.isPlayerAlive(entity)) return false;
+    if (this.getDistanceToPlayer(entity) >= this.config.sightRange) return false;
+
+    switch (this.config.combatMode) {
+      case AI_COMBAT_MODES.AGGRESSIVE:
+        return true;
+      case AI_COMBAT_MODES.DEFENSIVE:
+        return this.provoked;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Whether the entity wants to run away from the player
+   */
+  private shouldFlee(entity: NonPlayerEntity): boolean {
+    if (!this.isPlayerAlive(entity) || this.getDistanceToPlayer(entity) >= this.config.fleeDistance) {
+      return false;
+    }
+
+    const passiveAndHit = this.config.combatMode === AI_COMBAT_MODES.PASSIVE && this.provoked;
+    const badlyHurt =
+      this.config.fleeHealthRatio > 0 && entity.hp / entity.maxHp <= this.config.fleeHealthRatio;
+    return passiveAndHit || badlyHurt;
+  }
+
+  /**
+   * Point away from the player
+   */
+  private getFleeTarget(entity: NonPlayerEntity): Phaser.Math.Vector2 {
+    const position = entity.getCenter();
+    const away = position.clone().subtract(this.getPlayer(entity).getCenter());
+    if (away.lengthSq() === 0) {
+      away.set(1, 0);
+    }
+    return position.add(away.normalize().scale(this.config.fleeDistance));
+  }
+
+  /**
+   * Stop walking and play the idle animation
+   */
+  private halt(entity: NonPlayerEntity): void {
+    this.follower.clear();
+    entity.setVelocity(0);
+    entity.setToIdle();
+  }
+
+  /**
+   * Turn toward the player
+   */
+  private facePlayer(entity: NonPlayerEntity): void {
+    const { x, y } = this.getPlayer(entity).getCenter().subtract(entity.getCenter());
+    if (x !== 0 || y !== 0) {
+      entity.setOrientation(getOrientationFromDirection(x, y));
+    }
+  }
+
+  private getPlayer(entity: NonPlayerEntity): Character {
+    return entity.getScene().player;
+  }
+
+  private isPlayerAlive(entity: NonPlayerEntity): boolean {
+    const player = this.getPlayer(entity);
+    return Boolean(player) && player.active && player.hp > 0;
+  }
+
+  private getDistanceToPlayer(entity: NonPlayerEntity): number {
+    return entity.getCenter().distance(this.getPlayer(entity).getCenter());
+  }
+
+  private isTooFarFromHome(entity: NonPlayerEntity): boolean {
+    return entity.getCenter().distance(this.home as Phaser.Math.Vector2) > this.config.leashDistance;
+  }
+
+  private isHome(entity: NonPlayerEntity): boolean {
+    return entity.getCenter().distance(this.home as Phaser.Math.Vector2) <= AI_DEFAULTS.HOME_TOLERANCE;
+  }
+}
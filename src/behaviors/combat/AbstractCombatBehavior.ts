@@ -4,13 +4,16 @@
 
 import { ICombatBehavior } from '../interfaces';
 import { Character } from '../../game-objects/Character';
+import { DamageEvent } from '../../types/combat-types';
+import { EVENTS } from '../../constants/events';
 
 /**
  * Abstract base class for combat behaviors
  */
 export abstract class AbstractCombatBehavior implements ICombatBehavior {
   protected hitDelay: number;
-  protected lastAttackTime: number = 0;
+  /** Level time of the last attack */
+  protected lastAttackTime: number = -Infinity;
 
   constructor(hitDelay = 1000) {
     this.hitDelay = hitDelay;
@@ -26,12 +29,13 @@ export abstract class AbstractCombatBehavior implements ICombatBehavior {
 
   /**
    * Check if character can attack (based on cooldown and target validity)
+   * The cooldown runs on the level clock, so it stands still while the level is paused
    */
-  protected canAttack(target: Character): boolean {
+  protected canAttack(attacker: Character, target: Character): boolean {
     if (!target) return false;
     
     // Check if enough time has passed since the last attack
-    const currentTime = new Date().getTime();
+    const currentTime = attacker.getPlayTime();
     return currentTime - this.lastAttackTime >= this.hitDelay;
   }
 
@@ -40,7 +44,7 @@ export abstract class AbstractCombatBehavior implements ICombatBehavior {
    * Template method that calls doAttack if conditions are met
    */
   attack(attacker: Character, target: Character): void {
-    if (!this.canAttack(target)) return;
+    if (!this.canAttack(attacker, target)) return;
     
     // Delegate attack animation to animation behavior
     if (attacker.getAnimationBehavior()) {
@@ -48,11 +52,13 @@ export abstract class AbstractCombatBehavior implements ICombatBehavior {
       attacker.getAnimationBehavior().playAttackEffect(attacker, 200);
     }
     
+    attacker.emitCombatEvent(EVENTS.CHARACTER_ATTACK, { character: attacker });
+
     // Perform the actual attack implementation
     this.doAttack(attacker, target);
     
     // Update last attack time
-    this.lastAttackTime = new Date().getTime();
+    this.lastAttackTime = attacker.getPlayTime();
   }
 
   /**
@@ -61,10 +67,10 @@ export abstract class AbstractCombatBehavior implements ICombatBehavior {
   protected abstract doAttack(attacker: Character, target: Character): void;
 
   /**
-   * Character takes damage - delegates to Character.loseHp
+   * Character receives a hit - delegates to Character.applyDamage
    */
-  takeDamage(character: Character, amount: number): void {
+  takeDamage(character: Character, event: DamageEvent): boolean {
     // Simply delegate to the centralized damage handling in Character
-    character.loseHp(amount);
+    return character.applyDamage(event);
   }
 } 
\ No newline at end of file
@@ -5,6 +5,7 @@
 import { AbstractCombatBehavior } from './AbstractCombatBehavior';
 import { NonPlayerEntity } from '../../game-objects/entities/NonPlayerEntity';
 import { Character } from '../../game-objects/Character';
+import { createDamageEvent, getKnockback } from '../../utils/damage';
 
 /**
  * MeleeCombat behavior for hostile entities
@@ -20,20 +21,13 @@ export class MeleeCombat extends AbstractCombatBehavior {
    * @override
    */
   protected doAttack(attacker: Character, target: Character): void {
-    // Only NonPlayerEntity instances have attackDamage property
+    // Only NonPlayerEntity instances have attack properties
     if (!(attacker instanceof NonPlayerEntity)) return;
-    
-    // Get damage amount from the entity
-    const damage = attacker.attackDamage || 1;
-    
-    // Attempt to access player from target if it has a canGetHit method
-    if ('canGetHit' in target && typeof target.canGetHit === 'function') {
-      if (!target.canGetHit()) return;
-      
-      // Use loseHp which is properly implemented on Player
-      if ('loseHp' in target && typeof target.loseHp === 'function') {
-        target.loseHp(damage);
-      }
-    }
+
+    target.takeDamage(createDamageEvent(attacker.attackDamage || 1, attacker.damageType, {
+      source: attacker,
+      knockback: getKnockback(attacker.getCenter(), target.getCenter(), attacker.knockback),
+      critChance: attacker.critChance,
+    }));
   }
 } 
\ No newline at end of file
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview PassiveCombat behavior for entities that never fight
+ */
+
+import { ICombatBehavior } from '../interfaces';
+import { Character } from '../../game-objects/Character';
+import { DamageEvent } from '../../types/combat-types';
+
+/**
+ * PassiveCombat behavior for friendly NPCs
+ * The entity never attacks and cannot be hurt
+ */
+export class PassiveCombat implements ICombatBehavior {
+  /**
+   * Update method called every frame
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  update(_character: Character): void {
+    // No update needed for passive combat
+  }
+
+  /**
+   * Passive entities never attack
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  attack(_character: Character, _target: Character): void {
+    // No attack functionality
+  }
+
+  /**
+   * Passive entities ignore damage
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  takeDamage(_character: Character, _event: DamageEvent): boolean {
+    // Friendly entities cannot be hurt
+    return false;
+  }
+}
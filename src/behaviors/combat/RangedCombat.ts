@@ -19,8 +19,7 @@ export class RangedCombat extends AbstractCombatBehavior {
     hitDelay = 1000
   ) {
     super(hitDelay);
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    this.projectileGenerator = projectileGenerator || ((_scene, _x, _y) => {
+    this.projectileGenerator = projectileGenerator || (() => {
       console.warn('No projectile generator provided for RangedCombat');
     });
   }
@@ -29,22 +28,22 @@ export class RangedCombat extends AbstractCombatBehavior {
    * Implementation of the attack behavior for ranged attacks
    * @override
    */
-  protected doAttack(attacker: Character, target: Character): void {
+  protected doAttack(attacker: Character): void {
     // Only proceed if attacker is a NonPlayerEntity
     if (attacker instanceof NonPlayerEntity) {
-      this.generateProjectile(attacker, target);
+      this.generateProjectile(attacker);
     }
   }
 
   /**
    * Generate projectile for the attack
    */
-  private generateProjectile(entity: NonPlayerEntity, target: Character): void {
+  private generateProjectile(entity: NonPlayerEntity): void {
     try {
       const scene = entity.getScene();
-      // Generate projectile using the provided generator
+      // The projectile spawns where the entity stands
       if (this.projectileGenerator) {
-        this.projectileGenerator(scene, target.x, target.y);
+        this.projectileGenerator(scene, entity.x, entity.y);
       }
     } catch (e) {
       console.error('Error generating projectile', e);
@@ -1,34 +1,34 @@
 /**
  * @fileoverview Player input behavior implementation
- * Handles keyboard input processing for the player character
+ * Handles the input actions for the player character
  */
 
 import { IInputBehavior } from '../interfaces';
-import { KeyState } from '../../types/scene-types';
+import { ActionState } from '../../types/input-types';
 import { Player } from '../../game-objects/Player';
-import { Orientation } from '../../geometry/orientation';
 import { CharacterState } from '../../constants/character-states';
+import { INPUT_ACTIONS } from '../../constants/input';
+import { PLAYER_MOVEMENT } from '../../constants/movement';
 
 /**
  * Handles player input and movement controls
  */
 export class PlayerInputBehavior implements IInputBehavior {
-  /** Current keyboard state */
-  private keyState: KeyState = {
-    left: false,
-    right: false,
-    up: false,
-    down: false,
-    space: false,
-    shift: false
+  /** Input actions of the current frame */
+  private actionState: ActionState = {
+    move: { x: 0, y: 0 },
+    pressed: {} as ActionState['pressed'],
+    justPressed: {} as ActionState['justPressed'],
   };
+  /** Level time of the previous update, null before the first one */
+  private lastUpdate: number = null;
 
   /**
-   * Set the current key state for processing
-   * @param keyState The current keyboard input state
+   * Set the current action state for processing
+   * @param actionState The input actions of the current frame
    */
-  public setKeyState(keyState: KeyState): void {
-    this.keyState = keyState;
+  public setActionState(actionState: ActionState): void {
+    this.actionState = actionState;
   }
 
   /**
@@ -40,83 +40,85 @@ export class PlayerInputBehavior implements IInputBehavior {
       return;
     }
 
-    // Reset velocity at the start of each update
-    player.setVelocity(0);
-    
     // Handle movement based on input
     this.handleMovement(player);
-    
+
     // Handle combat actions
-    if (this.keyState.shift) {
+    if (this.actionState.pressed[INPUT_ACTIONS.ATTACK]) {
       player.performPunch();
     }
-    
+
     // Handle ranged attacks
-    this.handleShootKey(player);
-    
-    // Set to idle if no keys are pressed
-    const noKeyPressed = Object.values(this.keyState).filter(x => x).length === 0;
-    if (noKeyPressed && !player.isActionState(CharacterState.RELOADING)) {
+    this.handleShootAction(player);
+
+    // Handle talking to nearby entities
+    this.handleInteractAction(player);
+
+    // Set to idle if no action is active
+    const { move, pressed } = this.actionState;
+    const noActionPressed = move.x === 0 && move.y === 0 && Object.values(pressed).filter(x => x).length === 0;
+    if (noActionPressed && !player.isActionState(CharacterState.RELOADING)) {
       player.setToIdle();
     }
   }
-  
+
   /**
-   * Handle player movement based on key state
+   * Handle player movement based on the move vector
+   * The velocity accelerates toward the move vector scaled by the walking speed,
+   * so diagonals are as fast as straight lines and the stick tilt sets the pace
    * @param player The player to move
    */
   private handleMovement(player: Player): void {
-    if (player.isActionState(CharacterState.SHOOTING)) {
-      return;
-    }
-    
-    this.handleHorizontalMovement(player);
-    this.handleVerticalMovement(player);
+    const now = player.getPlayTime();
+    const elapsed = this.lastUpdate === null ? 0 : Math.min(now - this.lastUpdate, PLAYER_MOVEMENT.MAX_FRAME_DURATION);
+    this.lastUpdate = now;
+
+    const { x, y } = this.actionState.move;
+    const target = player.isActionState(CharacterState.SHOOTING)
+      ? new Phaser.Math.Vector2(0, 0)
+      : new Phaser.Math.Vector2(x, y).scale(player.getMoveSpeed());
+    const isMoving = target.x !== 0 || target.y !== 0;
+    const rate = isMoving ? PLAYER_MOVEMENT.ACCELERATION : PLAYER_MOVEMENT.DECELERATION;
+
+    const velocity = this.approach(player.body.velocity, target, rate * elapsed / 1000);
+    player.moveWithVelocity(velocity.x, velocity.y, isMoving);
   }
-  
+
   /**
-   * Handle horizontal movement
-   * @param player The player to move
+   * Move a velocity toward a target velocity by at most a given change
+   * @param current The current velocity
+   * @param target The velocity to reach
+   * @param maxChange Largest change of the velocity
    */
-  private handleHorizontalMovement(player: Player): void {
-    const isUpDownPressed = this.keyState.up || this.keyState.down;
-    
-    if (this.keyState.left) {
-      // Pass speed as normal, or 0 to disable animation
-      player.moveInDirection(Orientation.Left, isUpDownPressed ? 0 : undefined);
-      return;
-    }
-    
-    if (this.keyState.right) {
-      // Pass speed as normal, or 0 to disable animation
-      player.moveInDirection(Orientation.Right, isUpDownPressed ? 0 : undefined);
-      return;
+  private approach(current: Phaser.Math.Vector2, target: Phaser.Math.Vector2, maxChange: number): Phaser.Math.Vector2 {
+    const difference = target.clone().subtract(current);
+    if (difference.length() <= maxChange) {
+      return target;
     }
+    return difference.normalize().scale(maxChange).add(current);
   }
-  
+
   /**
-   * Handle vertical movement
-   * @param player The player to move
+   * Handle interaction with nearby entities, once per press
+   * @param player The player initiating the interaction
    */
-  private handleVerticalMovement(player: Player): void {
-    if (this.keyState.up) {
-      player.moveInDirection(Orientation.Up);
-    } else if (this.keyState.down) {
-      player.moveInDirection(Orientation.Down);
+  private handleInteractAction(player: Player): void {
+    if (this.actionState.justPressed[INPUT_ACTIONS.INTERACT]) {
+      player.interactWithNearbyEntity();
     }
   }
-  
+
   /**
    * Handle shooting actions
    * @param player The player to perform shooting
    */
-  private handleShootKey(player: Player): void {
-    if (this.keyState.space) {
-      if (player.isActionState(CharacterState.RELOADING)) {
+  private handleShootAction(player: Player): void {
+    if (this.actionState.pressed[INPUT_ACTIONS.SHOOT]) {
+      if (player.isActionState(CharacterState.RELOADING) || !player.canShoot()) {
         return;
       }
       player.reloadWeapon();
       player.shootWeapon();
     }
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview DialogueInteraction behavior for entities the player can talk to
+ */
+
+import { IInteractionBehavior } from '../interfaces';
+import { Character } from '../../game-objects/Character';
+import { Player } from '../../game-objects/Player';
+import { NonPlayerEntity } from '../../game-objects/entities/NonPlayerEntity';
+import { getOrientationFromDirection } from '../../geometry/orientation';
+import { SCENES } from '../../constants/scenes';
+import { GameManager } from '../../scenes/GameManager';
+
+/**
+ * DialogueInteraction behavior for friendly NPCs
+ * Opens the conversation referenced by the entity dialogKey when the player talks to it
+ */
+export class DialogueInteraction implements IInteractionBehavior {
+  private interactionDistance: number;
+
+  constructor(interactionDistance = 40) {
+    this.interactionDistance = interactionDistance;
+  }
+
+  /**
+   * Conversations are started by the player, nothing to do each frame
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  update(_character: Character): void {
+    // The dialogue box scene takes over while a conversation runs
+  }
+
+  /**
+   * Face the player and open the conversation
+   */
+  interact(character: Character, player: Player): void {
+    const dialogKey = this.getDialogKey(character);
+    if (!dialogKey || !character.active) return;
+
+    character.setOrientation(
+      getOrientationFromDirection(player.x - character.x, player.y - character.y),
+    );
+    character.setToIdle();
+
+    const scene = character.getScene();
+    const gameManager = scene.scene.get(SCENES.GAME_MANAGER) as GameManager;
+    gameManager.startDialogue(dialogKey, scene.scene.key);
+  }
+
+  /**
+   * The player can talk to entities with a dialogKey when close enough
+   */
+  canInteract(character: Character, player: Player): boolean {
+    if (!this.getDialogKey(character)) return false;
+    if (!character.active || !player || !player.active) return false;
+    const distance = Phaser.Math.Distance.Between(character.x, character.y, player.x, player.y);
+    return distance <= this.interactionDistance;
+  }
+
+  /**
+   * Dialog key of the entity, if any
+   */
+  private getDialogKey(character: Character): string | undefined {
+    return character instanceof NonPlayerEntity ? character.dialogKey : undefined;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview GreetingInteraction behavior for friendly entities that talk to the player
+ */
+
+import { IInteractionBehavior } from '../interfaces';
+import { Character } from '../../game-objects/Character';
+import { Player } from '../../game-objects/Player';
+import { NonPlayerEntity } from '../../game-objects/entities/NonPlayerEntity';
+import { getOrientationFromDirection } from '../../geometry/orientation';
+
+/**
+ * GreetingInteraction behavior for friendly NPCs
+ * The entity turns to face the player when close and shows its greeting in a speech bubble
+ */
+export class GreetingInteraction implements IInteractionBehavior {
+  /** How long the speech bubble stays visible in milliseconds */
+  private static readonly BUBBLE_DURATION = 3000;
+  /** Maximum width of the speech bubble text */
+  private static readonly BUBBLE_WIDTH = 120;
+
+  private greeting: string;
+  private interactionDistance: number;
+  private bubble: Phaser.GameObjects.Text | null = null;
+  private bubbleTimerEvent: Phaser.Time.TimerEvent | null = null;
+  private playerWasInRange = false;
+
+  constructor(greeting: string, interactionDistance = 40) {
+    this.greeting = greeting;
+    this.interactionDistance = interactionDistance;
+  }
+
+  /**
+   * Greet the player when they walk into range and keep the bubble above the entity
+   */
+  update(character: Character): void {
+    if (!(character instanceof NonPlayerEntity)) return;
+
+    const player = character.getScene().player;
+    if (!player || !player.active) return;
+
+    const inRange = this.canInteract(character, player);
+    if (inRange && !this.playerWasInRange) {
+      this.interact(character, player);
+    }
+    this.playerWasInRange = inRange;
+
+    if (this.bubble) {
+      this.bubble.setPosition(character.x, this.getBubbleY(character));
+    }
+  }
+
+  /**
+   * Face the player and show the greeting
+   */
+  interact(character: Character, player: Player): void {
+    if (!character.active) return;
+
+    character.setOrientation(
+      getOrientationFromDirection(player.x - character.x, player.y - character.y),
+    );
+    character.setToIdle();
+    this.showBubble(character);
+  }
+
+  /**
+   * The player can interact when close enough to the entity
+   */
+  canInteract(character: Character, player: Player): boolean {
+    if (!character.active || !player || !player.active) return false;
+    const distance = Phaser.Math.Distance.Between(character.x, character.y, player.x, player.y);
+    return distance <= this.interactionDistance;
+  }
+
+  /**
+   * Show the speech bubble, replacing any bubble already visible
+   */
+  private showBubble(character: Character): void {
+    if (!this.greeting) return;
+
+    const scene = character.getScene();
+    this.hideBubble();
+
+    this.bubble = scene.add
+      .text(character.x, this.getBubbleY(character), this.greeting, {
+        font: '8px monospace',
+        color: '#ffffff',
+        backgroundColor: '#000000',
+        padding: { x: 3, y: 2 },
+      })
+      .setWordWrapWidth(GreetingInteraction.BUBBLE_WIDTH)
+      .setOrigin(0.5, 1)
+      .setDepth(1000);
+
+    this.bubbleTimerEvent = scene.time.addEvent({
+      delay: GreetingInteraction.BUBBLE_DURATION,
+      callback: this.hideBubble,
+      callbackScope: this,
+    });
+  }
+
+  /**
+   * Remove the speech bubble
+   */
+  private hideBubble(): void {
+    if (this.bubbleTimerEvent) {
+      this.bubbleTimerEvent.destroy();
+      this.bubbleTimerEvent = null;
+    }
+    if (this.bubble) {
+      this.bubble.destroy();
+      this.bubble = null;
+    }
+  }
+
+  /**
+   * Vertical position of the bubble, just above the sprite
+   */
+  private getBubbleY(character: Character): number {
+    return character.getTopLeft().y;
+  }
+}
@@ -5,8 +5,10 @@
 import { Orientation } from '../geometry/orientation';
 import { Player } from '../game-objects/Player';
 import { Character } from '../game-objects/Character';
-import { KeyState } from '../types/scene-types';
+import { ActionState } from '../types/input-types';
 import { CharacterState } from '../constants/character-states';
+import { AIDebugInfo } from '../types/entities/ai-types';
+import { DamageEvent } from '../types/combat-types';
 
 /**
  * Base behavior interface for all entity behaviors
@@ -49,11 +51,12 @@ export interface ICombatBehavior extends IBehavior {
   attack(character: Character, target: Character): void;
   
   /**
-   * Character takes damage
-   * @param character The character taking damage
-   * @param amount The amount of damage taken
+   * Character receives a hit
+   * @param character The character hit
+   * @param event The hit
+   * @returns Whether the character was hurt
    */
-  takeDamage(character: Character, amount: number): void;
+  takeDamage(character: Character, event: DamageEvent): boolean;
 }
 
 /**
@@ -76,6 +79,22 @@ export interface IInteractionBehavior extends IBehavior {
   canInteract(character: Character, player: Player): boolean;
 }
 
+/**
+ * AI behavior interface
+ * The AI decides what the entity does and drives its movement and attacks
+ */
+export interface IAIBehavior extends IBehavior {
+  /**
+   * Name of the current state
+   */
+  getState(): string | null;
+
+  /**
+   * Snapshot of the AI for debugging
+   */
+  getDebugInfo(): AIDebugInfo;
+}
+
 /**
  * Animation behavior interface
  */
@@ -106,8 +125,8 @@ export interface IInputBehavior {
   update(player: Player): void;
   
   /**
-   * Set the current key state for processing in the next update
-   * @param keyState The current keyboard input state
+   * Set the current action state for processing in the next update
+   * @param actionState The input actions of the current frame
    */
-  setKeyState(keyState: KeyState): void;
+  setActionState(actionState: ActionState): void;
 } 
\ No newline at end of file
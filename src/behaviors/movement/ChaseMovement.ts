@@ -5,7 +5,7 @@
 import { IMovementBehavior } from '../interfaces';
 import { Character } from '../../game-objects/Character';
 import { NonPlayerEntity } from '../../game-objects/entities/NonPlayerEntity';
-import { Orientation } from '../../geometry/orientation';
+import { getOrientationFromDirection } from '../../geometry/orientation';
 
 /**
  * ChaseMovement behavior for entities that chase the player
@@ -81,16 +81,6 @@ export class ChaseMovement implements IMovementBehavior {
     return distance < this.chasingDistance;
   }
 
-  /**
-   * Gets the orientation based on movement direction
-   */
-  private getOrientationFromDirection(x: number, y: number): Orientation {
-    if (Math.abs(y) > Math.abs(x)) {
-      return y < 0 ? Orientation.Up : Orientation.Down;
-    }
-    return x < 0 ? Orientation.Left : Orientation.Right;
-  }
-
   /**
    * Sets the entity's velocity based on direction
    */
@@ -98,7 +88,7 @@ export class ChaseMovement implements IMovementBehavior {
     if (x === 0 && y === 0 || !character.active) return;
 
     const speed = 20; // Temporary hardcoded speed
-    const orientation = this.getOrientationFromDirection(x, y);
+    const orientation = getOrientationFromDirection(x, y);
     
     // First try moveInDirection which handles animation properly
     character.moveInDirection(orientation, speed);
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview PathFollowMovement behavior for entities that walk around obstacles
+ */
+
+import { IMovementBehavior } from '../interfaces';
+import { Character } from '../../game-objects/Character';
+import { NonPlayerEntity } from '../../game-objects/entities/NonPlayerEntity';
+import { NAVIGATION } from '../../constants/navigation';
+import { PathFollower } from './PathFollower';
+
+/**
+ * PathFollowMovement behavior for entities that chase the player
+ * Paths are computed on the navigation grid of the scene so the entity routes
+ * around colliding tiles instead of walking into them
+ */
+export class PathFollowMovement implements IMovementBehavior {
+  private follower: PathFollower;
+  private isChasing = false;
+  private chasingDistance: number;
+
+  /**
+   * Create a new PathFollowMovement
+   * @param chasingDistance - Distance under which the entity chases the player
+   * @param speed - Walking speed
+   * @param repathInterval - Delay between two path computations in milliseconds
+   */
+  constructor(chasingDistance = 100, speed = 20, repathInterval: number = NAVIGATION.REPATH_INTERVAL) {
+    this.chasingDistance = chasingDistance;
+    this.follower = new PathFollower(speed, repathInterval);
+  }
+
+  /**
+   * Update method called every frame
+   */
+  update(character: Character): void {
+    if (!(character instanceof NonPlayerEntity) || !character.active) return;
+
+    const player = character.getScene().player;
+    const distance = character.getCenter().distance(player.getCenter());
+
+    if (distance >= this.chasingDistance) {
+      if (this.isChasing) {
+        this.isChasing = false;
+        this.stop(character);
+      }
+      return;
+    }
+
+    this.isChasing = true;
+    this.follower.updateTarget(character, player.getCenter());
+    this.follower.follow(character);
+  }
+
+  /**
+   * Compute the path toward a target position, the player by default
+   */
+  move(character: Character, target?: Phaser.Math.Vector2): void {
+    if (!character.active || !(character instanceof NonPlayerEntity)) return;
+
+    this.follower.setTarget(character, target || character.getScene().player.getCenter());
+  }
+
+  /**
+   * Stop entity movement
+   */
+  stop(character: Character): void {
+    this.follower.clear();
+    if (!character.active) return;
+    character.setVelocity(0);
+    character.setToIdle();
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Walks a character along the paths of the navigation grid
+ */
+
+import { Character } from '../../game-objects/Character';
+import { NonPlayerEntity } from '../../game-objects/entities/NonPlayerEntity';
+import { getOrientationFromDirection } from '../../geometry/orientation';
+import { NAVIGATION } from '../../constants/navigation';
+
+/**
+ * Steers a character from waypoint to waypoint toward a target
+ * Shared by the movement and AI behaviors that need to route around obstacles
+ */
+export class PathFollower {
+  private path: Phaser.Math.Vector2[] = [];
+  private lastPathTime = -Infinity;
+  private speed: number;
+  private repathInterval: number;
+
+  /**
+   * Create a new PathFollower
+   * @param speed - Walking speed
+   * @param repathInterval - Delay between two path computations in milliseconds
+   */
+  constructor(speed = 20, repathInterval: number = NAVIGATION.REPATH_INTERVAL) {
+    this.speed = speed;
+    this.repathInterval = repathInterval;
+  }
+
+  /**
+   * Compute the path toward a target position
+   * The character heads straight for the target when no path exists
+   */
+  public setTarget(character: NonPlayerEntity, target: Phaser.Math.Vector2): void {
+    const scene = character.getScene();
+    const goal = target.clone();
+    const path = scene.getNavigationManager().findPath(character.getCenter(), goal);
+
+    this.path = path && path.length > 0 ? path : [goal];
+    this.lastPathTime = character.getPlayTime();
+  }
+
+  /**
+   * Compute the path again if the last one is older than the repath interval,
+   * used to follow a moving target
+   */
+  public updateTarget(character: NonPlayerEntity, target: Phaser.Math.Vector2): void {
+    if (character.getPlayTime() - this.lastPathTime >= this.repathInterval) {
+      this.setTarget(character, target);
+    }
+  }
+
+  /**
+   * Walk toward the next waypoint, dropping the waypoints already reached
+   * @returns Whether the character is still on its way
+   */
+  public follow(character: Character): boolean {
+    const position = character.getCenter();
+    while (this.path.length > 0 && this.isReached(position, this.path[0])) {
+      this.path.shift();
+    }
+
+    if (this.path.length === 0) {
+      character.setVelocity(0);
+      return false;
+    }
+
+    const next = this.path[0];
+    const x = Math.abs(next.x - position.x) > NAVIGATION.WAYPOINT_TOLERANCE ? next.x - position.x : 0;
+    const y = Math.abs(next.y - position.y) > NAVIGATION.WAYPOINT_TOLERANCE ? next.y - position.y : 0;
+    character.moveInDirection(getOrientationFromDirection(x, y), this.speed);
+    return true;
+  }
+
+  /**
+   * Check if the character has no waypoint left
+   */
+  public isFinished(): boolean {
+    return this.path.length === 0;
+  }
+
+  /**
+   * Forget the current path
+   */
+  public clear(): void {
+    this.path = [];
+    this.lastPathTime = -Infinity;
+  }
+
+  /**
+   * Check if a position is close enough to a waypoint
+   */
+  private isReached(position: Phaser.Math.Vector2, waypoint: Phaser.Math.Vector2): boolean {
+    return (
+      Math.abs(waypoint.x - position.x) <= NAVIGATION.WAYPOINT_TOLERANCE &&
+      Math.abs(waypoint.y - position.y) <= NAVIGATION.WAYPOINT_TOLERANCE
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview PatrolMovement behavior for entities that walk along a route
+ */
+
+import { IMovementBehavior } from '../interfaces';
+import { Character } from '../../game-objects/Character';
+import { NonPlayerEntity } from '../../game-objects/entities/NonPlayerEntity';
+import { MOVEMENT_DEFAULTS } from '../../constants/movement';
+import { PathFollower } from './PathFollower';
+
+/**
+ * PatrolMovement behavior for guards
+ * The entity walks from waypoint to waypoint, either looping back to the first
+ * one or walking the route back and forth
+ */
+export class PatrolMovement implements IMovementBehavior {
+  private follower: PathFollower;
+  private route: Phaser.Math.Vector2[];
+  private loop: boolean;
+  private pause: number;
+  private index = 0;
+  private step = 1;
+  private heading = false;
+  private resumeAt: number | null = null;
+
+  /**
+   * Create a new PatrolMovement
+   * @param route - Waypoints in world coordinates
+   * @param loop - Whether the last waypoint leads back to the first one, the route is walked back otherwise
+   * @param pause - Time spent standing at each waypoint in milliseconds
+   * @param speed - Walking speed
+   */
+  constructor(
+    route: Phaser.Math.Vector2[],
+    loop = false,
+    pause: number = MOVEMENT_DEFAULTS.PATROL_PAUSE,
+    speed: number = MOVEMENT_DEFAULTS.SPEED,
+  ) {
+    this.route = route.map(point => point.clone());
+    this.loop = loop;
+    this.pause = pause;
+    this.follower = new PathFollower(speed);
+  }
+
+  /**
+   * Update method called every frame
+   */
+  update(character: Character): void {
+    if (!(character instanceof NonPlayerEntity) || !character.active || this.route.length === 0) return;
+
+    if (this.follower.follow(character)) return;
+
+    if (this.heading) {
+      // Waypoint reached, wait there before heading to the next one
+      this.heading = false;
+      this.resumeAt = character.getPlayTime() + this.pause;
+      this.advance();
+      if (this.pause > 0) {
+        character.setToIdle();
+      }
+    }
+    if (this.resumeAt !== null && character.getPlayTime() < this.resumeAt) return;
+
+    this.resumeAt = null;
+    this.heading = true;
+    this.follower.setTarget(character, this.route[this.index]);
+  }
+
+  /**
+   * Walk to a position, the patrol resumes toward the current waypoint afterwards
+   */
+  move(character: Character, target?: Phaser.Math.Vector2): void {
+    if (!target || !character.active || !(character instanceof NonPlayerEntity)) return;
+
+    this.heading = false;
+    this.resumeAt = null;
+    this.follower.setTarget(character, target);
+  }
+
+  /**
+   * Stop entity movement, the patrol resumes toward the current waypoint
+   */
+  stop(character: Character): void {
+    this.follower.clear();
+    this.heading = false;
+    this.resumeAt = null;
+    if (!character.active) return;
+    character.setVelocity(0);
+    character.setToIdle();
+  }
+
+  /**
+   * Select the next waypoint
+   */
+  private advance(): void {
+    if (this.route.length < 2) return;
+
+    if (this.loop) {
+      this.index = (this.index + 1) % this.route.length;
+      return;
+    }
+    if (this.index + this.step < 0 || this.index + this.step >= this.route.length) {
+      this.step = -this.step;
+    }
+    this.index += this.step;
+  }
+}
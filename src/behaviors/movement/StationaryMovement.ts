@@ -0,0 +1,37 @@
+/**
+ * @fileoverview StationaryMovement behavior for entities that stay where they were placed
+ */
+
+import { IMovementBehavior } from '../interfaces';
+import { Character } from '../../game-objects/Character';
+
+/**
+ * StationaryMovement behavior for friendly NPCs
+ * The entity never walks, it only keeps its idle animation playing
+ */
+export class StationaryMovement implements IMovementBehavior {
+  /**
+   * Update method called every frame
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  update(_character: Character): void {
+    // Nothing to do, the entity does not move
+  }
+
+  /**
+   * Stationary entities ignore move requests
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  move(_character: Character, _target?: Phaser.Math.Vector2): void {
+    // No movement functionality
+  }
+
+  /**
+   * Stop entity movement
+   */
+  stop(character: Character): void {
+    if (!character.active) return;
+    character.setVelocity(0);
+    character.setToIdle();
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview WanderMovement behavior for entities that walk around their home
+ */
+
+import { IMovementBehavior } from '../interfaces';
+import { Character } from '../../game-objects/Character';
+import { NonPlayerEntity } from '../../game-objects/entities/NonPlayerEntity';
+import { MOVEMENT_DEFAULTS } from '../../constants/movement';
+import { PathFollower } from './PathFollower';
+
+/**
+ * WanderMovement behavior for entities that roam
+ * The entity walks to random walkable points within a radius of where it
+ * spawned, standing still for a while after each walk
+ */
+export class WanderMovement implements IMovementBehavior {
+  private static readonly TARGET_ATTEMPTS = 5;
+
+  private follower: PathFollower;
+  private home: Phaser.Math.Vector2 | null = null;
+  private resumeAt: number | null = null;
+  private radius: number;
+  private pause: number;
+
+  /**
+   * Create a new WanderMovement
+   * @param radius - Maximum distance from home
+   * @param pause - Time spent standing between two walks in milliseconds
+   * @param speed - Walking speed
+   */
+  constructor(
+    radius: number = MOVEMENT_DEFAULTS.WANDER_RADIUS,
+    pause: number = MOVEMENT_DEFAULTS.WANDER_PAUSE,
+    speed: number = MOVEMENT_DEFAULTS.SPEED,
+  ) {
+    this.radius = radius;
+    this.pause = pause;
+    this.follower = new PathFollower(speed);
+  }
+
+  /**
+   * Update method called every frame
+   */
+  update(character: Character): void {
+    if (!(character instanceof NonPlayerEntity) || !character.active) return;
+
+    if (!this.home) {
+      this.home = character.getCenter();
+    }
+    if (this.follower.follow(character)) return;
+
+    const now = character.getPlayTime();
+    if (this.resumeAt === null) {
+      this.resumeAt = now + this.pause;
+      character.setToIdle();
+      return;
+    }
+    if (now < this.resumeAt) return;
+
+    this.resumeAt = null;
+    this.follower.setTarget(character, this.pickTarget(character));
+  }
+
+  /**
+   * Walk to a position, wandering resumes once it is reached
+   */
+  move(character: Character, target?: Phaser.Math.Vector2): void {
+    if (!target || !character.active || !(character instanceof NonPlayerEntity)) return;
+
+    this.resumeAt = null;
+    this.follower.setTarget(character, target);
+  }
+
+  /**
+   * Stop entity movement
+   */
+  stop(character: Character): void {
+    this.follower.clear();
+    this.resumeAt = null;
+    if (!character.active) return;
+    character.setVelocity(0);
+    character.setToIdle();
+  }
+
+  /**
+   * Random walkable point around the home
+   */
+  private pickTarget(character: NonPlayerEntity): Phaser.Math.Vector2 {
+    const home = this.home as Phaser.Math.Vector2;
+    const navigation = character.getScene().getNavigationManager();
+
+    for (let attempt = 0; attempt < WanderMovement.TARGET_ATTEMPTS; attempt++) {
+      const angle = Math.random() * Math.PI * 2;
+      const distance = Math.random() * this.radius;
+      const target = new Phaser.Math.Vector2(
+        home.x + Math.cos(angle) * distance,
+        home.y + Math.sin(angle) * distance,
+      );
+      if (navigation.isWalkable(target.x, target.y)) {
+        return target;
+      }
+    }
+    return home.clone();
+  }
+}
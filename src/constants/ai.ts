@@ -0,0 +1,50 @@
+/**
+ * @fileoverview States, combat modes and default settings of the entity AI
+ */
+
+export const AI_STATES = {
+  IDLE: 'idle',
+  PATROL: 'patrol',
+  WANDER: 'wander',
+  ALERT: 'alert',
+  CHASE: 'chase',
+  ATTACK: 'attack',
+  FLEE: 'flee',
+  RETURN_HOME: 'return-home',
+} as const;
+
+export type AIState = typeof AI_STATES[keyof typeof AI_STATES];
+
+/**
+ * How an entity reacts to the player, set by the combatMode property of the Tiled object
+ */
+export const AI_COMBAT_MODES = {
+  /** Attacks the player on sight */
+  AGGRESSIVE: 'aggressive',
+  /** Only fights back once hit */
+  DEFENSIVE: 'defensive',
+  /** Never fights, runs away once hit */
+  PASSIVE: 'passive',
+} as const;
+
+export type AICombatMode = typeof AI_COMBAT_MODES[keyof typeof AI_COMBAT_MODES];
+
+export const AI_DEFAULTS = {
+  COMBAT_MODE: AI_COMBAT_MODES.AGGRESSIVE as AICombatMode,
+  /** Distance under which the player is noticed */
+  SIGHT_RANGE: 100,
+  /** Distance under which the entity attacks */
+  ATTACK_RANGE: 20,
+  /** Maximum distance from home before the entity gives up a chase */
+  LEASH_DISTANCE: 200,
+  /** Time spent noticing the player before the chase in milliseconds */
+  ALERT_DURATION: 500,
+  /** Health ratio under which the entity runs away, 0 to never flee */
+  FLEE_HEALTH_RATIO: 0,
+  /** Distance from the player at which a fleeing entity feels safe */
+  FLEE_DISTANCE: 120,
+  /** Walking speed */
+  SPEED: 20,
+  /** Distance at which the entity counts as back home */
+  HOME_TOLERANCE: 4,
+} as const;
@@ -6,6 +6,7 @@
 import { CharacterAnimation } from '../game-objects/Character';
 import { CharacterState } from './character-states';
 import { ASSETS } from './assets';
+import { Orientation } from '../geometry/orientation';
 
 /**
  * Creates animation sets for IDLE, DEATH, and RELOADING states
@@ -117,4 +118,78 @@ export const TREANT_ANIMATIONS: Partial<Record<CharacterState, CharacterAnimatio
     left: { flip: true, anim: ASSETS.ANIMATIONS.TREANT_WALK_SIDE },
     right: { flip: false, anim: ASSETS.ANIMATIONS.TREANT_WALK_SIDE },
   }
-}; 
\ No newline at end of file
+}; 
+/**
+ * Creates IDLE and MOVE animation sets for an LPC humanoid
+ * LPC sheets have a dedicated row for each direction, so nothing is flipped
+ */
+function createHumanoidAnimations(
+  idle: Record<Orientation, string>,
+  walk: Record<Orientation, string>,
+): Partial<Record<CharacterState, CharacterAnimation>> {
+  const toAnimation = (keys: Record<Orientation, string>): CharacterAnimation => ({
+    down: { flip: false, anim: keys[Orientation.Down] },
+    up: { flip: false, anim: keys[Orientation.Up] },
+    left: { flip: false, anim: keys[Orientation.Left] },
+    right: { flip: false, anim: keys[Orientation.Right] },
+  });
+
+  return {
+    [CharacterState.IDLE]: toAnimation(idle),
+    [CharacterState.MOVE]: toAnimation(walk),
+  };
+}
+
+/**
+ * Goku NPC animation configurations
+ */
+export const GOKU_ANIMATIONS = createHumanoidAnimations(
+  {
+    [Orientation.Up]: ASSETS.ANIMATIONS.GOKU_IDLE_UP,
+    [Orientation.Down]: ASSETS.ANIMATIONS.GOKU_IDLE_DOWN,
+    [Orientation.Left]: ASSETS.ANIMATIONS.GOKU_IDLE_LEFT,
+    [Orientation.Right]: ASSETS.ANIMATIONS.GOKU_IDLE_RIGHT,
+  },
+  {
+    [Orientation.Up]: ASSETS.ANIMATIONS.GOKU_WALK_UP,
+    [Orientation.Down]: ASSETS.ANIMATIONS.GOKU_WALK_DOWN,
+    [Orientation.Left]: ASSETS.ANIMATIONS.GOKU_WALK_LEFT,
+    [Orientation.Right]: ASSETS.ANIMATIONS.GOKU_WALK_RIGHT,
+  },
+);
+
+/**
+ * Wizard NPC animation configurations
+ */
+export const WIZARD_ANIMATIONS = createHumanoidAnimations(
+  {
+    [Orientation.Up]: ASSETS.ANIMATIONS.WIZARD_IDLE_UP,
+    [Orientation.Down]: ASSETS.ANIMATIONS.WIZARD_IDLE_DOWN,
+    [Orientation.Left]: ASSETS.ANIMATIONS.WIZARD_IDLE_LEFT,
+    [Orientation.Right]: ASSETS.ANIMATIONS.WIZARD_IDLE_RIGHT,
+  },
+  {
+    [Orientation.Up]: ASSETS.ANIMATIONS.WIZARD_WALK_UP,
+    [Orientation.Down]: ASSETS.ANIMATIONS.WIZARD_WALK_DOWN,
+    [Orientation.Left]: ASSETS.ANIMATIONS.WIZARD_WALK_LEFT,
+    [Orientation.Right]: ASSETS.ANIMATIONS.WIZARD_WALK_RIGHT,
+  },
+);
+
+/**
+ * Female villager NPC animation configurations
+ */
+export const FEMALE_VILLAGER_ANIMATIONS = createHumanoidAnimations(
+  {
+    [Orientation.Up]: ASSETS.ANIMATIONS.FEMALE_VILLAGER_IDLE_UP,
+    [Orientation.Down]: ASSETS.ANIMATIONS.FEMALE_VILLAGER_IDLE_DOWN,
+    [Orientation.Left]: ASSETS.ANIMATIONS.FEMALE_VILLAGER_IDLE_LEFT,
+    [Orientation.Right]: ASSETS.ANIMATIONS.FEMALE_VILLAGER_IDLE_RIGHT,
+  },
+  {
+    [Orientation.Up]: ASSETS.ANIMATIONS.FEMALE_VILLAGER_WALK_UP,
+    [Orientation.Down]: ASSETS.ANIMATIONS.FEMALE_VILLAGER_WALK_DOWN,
+    [Orientation.Left]: ASSETS.ANIMATIONS.FEMALE_VILLAGER_WALK_LEFT,
+    [Orientation.Right]: ASSETS.ANIMATIONS.FEMALE_VILLAGER_WALK_RIGHT,
+  },
+);
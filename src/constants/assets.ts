@@ -7,6 +7,7 @@ export const ASSETS = {
     TREANT_ATTACK: 'treantAttack',
     HEART: 'heart',
     HEART_EMPTY: 'heart-empty',
+    HEART_HALF: 'heart-half',
     TOMB: 'tomb',
     PLAYER_IDLE_DOWN: 'player-idle-down',
     PLAYER_IDLE_UP: 'player-idle-up',
@@ -39,6 +40,16 @@ export const ASSETS = {
     GOKU_SIT: 'goku-sit',
     GOKU_SLASH: 'goku-slash',
     GOKU_COMBAT_IDLE: 'goku-combat-idle',
+    // Wizard NPC sprites
+    WIZARD_IDLE: 'wizard-idle',
+    WIZARD_WALK: 'wizard-walk',
+    // Female villager NPC sprites
+    FEMALE_VILLAGER_IDLE: 'female-villager-idle',
+    FEMALE_VILLAGER_WALK: 'female-villager-walk',
+  },
+  SPRITESHEETS: {
+    COIN: 'coin',
+    GEM: 'gem',
   },
   ANIMATIONS: {
     PLAYER_MOVE_LEFT: 'player-move-left',
@@ -64,7 +75,10 @@ export const ASSETS = {
     MOLE_WALK_DOWN: 'mole-walk-down',
     MONSTER_DEATH: 'monster-death',
     // Goku NPC animations
-    GOKU_IDLE: 'goku-idle',
+    GOKU_IDLE_UP: 'goku-idle-up',
+    GOKU_IDLE_DOWN: 'goku-idle-down',
+    GOKU_IDLE_LEFT: 'goku-idle-left',
+    GOKU_IDLE_RIGHT: 'goku-idle-right',
     GOKU_WALK_LEFT: 'goku-walk-left',
     GOKU_WALK_RIGHT: 'goku-walk-right',
     GOKU_WALK_UP: 'goku-walk-up',
@@ -74,5 +88,38 @@ export const ASSETS = {
     GOKU_SIT: 'goku-sit',
     GOKU_SLASH: 'goku-slash',
     GOKU_COMBAT_IDLE: 'goku-combat-idle',
+    // Wizard NPC animations
+    WIZARD_IDLE_UP: 'wizard-idle-up',
+    WIZARD_IDLE_DOWN: 'wizard-idle-down',
+    WIZARD_IDLE_LEFT: 'wizard-idle-left',
+    WIZARD_IDLE_RIGHT: 'wizard-idle-right',
+    WIZARD_WALK_UP: 'wizard-walk-up',
+    WIZARD_WALK_DOWN: 'wizard-walk-down',
+    WIZARD_WALK_LEFT: 'wizard-walk-left',
+    WIZARD_WALK_RIGHT: 'wizard-walk-right',
+    // Female villager NPC animations
+    FEMALE_VILLAGER_IDLE_UP: 'female-villager-idle-up',
+    FEMALE_VILLAGER_IDLE_DOWN: 'female-villager-idle-down',
+    FEMALE_VILLAGER_IDLE_LEFT: 'female-villager-idle-left',
+    FEMALE_VILLAGER_IDLE_RIGHT: 'female-villager-idle-right',
+    FEMALE_VILLAGER_WALK_UP: 'female-villager-walk-up',
+    FEMALE_VILLAGER_WALK_DOWN: 'female-villager-walk-down',
+    FEMALE_VILLAGER_WALK_LEFT: 'female-villager-walk-left',
+    FEMALE_VILLAGER_WALK_RIGHT: 'female-villager-walk-right',
+    // Item animations
+    COIN_SPIN: 'coin-spin',
+    GEM_SHINE: 'gem-shine',
+  },
+  DATA: {
+    ENTITY_DEFINITIONS: 'entity-definitions',
+    DIALOGUES: 'dialogues',
+  },
+  AUDIO: {
+    MUSIC_VILLAGE: 'music-village',
+    MUSIC_FOREST: 'music-forest',
+    SFX_ATTACK: 'sfx-attack',
+    SFX_HIT: 'sfx-hit',
+    SFX_DEATH: 'sfx-death',
+    SFX_PICKUP: 'sfx-pickup',
   },
 } as const;
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Settings of the music and sound effects
+ */
+
+export const AUDIO = {
+  /** Time the music of a level takes to replace the previous one in milliseconds */
+  CROSSFADE_DURATION: 800,
+  /** Distance from the player beyond which sound effects are not heard */
+  HEARING_DISTANCE: 240,
+} as const;
+
+/**
+ * Volume channels, the master channel scales the other two
+ */
+export const VOLUME_CHANNELS = {
+  MASTER: 'master',
+  MUSIC: 'music',
+  SFX: 'sfx',
+} as const;
+
+export type VolumeChannel = typeof VOLUME_CHANNELS[keyof typeof VOLUME_CHANNELS];
+
+/**
+ * Tiled map properties setting the audio of a level
+ */
+export const AUDIO_MAP_PROPERTIES = {
+  /** Key of the music track of the level, the level is silent without it */
+  MUSIC: 'music',
+} as const;
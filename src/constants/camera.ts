@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Camera settings of the levels, maps override the defaults with their Tiled properties
+ */
+
+export const CAMERA = {
+  /** How quickly the camera catches up with its target, 1 sticks to it */
+  LERP: 1,
+  /** Size of the area the target moves in without moving the camera, none by default */
+  DEAD_ZONE_WIDTH: 0,
+  DEAD_ZONE_HEIGHT: 0,
+  /** Distance the camera looks ahead of a moving target, none by default */
+  LOOK_AHEAD: 0,
+  /** Speed of the target at which the camera looks the furthest ahead */
+  LOOK_AHEAD_SPEED: 120,
+  /** Part of the remaining look-ahead distance covered each frame */
+  LOOK_AHEAD_LERP: 0.05,
+  ZOOM: 1,
+  /** Time the camera takes to scroll to the next room in milliseconds */
+  ROOM_SCROLL_DURATION: 500,
+  /** Time the camera takes to pan to a focus point and back in milliseconds */
+  FOCUS_PAN_DURATION: 600,
+  /** Time the camera shakes when its target is hit in milliseconds */
+  SHAKE_DURATION: 150,
+  /** Shake intensity per point of damage, as a fraction of the screen size */
+  SHAKE_INTENSITY: 0.004,
+  /** Strongest shake of a hit */
+  MAX_SHAKE_INTENSITY: 0.02,
+} as const;
+
+/**
+ * Tiled map properties overriding the camera settings of a level
+ */
+export const CAMERA_MAP_PROPERTIES = {
+  LERP: 'cameraLerp',
+  DEAD_ZONE_WIDTH: 'cameraDeadZoneWidth',
+  DEAD_ZONE_HEIGHT: 'cameraDeadZoneHeight',
+  LOOK_AHEAD: 'cameraLookAhead',
+  ZOOM: 'cameraZoom',
+} as const;
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Damage types and combat settings
+ */
+
+export const DAMAGE_TYPES = {
+  PHYSICAL: 'physical',
+  PIERCING: 'piercing',
+  CRUSHING: 'crushing',
+  MAGIC: 'magic',
+} as const;
+
+export type DamageType = typeof DAMAGE_TYPES[keyof typeof DAMAGE_TYPES];
+
+export const COMBAT = {
+  /** Invulnerability after a hit in milliseconds, unless the character sets its own */
+  DEFAULT_INVULNERABILITY: 500,
+  /** Damage multiplier of critical hits */
+  CRIT_MULTIPLIER: 2,
+  /** Time during which a knocked back character cannot move on its own in milliseconds */
+  KNOCKBACK_DURATION: 150,
+  /** Knockback speed of melee hits */
+  MELEE_KNOCKBACK: 80,
+  /** Knockback speed of arrows */
+  ARROW_KNOCKBACK: 60,
+  /** Chance of an arrow to be a critical hit */
+  ARROW_CRIT_CHANCE: 0.1,
+} as const;
+
+/**
+ * Stamina of the player, spent by the attacks and regenerated over time
+ */
+export const STAMINA = {
+  MAX: 100,
+  /** Stamina spent by each punch */
+  PUNCH_COST: 15,
+  /** Stamina spent by each arrow shot */
+  SHOOT_COST: 30,
+  /** Stamina regained each second */
+  REGENERATION: 40,
+} as const;
@@ -5,7 +5,14 @@
 
 import { EntityType, ENTITIES } from './entities';
 import { CharacterState } from './character-states';
-import { PLAYER_ANIMATIONS, MOLE_ANIMATIONS, TREANT_ANIMATIONS } from './animation-configs';
+import {
+  PLAYER_ANIMATIONS,
+  MOLE_ANIMATIONS,
+  TREANT_ANIMATIONS,
+  GOKU_ANIMATIONS,
+  WIZARD_ANIMATIONS,
+  FEMALE_VILLAGER_ANIMATIONS,
+} from './animation-configs';
 import { CharacterAnimation } from '../game-objects/Character';
 
 /**
@@ -17,8 +24,8 @@ export const ENTITY_DIMENSIONS: Record<EntityType, { width: number, height: numb
   [ENTITIES.MOLE]: { width: 24, height: 24 },
   [ENTITIES.TREANT]: { width: 31, height: 35 },
   [ENTITIES.GOKU]: { width: 64, height: 64 },
-  [ENTITIES.WIZARD]: { width: 32, height: 32 },
-  [ENTITIES.FEMALE_VILLAGER]: { width: 32, height: 32 },
+  [ENTITIES.WIZARD]: { width: 64, height: 64 },
+  [ENTITIES.FEMALE_VILLAGER]: { width: 64, height: 64 },
 };
 
 /**
@@ -42,6 +49,20 @@ const standardizedTreantAnimations: Record<string, CharacterAnimation> = {
   [CharacterState.DEATH]: TREANT_ANIMATIONS[CharacterState.IDLE],
 };
 
+/**
+ * Standardized humanoid NPC animations
+ * NPCs have no hit or death animations, so those states fall back to IDLE
+ */
+function standardizeHumanoidAnimations(
+  animations: Partial<Record<CharacterState, CharacterAnimation>>,
+): Record<string, CharacterAnimation> {
+  return {
+    ...animations,
+    [CharacterState.HIT]: animations[CharacterState.IDLE],
+    [CharacterState.DEATH]: animations[CharacterState.IDLE],
+  };
+}
+
 /**
  * Central mapping between entity types and animation configurations
  * Provides a single source of truth for which animations apply to which entities
@@ -50,10 +71,9 @@ export const ENTITY_ANIMATIONS: Record<EntityType, Record<string, CharacterAnima
   [ENTITIES.PLAYER]: PLAYER_ANIMATIONS,
   [ENTITIES.MOLE]: standardizedMoleAnimations,
   [ENTITIES.TREANT]: standardizedTreantAnimations,
-  // Add defaults for other entities
-  [ENTITIES.GOKU]: {}, // To be filled with Goku-specific animations
-  [ENTITIES.WIZARD]: {}, // To be filled with Wizard-specific animations
-  [ENTITIES.FEMALE_VILLAGER]: {}, // To be filled with Villager-specific animations
+  [ENTITIES.GOKU]: standardizeHumanoidAnimations(GOKU_ANIMATIONS),
+  [ENTITIES.WIZARD]: standardizeHumanoidAnimations(WIZARD_ANIMATIONS),
+  [ENTITIES.FEMALE_VILLAGER]: standardizeHumanoidAnimations(FEMALE_VILLAGER_ANIMATIONS),
 };
 
 /**
@@ -1,3 +1,21 @@
 export const EVENTS = {
   UPDATE_HP: 'update-hp',
+  UPDATE_STAMINA: 'update-stamina',
+  UPDATE_INVENTORY: 'update-inventory',
+  UPDATE_VOLUME: 'update-volume',
+  CHARACTER_DAMAGED: 'character-damaged',
+  CHARACTER_DEATH: 'character-death',
+  CHARACTER_ATTACK: 'character-attack',
+  AI_STATE_CHANGED: 'ai-state-changed',
+  ENTITY_SPAWNED: 'entity-spawned',
+  ENTITY_DEFEATED: 'entity-defeated',
+  BOSS_ENGAGED: 'boss-engaged',
+  ITEM_COLLECTED: 'item-collected',
+  ZONE_TRIGGERED: 'zone-triggered',
+  SCENE_CHANGED: 'scene-changed',
+  START_DIALOGUE: 'start-dialogue',
+  DIALOGUE_ENDED: 'dialogue-ended',
+  DIALOGUE_ACTION: 'dialogue-action',
+  TRANSITION_START: 'transition-start',
+  TRANSITION_END: 'transition-end',
 } as const;
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Layout of the heads-up display, measured from the edges of the screen
+ */
+
+import { ItemType } from '../types/item-types';
+
+export const HUD_LAYOUT = {
+  /** Distance between the HUD and the edges of the screen */
+  MARGIN: 8,
+  /** Health points shown by a full heart, the half points left by resistances show half hearts */
+  HP_PER_HEART: 1,
+  /** Distance between heart sprites */
+  DISTANCE_BETWEEN_HEARTS: 15,
+  /** Part of the screen width the hearts fill before starting a new row */
+  HEARTS_WIDTH_RATIO: 0.5,
+  STAMINA_BAR_WIDTH: 60,
+  STAMINA_BAR_HEIGHT: 4,
+  STAMINA_BAR_COLOR: 0x3ad85a,
+  /** Distance between item counters */
+  DISTANCE_BETWEEN_COUNTERS: 10,
+  /** Part of the screen width the boss health bar fills */
+  BOSS_BAR_WIDTH_RATIO: 0.6,
+  /** Widest boss health bar on large screens */
+  BOSS_BAR_MAX_WIDTH: 240,
+  BOSS_BAR_HEIGHT: 6,
+  BOSS_BAR_COLOR: 0xd83a3a,
+  BOSS_BAR_BACKGROUND_COLOR: 0x222222,
+} as const;
+
+/**
+ * Types of the items counted under the hearts, in display order
+ */
+export const HUD_COUNTED_ITEM_TYPES: ItemType[] = ['currency', 'ammo'];
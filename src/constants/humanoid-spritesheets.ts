@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Layout of the LPC humanoid spritesheets in assets/humanoid-spritesheets
+ * Every sheet has one row per direction, in the order up, left, down, right
+ */
+
+import { Orientation } from '../geometry/orientation';
+
+export const HUMANOID_SPRITESHEET = {
+  /** Width and height of a single frame */
+  FRAME_SIZE: 64,
+  /** Row of each orientation in a sheet */
+  ROWS: {
+    [Orientation.Up]: 0,
+    [Orientation.Left]: 1,
+    [Orientation.Down]: 2,
+    [Orientation.Right]: 3,
+  } as Record<Orientation, number>,
+  /** Number of frames per row for each sheet */
+  COLUMNS: {
+    IDLE: 2,
+    WALK: 9,
+    RUN: 8,
+  },
+} as const;
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Input actions and their default bindings
+ */
+
+import { InputBindings } from '../types/input-types';
+
+/** Actions the player can perform, bound to keys and gamepad controls */
+export const INPUT_ACTIONS = {
+  MOVE_LEFT: 'move-left',
+  MOVE_RIGHT: 'move-right',
+  MOVE_UP: 'move-up',
+  MOVE_DOWN: 'move-down',
+  ATTACK: 'attack',
+  SHOOT: 'shoot',
+  INTERACT: 'interact',
+  PAUSE: 'pause',
+  INVENTORY: 'inventory',
+} as const;
+
+export type InputAction = typeof INPUT_ACTIONS[keyof typeof INPUT_ACTIONS];
+
+/** Standard gamepad mapping, see https://w3c.github.io/gamepad/#remapping */
+export const GAMEPAD = {
+  BUTTONS: {
+    A: 0,
+    B: 1,
+    X: 2,
+    Y: 3,
+    SELECT: 8,
+    START: 9,
+    DPAD_UP: 12,
+    DPAD_DOWN: 13,
+    DPAD_LEFT: 14,
+    DPAD_RIGHT: 15,
+  },
+  AXES: {
+    LEFT_STICK_X: 0,
+    LEFT_STICK_Y: 1,
+  },
+} as const;
+
+export const INPUT = {
+  /** Storage key of the customized bindings */
+  STORAGE_KEY: 'phaser3-simple-rpg.bindings',
+  /** Axis values below this magnitude are ignored */
+  STICK_DEADZONE: 0.2,
+} as const;
+
+/** Bindings used until the player customizes them; keyboard keys are Phaser KeyCodes names */
+export const DEFAULT_BINDINGS: InputBindings = {
+  [INPUT_ACTIONS.MOVE_LEFT]: [
+    { device: 'keyboard', key: 'LEFT' },
+    { device: 'gamepad', button: GAMEPAD.BUTTONS.DPAD_LEFT },
+    { device: 'gamepad', axis: GAMEPAD.AXES.LEFT_STICK_X, direction: -1 },
+  ],
+  [INPUT_ACTIONS.MOVE_RIGHT]: [
+    { device: 'keyboard', key: 'RIGHT' },
+    { device: 'gamepad', button: GAMEPAD.BUTTONS.DPAD_RIGHT },
+    { device: 'gamepad', axis: GAMEPAD.AXES.LEFT_STICK_X, direction: 1 },
+  ],
+  [INPUT_ACTIONS.MOVE_UP]: [
+    { device: 'keyboard', key: 'UP' },
+    { device: 'gamepad', button: GAMEPAD.BUTTONS.DPAD_UP },
+    { device: 'gamepad', axis: GAMEPAD.AXES.LEFT_STICK_Y, direction: -1 },
+  ],
+  [INPUT_ACTIONS.MOVE_DOWN]: [
+    { device: 'keyboard', key: 'DOWN' },
+    { device: 'gamepad', button: GAMEPAD.BUTTONS.DPAD_DOWN },
+    { device: 'gamepad', axis: GAMEPAD.AXES.LEFT_STICK_Y, direction: 1 },
+  ],
+  [INPUT_ACTIONS.ATTACK]: [
+    { device: 'keyboard', key: 'SHIFT' },
+    { device: 'gamepad', button: GAMEPAD.BUTTONS.X },
+  ],
+  [INPUT_ACTIONS.SHOOT]: [
+    { device: 'keyboard', key: 'SPACE' },
+    { device: 'gamepad', button: GAMEPAD.BUTTONS.A },
+  ],
+  [INPUT_ACTIONS.INTERACT]: [
+    { device: 'keyboard', key: 'E' },
+    { device: 'gamepad', button: GAMEPAD.BUTTONS.Y },
+  ],
+  [INPUT_ACTIONS.PAUSE]: [
+    { device: 'keyboard', key: 'ESC' },
+    { device: 'gamepad', button: GAMEPAD.BUTTONS.START },
+  ],
+  [INPUT_ACTIONS.INVENTORY]: [
+    { device: 'keyboard', key: 'I' },
+    { device: 'gamepad', button: GAMEPAD.BUTTONS.SELECT },
+  ],
+};
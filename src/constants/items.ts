@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Definitions of the items found in the world
+ */
+
+import { ASSETS } from './assets';
+import { InventoryContents, ItemDefinition } from '../types/item-types';
+
+export const ITEMS = {
+  COIN: 'coin',
+  GEM: 'gem',
+  HEART: 'heart',
+  ARROW: 'arrow',
+} as const;
+
+export type ItemId = typeof ITEMS[keyof typeof ITEMS];
+
+export const ITEM_DEFINITIONS: Record<ItemId, ItemDefinition> = {
+  [ITEMS.COIN]: {
+    id: ITEMS.COIN,
+    name: 'Coin',
+    type: 'currency',
+    texture: ASSETS.SPRITESHEETS.COIN,
+    animation: ASSETS.ANIMATIONS.COIN_SPIN,
+    stackable: true,
+    maxStack: 999,
+  },
+  [ITEMS.GEM]: {
+    id: ITEMS.GEM,
+    name: 'Gem',
+    type: 'currency',
+    texture: ASSETS.SPRITESHEETS.GEM,
+    animation: ASSETS.ANIMATIONS.GEM_SHINE,
+    stackable: true,
+    maxStack: 99,
+  },
+  [ITEMS.HEART]: {
+    id: ITEMS.HEART,
+    name: 'Heart',
+    type: 'consumable',
+    texture: ASSETS.IMAGES.HEART,
+    scale: 0.5,
+    stackable: false,
+    effects: [{ type: 'heal', amount: 1 }],
+    useOnPickup: true,
+  },
+  [ITEMS.ARROW]: {
+    id: ITEMS.ARROW,
+    name: 'Arrow',
+    type: 'ammo',
+    texture: ASSETS.IMAGES.ARROW,
+    scale: 0.5,
+    stackable: true,
+    maxStack: 99,
+  },
+};
+
+/**
+ * Inventory of the player at the start of a new game
+ */
+export const STARTING_INVENTORY: InventoryContents = {
+  [ITEMS.ARROW]: 20,
+};
+
+/**
+ * Get the definition of an item
+ * @param itemId - Item identifier
+ * @returns The definition or undefined if the item does not exist
+ */
+export function getItemDefinition(itemId: string): ItemDefinition | undefined {
+  return ITEM_DEFINITIONS[itemId as ItemId];
+}
@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Settings of the loot dropped by defeated entities
+ */
+
+export const LOOT = {
+  /** Maximum distance a drop lands from the defeated entity */
+  SCATTER_RADIUS: 16,
+  /** Duration of the scatter animation in milliseconds */
+  SCATTER_DURATION: 300,
+  /** Time before an uncollected drop disappears in milliseconds */
+  DESPAWN_DELAY: 10000,
+  /** Drops blink during the end of their lifetime in milliseconds */
+  BLINK_DURATION: 2000,
+} as const;
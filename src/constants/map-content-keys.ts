@@ -8,5 +8,8 @@ export const MAP_CONTENT_KEYS = {
     NPCS: 'npcs',
     MONSTERS: 'monsters',
     ZONES: 'zones',
+    ITEMS: 'items',
+    SPAWNS: 'spawns',
+    ROOMS: 'rooms',
   },
 } as const;
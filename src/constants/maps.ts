@@ -7,4 +7,8 @@ export const MAPS = {
     file: 'maps/second-map.json',
     key: 'second-level',
   },
+  /** Generated at runtime, there is no map file to load */
+  proceduralLevel: {
+    key: 'procedural-level',
+  },
 } as const;
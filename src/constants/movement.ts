@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Default settings of the roaming movement behaviors and of the player movement
+ */
+
+export const MOVEMENT_DEFAULTS = {
+  /** Walking speed of roaming entities */
+  SPEED: 20,
+  /** Maximum distance from home of a wandering entity */
+  WANDER_RADIUS: 48,
+  /** Time spent standing between two wanders in milliseconds */
+  WANDER_PAUSE: 1500,
+  /** Time spent standing at each patrol waypoint in milliseconds */
+  PATROL_PAUSE: 0,
+} as const;
+
+export const PLAYER_MOVEMENT = {
+  /** Speed gained per second while a direction is held, in pixels per second squared */
+  ACCELERATION: 1200,
+  /** Speed lost per second once the direction is released, in pixels per second squared */
+  DECELERATION: 1600,
+  /** Longest frame taken into account in milliseconds, avoids jumps after a pause */
+  MAX_FRAME_DURATION: 100,
+} as const;
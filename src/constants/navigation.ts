@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Settings of the grid navigation used by the monsters
+ */
+
+export const NAVIGATION = {
+  /** Number of paths kept in the cache of the pathfinder */
+  PATH_CACHE_SIZE: 128,
+  /** Cells explored before a search gives up, bounds the cost of unreachable goals */
+  MAX_SEARCH_NODES: 2000,
+  /** Delay between two path computations of a moving entity in milliseconds */
+  REPATH_INTERVAL: 500,
+  /** Distance at which a waypoint counts as reached in pixels */
+  WAYPOINT_TOLERANCE: 2,
+} as const;
@@ -0,0 +1,16 @@
+/**
+ * @fileoverview Settings of the pause menu and of the options it edits
+ */
+
+export const OPTIONS = {
+  /** Storage key of the master volume */
+  VOLUME_STORAGE_KEY: 'phaser3-simple-rpg.volume',
+  /** Storage key of the music volume */
+  MUSIC_VOLUME_STORAGE_KEY: 'phaser3-simple-rpg.volume.music',
+  /** Storage key of the sound effects volume */
+  SFX_VOLUME_STORAGE_KEY: 'phaser3-simple-rpg.volume.sfx',
+  /** Volume change of each step of the volume option */
+  VOLUME_STEP: 0.1,
+  /** Volume of a first session */
+  DEFAULT_VOLUME: 1,
+} as const;
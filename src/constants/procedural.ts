@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Room types and settings of the procedural level generator
+ */
+
+import { ENTITIES } from './entities';
+
+/** Roles of the rooms of a generated level */
+export const ROOM_TYPES = {
+  START: 'start',
+  END: 'end',
+  MONSTER: 'monster',
+  EMPTY: 'empty',
+} as const;
+
+export type RoomType = typeof ROOM_TYPES[keyof typeof ROOM_TYPES];
+
+export const PROCEDURAL = {
+  /** Size of the generated map in tiles */
+  WIDTH: 48,
+  HEIGHT: 48,
+  TILE_SIZE: 16,
+  /** Leaves of the BSP tree are never split below this size */
+  MIN_LEAF_SIZE: 10,
+  MIN_ROOM_SIZE: 4,
+  /** Wall tiles kept between a room and the border of its leaf */
+  ROOM_PADDING: 1,
+  /** Corridors are wide enough for the player body */
+  CORRIDOR_WIDTH: 2,
+  MAX_MONSTERS_PER_ROOM: 2,
+  /** Chance that a room besides the start and the end holds monsters */
+  MONSTER_ROOM_CHANCE: 0.7,
+  /** Chance of a decoration on a room floor tile */
+  DECO_CHANCE: 0.04,
+  MONSTER_TYPES: [ENTITIES.MOLE, ENTITIES.TREANT],
+  /** Tile gids of the shared tileset */
+  TILES: {
+    FLOOR: 626,
+    WALL: 84,
+    DECO: [737, 738, 938],
+  },
+  /** Story flag holding the seed of the current level, saved with the other flags */
+  SEED_FLAG: 'proceduralSeed',
+} as const;
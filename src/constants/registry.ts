@@ -1,5 +1,19 @@
 export const REGISTRY_KEYS = {
   PLAYER: {
     HP: 'playerHp',
+    MAX_HP: 'playerMaxHp',
+    INVENTORY: 'playerInventory',
+  },
+  /** Prefix of the story flags set by dialogues */
+  FLAG_PREFIX: 'flag.',
+  WORLD: {
+    /** Spawn ids of the defeated entities, keyed by map */
+    KILLED_ENTITIES: 'killedEntities',
+    /** Spawn ids of the collected pickups, keyed by map */
+    COLLECTED_ITEMS: 'collectedItems',
+    /** Ids of the one-shot zones that triggered, keyed by map */
+    TRIGGERED_ZONES: 'triggeredZones',
+    /** Level and position the player respawns at */
+    CHECKPOINT: 'checkpoint',
   },
 } as const;
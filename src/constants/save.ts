@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Settings of the save system
+ */
+
+export const SAVE = {
+  /** Version of the snapshots written by the game, bump it and add a migration on format changes */
+  VERSION: 5,
+  /** Number of save slots */
+  SLOT_COUNT: 3,
+  /** Prefix of the storage keys, followed by the slot index */
+  STORAGE_KEY_PREFIX: 'phaser3-simple-rpg.save.',
+  /** Slot used by the quick save and quick load shortcuts */
+  QUICK_SAVE_SLOT: 0,
+} as const;
@@ -1,6 +1,11 @@
 export const SCENES = {
   GAME_MANAGER: 'GameManager',
   HUD: 'Hud',
+  DIALOGUE: 'Dialogue',
+  PAUSE: 'Pause',
+  TITLE: 'Title',
+  GAME_OVER: 'GameOver',
   FIRST_LEVEL: 'FirstLevel',
   SECOND_LEVEL: 'SecondLevel',
+  PROCEDURAL_LEVEL: 'ProceduralLevel',
 } as const;
@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Effects covering the screen while the game changes scene and their settings
+ */
+
+export const TRANSITION_EFFECTS = {
+  /** The screen fades to black */
+  FADE: 'fade',
+  /** A circle closes on the player then opens on them in the next scene */
+  IRIS: 'iris',
+  /** Black sweeps across the screen in the direction the player walks */
+  WIPE: 'wipe',
+} as const;
+
+export type TransitionEffect = typeof TRANSITION_EFFECTS[keyof typeof TRANSITION_EFFECTS];
+
+/**
+ * Halves of a transition, the outgoing scene covers the screen and the incoming one uncovers it
+ */
+export const TRANSITION_PHASES = {
+  OUT: 'out',
+  IN: 'in',
+} as const;
+
+export type TransitionPhase = typeof TRANSITION_PHASES[keyof typeof TRANSITION_PHASES];
+
+export const TRANSITIONS = {
+  /** Effect of the scene changes that do not select one */
+  DEFAULT_EFFECT: TRANSITION_EFFECTS.FADE,
+  /** Time each half of a transition takes in milliseconds */
+  DURATION: 400,
+  /** Color covering the screen */
+  COLOR: 0x000000,
+  /** Drawn above everything else of the level */
+  DEPTH: 10000,
+  /** Maps with more tiles than this hold the screen covered while they settle */
+  LARGE_MAP_TILES: 2000,
+  /** Time a large map stays covered before being uncovered in milliseconds */
+  LOADING_HOLD: 500,
+  /** Text shown while a large map is held */
+  LOADING_TEXT: 'Loading...',
+} as const;
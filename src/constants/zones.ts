@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Types of the zones drawn in the zones object layer of the maps and their settings
+ */
+
+export const ZONE_TYPES = {
+  /** Starts the scene of the `scene` property with the `transition` effect */
+  CHANGE_SCENE: 'CHANGE_SCENE',
+  /** Becomes the respawn point when touched, heals when the `heal` property is set */
+  CHECKPOINT: 'CHECKPOINT',
+  /** Opens the conversation of the `dialogKey` property */
+  DIALOGUE: 'DIALOGUE',
+  /** Spawns `count` entities of the `entity` type, at the points of the `spawnPoints` object if set */
+  SPAWN_WAVE: 'SPAWN_WAVE',
+  /** Hurts the player by `damage` points of the `damageType` type */
+  DAMAGE: 'DAMAGE',
+  /** Pans the camera to the `focus` object for `duration` ms, opening the `dialogKey` conversation if set */
+  CUTSCENE: 'CUTSCENE',
+  /** Shows the `message` property above the player */
+  MESSAGE: 'MESSAGE',
+} as const;
+
+export type ZoneType = typeof ZONE_TYPES[keyof typeof ZONE_TYPES];
+
+/**
+ * Moments a zone can trigger at, selected by the `event` property
+ */
+export const ZONE_EVENTS = {
+  /** The player walks into the zone */
+  ENTER: 'enter',
+  /** The player walks out of the zone */
+  EXIT: 'exit',
+  /** Every frame the player is inside the zone, at most once per `interval` */
+  STAY: 'stay',
+} as const;
+
+export type ZoneEvent = typeof ZONE_EVENTS[keyof typeof ZONE_EVENTS];
+
+export const ZONES = {
+  /** Damage dealt by a damage zone without a damage property */
+  DAMAGE: 1,
+  /** Time between two damages of a damage zone in milliseconds */
+  DAMAGE_INTERVAL: 500,
+  /** Entities spawned by a wave without a count */
+  WAVE_SIZE: 1,
+  /** Time the camera stays on the focus of a cutscene in milliseconds */
+  CUTSCENE_DURATION: 1500,
+  /** Time a message stays fully visible in milliseconds */
+  MESSAGE_DURATION: 2000,
+  /** Time a message takes to fade out in milliseconds */
+  MESSAGE_FADE_DURATION: 500,
+  /** Maximum width of a message */
+  MESSAGE_WIDTH: 120,
+} as const;
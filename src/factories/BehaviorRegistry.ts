@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Registry of named behavior factories used by data-driven entities
+ */
+
+import {
+  IMovementBehavior,
+  ICombatBehavior,
+  IInteractionBehavior,
+  IAIBehavior,
+} from '../behaviors/interfaces';
+import { ChaseMovement } from '../behaviors/movement/ChaseMovement';
+import { StationaryMovement } from '../behaviors/movement/StationaryMovement';
+import { PathFollowMovement } from '../behaviors/movement/PathFollowMovement';
+import { WanderMovement } from '../behaviors/movement/WanderMovement';
+import { MeleeCombat } from '../behaviors/combat/MeleeCombat';
+import { RangedCombat } from '../behaviors/combat/RangedCombat';
+import { PassiveCombat } from '../behaviors/combat/PassiveCombat';
+import { NoInteraction } from '../behaviors/interaction/NoInteraction';
+import { GreetingInteraction } from '../behaviors/interaction/GreetingInteraction';
+import { DialogueInteraction } from '../behaviors/interaction/DialogueInteraction';
+import { StateMachineAI } from '../behaviors/ai/StateMachineAI';
+import { Log } from '../game-objects/projectiles/Log';
+import { AbstractScene } from '../scenes/AbstractScene';
+import { NAVIGATION } from '../constants/navigation';
+import { AI_COMBAT_MODES, AI_DEFAULTS, AICombatMode } from '../constants/ai';
+import { MOVEMENT_DEFAULTS } from '../constants/movement';
+import { BehaviorConfig, BehaviorContext, BehaviorParams } from '../types/entities/entity-definitions';
+
+/**
+ * Function building a behavior from its parameters
+ */
+export type BehaviorFactory<T> = (params: BehaviorParams, context: BehaviorContext) => T;
+
+/**
+ * Function spawning a projectile at the position of the entity shooting it
+ */
+export type ProjectileFactory = (scene: AbstractScene, x: number, y: number) => void;
+
+/**
+ * Behavior slots available on a NonPlayerEntity
+ */
+export interface BehaviorSlots {
+  movement: IMovementBehavior;
+  combat: ICombatBehavior;
+  interaction: IInteractionBehavior;
+  ai: IAIBehavior;
+}
+
+export type BehaviorSlot = keyof BehaviorSlots;
+
+/**
+ * Maps behavior names found in entity definitions to behavior factories
+ *
+ * Every slot comes pre-populated with the behaviors shipped with the game.
+ * Additional behaviors can be registered at runtime with `register()`.
+ */
+export class BehaviorRegistry {
+  private factories: { [S in BehaviorSlot]: Map<string, BehaviorFactory<BehaviorSlots[S]>> } = {
+    movement: new Map(),
+    combat: new Map(),
+    interaction: new Map(),
+    ai: new Map(),
+  };
+  private projectiles: Map<string, ProjectileFactory> = new Map();
+
+  /**
+   * Create a new BehaviorRegistry with the default behaviors registered
+   */
+  constructor() {
+    this.registerDefaults();
+  }
+
+  /**
+   * Register a behavior factory for a slot
+   * @param slot - The behavior slot (movement, combat, interaction, ai)
+   * @param name - Name used in entity definitions
+   * @param factory - Function building the behavior
+   */
+  public register<S extends BehaviorSlot>(
+    slot: S,
+    name: string,
+    factory: BehaviorFactory<BehaviorSlots[S]>,
+  ): void {
+    (this.factories[slot] as Map<string, BehaviorFactory<BehaviorSlots[S]>>).set(name, factory);
+  }
+
+  /**
+   * Register a projectile that ranged behaviors can reference by name
+   * @param name - Name used in behavior params
+   * @param factory - Function spawning the projectile
+   */
+  public registerProjectile(name: string, factory: ProjectileFactory): void {
+    this.projectiles.set(name, factory);
+  }
+
+  /**
+   * Check if a behavior is registered for a slot
+   */
+  public has(slot: BehaviorSlot, name: string): boolean {
+    return this.factories[slot].has(name);
+  }
+
+  /**
+   * Build a behavior from its configuration
+   * @param slot - The behavior slot
+   * @param config - Behavior configuration from the entity definition
+   * @param context - Creation context
+   * @returns The behavior or null if the name is unknown
+   */
+  public create<S extends BehaviorSlot>(
+    slot: S,
+    config: BehaviorConfig,
+    context: BehaviorContext,
+  ): BehaviorSlots[S] | null {
+    const factory = (this.factories[slot] as Map<string, BehaviorFactory<BehaviorSlots[S]>>).get(
+      config.type,
+    );
+    if (!factory) {
+      console.warn(`BehaviorRegistry: Unknown ${slot} behavior "${config.type}"`);
+      return null;
+    }
+    return factory(config.params || {}, context);
+  }
+
+  /**
+   * Register the behaviors shipped with the game
+   */
+  private registerDefaults(): void {
+    this.register('movement', 'chase', params =>
+      new ChaseMovement(numberParam(params, 'chasingDistance', 100)),
+    );
+    this.register('movement', 'pathfind', params =>
+      new PathFollowMovement(
+        numberParam(params, 'chasingDistance', 100),
+        numberParam(params, 'speed', 20),
+        numberParam(params, 'repathInterval', NAVIGATION.REPATH_INTERVAL),
+      ),
+    );
+    this.register('movement', 'wander', params =>
+      new WanderMovement(
+        numberParam(params, 'radius', MOVEMENT_DEFAULTS.WANDER_RADIUS),
+        numberParam(params, 'pause', MOVEMENT_DEFAULTS.WANDER_PAUSE),
+        numberParam(params, 'speed', MOVEMENT_DEFAULTS.SPEED),
+      ),
+    );
+    this.register('movement', 'stationary', () => new StationaryMovement());
+
+    this.register('combat', 'melee', params =>
+      new MeleeCombat(numberParam(params, 'hitDelay', 1000)),
+    );
+    this.register('combat', 'ranged', params => {
+      const projectile = this.projectiles.get(params.projectile as string);
+      return new RangedCombat(projectile, numberParam(params, 'hitDelay', 1000));
+    });
+    this.register('combat', 'passive', () => new PassiveCombat());
+
+    this.register('interaction', 'none', () => new NoInteraction());
+    this.register('interaction', 'greeting', (params, context) => {
+      // A message set on the Tiled object overrides the default greeting
+      const greeting = context.spawnObject?.properties?.message || (params.greeting as string) || '';
+      return new GreetingInteraction(greeting, numberParam(params, 'interactionDistance', 40));
+    });
+    this.register('interaction', 'dialogue', params =>
+      new DialogueInteraction(numberParam(params, 'interactionDistance', 40)),
+    );
+
+    this.register('ai', 'fsm', (params, context) => createStateMachineAI(params, context));
+
+    this.registerProjectile('log', (scene, x, y) => new Log(scene, x, y));
+  }
+}
+
+/**
+ * Build a state machine AI, the combatMode property of the Tiled object
+ * overrides the one of the definition
+ */
+function createStateMachineAI(params: BehaviorParams, context: BehaviorContext): StateMachineAI {
+  const properties = context.spawnObject?.properties;
+  const combatMode = properties?.combatMode ?? params.combatMode ?? AI_DEFAULTS.COMBAT_MODE;
+  const combatModes: string[] = Object.values(AI_COMBAT_MODES);
+  if (!combatModes.includes(combatMode as string)) {
+    console.warn(`BehaviorRegistry: Unknown combat mode "${combatMode}"`);
+  }
+
+  return new StateMachineAI({
+    combatMode: combatModes.includes(combatMode as string)
+      ? (combatMode as AICombatMode)
+      : AI_DEFAULTS.COMBAT_MODE,
+    sightRange: numberParam(params, 'sightRange', AI_DEFAULTS.SIGHT_RANGE),
+    attackRange: numberParam(params, 'attackRange', AI_DEFAULTS.ATTACK_RANGE),
+    leashDistance: numberParam(params, 'leashDistance', AI_DEFAULTS.LEASH_DISTANCE),
+    alertDuration: numberParam(params, 'alertDuration', AI_DEFAULTS.ALERT_DURATION),
+    fleeHealthRatio: numberParam(params, 'fleeHealthRatio', AI_DEFAULTS.FLEE_HEALTH_RATIO),
+    fleeDistance: numberParam(params, 'fleeDistance', AI_DEFAULTS.FLEE_DISTANCE),
+    speed: numberParam(params, 'speed', AI_DEFAULTS.SPEED),
+  });
+}
+
+/**
+ * Read a numeric parameter with a default value
+ */
+export function numberParam(params: BehaviorParams, key: string, defaultValue: number): number {
+  const value = params[key];
+  return typeof value === 'number' ? value : defaultValue;
+}
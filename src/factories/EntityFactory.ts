@@ -3,27 +3,64 @@
  */
 
 import { AbstractScene } from '../scenes/AbstractScene';
-import { ENTITIES } from '../constants/entities';
+import { ASSETS } from '../constants/assets';
+import { EntityType } from '../constants/entities';
+import { CharacterState } from '../constants/character-states';
 import { Player } from '../game-objects/Player';
-import { Treant } from '../game-objects/enemies/Treant';
-import { Mole } from '../game-objects/enemies/Mole';
+import { NonPlayerEntity } from '../game-objects/entities/NonPlayerEntity';
+import { BaseEntityAnimation } from '../behaviors/animation/BaseEntityAnimation';
 import { INonPlayerEntity } from '../types/entities/entity-interfaces';
+import { EntityDefinition, BehaviorContext } from '../types/entities/entity-definitions';
+import { CustomTilemapObject } from '../types/scene-types';
+import { getEntityDefinitions } from '../utils/entity-definitions';
+import { BehaviorRegistry } from './BehaviorRegistry';
 
 /**
  * Factory for creating game entities
- * 
+ *
  * Centralizes entity creation logic and dependencies to make the system more extensible.
- * Uses behavior composition to define entity behaviors.
+ * Non-player entities are built from the entity definitions loaded by the Preloader,
+ * with their behaviors resolved by name through the BehaviorRegistry.
  */
 export class EntityFactory {
   private scene: AbstractScene;
+  private behaviorRegistry: BehaviorRegistry;
+  private definitions: Map<string, EntityDefinition>;
 
   /**
    * Create a new EntityFactory
    * @param scene - The scene to create entities in
+   * @param behaviorRegistry - Optional registry, a default one is created otherwise
    */
-  constructor(scene: AbstractScene) {
+  constructor(scene: AbstractScene, behaviorRegistry: BehaviorRegistry = new BehaviorRegistry()) {
     this.scene = scene;
+    this.behaviorRegistry = behaviorRegistry;
+    this.definitions = getEntityDefinitions(
+      this.scene.cache.json.get(ASSETS.DATA.ENTITY_DEFINITIONS),
+    );
+  }
+
+  /**
+   * Get the behavior registry used to resolve behavior names
+   */
+  public getBehaviorRegistry(): BehaviorRegistry {
+    return this.behaviorRegistry;
+  }
+
+  /**
+   * Get the definition of an entity type
+   * @param type - Entity type identifier
+   */
+  public getDefinition(type: string): EntityDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  /**
+   * Check if an entity type has a definition
+   * @param type - Entity type identifier
+   */
+  public hasDefinition(type: string): boolean {
+    return this.definitions.has(type);
   }
 
   /**
@@ -38,58 +75,110 @@ export class EntityFactory {
 
   /**
    * Create a non-player entity of the specified type
-   * @param type - Entity type identifier from ENTITIES constant
+   * @param type - Entity type identifier from the entity definitions
    * @param x - X position
    * @param y - Y position
+   * @param spawnObject - Tiled object the entity is spawned from, if any
    * @returns The created entity or null if invalid type
    */
-  public createEntity(type: string, x: number, y: number): INonPlayerEntity | null {
-    // Hostile entity types
-    if (type === ENTITIES.TREANT) {
-      return this.createTreant(x, y);
-    }
-    if (type === ENTITIES.MOLE) {
-      return this.createMole(x, y);
-    }
-    
-    // Friendly entity types
-    if (type === ENTITIES.GOKU) {
-      // This would be implemented when Goku NPC is added
-      console.warn('Goku entity creation not yet implemented');
-      return null;
-    }
-    if (type === ENTITIES.WIZARD) {
-      // This would be implemented when Wizard NPC is added
-      console.warn('Wizard entity creation not yet implemented');
+  public createEntity(
+    type: string,
+    x: number,
+    y: number,
+    spawnObject?: CustomTilemapObject,
+  ): INonPlayerEntity | null {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      console.warn(`EntityFactory: Unknown entity type "${type}"`);
       return null;
     }
-    if (type === ENTITIES.FEMALE_VILLAGER) {
-      // This would be implemented when FemaleVillager NPC is added
-      console.warn('Female Villager entity creation not yet implemented');
-      return null;
-    }
-    
-    console.warn(`EntityFactory: Unknown entity type "${type}"`);
-    return null;
+
+    return this.createFromDefinition(definition, x, y, spawnObject);
   }
 
   /**
-   * Create a Treant entity
+   * Build a NonPlayerEntity from its definition
+   * @param definition - The entity definition
    * @param x - X position
    * @param y - Y position
-   * @returns Treant entity
+   * @param spawnObject - Tiled object the entity is spawned from, if any
+   * @returns The created entity or null if a behavior could not be resolved
    */
-  private createTreant(x: number, y: number): Treant {
-    return new Treant(this.scene, x, y);
+  private createFromDefinition(
+    definition: EntityDefinition,
+    x: number,
+    y: number,
+    spawnObject?: CustomTilemapObject,
+  ): NonPlayerEntity | null {
+    const context: BehaviorContext = { scene: this.scene, definition, spawnObject };
+    const movement = this.behaviorRegistry.create('movement', definition.behaviors.movement, context);
+    const combat = this.behaviorRegistry.create('combat', definition.behaviors.combat, context);
+    const interaction = this.behaviorRegistry.create(
+      'interaction',
+      definition.behaviors.interaction,
+      context,
+    );
+
+    const ai = definition.behaviors.ai
+      ? this.behaviorRegistry.create('ai', definition.behaviors.ai, context)
+      : undefined;
+
+    if (!movement || !combat || !interaction || ai === null) {
+      console.warn(`EntityFactory: Could not resolve behaviors for "${definition.type}"`);
+      return null;
+    }
+
+    // Data-defined entities may introduce types that are not listed in ENTITIES
+    const entity = new NonPlayerEntity(
+      this.scene,
+      x,
+      y,
+      definition.texture,
+      definition.type as EntityType,
+      {
+        movement,
+        combat,
+        interaction,
+        animation: this.createAnimationBehavior(definition),
+        ai,
+        hp: definition.hp,
+        // A dialogKey set on the Tiled object overrides the one of the definition
+        dialogKey: spawnObject?.properties?.dialogKey || definition.dialogKey,
+        attackDamage: definition.attackDamage,
+        damageType: definition.damageType,
+        critChance: definition.critChance,
+        knockback: definition.knockback,
+        resistances: definition.resistances,
+        invulnerability: definition.invulnerability,
+        spawnId: spawnObject?.id,
+      },
+    );
+
+    if (definition.body) {
+      entity.setSize(definition.body.width, definition.body.height);
+    }
+    entity.setDepth(definition.depth ?? 5);
+    entity.setCollideWorldBounds(true);
+    entity.setImmovable(definition.immovable ?? true);
+
+    return entity;
   }
 
   /**
-   * Create a Mole entity
-   * @param x - X position
-   * @param y - Y position
-   * @returns Mole entity
+   * Create the animation behavior for a definition
+   * Explicit animations win over the ones registered in ENTITY_ANIMATIONS
    */
-  private createMole(x: number, y: number): Mole {
-    return new Mole(this.scene, x, y);
+  private createAnimationBehavior(definition: EntityDefinition): BaseEntityAnimation {
+    if (!definition.animations) {
+      return BaseEntityAnimation.forEntityType(definition.type as EntityType);
+    }
+
+    const idle = definition.animations[CharacterState.IDLE];
+    return new BaseEntityAnimation({
+      // Entities without dedicated hit or death animations fall back to IDLE
+      [CharacterState.HIT]: idle,
+      [CharacterState.DEATH]: idle,
+      ...definition.animations,
+    });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Registry of the handlers reacting to the zones of each type
+ */
+
+import { ZONE_EVENTS, ZONE_TYPES, ZONES } from '../constants/zones';
+import { DAMAGE_TYPES, DamageType } from '../constants/combat';
+import { SCENES } from '../constants/scenes';
+import { Checkpoint } from '../types/scene-types';
+import { ZoneContext, ZoneHandler } from '../types/zone-types';
+import { GameManager } from '../scenes/GameManager';
+import { createDamageEvent } from '../utils/damage';
+import { findMapObject, getPatrolRoute } from '../utils/patrol-routes';
+import { getCheckpoint, setCheckpoint } from '../utils/world-state';
+
+/**
+ * Maps the `type` property of the zones to handlers
+ *
+ * Every zone type of ZONE_TYPES comes pre-registered.
+ * Additional types can be registered at runtime with `register()`.
+ */
+export class ZoneHandlerRegistry {
+  private handlers: Map<string, ZoneHandler> = new Map();
+
+  /**
+   * Create a new ZoneHandlerRegistry with the default handlers registered
+   */
+  constructor() {
+    this.registerDefaults();
+  }
+
+  /**
+   * Register the handler of a zone type, replacing the previous one
+   * @param type - Value of the `type` property of the zones
+   * @param handler - Reaction to the zones and their default trigger settings
+   */
+  public register(type: string, handler: ZoneHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Check if a handler is registered for a zone type
+   */
+  public has(type: string): boolean {
+    return this.handlers.has(type);
+  }
+
+  /**
+   * Get the handler of a zone type
+   * @returns The handler or null if the type is unknown
+   */
+  public get(type: string): ZoneHandler | null {
+    const handler = this.handlers.get(type);
+    if (!handler) {
+      console.warn(`ZoneHandlerRegistry: Unknown zone type "${type}"`);
+      return null;
+    }
+    return handler;
+  }
+
+  /**
+   * Register the handlers of the zone types shipped with the game
+   */
+  private registerDefaults(): void {
+    this.register(ZONE_TYPES.CHANGE_SCENE, { handle: changeScene });
+    this.register(ZONE_TYPES.CHECKPOINT, { handle: reachCheckpoint });
+    this.register(ZONE_TYPES.DIALOGUE, { handle: openDialogue });
+    this.register(ZONE_TYPES.SPAWN_WAVE, { handle: spawnWave, defaults: { once: true } });
+    this.register(ZONE_TYPES.DAMAGE, {
+      handle: hurtPlayer,
+      defaults: { event: ZONE_EVENTS.STAY, interval: ZONES.DAMAGE_INTERVAL },
+    });
+    this.register(ZONE_TYPES.CUTSCENE, { handle: playCutscene, defaults: { once: true } });
+    this.register(ZONE_TYPES.MESSAGE, { handle: showMessage });
+  }
+}
+
+/**
+ * Start the scene of the `scene` property, the player appears at its `spawn` spawn
+ * The screen is covered by the `transition` effect meanwhile
+ */
+function changeScene({ scene, player, object }: ZoneContext): void {
+  const target = object.properties.scene;
+  if (!target) {
+    console.warn(`ZoneHandlerRegistry: Zone ${object.id} has no scene to change to`);
+    return;
+  }
+  scene.getSceneFlowManager().changeScene(target, player, object.properties.spawn, object.properties.transition);
+}
+
+/**
+ * Make the zone the respawn point, healing the player if it has a `heal` property
+ * Touching the current checkpoint again does nothing, so it heals once per activation
+ */
+function reachCheckpoint({ scene, player, zone, object }: ZoneContext): void {
+  const checkpoint: Checkpoint = { sceneKey: scene.scene.key, x: zone.x, y: zone.y };
+  const current = getCheckpoint(scene.registry);
+  if (current && current.sceneKey === checkpoint.sceneKey && current.x === checkpoint.x && current.y === checkpoint.y) {
+    return;
+  }
+
+  setCheckpoint(scene.registry, checkpoint);
+  const heal = object.properties.heal;
+  if (heal) {
+    player.hp = heal === true ? player.maxHp : player.hp + Number(heal);
+  }
+}
+
+/**
+ * Open the conversation of the `dialogKey` property
+ */
+function openDialogue({ scene, object }: ZoneContext): void {
+  const dialogKey = object.properties.dialogKey;
+  if (!dialogKey) {
+    console.warn(`ZoneHandlerRegistry: Zone ${object.id} has no dialogKey`);
+    return;
+  }
+  const gameManager = scene.scene.get(SCENES.GAME_MANAGER) as GameManager;
+  gameManager.startDialogue(dialogKey, scene.scene.key);
+}
+
+/**
+ * Spawn `count` entities of the `entity` type
+ * They appear in turn at the points of the `spawnPoints` object, or at the center of the zone
+ */
+function spawnWave({ scene, zone, object }: ZoneContext): void {
+  const { entity, count = ZONES.WAVE_SIZE, spawnPoints } = object.properties;
+  if (!entity) {
+    console.warn(`ZoneHandlerRegistry: Zone ${object.id} has no entity to spawn`);
+    return;
+  }
+
+  const pointsObject = spawnPoints !== undefined ? findMapObject(scene.map, Number(spawnPoints)) : undefined;
+  if (spawnPoints !== undefined && !pointsObject) {
+    console.warn(`ZoneHandlerRegistry: Spawn points ${spawnPoints} of zone ${object.id} not found`);
+  }
+  const points = (pointsObject && getPatrolRoute(pointsObject)?.points) || [new Phaser.Math.Vector2(zone.x, zone.y)];
+
+  for (let i = 0; i < count; i++) {
+    const point = points[i % points.length];
+    scene.spawnMonster(entity, point.x, point.y);
+  }
+}
+
+/**
+ * Hurt the player by `damage` points of the `damageType` type
+ */
+function hurtPlayer({ player, object }: ZoneContext): void {
+  const { damage = ZONES.DAMAGE, damageType } = object.properties;
+  const damageTypes: string[] = Object.values(DAMAGE_TYPES);
+  if (damageType !== undefined && !damageTypes.includes(damageType)) {
+    console.warn(`ZoneHandlerRegistry: Unknown damage type "${damageType}"`);
+  }
+
+  const type = damageTypes.includes(damageType) ? (damageType as DamageType) : DAMAGE_TYPES.PHYSICAL;
+  player.takeDamage(createDamageEvent(damage, type));
+}
+
+/**
+ * Show the `focus` object, or the zone, for `duration` ms while the player cannot move
+ * The camera zooms to the `zoom` property meanwhile, and the conversation of the `dialogKey`
+ * property opens once the camera arrives
+ */
+function playCutscene({ scene, zone, object }: ZoneContext): void {
+  const { focus, duration = ZONES.CUTSCENE_DURATION, zoom, dialogKey } = object.properties;
+  const focusObject = focus !== undefined ? findMapObject(scene.map, Number(focus)) : undefined;
+  if (focus !== undefined && !focusObject) {
+    console.warn(`ZoneHandlerRegistry: Focus ${focus} of zone ${object.id} not found`);
+  }
+  const target = focusObject || zone;
+
+  const inputManager = scene.getInputManager();
+  inputManager.setLocked(true);
+  scene.getCameraManager().focusOn(target.x, target.y, {
+    duration,
+    zoom,
+    onArrive: () => {
+      if (dialogKey) {
+        const gameManager = scene.scene.get(SCENES.GAME_MANAGER) as GameManager;
+        gameManager.startDialogue(dialogKey, scene.scene.key);
+      }
+    },
+    onComplete: () => inputManager.setLocked(false),
+  });
+}
+
+/**
+ * Show the `message` property above the player, it fades out after a while
+ */
+function showMessage({ scene, player, object }: ZoneContext): void {
+  const message = object.properties.message;
+  if (!message) {
+    console.warn(`ZoneHandlerRegistry: Zone ${object.id} has no message`);
+    return;
+  }
+
+  const text = scene.add
+    .text(player.x, player.getTopLeft().y, message, {
+      font: '8px monospace',
+      color: '#ffffff',
+      backgroundColor: '#000000',
+      padding: { x: 3, y: 2 },
+    })
+    .setWordWrapWidth(ZONES.MESSAGE_WIDTH)
+    .setOrigin(0.5, 1)
+    .setDepth(1000);
+
+  scene.tweens.add({
+    targets: text,
+    alpha: 0,
+    delay: ZONES.MESSAGE_DURATION,
+    duration: ZONES.MESSAGE_FADE_DURATION,
+    onComplete: () => text.destroy(),
+  });
+}
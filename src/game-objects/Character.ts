@@ -3,12 +3,17 @@
  * This class handles physics, animations, and scene integration.
  */
 
-import { Orientation } from '../geometry/orientation';
+import { Orientation, getFacingOrientation } from '../geometry/orientation';
 import { AbstractScene } from '../scenes/AbstractScene';
 import { SCENES } from '../constants/scenes';
+import { EVENTS } from '../constants/events';
 import { GameManager } from '../scenes/GameManager';
 import { CharacterState } from '../constants/character-states';
 import { BaseEntityAnimation } from '../behaviors/animation/BaseEntityAnimation';
+import { COMBAT } from '../constants/combat';
+import { DamageEvent, Resistances } from '../types/combat-types';
+import { resolveDamage } from '../utils/damage';
+import { CharacterEvent, GameEventMap } from '../types/event-types';
 
 /**
  * Character animation configuration for each orientation
@@ -29,9 +34,6 @@ export type CharacterAnimation = {
  * @extends {Phaser.Physics.Arcade.Sprite}
  */
 export abstract class Character extends Phaser.Physics.Arcade.Sprite {
-  /** Delay between hits in milliseconds */
-  protected static readonly HIT_DELAY: number = 500;
-  
   /** Reference to the scene the character belongs to */
   protected scene: AbstractScene;
   /** Reference to the UI scene for game management */
@@ -40,8 +42,14 @@ export abstract class Character extends Phaser.Physics.Arcade.Sprite {
   protected _hp: number = 1;
   /** Maximum health points */
   protected _maxHp: number = 1;
-  /** Timestamp of the last hit taken */
+  /** Level time of the last hit taken */
   protected lastTimeHit: number = 0;
+  /** Invulnerability after a hit in milliseconds */
+  protected invulnerabilityDuration: number = COMBAT.DEFAULT_INVULNERABILITY;
+  /** Timestamp until which a knockback overrides the movement */
+  protected knockbackUntil: number = 0;
+  /** Damage reduction keyed by damage type */
+  public resistances: Resistances = {};
   /** Current orientation of the character */
   protected orientation: Orientation = Orientation.Down;
   /** Movement speed of the character */
@@ -70,7 +78,7 @@ export abstract class Character extends Phaser.Physics.Arcade.Sprite {
     const uiScene = this.scene.scene.get(SCENES.GAME_MANAGER) as GameManager;
     this.uiScene = uiScene;
     
-    this.lastTimeHit = new Date().getTime();
+    this.lastTimeHit = this.scene.getPlayTime();
     
     this.setCollideWorldBounds(true);
     this.setOrigin(0.5, 0.7);
@@ -113,10 +121,11 @@ export abstract class Character extends Phaser.Physics.Arcade.Sprite {
    */
   public set maxHp(value: number) {
     this._maxHp = value;
+    this.onHpChanged();
   }
   
   /**
-   * Called when HP changes
+   * Called when HP or maximum HP changes
    * Override in subclasses for specific behavior (like UI updates)
    */
   protected onHpChanged(): void {
@@ -124,35 +133,96 @@ export abstract class Character extends Phaser.Physics.Arcade.Sprite {
   }
   
   /**
-   * Check if character can be hit (based on hit delay)
-   * @param {number} hitDelay - Optional custom hit delay
+   * Check if character can be hit (based on its invulnerability frames)
+   * @param {number} hitDelay - Optional custom invulnerability duration
    */
-  public canGetHit(hitDelay: number = Character.HIT_DELAY): boolean {
-    return new Date().getTime() - this.lastTimeHit > hitDelay;
+  public canGetHit(hitDelay: number = this.invulnerabilityDuration): boolean {
+    return this.scene.getPlayTime() - this.lastTimeHit > hitDelay;
   }
   
   /**
-   * Apply damage to the character - Centralized damage handling
-   * @param {number} damage - Amount of damage to apply
+   * Set how long the character stays invulnerable after a hit
+   * @param {number} duration - Duration in milliseconds
    */
-  public loseHp(damage: number = 1): void {
-    if (!this.canGetHit()) {
-      return;
+  public setInvulnerabilityDuration(duration: number): void {
+    this.invulnerabilityDuration = duration;
+  }
+  
+  /**
+   * Receive a hit
+   * Subclasses may route the hit through their combat behavior first
+   * @param {DamageEvent} event - The hit
+   * @returns {boolean} Whether the character was hurt
+   */
+  public takeDamage(event: DamageEvent): boolean {
+    return this.applyDamage(event);
+  }
+  
+  /**
+   * Apply a hit - Centralized damage handling
+   * Applies the invulnerability frames, resistances and knockback
+   * @param {DamageEvent} event - The hit
+   * @returns {boolean} Whether the character was hurt
+   */
+  public applyDamage(event: DamageEvent): boolean {
+    if (this._hp <= 0 || !this.canGetHit()) {
+      return false;
+    }
+    
+    const damage = resolveDamage(event, this.resistances);
+    if (damage <= 0) {
+      return false;
     }
     
     this._hp -= damage;
-    this.lastTimeHit = new Date().getTime();
+    this.lastTimeHit = this.scene.getPlayTime();
     
     this.onHpChanged();
+    this.emitCombatEvent(EVENTS.CHARACTER_DAMAGED, { character: this, event, damage });
     
     // Play hit animation if animation behavior is set
     if (this.animationBehavior) {
-      this.animationBehavior.playHit(this, this.orientation, Character.HIT_DELAY);
+      this.animationBehavior.playHit(this, this.orientation, this.invulnerabilityDuration);
     }
     
     if (this._hp <= 0) {
+      this.emitCombatEvent(EVENTS.CHARACTER_DEATH, { character: this });
       this.onDeath();
+    } else if (event.knockback) {
+      this.applyKnockback(event.knockback);
+    }
+    return true;
+  }
+  
+  /**
+   * Emits a combat event on the character, then on the event bus so managers hear every character
+   * @param {CharacterEvent} event - One of the character events of EVENTS
+   * @param {GameEventMap[K]} payload - Payload of the event
+   */
+  public emitCombatEvent<K extends CharacterEvent>(event: K, payload: GameEventMap[K]): void {
+    this.emit(event, payload);
+    if (this.uiScene) {
+      this.uiScene.eventBus.emit(event, payload);
+    }
+  }
+
+  /**
+   * Push the character, its own movement is suspended for a short while
+   * @param {Phaser.Math.Vector2} velocity - Velocity given to the character
+   */
+  public applyKnockback(velocity: Phaser.Math.Vector2): void {
+    if (!this.body || (velocity.x === 0 && velocity.y === 0)) {
+      return;
     }
+    this.setVelocity(velocity.x, velocity.y);
+    this.knockbackUntil = this.scene.getPlayTime() + COMBAT.KNOCKBACK_DURATION;
+  }
+  
+  /**
+   * Check if a knockback currently overrides the movement
+   */
+  public isKnockedBack(): boolean {
+    return this.knockbackUntil > 0;
   }
   
   /**
@@ -225,6 +295,31 @@ export abstract class Character extends Phaser.Physics.Arcade.Sprite {
     }
   }
   
+  /**
+   * Move with a velocity in any direction, facing the closest of the four orientations
+   * @param x Horizontal velocity in pixels per second
+   * @param y Vertical velocity in pixels per second
+   * @param shouldAnimate Whether to play the move animation
+   */
+  public moveWithVelocity(x: number, y: number, shouldAnimate: boolean = true): void {
+    this.setVelocity(x, y);
+    if (x === 0 && y === 0) {
+      return;
+    }
+    this.orientation = getFacingOrientation(x, y, this.orientation);
+    
+    if (shouldAnimate && !this.isPerformingAction && this.animationBehavior) {
+      this.animationBehavior.playMove(this, this.orientation);
+    }
+  }
+  
+  /**
+   * Get the walking speed in pixels per second
+   */
+  public getMoveSpeed(): number {
+    return this.moveSpeed;
+  }
+  
   /**
    * Get the current orientation
    */
@@ -261,7 +356,19 @@ export abstract class Character extends Phaser.Physics.Arcade.Sprite {
    * Subclasses should override this
    */
   public update(): void {
-    // Base implementation - to be overridden
+    // End the knockback once its duration is over
+    if (this.knockbackUntil > 0 && this.scene.getPlayTime() >= this.knockbackUntil) {
+      this.knockbackUntil = 0;
+      this.setVelocity(0, 0);
+    }
+  }
+
+  /**
+   * Time the level of the character has run, it stands still while the level is paused
+   * Hit invulnerability, knockbacks and attack cooldowns are timed with it
+   */
+  public getPlayTime(): number {
+    return this.scene.getPlayTime();
   }
 
   /**
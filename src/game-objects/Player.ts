@@ -6,13 +6,17 @@
 import { Character } from './Character';
 import { CharacterState } from '../constants/character-states';
 import { Arrow } from './projectiles/Arrow';
-import { NonPlayerEntity } from './entities/NonPlayerEntity';
 import { AbstractScene } from '../scenes/AbstractScene';
 import { ASSETS } from '../constants/assets';
 import { IInputBehavior } from '../behaviors/interfaces';
 import { PLAYER_ANIMATIONS } from '../constants/animation-configs';
 import { BaseEntityAnimation } from '../behaviors/animation/BaseEntityAnimation';
-import { Orientation } from '../geometry/orientation';
+import { Orientation, getDirectionFromOrientation } from '../geometry/orientation';
+import { Inventory } from '../utils/Inventory';
+import { ITEMS, getItemDefinition } from '../constants/items';
+import { STAMINA } from '../constants/combat';
+import { InventoryContents, ItemEffect } from '../types/item-types';
+import { EVENTS } from '../constants/events';
 
 /** Reload time for shooting in milliseconds */
 const PLAYER_RELOAD = 500;
@@ -25,13 +29,21 @@ const PLAYER_RELOAD = 500;
  * @extends {Character}
  */
 export class Player extends Character {
-  /** Maximum health points for the player */
+  /** Maximum health points the player starts with */
   public static readonly MAX_HP = 10;
 
   /** Tomb sprite shown when player dies */
   private tomb: Phaser.GameObjects.Sprite = null;
   /** Input behavior to handle player controls */
   private inputBehavior: IInputBehavior;
+  /** Items carried by the player, persisted in the registry */
+  public readonly inventory: Inventory;
+  /** Unit vector of the last direction travelled, arrows fly along it */
+  private travelDirection: Phaser.Math.Vector2;
+  /** Stamina left for attacking, regenerated over time */
+  private _stamina: number = STAMINA.MAX;
+  /** Level time of the last stamina regeneration */
+  private lastStaminaUpdate: number;
 
   /**
    * Creates an instance of Player.
@@ -49,12 +61,23 @@ export class Player extends Character {
     this.setSize(10, 10);
     this.setDepth(10);
     this.moveSpeed = 120;
+    const direction = getDirectionFromOrientation(this.orientation);
+    this.travelDirection = new Phaser.Math.Vector2(direction.x, direction.y);
+
+    // The inventory carries over between scenes through the registry
+    this.inventory = new Inventory(
+      this.uiScene ? this.uiScene.inventory : {},
+      contents => this.onInventoryChanged(contents),
+    );
 
     // Set up animation behavior using the player animations
     const animationBehavior = new BaseEntityAnimation(PLAYER_ANIMATIONS);
     this.setAnimationBehavior(animationBehavior);
 
     this.on('animationrepeat', this.handleAnimationRepeat, this);
+
+    this.lastStaminaUpdate = this.getPlayTime();
+    this.onStaminaChanged();
   }
 
   /**
@@ -71,20 +94,96 @@ export class Player extends Character {
    */
   public override update(): void {
     super.update();
+    this.regenerateStamina();
     
-    // Process input via the input behavior if available
-    if (this.inputBehavior) {
+    // Process input via the input behavior if available, a knockback overrides it
+    if (this.inputBehavior && !this.isKnockedBack()) {
       this.inputBehavior.update(this);
     }
   }
 
   /**
-   * Called when HP changes to update UI
+   * Move with a velocity in any direction, remembering it as the direction to shoot
+   * @override
+   */
+  public override moveWithVelocity(x: number, y: number, shouldAnimate: boolean = true): void {
+    super.moveWithVelocity(x, y, shouldAnimate);
+    if (x !== 0 || y !== 0) {
+      this.travelDirection.set(x, y).normalize();
+    }
+  }
+
+  /**
+   * Set the orientation, shooting the way the player now faces
+   * @override
+   */
+  public override setOrientation(orientation: Orientation): void {
+    super.setOrientation(orientation);
+    const direction = getDirectionFromOrientation(orientation);
+    this.travelDirection.set(direction.x, direction.y);
+  }
+
+  /**
+   * Called when HP or maximum HP changes to update UI
    * @override
    */
   protected override onHpChanged(): void {
     if (this.uiScene) {
-      this.uiScene.playerHp = this.hp;
+      this.uiScene.setPlayerHealth(this.hp, this.maxHp);
+    }
+  }
+
+  /**
+   * Stamina left for attacking
+   */
+  public get stamina(): number {
+    return this._stamina;
+  }
+
+  /**
+   * Spends stamina on an attack
+   * 
+   * @param {number} cost - Stamina needed by the attack
+   * @returns {boolean} Whether there was enough stamina left
+   */
+  public spendStamina(cost: number): boolean {
+    if (this._stamina < cost) {
+      return false;
+    }
+    this._stamina -= cost;
+    this.onStaminaChanged();
+    return true;
+  }
+
+  /**
+   * Regains the stamina for the level time elapsed since the last update
+   */
+  private regenerateStamina(): void {
+    const now = this.getPlayTime();
+    const elapsed = now - this.lastStaminaUpdate;
+    this.lastStaminaUpdate = now;
+    if (this._stamina >= STAMINA.MAX || elapsed <= 0) {
+      return;
+    }
+    this._stamina = Math.min(STAMINA.MAX, this._stamina + STAMINA.REGENERATION * elapsed / 1000);
+    this.onStaminaChanged();
+  }
+
+  /**
+   * Called when the stamina changes to update UI
+   */
+  private onStaminaChanged(): void {
+    if (this.uiScene) {
+      this.uiScene.setPlayerStamina(this._stamina, STAMINA.MAX);
+    }
+  }
+
+  /**
+   * Called when the inventory changes to update UI
+   */
+  private onInventoryChanged(contents: InventoryContents): void {
+    if (this.uiScene) {
+      this.uiScene.inventory = contents;
     }
   }
 
@@ -100,6 +199,77 @@ export class Player extends Character {
     this.destroy();
   }
 
+  /**
+   * Interacts with the first NPC in range
+   * 
+   * @returns {boolean} Whether an interaction took place
+   */
+  public interactWithNearbyEntity(): boolean {
+    const entity = this.scene.npcs.find(npc => npc.active && npc.canInteract?.(this));
+    if (!entity) {
+      return false;
+    }
+    this.setToIdle();
+    entity.interact();
+    return true;
+  }
+
+  /**
+   * Collects an item picked up from the ground
+   * Items used on pickup are left on the ground when they would have no effect
+   * 
+   * @param {string} itemId - Item identifier
+   * @param {number} quantity - Number of units
+   * @returns {boolean} Whether the item was collected
+   */
+  public collectItem(itemId: string, quantity: number = 1): boolean {
+    const definition = getItemDefinition(itemId);
+    if (!definition) {
+      return false;
+    }
+    if (definition.useOnPickup) {
+      return this.applyItemEffects(definition.effects || []);
+    }
+    return this.inventory.add(itemId, quantity) > 0;
+  }
+
+  /**
+   * Uses one unit of an item from the inventory
+   * 
+   * @param {string} itemId - Item identifier
+   * @returns {boolean} Whether the item was used
+   */
+  public useItem(itemId: string): boolean {
+    const definition = getItemDefinition(itemId);
+    if (!definition || !definition.effects || !this.inventory.has(itemId)) {
+      return false;
+    }
+    if (!this.applyItemEffects(definition.effects)) {
+      return false;
+    }
+    return this.inventory.remove(itemId);
+  }
+
+  /**
+   * Applies item effects to the player
+   * 
+   * @returns {boolean} Whether at least one effect changed something
+   */
+  private applyItemEffects(effects: ItemEffect[]): boolean {
+    return effects.reduce((applied, effect) => {
+      switch (effect.type) {
+        case 'heal':
+          if (this.hp >= this.maxHp) {
+            return applied;
+          }
+          this.hp = this.hp + effect.amount;
+          return true;
+        default:
+          return applied;
+      }
+    }, false);
+  }
+
   /**
    * Reloads the player's weapon
    */
@@ -120,21 +290,41 @@ export class Player extends Character {
   }
 
   /**
-   * Performs a shooting action
+   * Whether the player has an arrow and the stamina to shoot it
    */
-  public shootWeapon(): void {
+  public canShoot(): boolean {
+    return this.inventory.has(ITEMS.ARROW) && this._stamina >= STAMINA.SHOOT_COST;
+  }
+
+  /**
+   * Performs a shooting action, using up an arrow and stamina
+   * 
+   * @returns {boolean} Whether the player shot
+   */
+  public shootWeapon(): boolean {
+    if (!this.canShoot()) {
+      return false;
+    }
+    this.inventory.remove(ITEMS.ARROW);
+    this.spendStamina(STAMINA.SHOOT_COST);
     this.actionState = CharacterState.SHOOTING;
     this.isPerformingAction = true;
     this.animationBehavior.playHit(this, this.orientation);
+    this.emitCombatEvent(EVENTS.CHARACTER_ATTACK, { character: this });
+    return true;
   }
 
   /**
-   * Performs a punch action
+   * Performs a punch action, a new punch spends stamina
    */
   public performPunch(): void {
+    if (this.isActionState(CharacterState.PUNCHING) || !this.spendStamina(STAMINA.PUNCH_COST)) {
+      return;
+    }
     this.actionState = CharacterState.PUNCHING;
     this.isPerformingAction = true;
     this.animationBehavior.playAttack(this, this.orientation);
+    this.emitCombatEvent(EVENTS.CHARACTER_ATTACK, { character: this });
   }
 
   /**
@@ -187,9 +377,6 @@ export class Player extends Character {
     this.actionState = CharacterState.IDLE;
     this.isPerformingAction = false;
     
-    const arrow = new Arrow(this.scene, this.x, this.y, this.orientation);
-    this.scene.physics.add.collider(arrow, this.scene.monsterGroup, (a: Arrow, m: NonPlayerEntity) => {
-      m.loseHp(a);
-    });
+    new Arrow(this.scene, this.x, this.y, this.travelDirection);
   }
 }
@@ -11,10 +11,13 @@ import {
   IMovementBehavior, 
   ICombatBehavior, 
   IInteractionBehavior, 
-  IAnimationBehavior 
+  IAnimationBehavior,
+  IAIBehavior
 } from '../../behaviors/interfaces';
 import { AbstractScene } from '../../scenes/AbstractScene';
 import { BaseEntityAnimation } from '../../behaviors/animation/BaseEntityAnimation';
+import { COMBAT, DAMAGE_TYPES, DamageType } from '../../constants/combat';
+import { DamageEvent, Resistances } from '../../types/combat-types';
 
 /**
  * NonPlayerEntity class that acts as a container for behavior components.
@@ -28,12 +31,17 @@ export class NonPlayerEntity extends Character implements INonPlayerEntity {
   // Entity type and properties
   public readonly entityType: EntityType;
   public readonly dialogKey?: string;
+  public readonly spawnId?: number;
   public readonly attackDamage: number = 1;
+  public readonly damageType: DamageType = DAMAGE_TYPES.PHYSICAL;
+  public readonly critChance: number = 0;
+  public readonly knockback: number = COMBAT.MELEE_KNOCKBACK;
   
   // Behavior components
   private movementBehavior: IMovementBehavior;
   private combatBehavior: ICombatBehavior;
   private interactionBehavior: IInteractionBehavior;
+  private aiBehavior: IAIBehavior | null;
   // Change from private to protected to match Character class
   // protected animationBehavior: BaseEntityAnimation; // This is inherited from Character
 
@@ -58,9 +66,16 @@ export class NonPlayerEntity extends Character implements INonPlayerEntity {
       combat: ICombatBehavior,
       interaction: IInteractionBehavior,
       animation: IAnimationBehavior,
+      ai?: IAIBehavior,
       hp?: number,
       dialogKey?: string,
-      attackDamage?: number
+      attackDamage?: number,
+      damageType?: DamageType,
+      critChance?: number,
+      knockback?: number,
+      resistances?: Resistances,
+      invulnerability?: number,
+      spawnId?: number
     }
   ) {
     super(scene, x, y, texture);
@@ -71,6 +86,7 @@ export class NonPlayerEntity extends Character implements INonPlayerEntity {
     this.movementBehavior = options.movement;
     this.combatBehavior = options.combat;
     this.interactionBehavior = options.interaction;
+    this.aiBehavior = options.ai || null;
     
     // Use the setAnimationBehavior method from Character class
     // The animation must be a BaseEntityAnimation instance
@@ -78,14 +94,23 @@ export class NonPlayerEntity extends Character implements INonPlayerEntity {
     
     // Set up entity state
     if (options.hp !== undefined) {
-      this.hp = options.hp;
+      // Max HP first, the hp setter clamps to it
       this.maxHp = options.hp;
+      this.hp = options.hp;
     }
     this.dialogKey = options.dialogKey;
+    this.spawnId = options.spawnId;
     
     if (options.attackDamage !== undefined) {
       this.attackDamage = options.attackDamage;
     }
+    this.damageType = options.damageType ?? this.damageType;
+    this.critChance = options.critChance ?? this.critChance;
+    this.knockback = options.knockback ?? this.knockback;
+    this.resistances = { ...options.resistances };
+    if (options.invulnerability !== undefined) {
+      this.invulnerabilityDuration = options.invulnerability;
+    }
   }
   
   /**
@@ -94,7 +119,18 @@ export class NonPlayerEntity extends Character implements INonPlayerEntity {
   public override update(): void {
     if (!this.active) return;
     
-    this.movementBehavior.update(this);
+    // A knockback overrides the movement until it is over
+    if (this.isKnockedBack()) {
+      super.update();
+      return;
+    }
+    
+    // The AI drives the movement of the entities that have one
+    if (this.aiBehavior) {
+      this.aiBehavior.update(this);
+    } else {
+      this.movementBehavior.update(this);
+    }
     this.combatBehavior.update(this);
     this.interactionBehavior.update(this);
     // Animation behavior doesn't need updating every frame
@@ -145,18 +181,11 @@ export class NonPlayerEntity extends Character implements INonPlayerEntity {
   }
   
   /**
-   * Entity takes damage
-   * Override to apply combat behavior before calling parent method
+   * Entity receives a hit
+   * The combat behavior decides whether the hit applies, e.g. friendly entities ignore it
    */
-  public override loseHp(damage: number | Phaser.Physics.Arcade.Sprite): void {
-    // Handle legacy behavior when receiving a sprite projectile
-    if (typeof damage !== 'number') {
-      damage.destroy();
-      damage = 1; // Default damage amount for backward compatibility
-    }
-    
-    // Delegate to parent class for centralized damage handling
-    super.loseHp(damage);
+  public override takeDamage(event: DamageEvent): boolean {
+    return this.combatBehavior.takeDamage(this, event);
   }
   
   /**
@@ -204,6 +233,14 @@ export class NonPlayerEntity extends Character implements INonPlayerEntity {
     this.interactionBehavior = behavior;
   }
   
+  public getAIBehavior(): IAIBehavior | null {
+    return this.aiBehavior;
+  }
+  
+  public setAIBehavior(behavior: IAIBehavior | null): void {
+    this.aiBehavior = behavior;
+  }
+  
   /**
    * Override getAnimationBehavior to ensure it returns BaseEntityAnimation
    */
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Pickup game object for items lying on the ground
+ */
+
+import { ItemDefinition } from '../../types/item-types';
+
+/**
+ * Item lying on the ground, collected when the player walks over it
+ *
+ * @class Pickup
+ * @extends {Phaser.Physics.Arcade.Sprite}
+ */
+export class Pickup extends Phaser.Physics.Arcade.Sprite {
+  /** Definition of the item */
+  public readonly definition: ItemDefinition;
+  /** Number of units collected at once */
+  public readonly quantity: number;
+  /** Id of the Tiled object the pickup was spawned from, if any */
+  public readonly spawnId?: number;
+  /** Whether the player can collect the pickup, false while a drop is scattering */
+  public collectable = true;
+
+  /**
+   * Creates an instance of Pickup.
+   *
+   * @param {Phaser.Scene} scene - The scene the pickup belongs to
+   * @param {number} x - X position
+   * @param {number} y - Y position
+   * @param {ItemDefinition} definition - Definition of the item
+   * @param {number} quantity - Number of units
+   * @param {number} spawnId - Id of the Tiled object, if any
+   */
+  constructor(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    definition: ItemDefinition,
+    quantity = 1,
+    spawnId?: number,
+  ) {
+    super(scene, x, y, definition.texture, 0);
+    this.definition = definition;
+    this.quantity = quantity;
+    this.spawnId = spawnId;
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this);
+    this.setDepth(4);
+    this.setScale(definition.scale ?? 1);
+
+    if (definition.animation) {
+      this.anims.play(definition.animation);
+    }
+  }
+}
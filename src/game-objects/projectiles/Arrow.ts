@@ -3,9 +3,10 @@
  */
 
 import { Projectile } from './Projectile';
-import { Orientation } from '../../geometry/orientation';
 import { ASSETS } from '../../constants/assets';
 import { AbstractScene } from '../../scenes/AbstractScene';
+import { NonPlayerEntity } from '../entities/NonPlayerEntity';
+import { COMBAT, DAMAGE_TYPES } from '../../constants/combat';
 
 /**
  * Arrow projectile class that can be shot by the player.
@@ -15,8 +16,8 @@ import { AbstractScene } from '../../scenes/AbstractScene';
  * @extends {Projectile}
  */
 export class Arrow extends Projectile {
-    /** Direction the arrow is traveling */
-    private direction: Orientation;
+    /** Unit vector of the direction the arrow is traveling */
+    private direction: Phaser.Math.Vector2;
 
     /**
      * Creates an instance of Arrow.
@@ -24,13 +25,16 @@ export class Arrow extends Projectile {
      * @param {AbstractScene} scene - The scene the arrow belongs to
      * @param {number} x - Initial x position
      * @param {number} y - Initial y position
-     * @param {Orientation} direction - The direction the arrow should travel
+     * @param {Phaser.Math.Vector2} direction - The direction the arrow should travel, in any angle
      */
-    constructor(scene: AbstractScene, x: number, y: number, direction: Orientation) {
+    constructor(scene: AbstractScene, x: number, y: number, direction: Phaser.Math.Vector2) {
         super(scene, x, y, ASSETS.IMAGES.ARROW);
-        this.direction = direction;
+        this.direction = direction.clone().normalize();
         this.speed = 150;
         this.damage = 1;
+        this.damageType = DAMAGE_TYPES.PIERCING;
+        this.knockback = COMBAT.ARROW_KNOCKBACK;
+        this.critChance = COMBAT.ARROW_CRIT_CHANCE;
         this.lifetime = 2000; // Arrow will live for 2 seconds if it doesn't hit anything
         this.initialize();
         this.update(); // Start the lifetime timer
@@ -40,22 +44,16 @@ export class Arrow extends Projectile {
      * Initialize the arrow's properties and behavior.
      */
     protected initialize(): void {
-        switch (this.direction) {
-            case Orientation.Up:
-                this.setVelocityY(-this.speed);
-                break;
-            case Orientation.Down:
-                this.setVelocityY(this.speed);
-                this.setRotation(Math.PI);
-                break;
-            case Orientation.Left:
-                this.setVelocityX(-this.speed);
-                this.setRotation(-Math.PI / 2);
-                break;
-            case Orientation.Right:
-                this.setVelocityX(this.speed);
-                this.setRotation(Math.PI / 2);
-                break;
-        }
+        this.setVelocity(this.direction.x * this.speed, this.direction.y * this.speed);
+        // The arrow image points up
+        this.setRotation(this.direction.angle() + Math.PI / 2);
+
+        // The arrow stops at the first monster it hits, even an invulnerable one
+        this.scene.physics.add.collider(this, this.scene.monsterGroup, (_arrow: Arrow, monster: NonPlayerEntity) => {
+            this.hit(monster);
+            if (this.active) {
+                this.destroy();
+            }
+        });
     }
 } 
\ No newline at end of file
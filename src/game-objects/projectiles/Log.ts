@@ -5,6 +5,7 @@
 import { Projectile } from './Projectile';
 import { ASSETS } from '../../constants/assets';
 import { AbstractScene } from '../../scenes/AbstractScene';
+import { DAMAGE_TYPES } from '../../constants/combat';
 
 /**
  * Log projectile class for the Treant's attack.
@@ -25,6 +26,7 @@ export class Log extends Projectile {
         super(scene, x, y, ASSETS.IMAGES.TREANT_ATTACK);
         this.speed = 0; // Log doesn't move
         this.damage = 1;
+        this.damageType = DAMAGE_TYPES.CRUSHING;
         this.lifetime = 200;
         this.initialize();
         this.update(); // Start the lifetime timer
@@ -36,10 +38,7 @@ export class Log extends Projectile {
     protected initialize(): void {
         // Add collision with player
         this.scene.physics.add.collider(this, this.scene.player, () => {
-            if (this.scene.player.canGetHit()) {
-                this.scene.player.loseHp(this.damage);
-                this.destroy();
-            }
+            this.hit(this.scene.player);
         });
     }
 } 
\ No newline at end of file
@@ -4,6 +4,9 @@
  */
 
 import { AbstractScene } from '../../scenes/AbstractScene';
+import { Character } from '../Character';
+import { DAMAGE_TYPES, DamageType } from '../../constants/combat';
+import { createDamageEvent, getKnockback } from '../../utils/damage';
 
 /**
  * Base class for all projectiles in the game.
@@ -20,6 +23,12 @@ export abstract class Projectile extends Phaser.Physics.Arcade.Sprite {
     protected speed: number;
     /** Amount of damage the projectile deals */
     protected damage: number;
+    /** Type of the damage dealt */
+    protected damageType: DamageType = DAMAGE_TYPES.PHYSICAL;
+    /** Speed given to the character hit */
+    protected knockback: number = 0;
+    /** Chance of a critical hit between 0 and 1 */
+    protected critChance: number = 0;
     /** How long the projectile exists before being destroyed (in ms) */
     protected lifetime: number;
 
@@ -45,6 +54,25 @@ export abstract class Projectile extends Phaser.Physics.Arcade.Sprite {
      */
     protected abstract initialize(): void;
 
+    /**
+     * Deal the damage of the projectile to a character.
+     * The projectile is destroyed when the hit lands.
+     *
+     * @param {Character} target - The character hit
+     * @returns {boolean} Whether the character was hurt
+     */
+    protected hit(target: Character): boolean {
+        const hurt = target.takeDamage(createDamageEvent(this.damage, this.damageType, {
+            source: this,
+            knockback: getKnockback(this.getCenter(), target.getCenter(), this.knockback),
+            critChance: this.critChance,
+        }));
+        if (hurt) {
+            this.destroy();
+        }
+        return hurt;
+    }
+
     /**
      * Update the projectile's state.
      * Handles lifetime and cleanup.
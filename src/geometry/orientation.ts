@@ -19,3 +19,58 @@ export enum Orientation {
   /** Down direction */
   Down = 'down',
 }
+
+/**
+ * Gets the orientation that best matches a direction vector.
+ * The dominant axis wins, horizontal orientations win ties.
+ *
+ * @param {number} x - Horizontal component of the direction
+ * @param {number} y - Vertical component of the direction
+ * @returns {Orientation} The matching orientation
+ */
+export function getOrientationFromDirection(x: number, y: number): Orientation {
+  if (Math.abs(y) > Math.abs(x)) {
+    return y < 0 ? Orientation.Up : Orientation.Down;
+  }
+  return x < 0 ? Orientation.Left : Orientation.Right;
+}
+
+/**
+ * Gets the orientation a character should face while travelling in any direction.
+ * Within 22.5 degrees of a diagonal, the current orientation is kept if it is one of the
+ * two closest, so that a diagonal does not flicker between two sprites. Otherwise the
+ * dominant axis wins.
+ *
+ * @param {number} x - Horizontal component of the direction
+ * @param {number} y - Vertical component of the direction
+ * @param {Orientation} current - Orientation the character currently faces
+ * @returns {Orientation} The orientation to face
+ */
+export function getFacingOrientation(x: number, y: number, current: Orientation): Orientation {
+  const horizontal = x < 0 ? Orientation.Left : Orientation.Right;
+  const vertical = y < 0 ? Orientation.Up : Orientation.Down;
+  const ratio = Math.min(Math.abs(x), Math.abs(y)) / Math.max(Math.abs(x), Math.abs(y));
+  if (ratio > Math.tan(Math.PI / 8) && (current === horizontal || current === vertical)) {
+    return current;
+  }
+  return getOrientationFromDirection(x, y);
+}
+
+/**
+ * Gets the unit direction vector of an orientation.
+ *
+ * @param {Orientation} orientation - The orientation
+ * @returns {{x: number, y: number}} The direction, y pointing down
+ */
+export function getDirectionFromOrientation(orientation: Orientation): { x: number; y: number } {
+  switch (orientation) {
+    case Orientation.Left:
+      return { x: -1, y: 0 };
+    case Orientation.Right:
+      return { x: 1, y: 0 };
+    case Orientation.Up:
+      return { x: 0, y: -1 };
+    default:
+      return { x: 0, y: 1 };
+  }
+}
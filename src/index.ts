@@ -6,9 +6,14 @@
 import 'phaser';
 import { FirstLevel } from './scenes/levels/FirstLevel';
 import { SecondLevel } from './scenes/levels/SecondLevel';
+import { ProceduralLevel } from './scenes/levels/ProceduralLevel';
 import { Preloader } from './scenes/Preloader';
 import { GameManager } from './scenes/GameManager';
 import { HUD } from './scenes/HUD';
+import { DialogueBox } from './scenes/DialogueBox';
+import { PauseMenu } from './scenes/PauseMenu';
+import { Title } from './scenes/Title';
+import { GameOver } from './scenes/GameOver';
 
 /**
  * Main game class that extends Phaser.Game.
@@ -32,13 +37,17 @@ class PhaserGame extends Phaser.Game {
       height: 250,
       zoom: 2.5,
       pixelArt: true,
+      // The gamepad plugin is off unless requested, input actions can be bound to pads
+      input: {
+        gamepad: true,
+      },
       physics: {
         default: 'arcade',
         // arcade: {
         //   debug: true,
         // },
       },
-      scene: [Preloader, FirstLevel, SecondLevel, GameManager, HUD],
+      scene: [Preloader, FirstLevel, SecondLevel, ProceduralLevel, GameManager, HUD, DialogueBox, PauseMenu, Title, GameOver],
     };
     super(config);
   }
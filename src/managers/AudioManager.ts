@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Audio manager for the music of the levels and the sound effects
+ */
+
+import { IAudioManager } from '../types/manager-interfaces';
+import { InterSceneData } from '../types/scene-types';
+import { GameEventMap } from '../types/event-types';
+import { Player } from '../game-objects/Player';
+import { GameManager } from '../scenes/GameManager';
+import { ASSETS } from '../constants/assets';
+import { AUDIO, VOLUME_CHANNELS, VolumeChannel } from '../constants/audio';
+import { EVENTS } from '../constants/events';
+import { SCENES } from '../constants/scenes';
+import { getAttenuation, getMusicTrack } from '../utils/audio';
+import { BaseManager } from './BaseManager';
+
+/**
+ * Manages the music and the sound effects of a level
+ *
+ * Responsibilities:
+ * - Playing the music track set by the `music` property of the map, silence without it
+ * - Crossfading from the track of the previous level when the scene was started by a transition,
+ *   the track keeps playing when both levels share it
+ * - Playing a sound effect for the attacks, hits, deaths and pickups of the event bus,
+ *   quieter the farther from the player
+ * - Applying the music and sound effects volumes of the GameManager as they change
+ *
+ * The music outlives the scene: the GameManager holds the track playing across the levels.
+ *
+ * Collaborators:
+ * - GameManager: Holds the volume channels and the music track
+ */
+export class AudioManager extends BaseManager implements IAudioManager {
+  private gameManager: GameManager;
+  /** Object the sound effects are heard from, usually the player */
+  private listener: Player | null = null;
+  /** Tracks of previous levels fading out */
+  private fadingOut: Phaser.Sound.BaseSound[] = [];
+
+  /**
+   * Create a new AudioManager
+   * @param scene - The scene this manager belongs to
+   */
+  constructor(scene: Phaser.Scene) {
+    super(scene);
+    this.gameManager = scene.scene.get(SCENES.GAME_MANAGER) as GameManager;
+  }
+
+  /**
+   * Play the music of the level and listen to the events playing sound effects
+   * @param map - The tilemap whose properties set the music
+   * @param listener - Object the sound effects are heard from
+   * @param sceneData - Data from the previous scene, a transition crossfades the music
+   */
+  public initialize(map: Phaser.Tilemaps.Tilemap, listener: Player, sceneData: InterSceneData): void {
+    this.listener = listener;
+    this.playMusic(getMusicTrack(map.properties), sceneData?.transition ? AUDIO.CROSSFADE_DURATION : 0);
+
+    // The listeners are removed when the scene shuts down
+    const bus = this.eventBus;
+    bus.on(EVENTS.CHARACTER_ATTACK, ({ character }) => this.playSfxFrom(ASSETS.AUDIO.SFX_ATTACK, character), this, this.scene);
+    bus.on(EVENTS.CHARACTER_DAMAGED, ({ character }) => this.playSfxFrom(ASSETS.AUDIO.SFX_HIT, character), this, this.scene);
+    bus.on(EVENTS.CHARACTER_DEATH, ({ character }) => this.playSfxFrom(ASSETS.AUDIO.SFX_DEATH, character), this, this.scene);
+    bus.on(EVENTS.ITEM_COLLECTED, ({ pickup }) => this.playSfxFrom(ASSETS.AUDIO.SFX_PICKUP, pickup), this, this.scene);
+    bus.on(EVENTS.UPDATE_VOLUME, this.onVolumeChanged, this, this.scene);
+  }
+
+  /**
+   * Replace the music track
+   * @param key - Key of the track, null for silence
+   * @param duration - Time the crossfade takes in milliseconds, 0 switches at once
+   */
+  public playMusic(key: string | null, duration = 0): void {
+    const current = this.gameManager.music;
+    if (current && current.key === key) {
+      this.updateMusicVolume();
+      return;
+    }
+
+    if (key && !this.scene.cache.audio.exists(key)) {
+      console.warn(`AudioManager: Unknown music track "${key}"`);
+      key = null;
+    }
+
+    if (current) {
+      this.fadeOut(current, duration);
+    }
+    this.gameManager.music = null;
+    if (!key) {
+      return;
+    }
+
+    const volume = this.getVolume(VOLUME_CHANNELS.MUSIC);
+    const music = this.scene.sound.add(key, { loop: true });
+    music.play();
+    // Playing applies the volume of the config, the volume is set once the track plays
+    music.volume = duration > 0 ? 0 : volume;
+    this.gameManager.music = music;
+    if (duration > 0) {
+      this.scene.tweens.add({ targets: music, volume, duration });
+    }
+  }
+
+  /**
+   * Key of the music track playing
+   * @returns The key or null if the level is silent
+   */
+  public getMusicKey(): string | null {
+    return this.gameManager.music ? this.gameManager.music.key : null;
+  }
+
+  /**
+   * Play a sound effect heard from a position
+   * @param key - Key of the sound effect
+   * @param x - Horizontal position of the sound
+   * @param y - Vertical position of the sound
+   */
+  public playSfx(key: string, x: number, y: number): void {
+    const distance = this.listener ? Phaser.Math.Distance.Between(x, y, this.listener.x, this.listener.y) : 0;
+    const volume = this.getVolume(VOLUME_CHANNELS.SFX) * getAttenuation(distance);
+    if (volume > 0) {
+      this.scene.sound.play(key, { volume });
+    }
+  }
+
+  /**
+   * Play a sound effect heard from an object
+   */
+  private playSfxFrom(key: string, source: { x: number; y: number }): void {
+    this.playSfx(key, source.x, source.y);
+  }
+
+  /**
+   * Lower a track to silence, then remove it
+   */
+  private fadeOut(sound: Phaser.Sound.BaseSound, duration: number): void {
+    this.scene.tweens.killTweensOf(sound);
+    if (duration <= 0) {
+      sound.destroy();
+      return;
+    }
+
+    this.fadingOut.push(sound);
+    this.scene.tweens.add({
+      targets: sound,
+      volume: 0,
+      duration,
+      onComplete: () => {
+        this.fadingOut = this.fadingOut.filter(other => other !== sound);
+        sound.destroy();
+      },
+    });
+  }
+
+  /**
+   * Volume of a channel, the master volume is applied by the sound manager
+   */
+  private getVolume(channel: VolumeChannel): number {
+    return this.gameManager.getVolume(channel);
+  }
+
+  /**
+   * Give the music the volume of its channel, ending its fade in
+   */
+  private updateMusicVolume(): void {
+    const music = this.gameManager.music;
+    if (music) {
+      this.scene.tweens.killTweensOf(music);
+      music.volume = this.getVolume(VOLUME_CHANNELS.MUSIC);
+    }
+  }
+
+  /**
+   * Apply the new music volume, sound effects read theirs when played
+   */
+  private onVolumeChanged({ channel }: GameEventMap[typeof EVENTS.UPDATE_VOLUME]): void {
+    if (channel === VOLUME_CHANNELS.MUSIC) {
+      this.updateMusicVolume();
+    }
+  }
+
+  /**
+   * Remove the tracks still fading out
+   * The music of the level keeps playing until the next level replaces it
+   */
+  public shutdown(): void {
+    this.fadingOut.forEach(sound => {
+      this.scene.tweens.killTweensOf(sound);
+      sound.destroy();
+    });
+    this.fadingOut = [];
+    this.updateMusicVolume();
+    this.listener = null;
+  }
+}
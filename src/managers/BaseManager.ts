@@ -3,6 +3,9 @@
  */
 
 import { ISpatialManager, IObjectPoolManager } from '../types/manager-interfaces';
+import { SCENES } from '../constants/scenes';
+import { GameManager } from '../scenes/GameManager';
+import { EventBus } from '../utils/EventBus';
 
 /**
  * Base manager class with common functionality for all managers
@@ -53,6 +56,14 @@ export abstract class BaseManager {
     return this.objectPoolManager;
   }
 
+  /**
+   * Get the game-wide event bus held by the GameManager
+   * Pass the scene to `on` and `once` so the listeners are removed when the scene shuts down
+   */
+  protected get eventBus(): EventBus {
+    return (this.scene.scene.get(SCENES.GAME_MANAGER) as GameManager).eventBus;
+  }
+
   /**
    * Initialize the manager
    * Must be implemented by derived classes
@@ -1,19 +1,40 @@
 /**
- * @fileoverview Camera manager for camera setup and following behavior
+ * @fileoverview Camera manager for camera setup, following behavior and effects
  */
 
 import { ICameraManager } from '../types/manager-interfaces';
+import { CameraSettings, FocusOptions } from '../types/camera-types';
+import { GameEventMap } from '../types/event-types';
+import { CAMERA } from '../constants/camera';
+import { EVENTS } from '../constants/events';
+import { findCameraRoom, getCameraSettings } from '../utils/camera-settings';
 import { BaseManager } from './BaseManager';
 
-/** Camera lerp factor for smooth camera movement */
-const CAMERA_LERP = 1;
-
 /**
  * Manages camera setup and behavior
+ *
+ * Responsibilities:
+ * - Following the target with the lerp, dead zone and zoom of the level
+ * - Looking ahead of the target in the direction it moves
+ * - Shaking the screen when the target is hit
+ * - Showing a point for a while, zooming if asked, then following the target again
+ * - Keeping the camera within the room of the target and scrolling to the next room
+ * - Tracking the visible area for culling
  */
 export class CameraManager extends BaseManager implements ICameraManager {
   private cameraBounds: Phaser.Geom.Rectangle;
   private target: Phaser.GameObjects.GameObject | null = null;
+  private settings: CameraSettings = getCameraSettings({});
+  /** Current distance the camera looks ahead of the target */
+  private lookAhead = new Phaser.Math.Vector2();
+  /** Whether the camera shows a point instead of following the target */
+  private focusing = false;
+  /** Bounds of the whole map */
+  private mapBounds = new Phaser.Geom.Rectangle(0, 0, 0, 0);
+  /** Rooms of the map the camera stays within, none leaves the whole map open */
+  private rooms: Phaser.Geom.Rectangle[] = [];
+  /** Room of the target, null when the map has no rooms or the target is outside all of them */
+  private room: Phaser.Geom.Rectangle | null = null;
 
   /**
    * Create a new CameraManager
@@ -29,10 +50,24 @@ export class CameraManager extends BaseManager implements ICameraManager {
    * @param mapWidth - Width of the map in pixels
    * @param mapHeight - Height of the map in pixels
    * @param target - The object for the camera to follow
+   * @param settings - Camera settings of the level, see getCameraSettings
+   * @param rooms - Rooms the camera stays within, see getCameraRooms
    */
-  public initialize(mapWidth: number, mapHeight: number, target: Phaser.GameObjects.GameObject): void {
+  public initialize(
+    mapWidth: number,
+    mapHeight: number,
+    target: Phaser.GameObjects.GameObject,
+    settings: CameraSettings = getCameraSettings({}),
+    rooms: Phaser.Geom.Rectangle[] = []
+  ): void {
     this.target = target;
+    this.settings = settings;
+    this.rooms = rooms;
     this.setupCamera(mapWidth, mapHeight);
+
+    if (this.target) {
+      this.target.on(EVENTS.CHARACTER_DAMAGED, this.onTargetDamaged, this);
+    }
   }
 
   /**
@@ -40,38 +75,157 @@ export class CameraManager extends BaseManager implements ICameraManager {
    */
   private setupCamera(mapWidth: number, mapHeight: number): void {
     const mainCamera = this.scene.cameras.main;
-    
+
     // Optimize rendering
     mainCamera.setRoundPixels(true);
-    
-    // Set camera bounds to match map dimensions
-    mainCamera.setBounds(0, 0, mapWidth, mapHeight);
-    
-    // Start following the target (usually the player)
-    if (this.target) {
-      mainCamera.startFollow(this.target, true, CAMERA_LERP, CAMERA_LERP);
+
+    // Set camera bounds to match map dimensions, or the room of the target
+    this.mapBounds.setTo(0, 0, mapWidth, mapHeight);
+    const target = this.target as unknown as Phaser.GameObjects.Components.Transform;
+    this.room = target ? findCameraRoom(this.rooms, target.x, target.y) : null;
+    this.applyBounds();
+    mainCamera.setZoom(this.settings.zoom);
+
+    if (this.settings.deadZoneWidth > 0 || this.settings.deadZoneHeight > 0) {
+      mainCamera.setDeadzone(this.settings.deadZoneWidth, this.settings.deadZoneHeight);
     }
-    
+
+    // Start following the target (usually the player)
+    this.follow();
+
     // Initialize camera bounds for culling calculations
     this.updateCameraBounds();
   }
 
+  /**
+   * Follow the target with the lerp of the level
+   */
+  private follow(): void {
+    if (this.target) {
+      this.scene.cameras.main.startFollow(this.target, true, this.settings.lerp, this.settings.lerp);
+    }
+  }
+
+  /**
+   * Keep the camera within the bounds of the current room, or of the map
+   */
+  private applyBounds(): void {
+    const bounds = this.room || this.mapBounds;
+    this.scene.cameras.main.setBounds(bounds.x, bounds.y, bounds.width, bounds.height);
+  }
+
   /**
    * Update camera position and bounds
    */
   public update(): void {
+    this.updateRoom();
+    this.updateLookAhead();
     this.updateCameraBounds();
   }
 
+  /**
+   * Scroll to the room the target entered
+   * The camera pans over the whole map to the part of the room showing the target,
+   * then stays within the room again
+   */
+  private updateRoom(): void {
+    const target = this.target as unknown as Phaser.GameObjects.Components.Transform;
+    if (this.rooms.length === 0 || this.focusing || !target) {
+      return;
+    }
+
+    const room = findCameraRoom(this.rooms, target.x, target.y, this.room);
+    if (room === this.room) {
+      return;
+    }
+
+    this.room = room;
+    if (!room) {
+      this.applyBounds();
+      return;
+    }
+
+    const camera = this.scene.cameras.main;
+    const view = this.getViewCenter(target.x, target.y);
+    camera.stopFollow();
+    camera.setBounds(this.mapBounds.x, this.mapBounds.y, this.mapBounds.width, this.mapBounds.height);
+    this.pan(view.x, view.y, CAMERA.ROOM_SCROLL_DURATION, () => {
+      // The target may have entered yet another room meanwhile
+      if (this.room === room) {
+        this.applyBounds();
+        this.follow();
+      }
+    });
+  }
+
+  /**
+   * Center of the view showing a position without leaving the current room
+   */
+  private getViewCenter(x: number, y: number): Phaser.Math.Vector2 {
+    if (!this.room) {
+      return new Phaser.Math.Vector2(x, y);
+    }
+
+    // The zoom of the level, the camera may be zooming back to it
+    const camera = this.scene.cameras.main;
+    return new Phaser.Math.Vector2(
+      this.clampToRoom(x, this.room.x, this.room.width, camera.width / this.settings.zoom),
+      this.clampToRoom(y, this.room.y, this.room.height, camera.height / this.settings.zoom)
+    );
+  }
+
+  /**
+   * Center of the view showing a position without leaving the room, along one axis
+   * The view is centered on rooms smaller than itself
+   */
+  private clampToRoom(position: number, start: number, size: number, viewSize: number): number {
+    if (size <= viewSize) {
+      return start + size / 2;
+    }
+    return Phaser.Math.Clamp(position, start + viewSize / 2, start + size - viewSize / 2);
+  }
+
+  /**
+   * Get the room of the target
+   * @returns The room or null if the map has no rooms or the target is outside all of them
+   */
+  public getRoom(): Phaser.Geom.Rectangle | null {
+    return this.room;
+  }
+
+  /**
+   * Move the follow offset towards the direction the target moves, further the faster it goes
+   */
+  private updateLookAhead(): void {
+    const body = (this.target as Phaser.Physics.Arcade.Sprite | null)?.body as Phaser.Physics.Arcade.Body;
+    if (this.settings.lookAhead <= 0 || this.focusing || !body) {
+      return;
+    }
+
+    const velocity = body.velocity;
+    const speed = velocity.length();
+    const reach = this.settings.lookAhead * Math.min(1, speed / CAMERA.LOOK_AHEAD_SPEED);
+    const goalX = speed > 0 ? (velocity.x / speed) * reach : 0;
+    const goalY = speed > 0 ? (velocity.y / speed) * reach : 0;
+    this.lookAhead.x += (goalX - this.lookAhead.x) * CAMERA.LOOK_AHEAD_LERP;
+    this.lookAhead.y += (goalY - this.lookAhead.y) * CAMERA.LOOK_AHEAD_LERP;
+
+    // The offset is subtracted from the target position
+    this.scene.cameras.main.setFollowOffset(-this.lookAhead.x, -this.lookAhead.y);
+  }
+
   /**
    * Update the camera bounds for culling calculations
+   * A zoomed in camera shows a smaller area around its center
    */
   private updateCameraBounds(): void {
     const camera = this.scene.cameras.main;
-    this.cameraBounds.x = camera.scrollX;
-    this.cameraBounds.y = camera.scrollY;
-    this.cameraBounds.width = camera.width;
-    this.cameraBounds.height = camera.height;
+    const width = camera.width / camera.zoom;
+    const height = camera.height / camera.zoom;
+    this.cameraBounds.x = camera.scrollX + (camera.width - width) / 2;
+    this.cameraBounds.y = camera.scrollY + (camera.height - height) / 2;
+    this.cameraBounds.width = width;
+    this.cameraBounds.height = height;
   }
 
   /**
@@ -81,13 +235,92 @@ export class CameraManager extends BaseManager implements ICameraManager {
     return this.cameraBounds;
   }
 
+  /**
+   * Get the camera settings of the level
+   */
+  public getSettings(): CameraSettings {
+    return this.settings;
+  }
+
+  /**
+   * Shake the screen
+   * @param intensity - Fraction of the screen size the camera moves by
+   * @param duration - Time the camera shakes in milliseconds
+   */
+  public shake(intensity: number, duration: number = CAMERA.SHAKE_DURATION): void {
+    this.scene.cameras.main.shake(duration, intensity);
+  }
+
+  /**
+   * Shake the screen harder for stronger hits
+   */
+  private onTargetDamaged({ damage }: GameEventMap[typeof EVENTS.CHARACTER_DAMAGED]): void {
+    this.shake(Math.min(CAMERA.MAX_SHAKE_INTENSITY, damage * CAMERA.SHAKE_INTENSITY));
+  }
+
+  /**
+   * Pan to a point, stay there then pan back and follow the target again
+   * Used by cutscenes and to introduce enemies
+   * @param x - Horizontal position to show
+   * @param y - Vertical position to show
+   * @param options - Time spent on the point, zoom and callbacks
+   */
+  public focusOn(x: number, y: number, options: FocusOptions): void {
+    const camera = this.scene.cameras.main;
+    camera.stopFollow();
+    this.focusing = true;
+    this.zoom(options.zoom);
+
+    // The point may be in another room
+    camera.setBounds(this.mapBounds.x, this.mapBounds.y, this.mapBounds.width, this.mapBounds.height);
+    this.pan(x, y, CAMERA.FOCUS_PAN_DURATION, () => {
+      if (options.onArrive) options.onArrive();
+      this.scene.time.delayedCall(options.duration, () => {
+        const target = this.target as unknown as Phaser.GameObjects.Components.Transform;
+        const view = this.getViewCenter(target.x, target.y);
+        this.zoom(this.settings.zoom);
+        this.pan(view.x, view.y, CAMERA.FOCUS_PAN_DURATION, () => {
+          this.applyBounds();
+          this.follow();
+          this.focusing = false;
+          if (options.onComplete) options.onComplete();
+        });
+      }, [], this);
+    });
+  }
+
+  /**
+   * Pan the camera and call back once it arrived
+   */
+  private pan(x: number, y: number, duration: number, onComplete: () => void): void {
+    this.scene.cameras.main.pan(x, y, duration, 'Sine.easeInOut', true,
+      (_camera: Phaser.Cameras.Scene2D.Camera, progress: number) => {
+        if (progress === 1) onComplete();
+      });
+  }
+
+  /**
+   * Zoom the camera while it pans, nothing if the zoom is omitted or already reached
+   */
+  private zoom(zoom?: number): void {
+    const camera = this.scene.cameras.main;
+    if (zoom !== undefined && zoom !== camera.zoom) {
+      camera.zoomTo(zoom, CAMERA.FOCUS_PAN_DURATION, 'Sine.easeInOut', true);
+    }
+  }
+
   /**
    * Clean up camera resources
    */
   public shutdown(): void {
+    if (this.target) {
+      this.target.off(EVENTS.CHARACTER_DAMAGED, this.onTargetDamaged, this, false);
+    }
+
     // Reset camera
     const mainCamera = this.scene.cameras.main;
     mainCamera.stopFollow();
     this.target = null;
+    this.focusing = false;
   }
-} 
\ No newline at end of file
+}
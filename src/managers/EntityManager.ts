@@ -14,7 +14,6 @@
  * 
  * Constants:
  * - {@link MAP_CONTENT_KEYS} - Keys for map content objects
- * - {@link ENTITIES} - Dictionary of entity types
  * 
  * Scene classes:
  * - {@link AbstractScene} - Base scene class
@@ -24,19 +23,37 @@
  * 
  * Factories:
  * - {@link EntityFactory} - Factory for creating game entities
+ * 
+ * Utils:
+ * - {@link isEntityKilled} / {@link markEntityKilled} - Defeated entities kept in the registry
+ * - {@link getCheckpoint} - Position the player respawns at
+ * - {@link findMapObject} / {@link getPatrolRoute} - Patrol routes drawn in Tiled
+ * 
+ * Behaviors:
+ * - {@link WanderMovement} / {@link PatrolMovement} - Roaming selected by the Tiled object properties
  */
 import { IEntityManager, ISpatialManager, IInputManager } from '../types/manager-interfaces';
-import { InterSceneData, CustomTilemapObject } from '../types/scene-types';
+import { InterSceneData, CustomTilemapObject, PlayerSpawn } from '../types/scene-types';
 import { Player } from '../game-objects/Player';
+import { NonPlayerEntity } from '../game-objects/entities/NonPlayerEntity';
 import { MAP_CONTENT_KEYS } from '../constants/map-content-keys';
-import { ENTITIES } from '../constants/entities';
 import { AbstractScene } from '../scenes/AbstractScene';
 import { INonPlayerEntity } from '../types/entities/entity-interfaces';
+import { EntityDefinition } from '../types/entities/entity-definitions';
 import { BaseManager } from './BaseManager';
 import { PlayerInputBehavior } from '../behaviors/input/PlayerInputBehavior';
 import { EntityFactory } from '../factories/EntityFactory';
+import { EVENTS } from '../constants/events';
+import { SaveSnapshot } from '../types/save-types';
+import { getCheckpoint, isEntityKilled, markEntityKilled } from '../utils/world-state';
+import { findMapObject, getPatrolRoute } from '../utils/patrol-routes';
+import { WanderMovement } from '../behaviors/movement/WanderMovement';
+import { PatrolMovement } from '../behaviors/movement/PatrolMovement';
+import { MOVEMENT_DEFAULTS } from '../constants/movement';
+import { AI_STATES } from '../constants/ai';
+import { GameEventMap } from '../types/event-types';
 
-/** Default player position if no scene data is available */
+/** Default player position if the scene has no spawn for the player */
 const DEFAULT_PLAYER_POSITION = {
   x: 50,
   y: 200
@@ -46,10 +63,11 @@ const DEFAULT_PLAYER_POSITION = {
  * Manages game entities including player, NPCs, and monsters
  * 
  * Responsibilities:
- * - Creating and storing entities (player, monsters)
+ * - Creating and storing entities (player, monsters, NPCs)
  * - Providing access to these entities
  * - Basic entity lifecycle management
  * - Updating the player entity
+ * - Announcing when a boss engages the player
  * 
  * Collaborators:
  * - SpatialManager: Handles activation/deactivation of entities based on spatial partitioning
@@ -71,6 +89,9 @@ export class EntityManager extends BaseManager implements IEntityManager {
    */
   private nonPlayerEntities: INonPlayerEntity[] = [];
 
+  /** Collection of friendly NPCs spawned from the npcs object layer */
+  private npcs: INonPlayerEntity[] = [];
+
   /** Injected manager dependencies */
   protected inputManager: IInputManager;
   protected spatialManager: ISpatialManager;
@@ -80,6 +101,9 @@ export class EntityManager extends BaseManager implements IEntityManager {
   /** Entity factory for creating game entities */
   private entityFactory: EntityFactory;
 
+  /** Snapshot the scene is restored from, if it was started by loading a save */
+  private save: SaveSnapshot | null = null;
+
   /**
    * Create a new EntityManager
    * @param scene - The scene this manager belongs to
@@ -119,40 +143,46 @@ export class EntityManager extends BaseManager implements IEntityManager {
    * Initialize entity creation
    * @param map - The tilemap containing entity data
    * @param sceneData - Data from previous scene if any
+   * @param spawn - Where the player enters the scene, see SceneFlowManager.getPlayerSpawn
    */
-  public initialize(map: Phaser.Tilemaps.Tilemap, sceneData: InterSceneData): void {
+  public initialize(map: Phaser.Tilemaps.Tilemap, sceneData: InterSceneData, spawn?: PlayerSpawn): void {
     this.map = map;
     
+    // Only restore from a snapshot taken in this scene
+    this.save = sceneData?.save && sceneData.save.sceneKey === this.scene.scene.key
+      ? sceneData.save
+      : null;
+    
     // Ensure we have a entity factory
     if (!this.entityFactory && this.scene instanceof AbstractScene) {
       this.entityFactory = new EntityFactory(this.scene);
     }
     
-    this.createPlayer(sceneData);
+    this.createPlayer(sceneData, spawn);
     this.createMonsters();
+    this.createNpcs();
   }
 
   /**
    * Create the player at the appropriate position
+   *
+   * A loaded save wins over the checkpoint of a respawn, which wins over the spawn.
+   * Health and items carried over from the previous scene are ignored when loading a save.
    * @param sceneData - Data from the previous scene
+   * @param spawn - Where the player enters the scene
    */
-  public createPlayer(sceneData: InterSceneData): Player {
+  public createPlayer(sceneData: InterSceneData, spawn?: PlayerSpawn): Player {
     if (this.player) {
       console.warn('EntityManager.createPlayer: Player already exists');
       return this.player;
     }
     
-    // Calculate player position from scene transition or use default
-    const playerX = DEFAULT_PLAYER_POSITION.x;
-    const playerY = DEFAULT_PLAYER_POSITION.y;
-    
-    // If we have scene data with a previous scene, we can use that for position
-    if (sceneData && sceneData.comesFrom) {
-      // In a real implementation, we would calculate position based on transition
-      console.log(`Player transitioning from ${sceneData.comesFrom}`);
-      
-      // For now, just using default position
-    }
+    // Calculate player position from a loaded save, the checkpoint of a respawn, the spawn or use default
+    const checkpoint = sceneData?.respawn ? getCheckpoint(this.scene.registry) : null;
+    const respawnPosition = checkpoint && checkpoint.sceneKey === this.scene.scene.key ? checkpoint : null;
+    const position = this.save ? this.save.player : respawnPosition || spawn || DEFAULT_PLAYER_POSITION;
+    const playerX = position.x;
+    const playerY = position.y;
     
     // Create player at the appropriate position using the factory
     if (this.entityFactory) {
@@ -169,6 +199,20 @@ export class EntityManager extends BaseManager implements IEntityManager {
     this.playerInputBehavior = new PlayerInputBehavior();
     this.player.setInputBehavior(this.playerInputBehavior);
     
+    if (this.save) {
+      this.player.maxHp = this.save.player.maxHp;
+      this.player.hp = this.save.player.hp;
+      this.player.setOrientation(this.save.player.orientation);
+    } else if (sceneData?.player) {
+      this.player.maxHp = sceneData.player.maxHp;
+      this.player.hp = sceneData.player.hp;
+      this.player.inventory.setContents(sceneData.player.inventory);
+    }
+    
+    if (position === spawn) {
+      this.player.setOrientation(spawn.orientation);
+    }
+    
     return this.player;
   }
 
@@ -180,41 +224,194 @@ export class EntityManager extends BaseManager implements IEntityManager {
    * and handle their activation/deactivation based on position
    */
   public createMonsters(): void {
-    const monstersMapObjects = this.map.objects.find(
-      o => o.name === MAP_CONTENT_KEYS.objects.MONSTERS,
-    );
-    const monsters = (monstersMapObjects?.objects || []) as unknown as CustomTilemapObject[];
+    this.nonPlayerEntities = this.createEntitiesFromLayer(MAP_CONTENT_KEYS.objects.MONSTERS, 'hostile');
+  }
+
+  /**
+   * Create friendly NPCs from the npcs object layer
+   */
+  public createNpcs(): void {
+    this.npcs = this.createEntitiesFromLayer(MAP_CONTENT_KEYS.objects.NPCS, 'friendly');
+  }
+
+  /**
+   * Create a hostile entity that is not placed in the map, e.g. a monster of a wave
+   * It has no spawn id, so it is neither remembered when defeated nor saved
+   * @param type - Entity type of a hostile definition
+   * @param x - Horizontal position
+   * @param y - Vertical position
+   * @returns The entity or null if the type is unknown
+   */
+  public spawnEntity(type: string, x: number, y: number): INonPlayerEntity | null {
+    const definition = this.entityFactory?.getDefinition(type);
+    if (!definition || definition.faction !== 'hostile') {
+      console.warn(`EntityManager.spawnEntity: "${type}" is not a hostile entity type`);
+      return null;
+    }
+    
+    const entity = this.entityFactory.createEntity(type, x, y);
+    if (!entity) {
+      return null;
+    }
+    
+    this.trackDeath(entity, definition, this.getMapKey());
+    this.trackBoss(entity, definition);
+    this.nonPlayerEntities.push(entity);
+    this.spatialManager?.addEntity(entity as unknown as Phaser.GameObjects.GameObject);
+    this.eventBus.emit(EVENTS.ENTITY_SPAWNED, { entity, definition });
+    
+    return entity;
+  }
+
+  /**
+   * Create the entities placed in an object layer
+   * @param layerName - Name of the object layer
+   * @param faction - Only definitions of this faction are spawned
+   */
+  private createEntitiesFromLayer(
+    layerName: string,
+    faction: EntityDefinition['faction']
+  ): INonPlayerEntity[] {
+    const layer = this.map.objects.find(o => o.name === layerName);
+    const mapObjects = (layer?.objects || []) as unknown as CustomTilemapObject[];
 
-    // Batch monster creation
-    const monsterCreationOperations: INonPlayerEntity[] = [];
+    // Batch entity creation
+    const entityCreationOperations: INonPlayerEntity[] = [];
     
-    // Define which entities are hostile (monsters)
-    const hostileEntityValues = [ENTITIES.TREANT, ENTITIES.MOLE];
+    const mapKey = this.getMapKey();
     
-    monsters.forEach((monster: CustomTilemapObject) => {
+    mapObjects.forEach((mapObject: CustomTilemapObject) => {
       // Skip invalid entities
-      if (!monster.name) {
+      if (!mapObject.name || !this.entityFactory) {
         return;
       }
       
-      // Check if this is a valid monster type
-      const monsterType = monster.name;
-      const isValidHostileEntity = hostileEntityValues.includes(monsterType as typeof ENTITIES.TREANT | typeof ENTITIES.MOLE);
+      // Defeated entities stay dead
+      if (isEntityKilled(this.scene.registry, mapKey, mapObject.id)) {
+        return;
+      }
       
-      if (!isValidHostileEntity) {
+      // The object name is the entity type, it must belong to the expected faction
+      const entityType = mapObject.name;
+      const definition = this.entityFactory.getDefinition(entityType);
+      
+      if (!definition || definition.faction !== faction) {
         return;
       }
       
       // Use factory to create entity
-      if (this.entityFactory) {
-        const entity = this.entityFactory.createEntity(monsterType, monster.x, monster.y);
-        if (entity) {
-          monsterCreationOperations.push(entity);
-        }
+      const entity = this.entityFactory.createEntity(entityType, mapObject.x, mapObject.y, mapObject);
+      if (entity) {
+        this.applyRoamingMovement(entity, mapObject);
+        this.restoreEntity(entity);
+        this.trackDeath(entity, definition, mapKey);
+        this.trackBoss(entity, definition);
+        entityCreationOperations.push(entity);
+        this.eventBus.emit(EVENTS.ENTITY_SPAWNED, { entity, definition });
       }
     });
     
-    this.nonPlayerEntities = monsterCreationOperations;
+    return entityCreationOperations;
+  }
+
+  /**
+   * Replace the movement of the entity when its Tiled object asks it to roam
+   * A patrolPath property wins over shouldWander
+   * @param entity - The freshly spawned entity
+   * @param mapObject - The Tiled object the entity was spawned from
+   */
+  private applyRoamingMovement(entity: INonPlayerEntity, mapObject: CustomTilemapObject): void {
+    const properties = mapObject.properties;
+    if (!properties || !(entity instanceof NonPlayerEntity)) {
+      return;
+    }
+    
+    if (properties.patrolPath !== undefined) {
+      const pathObject = findMapObject(this.map, Number(properties.patrolPath));
+      const route = pathObject ? getPatrolRoute(pathObject) : null;
+      if (route) {
+        entity.setMovementBehavior(new PatrolMovement(
+          route.points,
+          route.loop,
+          properties.patrolPause ?? MOVEMENT_DEFAULTS.PATROL_PAUSE
+        ));
+        return;
+      }
+      console.warn(`EntityManager: Patrol path ${properties.patrolPath} of object ${mapObject.id} not found`);
+    }
+    
+    if (properties.shouldWander === true || properties.shouldWander === 'true') {
+      entity.setMovementBehavior(new WanderMovement(
+        properties.wanderRadius ?? MOVEMENT_DEFAULTS.WANDER_RADIUS
+      ));
+    }
+  }
+
+  /**
+   * Apply the position and HP saved for an entity when loading a save
+   * @param entity - The freshly spawned entity
+   */
+  private restoreEntity(entity: INonPlayerEntity): void {
+    const remaining = this.save?.maps[this.getMapKey()]?.remaining;
+    const saved = remaining?.find(state => state.id === entity.spawnId);
+    if (!saved || !(entity instanceof NonPlayerEntity)) {
+      return;
+    }
+    
+    entity.setPosition(saved.x, saved.y);
+    entity.hp = saved.hp;
+  }
+
+  /**
+   * Announce the defeat of the entity on the event bus and record it in the registry
+   * so it does not respawn
+   * @param entity - The spawned entity
+   * @param definition - Definition the entity was built from
+   * @param mapKey - Key of the map the entity belongs to
+   */
+  private trackDeath(entity: INonPlayerEntity, definition: EntityDefinition, mapKey: string): void {
+    if (!(entity instanceof NonPlayerEntity)) {
+      return;
+    }
+    
+    entity.once(EVENTS.CHARACTER_DEATH, () => {
+      if (entity.spawnId !== undefined) {
+        markEntityKilled(this.scene.registry, mapKey, entity.spawnId);
+      }
+      this.eventBus.emit(EVENTS.ENTITY_DEFEATED, { entity, definition });
+    });
+  }
+
+  /**
+   * Announce on the event bus when a boss starts fighting the player,
+   * once it chases or attacks them or once it is hurt
+   * @param entity - The spawned entity
+   * @param definition - Definition the entity was built from
+   */
+  private trackBoss(entity: INonPlayerEntity, definition: EntityDefinition): void {
+    if (!definition.boss || !(entity instanceof NonPlayerEntity)) {
+      return;
+    }
+    
+    const engage = () => {
+      this.eventBus.off(EVENTS.AI_STATE_CHANGED, onStateChanged, this);
+      entity.off(EVENTS.CHARACTER_DAMAGED, engage, undefined, false);
+      this.eventBus.emit(EVENTS.BOSS_ENGAGED, { entity, definition });
+    };
+    const onStateChanged = ({ entity: changed, to }: GameEventMap[typeof EVENTS.AI_STATE_CHANGED]) => {
+      if (changed === entity && (to === AI_STATES.CHASE || to === AI_STATES.ATTACK)) {
+        engage();
+      }
+    };
+    this.eventBus.on(EVENTS.AI_STATE_CHANGED, onStateChanged, this, this.scene);
+    entity.on(EVENTS.CHARACTER_DAMAGED, engage);
+  }
+
+  /**
+   * Key of the map of the scene
+   */
+  private getMapKey(): string {
+    return this.scene instanceof AbstractScene ? this.scene.mapKey : this.scene.scene.key;
   }
 
   /**
@@ -233,6 +430,13 @@ export class EntityManager extends BaseManager implements IEntityManager {
     return this.nonPlayerEntities;
   }
 
+  /**
+   * Get all friendly NPCs in the scene
+   */
+  public getNpcs(): INonPlayerEntity[] {
+    return this.npcs;
+  }
+
   /**
    * Update entity states
    * 
@@ -249,10 +453,10 @@ export class EntityManager extends BaseManager implements IEntityManager {
     }
     
     // Get current input state for the frame
-    const keyState = this.inputManager.getKeyState();
+    const actionState = this.inputManager.getActionState();
     
-    // Update player input behavior with the current key state
-    this.playerInputBehavior.setKeyState(keyState);
+    // Update player input behavior with the current action state
+    this.playerInputBehavior.setActionState(actionState);
     
     // Trigger the player's update method to process input
     this.player.update();
@@ -267,7 +471,7 @@ export class EntityManager extends BaseManager implements IEntityManager {
     
     // Filter our non-player entities to find those that are in the active set
     // This avoids updating entities that are far from player
-    this.nonPlayerEntities.forEach(entity => {
+    [...this.nonPlayerEntities, ...this.npcs].forEach(entity => {
       // Process active entities only
       if (entity.active && activeEntities.has(entity as unknown as Phaser.GameObjects.GameObject)) {
         entity.update();
@@ -285,7 +489,7 @@ export class EntityManager extends BaseManager implements IEntityManager {
    */
   public shutdown(): void {
     // Deactivate non-player entities
-    this.nonPlayerEntities.forEach(entity => {
+    [...this.nonPlayerEntities, ...this.npcs].forEach(entity => {
       if (entity.active) {
         entity.setActive(false);
         if ('visible' in entity) {
@@ -296,5 +500,6 @@ export class EntityManager extends BaseManager implements IEntityManager {
     
     // Clear collections
     this.nonPlayerEntities = [];
+    this.npcs = [];
   }
 } 
\ No newline at end of file
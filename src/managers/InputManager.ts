@@ -3,90 +3,187 @@
  */
 
 import { IInputManager } from '../types/manager-interfaces';
-import { KeyState } from '../types/scene-types';
-import { SCENES } from '../constants/scenes';
+import { ActionState, InputBinding } from '../types/input-types';
+import { INPUT, INPUT_ACTIONS, InputAction } from '../constants/input';
+import { InputBindings } from '../utils/InputBindings';
+import { ISaveStorage, LocalSaveStorage } from '../utils/save-storage';
 import { BaseManager } from './BaseManager';
 
 /**
- * Manages keyboard input and state tracking
+ * Create an action map with the same value for every action
+ */
+function createActionMap<T>(value: T): Record<InputAction, T> {
+  return Object.values(INPUT_ACTIONS).reduce(
+    (map, action) => ({ ...map, [action]: value }),
+    {} as Record<InputAction, T>
+  );
+}
+
+/**
+ * Action state with nothing pressed
+ */
+function createIdleActionState(): ActionState {
+  return {
+    move: { x: 0, y: 0 },
+    pressed: createActionMap(false),
+    justPressed: createActionMap(false),
+  };
+}
+
+/**
+ * Manages the input actions and keyboard shortcuts
+ *
+ * Responsibilities:
+ * - Reading the keys and gamepad controls bound to each action once per frame
+ * - Rebinding actions, the bindings persist between sessions
+ * - Running the keyboard shortcuts registered by the scene
  */
 export class InputManager extends BaseManager implements IInputManager {
   private cursors: CursorKeys;
+  private storage: ISaveStorage;
+  private bindings: InputBindings;
+  /** Phaser keys keyed by KeyCodes name, created when first bound */
+  private keys: Map<string, Phaser.Input.Keyboard.Key> = new Map();
   private keyboardHandler: (event: KeyboardEvent) => void;
-  private keyState: KeyState = {
-    left: false,
-    right: false,
-    up: false,
-    down: false,
-    space: false,
-    shift: false,
-  };
+  /** Shortcut actions keyed by KeyboardEvent.key, avoids switch statements in the handler */
+  private keyActionMap: Record<string, () => void> = {};
+  private actionState: ActionState = createIdleActionState();
+  /** Whether the actions are ignored, e.g. during a cutscene */
+  private locked = false;
 
   /**
    * Create a new InputManager
    * @param scene - The scene this manager belongs to
+   * @param storage - Backend the customized bindings are written to
    */
-  constructor(scene: Phaser.Scene) {
+  constructor(scene: Phaser.Scene, storage: ISaveStorage = new LocalSaveStorage()) {
     super(scene);
     this.keyboardHandler = () => {};
     this.cursors = {} as CursorKeys; // Will be initialized in initialize()
+    this.storage = storage;
+    this.bindings = new InputBindings(storage);
   }
 
   /**
    * Initialize input handlers
+   * @param withShortcuts - Whether to listen to the keyboard shortcuts, menus only read the actions
    */
-  public initialize(): void {
+  public initialize(withShortcuts: boolean = true): void {
     this.cursors = this.scene.input.keyboard.createCursorKeys();
-    this.setupKeyboardShortcuts(this.scene);
+    this.addBoundKeys();
+    if (withShortcuts) {
+      this.setupKeyboardShortcuts(this.scene);
+    }
+
+    // Keys released while the scene was paused are never seen by it
+    this.scene.events.on('resume', this.refresh, this);
+    this.scene.events.once('shutdown', this.removeListeners, this);
   }
 
   /**
    * Set up keyboard shortcuts
-   * @param scene - Reference to the current scene for scene switching
+   * @param scene - The scene listening to the keyboard
    */
   public setupKeyboardShortcuts(scene: Phaser.Scene): void {
-    // Create a key map to avoid switch statements in the handler
-    const keyActionMap: Record<string, () => void> = {
-      '1': () => {
-        if (scene.scene.key !== SCENES.FIRST_LEVEL) {
-          scene.scene.start(SCENES.FIRST_LEVEL, { comesFrom: scene.scene.key });
-        }
-      },
-      '2': () => {
-        if (scene.scene.key !== SCENES.SECOND_LEVEL) {
-          scene.scene.start(SCENES.SECOND_LEVEL, { comesFrom: scene.scene.key });
-        }
-      }
-    };
+    // Replace the handler if shortcuts were already set up
+    scene.input.keyboard.off('keydown', this.keyboardHandler, this.scene, false);
     
     // Use a single keyboard handler for all shortcuts
     this.keyboardHandler = (event: KeyboardEvent) => {
-      const action = keyActionMap[event.key];
+      const action = this.keyActionMap[event.key];
       if (action) {
         action();
       }
     };
     
-    scene.input.keyboard.on('keydown', this.keyboardHandler);
+    // Registered with the scene as context so shutdown() can remove it
+    scene.input.keyboard.on('keydown', this.keyboardHandler, this.scene);
+  }
+
+  /**
+   * Register a keyboard shortcut
+   * @param key - Value of KeyboardEvent.key triggering the action
+   * @param action - Action to run
+   */
+  public addShortcut(key: string, action: () => void): void {
+    this.keyActionMap[key] = action;
+  }
+
+  /**
+   * Get the state of the actions for the current frame
+   */
+  public getActionState(): ActionState {
+    return this.actionState;
+  }
+
+  /**
+   * Get the bindings of the actions
+   */
+  public getBindings(): InputBindings {
+    return this.bindings;
+  }
+
+  /**
+   * Replace the bindings of an action, the change is persisted
+   * @param action - The action to rebind
+   * @param bindings - New keys, buttons or axes of the action
+   */
+  public rebind(action: InputAction, bindings: InputBinding[]): void {
+    this.bindings.rebind(action, bindings);
+    this.addBoundKeys();
+  }
+
+  /**
+   * Reload the bindings, which another scene may have changed, and release every key
+   */
+  public refresh(): void {
+    this.bindings = new InputBindings(this.storage);
+    this.addBoundKeys();
+    this.keys.forEach(key => key && key.reset());
+    this.actionState = createIdleActionState();
   }
 
   /**
-   * Get the current key state
+   * Ignore the actions until unlocked, the action state stays idle meanwhile
+   * @param locked - Whether the actions are ignored
    */
-  public getKeyState(): KeyState {
-    return this.keyState;
+  public setLocked(locked: boolean): void {
+    this.locked = locked;
+    if (locked) {
+      this.actionState = createIdleActionState();
+    }
   }
 
   /**
-   * Update the key state based on current input
+   * Update the action state based on current input
    */
   public update(): void {
-    this.keyState.left = this.cursors.left.isDown;
-    this.keyState.right = this.cursors.right.isDown;
-    this.keyState.up = this.cursors.up.isDown;
-    this.keyState.down = this.cursors.down.isDown;
-    this.keyState.space = this.cursors.space.isDown;
-    this.keyState.shift = this.cursors.shift.isDown;
+    if (this.locked) return;
+
+    const pads = this.getGamepads();
+    const values = createActionMap(0);
+    Object.values(INPUT_ACTIONS).forEach(action => {
+      values[action] = Math.max(0, ...this.bindings.get(action).map(binding => this.getBindingValue(binding, pads)));
+    });
+
+    const previous = this.actionState.pressed;
+    const pressed = createActionMap(false);
+    const justPressed = createActionMap(false);
+    Object.values(INPUT_ACTIONS).forEach(action => {
+      pressed[action] = values[action] > 0;
+      justPressed[action] = pressed[action] && !previous[action];
+    });
+
+    const move = new Phaser.Math.Vector2(
+      values[INPUT_ACTIONS.MOVE_RIGHT] - values[INPUT_ACTIONS.MOVE_LEFT],
+      values[INPUT_ACTIONS.MOVE_DOWN] - values[INPUT_ACTIONS.MOVE_UP]
+    );
+    // Diagonal sticks are not faster than straight ones
+    if (move.length() > 1) {
+      move.normalize();
+    }
+
+    this.actionState = { move: { x: move.x, y: move.y }, pressed, justPressed };
   }
 
   /**
@@ -96,6 +193,74 @@ export class InputManager extends BaseManager implements IInputManager {
     return this.cursors;
   }
 
+  /**
+   * Strength of a binding between 0 and 1
+   */
+  private getBindingValue(binding: InputBinding, pads: Phaser.Input.Gamepad.Gamepad[]): number {
+    if (binding.device === 'keyboard') {
+      const key = this.getKey(binding.key);
+      return key && key.isDown ? 1 : 0;
+    }
+    return Math.max(0, ...pads.map(pad => {
+      if ('button' in binding) {
+        const button = pad.buttons[binding.button];
+        return button && button.pressed ? 1 : 0;
+      }
+      const axis = pad.axes[binding.axis];
+      const value = axis ? axis.value * binding.direction : 0;
+      // Rescale past the deadzone so a leaning stick starts from a standstill
+      return value > INPUT.STICK_DEADZONE ? (value - INPUT.STICK_DEADZONE) / (1 - INPUT.STICK_DEADZONE) : 0;
+    }));
+  }
+
+  /**
+   * Create the Phaser keys of the keyboard bindings, so their first press is not missed
+   */
+  private addBoundKeys(): void {
+    Object.values(INPUT_ACTIONS).forEach(action => {
+      this.bindings.get(action).forEach(binding => {
+        if (binding.device === 'keyboard') {
+          this.getKey(binding.key);
+        }
+      });
+    });
+  }
+
+  /**
+   * Phaser key for a KeyCodes name, created on first use
+   */
+  private getKey(name: string): Phaser.Input.Keyboard.Key | null {
+    const keyName = name.toUpperCase();
+    if (!this.keys.has(keyName)) {
+      const keyCode = (Phaser.Input.Keyboard.KeyCodes as unknown as Record<string, number>)[keyName];
+      if (keyCode === undefined) {
+        console.warn(`InputManager: Unknown key "${name}"`);
+        this.keys.set(keyName, null);
+      } else {
+        this.keys.set(keyName, this.scene.input.keyboard.addKey(keyCode));
+      }
+    }
+    return this.keys.get(keyName);
+  }
+
+  /**
+   * Connected gamepads, none when the gamepad plugin is disabled
+   */
+  private getGamepads(): Phaser.Input.Gamepad.Gamepad[] {
+    const gamepad = this.scene.input.gamepad;
+    if (!gamepad || !gamepad.enabled) {
+      return [];
+    }
+    return gamepad.gamepads.filter(pad => pad && pad.connected);
+  }
+
+  /**
+   * Stop listening to the scene events
+   */
+  private removeListeners(): void {
+    this.scene.events.off('resume', this.refresh, this, false);
+  }
+
   /**
    * Remove event listeners when shutting down
    */
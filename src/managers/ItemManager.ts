@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Item manager for the pickups lying on the ground
+ */
+
+import { IItemManager, IPhysicsManager } from '../types/manager-interfaces';
+import { CustomTilemapObject } from '../types/scene-types';
+import { Player } from '../game-objects/Player';
+import { Pickup } from '../game-objects/items/Pickup';
+import { MAP_CONTENT_KEYS } from '../constants/map-content-keys';
+import { getItemDefinition } from '../constants/items';
+import { LOOT } from '../constants/loot';
+import { EVENTS } from '../constants/events';
+import { LootTable } from '../types/item-types';
+import { GameEventMap } from '../types/event-types';
+import { isItemCollected, markItemCollected } from '../utils/world-state';
+import { rollLoot } from '../utils/loot';
+import { SeededRandom } from '../utils/SeededRandom';
+import { BaseManager } from './BaseManager';
+
+/**
+ * Manages item pickups
+ *
+ * Responsibilities:
+ * - Spawning pickups from the items object layer, skipping the ones already collected
+ * - Handing collected pickups over to the player inventory, emitting ITEM_COLLECTED on the event bus
+ * - Dropping the loot of defeated entities, which despawns when left on the ground
+ *
+ * Collaborators:
+ * - PhysicsManager: Detects the player walking over a pickup
+ */
+export class ItemManager extends BaseManager implements IItemManager {
+  private physicsManager: IPhysicsManager;
+  private pickupGroup: Phaser.Physics.Arcade.Group;
+  private player: Player;
+  private mapKey: string;
+  private random = new SeededRandom();
+
+  /**
+   * Create a new ItemManager
+   * @param scene - The scene this manager belongs to
+   * @param physicsManager - Sets up the overlap between the player and the pickups
+   */
+  constructor(scene: Phaser.Scene, physicsManager: IPhysicsManager) {
+    super(scene);
+    this.physicsManager = physicsManager;
+  }
+
+  /**
+   * Spawn the pickups of the map
+   * @param map - The tilemap containing the items layer
+   * @param player - The player collecting the pickups
+   * @param mapKey - Key of the map, used to remember collected pickups
+   */
+  public initialize(map: Phaser.Tilemaps.Tilemap, player: Player, mapKey: string): void {
+    this.player = player;
+    this.mapKey = mapKey;
+    this.pickupGroup = this.physicsManager.createGroup([]);
+
+    this.createPickupsFromLayer(map);
+
+    this.physicsManager.setupPickupOverlap(player, this.pickupGroup, pickup => this.collect(pickup));
+
+    this.eventBus.on(EVENTS.ENTITY_DEFEATED, this.onEntityDefeated, this, this.scene);
+  }
+
+  /**
+   * Spawn a pickup
+   * @param itemId - Item identifier
+   * @param x - X position
+   * @param y - Y position
+   * @param quantity - Number of units
+   * @param spawnId - Id of the Tiled object, if any
+   * @returns The pickup or null if the item does not exist
+   */
+  public spawnPickup(
+    itemId: string,
+    x: number,
+    y: number,
+    quantity = 1,
+    spawnId?: number
+  ): Pickup | null {
+    const definition = getItemDefinition(itemId);
+    if (!definition) {
+      console.warn(`ItemManager: Unknown item "${itemId}"`);
+      return null;
+    }
+
+    const pickup = new Pickup(this.scene, x, y, definition, quantity, spawnId);
+    this.pickupGroup.add(pickup);
+    return pickup;
+  }
+
+  /**
+   * Roll a loot table and scatter the drops around a position
+   * @param table - The loot table
+   * @param x - X position
+   * @param y - Y position
+   * @returns The dropped pickups
+   */
+  public dropLoot(table: LootTable, x: number, y: number): Pickup[] {
+    return rollLoot(table, this.random)
+      .map(drop => this.spawnDrop(drop.item, x, y, drop.quantity))
+      .filter((pickup): pickup is Pickup => pickup !== null);
+  }
+
+  /**
+   * Seed the generator used for loot rolls, making the drops reproducible
+   */
+  public setRandomSeed(seed: number): void {
+    this.random.setSeed(seed);
+  }
+
+  /**
+   * Get the pickups lying in the scene
+   */
+  public getPickups(): Pickup[] {
+    return this.pickupGroup ? (this.pickupGroup.getChildren() as Pickup[]) : [];
+  }
+
+  /**
+   * Create pickups from the items object layer
+   */
+  private createPickupsFromLayer(map: Phaser.Tilemaps.Tilemap): void {
+    const layer = map.objects.find(o => o.name === MAP_CONTENT_KEYS.objects.ITEMS);
+    const mapObjects = (layer?.objects || []) as unknown as CustomTilemapObject[];
+
+    mapObjects.forEach(mapObject => {
+      if (!mapObject.name || isItemCollected(this.scene.registry, this.mapKey, mapObject.id)) {
+        return;
+      }
+      const quantity = mapObject.properties?.quantity ?? 1;
+      this.spawnPickup(mapObject.name, mapObject.x, mapObject.y, quantity, mapObject.id);
+    });
+  }
+
+  /**
+   * Drop the loot of a defeated entity where it died
+   */
+  private onEntityDefeated({ entity, definition }: GameEventMap[typeof EVENTS.ENTITY_DEFEATED]): void {
+    if (definition?.loot) {
+      this.dropLoot(definition.loot, entity.x, entity.y);
+    }
+  }
+
+  /**
+   * Spawn a drop that scatters away from its origin and despawns after a while
+   * The drop can only be collected once it has landed
+   */
+  private spawnDrop(itemId: string, x: number, y: number, quantity: number): Pickup | null {
+    const pickup = this.spawnPickup(itemId, x, y, quantity);
+    if (!pickup) {
+      return null;
+    }
+
+    const angle = this.random.realBetween(0, Math.PI * 2);
+    const distance = this.random.realBetween(LOOT.SCATTER_RADIUS / 2, LOOT.SCATTER_RADIUS);
+    pickup.collectable = false;
+    pickup.once('destroy', () => this.scene.tweens.killTweensOf(pickup));
+
+    this.scene.tweens.add({
+      targets: pickup,
+      x: x + Math.cos(angle) * distance,
+      y: y + Math.sin(angle) * distance,
+      duration: LOOT.SCATTER_DURATION,
+      ease: 'Quad.easeOut',
+      onComplete: () => {
+        pickup.collectable = true;
+      },
+    });
+
+    this.scene.time.delayedCall(LOOT.DESPAWN_DELAY - LOOT.BLINK_DURATION, this.blinkDrop, [pickup], this);
+    this.scene.time.delayedCall(LOOT.DESPAWN_DELAY, this.despawnDrop, [pickup], this);
+    return pickup;
+  }
+
+  /**
+   * Warn the player that a drop is about to disappear
+   */
+  private blinkDrop(pickup: Pickup): void {
+    if (!pickup.active) return;
+
+    this.scene.tweens.add({
+      targets: pickup,
+      alpha: 0.2,
+      duration: 150,
+      yoyo: true,
+      repeat: -1,
+    });
+  }
+
+  /**
+   * Remove a drop the player did not collect
+   */
+  private despawnDrop(pickup: Pickup): void {
+    if (pickup.active) {
+      pickup.destroy();
+    }
+  }
+
+  /**
+   * Give a pickup to the player
+   * Pickups the player cannot take (full stack, full health) stay on the ground
+   */
+  private collect(pickup: Pickup): void {
+    if (!pickup.active || !pickup.collectable || !this.player.collectItem(pickup.definition.id, pickup.quantity)) {
+      return;
+    }
+
+    if (pickup.spawnId !== undefined) {
+      markItemCollected(this.scene.registry, this.mapKey, pickup.spawnId);
+    }
+    this.eventBus.emit(EVENTS.ITEM_COLLECTED, { pickup });
+    pickup.destroy();
+  }
+
+  /**
+   * Remove the pickups when the scene is shutdown
+   */
+  public shutdown(): void {
+    if (this.pickupGroup) {
+      this.pickupGroup.clear(true, true);
+    }
+  }
+}
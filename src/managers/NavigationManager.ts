@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Navigation manager finding paths around the map obstacles
+ */
+
+import { IMapManager, INavigationManager } from '../types/manager-interfaces';
+import { GridCell, GridPathfinder } from '../utils/GridPathfinder';
+import { BaseManager } from './BaseManager';
+
+/**
+ * Manages the navigation grid of the map
+ *
+ * Responsibilities:
+ * - Building a walkability grid from the colliding tiles of the terrain and deco layers
+ * - Converting between world positions and grid cells
+ * - Answering path queries, cached by the GridPathfinder
+ *
+ * Collaborators:
+ * - MapManager: Provides the tilemap and its layers
+ */
+export class NavigationManager extends BaseManager implements INavigationManager {
+  private mapManager: IMapManager;
+  private pathfinder: GridPathfinder | null = null;
+  private tileWidth = 16;
+  private tileHeight = 16;
+
+  /**
+   * Create a new NavigationManager
+   * @param scene - The scene this manager belongs to
+   * @param mapManager - Provides the layers the grid is built from
+   */
+  constructor(scene: Phaser.Scene, mapManager: IMapManager) {
+    super(scene);
+    this.mapManager = mapManager;
+  }
+
+  /**
+   * Build the navigation grid, the map must already be created
+   */
+  public initialize(): void {
+    const map = this.mapManager.getMap();
+    const layers = this.mapManager.getLayers();
+    if (!map || !layers) {
+      console.warn('NavigationManager: Map not available, navigation disabled');
+      return;
+    }
+
+    this.tileWidth = map.tileWidth;
+    this.tileHeight = map.tileHeight;
+    const solidLayers = [layers.terrain, layers.deco].filter(Boolean);
+
+    this.pathfinder = new GridPathfinder(map.width, map.height, (col, row) =>
+      solidLayers.every(layer => {
+        const tile = layer.getTileAt(col, row);
+        return !tile || !tile.collides;
+      }),
+    );
+  }
+
+  /**
+   * Find a path between two world positions
+   * @param from - Start position
+   * @param to - Goal position
+   * @returns The world positions of the waypoints, at tile centers, excluding the
+   * start tile, or null if the goal cannot be reached
+   */
+  public findPath(from: Phaser.Math.Vector2, to: Phaser.Math.Vector2): Phaser.Math.Vector2[] | null {
+    if (!this.pathfinder) return null;
+
+    const path = this.pathfinder.findPath(this.worldToCell(from.x, from.y), this.worldToCell(to.x, to.y));
+    return path ? path.slice(1).map(cell => this.cellToWorld(cell)) : null;
+  }
+
+  /**
+   * Check if the tile at a world position can be walked on
+   */
+  public isWalkable(x: number, y: number): boolean {
+    if (!this.pathfinder) return true;
+
+    const cell = this.worldToCell(x, y);
+    return this.pathfinder.isWalkable(cell.col, cell.row);
+  }
+
+  /**
+   * Change the walkability of a tile, invalidating the cached paths
+   * @param col - Tile column
+   * @param row - Tile row
+   * @param walkable - Whether entities can walk on the tile
+   */
+  public setTileWalkable(col: number, row: number, walkable: boolean): void {
+    if (this.pathfinder) {
+      this.pathfinder.setWalkable(col, row, walkable);
+    }
+  }
+
+  /**
+   * Forget the cached paths
+   */
+  public invalidate(): void {
+    if (this.pathfinder) {
+      this.pathfinder.invalidate();
+    }
+  }
+
+  /**
+   * Grid cell containing a world position
+   */
+  private worldToCell(x: number, y: number): GridCell {
+    return { col: Math.floor(x / this.tileWidth), row: Math.floor(y / this.tileHeight) };
+  }
+
+  /**
+   * World position of the center of a grid cell
+   */
+  private cellToWorld(cell: GridCell): Phaser.Math.Vector2 {
+    return new Phaser.Math.Vector2(
+      (cell.col + 0.5) * this.tileWidth,
+      (cell.row + 0.5) * this.tileHeight,
+    );
+  }
+
+  /**
+   * Release the navigation grid when the scene is shutdown
+   */
+  public shutdown(): void {
+    this.pathfinder = null;
+  }
+}
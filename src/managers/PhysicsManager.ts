@@ -6,6 +6,7 @@ import { IPhysicsManager } from '../types/manager-interfaces';
 import { MapLayers } from '../types/scene-types';
 import { Player } from '../game-objects/Player';
 import { INonPlayerEntity } from '../types/entities/entity-interfaces';
+import { Pickup } from '../game-objects/items/Pickup';
 import { BaseManager } from './BaseManager';
 
 /**
@@ -13,6 +14,8 @@ import { BaseManager } from './BaseManager';
  */
 export class PhysicsManager extends BaseManager implements IPhysicsManager {
   private pendingPhysicsOperations: Array<() => void> = [];
+  /** Group the monster colliders are attached to */
+  private monsterGroup: Phaser.Physics.Arcade.Group | null = null;
 
   /**
    * Create a new PhysicsManager
@@ -48,14 +51,18 @@ export class PhysicsManager extends BaseManager implements IPhysicsManager {
    * @param player - The player object
    * @param layers - Map layers with collision
    * @param monsters - Monster entities
+   * @param npcs - Friendly NPC entities
    */
   public setupColliders(
     player: Player,
     layers: MapLayers,
-    monsters: INonPlayerEntity[]
+    monsters: INonPlayerEntity[],
+    npcs: INonPlayerEntity[] = []
   ): void {
     // Create groups once and reuse
     const monsterGroup = this.createGroup(monsters as unknown as Phaser.GameObjects.GameObject[]);
+    this.monsterGroup = monsterGroup;
+    const npcGroup = this.createGroup(npcs as unknown as Phaser.GameObjects.GameObject[]);
     
     // Create composite collider for solid world objects
     const solidLayers = [layers.terrain, layers.deco];
@@ -71,6 +78,16 @@ export class PhysicsManager extends BaseManager implements IPhysicsManager {
       this.queuePhysicsOperation(() => {
         this.scene.physics.add.collider(monsterGroup, layer);
       });
+      
+      // Add collider for all NPCs
+      this.queuePhysicsOperation(() => {
+        this.scene.physics.add.collider(npcGroup, layer);
+      });
+    });
+    
+    // NPCs are solid obstacles for the player
+    this.queuePhysicsOperation(() => {
+      this.scene.physics.add.collider(npcGroup, player);
     });
     
     // Entity collisions - use a single collider with a callback
@@ -82,6 +99,10 @@ export class PhysicsManager extends BaseManager implements IPhysicsManager {
         // Collision callback
         (_player: Player, monster: Phaser.GameObjects.GameObject) => {
           const nonPlayerEntity = monster as unknown as INonPlayerEntity;
+          // Entities with an AI attack from their attack state instead
+          if (nonPlayerEntity.getAIBehavior && nonPlayerEntity.getAIBehavior()) {
+            return;
+          }
           if (nonPlayerEntity.attack) {
             nonPlayerEntity.attack();
           }
@@ -111,6 +132,37 @@ export class PhysicsManager extends BaseManager implements IPhysicsManager {
     this.processBatchedPhysics();
   }
 
+  /**
+   * Give a monster created after setupColliders the colliders of the other monsters
+   * @param monster - The spawned monster
+   */
+  public addMonster(monster: INonPlayerEntity): void {
+    if (!this.monsterGroup) {
+      console.warn('PhysicsManager.addMonster: Colliders are not set up');
+      return;
+    }
+    this.monsterGroup.add(monster as unknown as Phaser.GameObjects.GameObject);
+  }
+
+  /**
+   * Collect pickups when the player overlaps them
+   * @param player - The player object
+   * @param pickups - Group holding the pickups, including the ones spawned later
+   * @param onPickup - Called with the overlapped pickup
+   */
+  public setupPickupOverlap(
+    player: Player,
+    pickups: Phaser.Physics.Arcade.Group,
+    onPickup: (pickup: Pickup) => void
+  ): void {
+    this.queuePhysicsOperation(() => {
+      this.scene.physics.add.overlap(player, pickups, (_player: Player, pickup: Pickup) => {
+        onPickup(pickup);
+      });
+    });
+    this.processBatchedPhysics();
+  }
+
   /**
    * Queue a physics operation for batch processing
    * @param operation - Function representing a physics operation
@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Save manager that snapshots the game state into save slots
+ */
+
+import { IEntityManager, ISaveManager } from '../types/manager-interfaces';
+import { MapSaveState, SaveSlotInfo, SaveSnapshot } from '../types/save-types';
+import { REGISTRY_KEYS } from '../constants/registry';
+import { SAVE } from '../constants/save';
+import { ISaveStorage, LocalSaveStorage } from '../utils/save-storage';
+import { SaveStore } from '../utils/SaveStore';
+import { SAVE_MIGRATIONS } from '../utils/save-migrations';
+import { clearFlag, getAllFlags, setFlag } from '../utils/registry-flags';
+import {
+  getCheckpoint,
+  getCollectedItems,
+  getKilledEntities,
+  getTriggeredZones,
+  setCheckpoint,
+  setCollectedItems,
+  setKilledEntities,
+  setTriggeredZones,
+} from '../utils/world-state';
+import { SCENES } from '../constants/scenes';
+import { GameManager } from '../scenes/GameManager';
+import { BaseManager } from './BaseManager';
+
+/**
+ * Saves and loads the game
+ *
+ * A snapshot holds the player stats, position and inventory, the current scene,
+ * the defeated and remaining entities, collected pickups and triggered one-shot zones of
+ * each map, the story flags and the checkpoint.
+ * Loading restores the registry then restarts the saved scene, which
+ * restores the player and entities from the snapshot.
+ */
+export class SaveManager extends BaseManager implements ISaveManager {
+  private entityManager: IEntityManager;
+  private store: SaveStore;
+  private mapKey: string;
+
+  /**
+   * Create a new SaveManager
+   * @param scene - The scene this manager belongs to
+   * @param entityManager - Provides the player and entities to save
+   * @param storage - Storage backend, localStorage by default
+   */
+  constructor(
+    scene: Phaser.Scene,
+    entityManager: IEntityManager,
+    storage: ISaveStorage = new LocalSaveStorage()
+  ) {
+    super(scene);
+    this.entityManager = entityManager;
+    this.store = new SaveStore(storage, {
+      version: SAVE.VERSION,
+      slotCount: SAVE.SLOT_COUNT,
+      keyPrefix: SAVE.STORAGE_KEY_PREFIX,
+    });
+
+    Object.entries(SAVE_MIGRATIONS).forEach(([fromVersion, migration]) => {
+      this.store.registerMigration(Number(fromVersion), migration);
+    });
+  }
+
+  /**
+   * Initialize the save manager
+   * @param mapKey - Key of the map of the scene
+   */
+  public initialize(mapKey: string): void {
+    this.mapKey = mapKey;
+  }
+
+  /**
+   * Save the game in a slot
+   * @param slot - Slot index
+   * @returns Whether the game was saved
+   */
+  public save(slot: number): boolean {
+    const snapshot = this.createSnapshot();
+    if (!snapshot) {
+      return false;
+    }
+    return this.store.save(slot, snapshot);
+  }
+
+  /**
+   * Load the game saved in a slot
+   * @param slot - Slot index
+   * @returns Whether a save was found and is being loaded
+   */
+  public load(slot: number): boolean {
+    const snapshot = this.store.load(slot);
+    if (!snapshot) {
+      return false;
+    }
+
+    this.restoreRegistry(snapshot);
+    this.scene.scene.start(snapshot.sceneKey, {
+      comesFrom: this.scene.scene.key,
+      save: snapshot,
+    });
+    return true;
+  }
+
+  /**
+   * Describe every save slot
+   */
+  public listSlots(): SaveSlotInfo[] {
+    return this.store.listSlots();
+  }
+
+  /**
+   * Delete the save of a slot
+   * @param slot - Slot index
+   */
+  public deleteSlot(slot: number): void {
+    this.store.delete(slot);
+  }
+
+  /**
+   * Snapshot the current game state
+   * @returns The snapshot or null if the player is dead
+   */
+  public createSnapshot(): SaveSnapshot | null {
+    const player = this.entityManager.getPlayer();
+    if (!player || !player.active) {
+      console.warn('SaveManager: Cannot save without a living player');
+      return null;
+    }
+
+    const registry = this.scene.registry;
+    const killed = getKilledEntities(registry);
+    const collected = getCollectedItems(registry);
+    const triggered = getTriggeredZones(registry);
+    const mapKeys = new Set([
+      ...Object.keys(killed),
+      ...Object.keys(collected),
+      ...Object.keys(triggered),
+      this.mapKey,
+    ]);
+
+    const maps: Record<string, MapSaveState> = {};
+    mapKeys.forEach(mapKey => {
+      maps[mapKey] = {
+        killed: [...(killed[mapKey] || [])],
+        collected: [...(collected[mapKey] || [])],
+        triggered: [...(triggered[mapKey] || [])],
+      };
+    });
+    maps[this.mapKey].remaining = this.getRemainingEntities();
+
+    return {
+      version: SAVE.VERSION,
+      savedAt: Date.now(),
+      sceneKey: this.scene.scene.key,
+      player: {
+        hp: player.hp,
+        maxHp: player.maxHp,
+        x: player.x,
+        y: player.y,
+        orientation: player.getOrientation(),
+      },
+      inventory: player.inventory.getContents(),
+      maps,
+      flags: getAllFlags(registry.getAll()),
+      checkpoint: getCheckpoint(registry) || { sceneKey: this.scene.scene.key, x: player.x, y: player.y },
+    };
+  }
+
+  /**
+   * Get the state of the entities still alive in the scene
+   */
+  private getRemainingEntities(): MapSaveState['remaining'] {
+    return [...this.entityManager.getMonsters(), ...this.entityManager.getNpcs()]
+      // Entities culled by the SpatialManager are inactive but still alive
+      .filter(entity => entity.spawnId !== undefined && entity.body && (entity.hp ?? 0) > 0)
+      .map(entity => ({
+        id: entity.spawnId,
+        type: entity.entityType,
+        x: entity.x,
+        y: entity.y,
+        hp: entity.hp,
+      }));
+  }
+
+  /**
+   * Write the global state of a snapshot to the registry
+   */
+  private restoreRegistry(snapshot: SaveSnapshot): void {
+    const registry = this.scene.registry;
+
+    registry.set(REGISTRY_KEYS.PLAYER.HP, snapshot.player.hp);
+    registry.set(REGISTRY_KEYS.PLAYER.MAX_HP, snapshot.player.maxHp);
+
+    // Through the GameManager so the HUD shows the restored counts
+    const gameManager = this.scene.scene.get(SCENES.GAME_MANAGER) as GameManager;
+    gameManager.inventory = { ...snapshot.inventory };
+
+    Object.keys(getAllFlags(registry.getAll())).forEach(flag => clearFlag(registry, flag));
+    Object.entries(snapshot.flags).forEach(([flag, value]) => setFlag(registry, flag, value));
+
+    const killed: Record<string, number[]> = {};
+    const collected: Record<string, number[]> = {};
+    const triggered: Record<string, number[]> = {};
+    Object.entries(snapshot.maps).forEach(([mapKey, state]) => {
+      killed[mapKey] = [...state.killed];
+      collected[mapKey] = [...state.collected];
+      triggered[mapKey] = [...state.triggered];
+    });
+    setKilledEntities(registry, killed);
+    setCollectedItems(registry, collected);
+    setTriggeredZones(registry, triggered);
+    setCheckpoint(registry, { ...snapshot.checkpoint });
+  }
+
+  /**
+   * Nothing to release, saves are written synchronously
+   */
+  public shutdown(): void {
+    // No resources to clean up
+  }
+}
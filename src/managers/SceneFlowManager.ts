@@ -1,11 +1,11 @@
 /**
- * @fileoverview Scene flow manager for handling scene transitions and zones
+ * @fileoverview Scene flow manager for handling scene transitions
  */
 
-import { ISceneFlowManager } from '../types/manager-interfaces';
-import { Player } from '../game-objects/Player';
+import { ISceneFlowManager, ITransitionManager } from '../types/manager-interfaces';
 import { Orientation } from '../geometry/orientation';
-import { InterSceneData, CustomTilemapObject } from '../types/scene-types';
+import { InterSceneData, CustomTilemapObject, PlayerSpawn } from '../types/scene-types';
+import { Player } from '../game-objects/Player';
 import { MAP_CONTENT_KEYS } from '../constants/map-content-keys';
 import { BaseManager } from './BaseManager';
 
@@ -15,107 +15,116 @@ const PLAYER_INITIAL_POSITION = {
   y: 200,
 };
 
+/** Name of the spawn used when the player does not come from another scene */
+const DEFAULT_SPAWN = 'start';
+
 /** Distance to shift player when transitioning between scenes */
 const SCENE_TRANSITION_SHIFT = 50;
 
 /**
- * Manages scene transitions and zones
+ * Manages scene transitions
+ *
+ * The zones leading to other scenes are run by the ZoneManager, this manager
+ * starts the target scene and places the player when entering a scene, at a
+ * named object of the spawns layer or next to the zone leading back.
+ *
+ * Collaborators:
+ * - TransitionManager: Covers the screen before the target scene starts
  */
 export class SceneFlowManager extends BaseManager implements ISceneFlowManager {
   private map: Phaser.Tilemaps.Tilemap;
-  private player: Player;
-  private transitionZones: Phaser.GameObjects.Zone[] = [];
+  private transitionManager: ITransitionManager;
 
   /**
    * Create a new SceneFlowManager
    * @param scene - The scene this manager belongs to
+   * @param transitionManager - The transition manager covering the screen while the scene changes
    */
-  constructor(scene: Phaser.Scene) {
+  constructor(scene: Phaser.Scene, transitionManager: ITransitionManager) {
     super(scene);
+    this.transitionManager = transitionManager;
   }
 
   /**
-   * Initialize scene transition zones
-   * @param map - The tilemap containing zone data
-   * @param player - The player object for overlap detection
+   * Initialize with the map of the scene
+   * @param map - The tilemap containing the spawns and the zones leading to other scenes
    */
-  public initialize(map: Phaser.Tilemaps.Tilemap, player: Player): void {
+  public initialize(map: Phaser.Tilemaps.Tilemap): void {
     this.map = map;
-    this.player = player;
-    this.setupTransitionZones();
   }
 
   /**
-   * Set up scene transition zones from map data
+   * Get where the player appears and which way they face
+   *
+   * In order of preference: the spawn named by the scene data, next to the zone leading
+   * back to the previous scene, the start spawn of the map, then the default position.
+   * @param sceneData - Data from the previous scene
    */
-  public setupTransitionZones(): void {
-    const levelChangerObjectLayer = this.map.objects.find(
-      o => o.name === MAP_CONTENT_KEYS.objects.ZONES,
-    );
+  public getPlayerSpawn(sceneData: InterSceneData): PlayerSpawn {
+    if (sceneData?.spawn) {
+      const spawn = this.findSpawn(sceneData.spawn);
+      if (spawn) {
+        return spawn;
+      }
+      console.warn(`SceneFlowManager: Spawn "${sceneData.spawn}" not found in ${this.scene.scene.key}`);
+    }
 
-    if (levelChangerObjectLayer) {
-      this.transitionZones = levelChangerObjectLayer.objects.map((o) => {
-        const zoneObject = o as unknown as CustomTilemapObject;
-        const zone = this.scene.add.zone(
-          zoneObject.x, 
-          zoneObject.y, 
-          zoneObject.width, 
-          zoneObject.height
-        );
-        
-        // Zone needs physics but doesn't need to move or use gravity
-        this.scene.physics.add.existing(zone, true); // true = static body
-        
-        // Store transition data on zone for reuse
-        zone.setData('targetScene', zoneObject.properties.scene);
-        
-        // Create overlap handler with debounce mechanism to prevent multiple triggers
-        let canTransition = true;
-        
-        // Add the overlap check
-        this.scene.physics.add.overlap(zone, this.player, () => {
-          if (canTransition) {
-            canTransition = false;
-            this.scene.scene.start(zone.getData('targetScene'), { comesFrom: this.scene.scene.key });
-          }
-        });
-        
-        return zone;
-      });
+    if (sceneData?.comesFrom) {
+      const zones = this.getObjects(MAP_CONTENT_KEYS.objects.ZONES);
+      const levelChanger = zones.find(zone => zone.properties?.scene === sceneData.comesFrom);
+      if (levelChanger) {
+        const orientation = levelChanger.properties.comesBackFrom || Orientation.Down;
+        const shift = this.calculateTransitionShift(orientation);
+        return {
+          x: levelChanger.x + levelChanger.width / 2 + shift.x,
+          y: levelChanger.y + levelChanger.height / 2 + shift.y,
+          orientation,
+        };
+      }
     }
+
+    return this.findSpawn(DEFAULT_SPAWN) || { ...PLAYER_INITIAL_POSITION, orientation: Orientation.Down };
   }
 
   /**
-   * Get player's initial position based on where they came from
-   * @param sceneData - Data from the previous scene
+   * Start another scene once the screen is covered, carrying the health and items of the player over
+   * @param sceneKey - Key of the scene to start
+   * @param player - The player leaving the scene
+   * @param spawn - Name of the spawn of the target scene, next to the zone leading back when omitted
+   * @param effect - Transition effect, one of TRANSITION_EFFECTS
    */
-  public getPlayerInitialPosition(sceneData: InterSceneData): Phaser.Math.Vector2 {
-    if (!sceneData?.comesFrom) {
-      return new Phaser.Math.Vector2(PLAYER_INITIAL_POSITION.x, PLAYER_INITIAL_POSITION.y);
-    }
-
-    const levelChangerObjectLayer = this.map.objects.find(
-      o => o.name === MAP_CONTENT_KEYS.objects.ZONES,
-    );
-
-    if (!levelChangerObjectLayer) {
-      return new Phaser.Math.Vector2(PLAYER_INITIAL_POSITION.x, PLAYER_INITIAL_POSITION.y);
-    }
-
-    const levelChanger = levelChangerObjectLayer.objects.find(
-      (o) => (o as unknown as CustomTilemapObject).properties.scene === sceneData.comesFrom,
-    ) as unknown as CustomTilemapObject;
+  public changeScene(sceneKey: string, player: Player, spawn?: string, effect?: string): void {
+    const data: InterSceneData = {
+      comesFrom: this.scene.scene.key,
+      spawn,
+      player: {
+        hp: player.hp,
+        maxHp: player.maxHp,
+        inventory: player.inventory.getContents(),
+      },
+    };
+    // Ignored while a transition runs, e.g. when walking back into the zone before the screen is covered
+    this.transitionManager.transitionTo(sceneKey, data, effect, player.getOrientation());
+  }
 
-    if (!levelChanger) {
-      return new Phaser.Math.Vector2(PLAYER_INITIAL_POSITION.x, PLAYER_INITIAL_POSITION.y);
+  /**
+   * Find a spawn of the spawns layer by name
+   * @returns The spawn or null if the map has none with this name
+   */
+  private findSpawn(name: string): PlayerSpawn | null {
+    const spawn = this.getObjects(MAP_CONTENT_KEYS.objects.SPAWNS).find(object => object.name === name);
+    if (!spawn) {
+      return null;
     }
+    return { x: spawn.x, y: spawn.y, orientation: spawn.properties?.facing || Orientation.Down };
+  }
 
-    const shift = this.calculateTransitionShift(levelChanger.properties.comesBackFrom || Orientation.Down);
-    
-    return new Phaser.Math.Vector2(
-      levelChanger.x + levelChanger.width / 2 + shift.x,
-      levelChanger.y + levelChanger.height / 2 + shift.y
-    );
+  /**
+   * Objects of an object layer, none if the map does not have the layer
+   */
+  private getObjects(layerName: string): CustomTilemapObject[] {
+    const layer = this.map.objects.find(o => o.name === layerName);
+    return (layer?.objects || []) as unknown as CustomTilemapObject[];
   }
 
   /**
@@ -138,17 +147,9 @@ export class SceneFlowManager extends BaseManager implements ISceneFlowManager {
   }
 
   /**
-   * Clean up transition zones and resources
+   * Nothing to release, the zones belong to the ZoneManager
    */
   public shutdown(): void {
-    // Destroy transition zones
-    this.transitionZones.forEach(zone => {
-      if (zone.active) {
-        zone.destroy();
-      }
-    });
-    
-    // Clear collection
-    this.transitionZones = [];
+    // No resources to clean up
   }
 } 
\ No newline at end of file
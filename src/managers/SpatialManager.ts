@@ -21,12 +21,19 @@ type EntityWithPosition = Phaser.GameObjects.GameObject & {
 
 /**
  * Manages spatial partitioning and entity culling
+ *
+ * In maps with camera rooms, the entities outside the room of the player stand still
+ * until the player enters their room.
  */
 export class SpatialManager extends BaseManager implements ISpatialManager {
   private quadTree: QuadTree;
   private entities: Phaser.GameObjects.GameObject[] = [];
   private activeEntities: Set<Phaser.GameObjects.GameObject> = new Set();
   private player: EntityWithPosition | null = null;
+  /** Camera room of the player, null when the whole map is open */
+  private region: Phaser.Geom.Rectangle | null = null;
+  /** Entities deactivated for being outside the region, reactivated when it covers them again */
+  private outsideRegion: Set<EntityWithPosition> = new Set();
 
   /**
    * Create a new SpatialManager
@@ -101,6 +108,16 @@ export class SpatialManager extends BaseManager implements ISpatialManager {
     }
   }
 
+  /**
+   * Track an entity created after the others were registered
+   * @param entity - Entity to track
+   */
+  public addEntity(entity: Phaser.GameObjects.GameObject): void {
+    if (!this.entities.includes(entity)) {
+      this.entities.push(entity);
+    }
+  }
+
   /**
    * Type guard to check if an entity has position properties
    */
@@ -115,8 +132,17 @@ export class SpatialManager extends BaseManager implements ISpatialManager {
    * Update the spatial partitioning structure
    * @param cameraBounds - The current camera view bounds
    * @param playerPosition - The current player position
+   * @param region - Camera room of the player, entities outside of it stand still
    */
-  public update(cameraBounds: Phaser.Geom.Rectangle, playerPosition: Phaser.Math.Vector2): void {
+  public update(
+    cameraBounds: Phaser.Geom.Rectangle,
+    playerPosition: Phaser.Math.Vector2,
+    region: Phaser.Geom.Rectangle | null = null
+  ): void {
+    if (region !== this.region) {
+      this.setRegion(region);
+    }
+    
     // Clear existing quadtree
     this.quadTree.clear();
     
@@ -134,6 +160,12 @@ export class SpatialManager extends BaseManager implements ISpatialManager {
       
       // Only insert NonPlayerEntity types into the quadtree
       if (this.isNonPlayerEntity(entity)) {
+        if (this.region && !this.region.contains(entity.x, entity.y)) {
+          this.deactivateOutsideRegion(entity);
+          return;
+        }
+        
+
         // Use rectangle contains for faster boundary check
         if (Phaser.Geom.Rectangle.Contains(expandedBounds, entity.x, entity.y)) {
           this.quadTree.insert(entity as unknown as NonPlayerEntity);
@@ -145,6 +177,44 @@ export class SpatialManager extends BaseManager implements ISpatialManager {
     this.updateActiveEntities(playerPosition);
   }
 
+  /**
+   * Change the region, reactivating the entities it covers again
+   * They are deactivated again by the next update if they are too far from the player
+   */
+  private setRegion(region: Phaser.Geom.Rectangle | null): void {
+    this.region = region;
+    this.outsideRegion.forEach(entity => {
+      if (!region || region.contains(entity.x, entity.y)) {
+        this.outsideRegion.delete(entity);
+        entity.off('destroy', this.onOutsideEntityDestroyed, this, false);
+        entity.setActive(true);
+      }
+    });
+  }
+
+  /**
+   * Stop an entity outside the region where it stands
+   * It stays visible, so the camera scrolling to its room shows it
+   */
+  private deactivateOutsideRegion(entity: EntityWithPosition): void {
+    entity.setActive(false);
+    const body = entity.body as Phaser.Physics.Arcade.Body | undefined;
+    if (body) {
+      body.stop();
+    }
+    if (!this.outsideRegion.has(entity)) {
+      this.outsideRegion.add(entity);
+      entity.once('destroy', this.onOutsideEntityDestroyed, this);
+    }
+  }
+
+  /**
+   * Forget an entity destroyed outside the region
+   */
+  private onOutsideEntityDestroyed(entity: EntityWithPosition): void {
+    this.outsideRegion.delete(entity);
+  }
+
   /**
    * Type guard to check if an entity is a NonPlayerEntity
    */
@@ -233,6 +303,8 @@ export class SpatialManager extends BaseManager implements ISpatialManager {
   public shutdown(): void {
     this.quadTree.clear();
     this.activeEntities.clear();
+    this.outsideRegion.clear();
+    this.region = null;
     this.entities = [];
   }
 } 
\ No newline at end of file
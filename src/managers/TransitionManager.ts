@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Transition manager covering the screen while the game changes scene
+ */
+
+import { IInputManager, ITransitionManager } from '../types/manager-interfaces';
+import { InterSceneData } from '../types/scene-types';
+import { TransitionEvent, TransitionSettings } from '../types/transition-types';
+import { Orientation } from '../geometry/orientation';
+import { Player } from '../game-objects/Player';
+import { EVENTS } from '../constants/events';
+import {
+  TRANSITION_EFFECTS,
+  TRANSITION_PHASES,
+  TRANSITIONS,
+  TransitionEffect,
+  TransitionPhase,
+} from '../constants/transitions';
+import { BaseManager } from './BaseManager';
+
+/**
+ * Manages the animated transitions between scenes
+ *
+ * Responsibilities:
+ * - Covering the screen with a fade, iris or wipe before starting the next scene
+ * - Uncovering the screen with the same effect once the next scene is created,
+ *   holding large maps covered for a while
+ * - Locking the input and ignoring other scene changes until the transition ends
+ * - Emitting TRANSITION_START and TRANSITION_END on the event bus for each half
+ *
+ * The effect travels to the next scene in the `transition` field of the scene data,
+ * scenes started without it appear at once.
+ *
+ * Collaborators:
+ * - InputManager: Ignores the actions while the screen is covered
+ */
+export class TransitionManager extends BaseManager implements ITransitionManager {
+  private inputManager: IInputManager;
+  private map: Phaser.Tilemaps.Tilemap;
+  /** Object the iris closes on and opens from, usually the player */
+  private focus: Player | null = null;
+  private overlay: Phaser.GameObjects.Graphics | null = null;
+  private loadingText: Phaser.GameObjects.Text | null = null;
+  private transitioning = false;
+
+  /**
+   * Create a new TransitionManager
+   * @param scene - The scene this manager belongs to
+   * @param inputManager - The input manager locked during the transitions
+   */
+  constructor(scene: Phaser.Scene, inputManager: IInputManager) {
+    super(scene);
+    this.inputManager = inputManager;
+  }
+
+  /**
+   * Uncover the screen if the scene was started by a transition
+   * @param map - The tilemap of the scene, large ones are held covered for a while
+   * @param focus - Object the iris opens from
+   * @param sceneData - Data from the previous scene
+   */
+  public initialize(
+    map: Phaser.Tilemaps.Tilemap,
+    focus: Player,
+    sceneData: InterSceneData
+  ): void {
+    this.map = map;
+    this.focus = focus;
+
+    const transition = sceneData?.transition;
+    if (!transition) {
+      return;
+    }
+
+    this.begin(TRANSITION_PHASES.IN, transition, this.scene.scene.key);
+    this.draw(transition, TRANSITION_PHASES.IN, 1);
+
+    // The scene is created in a single frame, large maps settle while the screen stays covered
+    const large = this.map.width * this.map.height > TRANSITIONS.LARGE_MAP_TILES;
+    if (large) {
+      this.showLoadingText();
+    }
+
+    this.scene.time.delayedCall(large ? TRANSITIONS.LOADING_HOLD : 0, () => {
+      this.hideLoadingText();
+      this.play(transition, TRANSITION_PHASES.IN, () => {
+        this.end(TRANSITION_PHASES.IN, transition, this.scene.scene.key);
+      });
+    }, [], this);
+  }
+
+  /**
+   * Whether the screen is being covered or uncovered
+   */
+  public isTransitioning(): boolean {
+    return this.transitioning;
+  }
+
+  /**
+   * Cover the screen then start a scene
+   * @param sceneKey - Key of the scene to start
+   * @param data - Data for the next scene, the transition is added to it
+   * @param effect - One of TRANSITION_EFFECTS, the default effect when omitted
+   * @param direction - Direction a wipe sweeps towards
+   * @returns Whether the transition started, false while another one runs
+   */
+  public transitionTo(
+    sceneKey: string,
+    data: InterSceneData,
+    effect?: string,
+    direction: Orientation = Orientation.Down
+  ): boolean {
+    if (this.transitioning) {
+      return false;
+    }
+
+    const transition: TransitionSettings = { effect: this.getEffect(effect), direction };
+    const from = this.scene.scene.key;
+    this.begin(TRANSITION_PHASES.OUT, transition, from);
+    this.play(transition, TRANSITION_PHASES.OUT, () => {
+      this.emit(EVENTS.TRANSITION_END, TRANSITION_PHASES.OUT, transition, from);
+      this.scene.scene.start(sceneKey, { ...data, transition });
+    });
+    return true;
+  }
+
+  /**
+   * Get the effect of a name
+   * @returns The effect or the default one if the name is unknown
+   */
+  private getEffect(name?: string): TransitionEffect {
+    if (name === undefined) {
+      return TRANSITIONS.DEFAULT_EFFECT;
+    }
+
+    const effects: string[] = Object.values(TRANSITION_EFFECTS);
+    if (!effects.includes(name)) {
+      console.warn(`TransitionManager: Unknown transition effect "${name}"`);
+      return TRANSITIONS.DEFAULT_EFFECT;
+    }
+    return name as TransitionEffect;
+  }
+
+  /**
+   * Lock the input and announce the start of a half
+   */
+  private begin(phase: TransitionPhase, transition: TransitionSettings, sceneKey: string): void {
+    this.transitioning = true;
+    this.inputManager.setLocked(true);
+    this.emit(EVENTS.TRANSITION_START, phase, transition, sceneKey);
+  }
+
+  /**
+   * Remove the overlay, unlock the input and announce the end of a half
+   */
+  private end(phase: TransitionPhase, transition: TransitionSettings, sceneKey: string): void {
+    this.destroyOverlay();
+    this.transitioning = false;
+    this.inputManager.setLocked(false);
+    this.emit(EVENTS.TRANSITION_END, phase, transition, sceneKey);
+  }
+
+  /**
+   * Emit a transition event on the event bus
+   */
+  private emit(
+    event: typeof EVENTS.TRANSITION_START | typeof EVENTS.TRANSITION_END,
+    phase: TransitionPhase,
+    transition: TransitionSettings,
+    sceneKey: string
+  ): void {
+    const payload: TransitionEvent = { ...transition, phase, sceneKey };
+    this.eventBus.emit(event, payload);
+  }
+
+  /**
+   * Animate the overlay, covering the screen when going out and uncovering it when coming in
+   * A tween of the scene, so it stands still while the scene is paused
+   */
+  private play(transition: TransitionSettings, phase: TransitionPhase, onComplete: () => void): void {
+    const covering = phase === TRANSITION_PHASES.OUT;
+    this.scene.tweens.addCounter({
+      from: covering ? 0 : 1,
+      to: covering ? 1 : 0,
+      duration: TRANSITIONS.DURATION,
+      onUpdate: (tween: Phaser.Tweens.Tween) => this.draw(transition, phase, tween.getValue()),
+      onComplete,
+    });
+  }
+
+  /**
+   * Draw the overlay
+   * @param coverage - Part of the screen covered, from 0 to 1
+   */
+  private draw(transition: TransitionSettings, phase: TransitionPhase, coverage: number): void {
+    if (!this.overlay) {
+      this.overlay = this.scene.add.graphics()
+        .setScrollFactor(0)
+        .setDepth(TRANSITIONS.DEPTH);
+    }
+
+    // Objects that do not scroll are still zoomed around the center of the camera
+    const camera = this.scene.cameras.main;
+    const width = camera.width / camera.zoom;
+    const height = camera.height / camera.zoom;
+    this.overlay.setPosition((camera.width - width) / 2, (camera.height - height) / 2);
+    this.overlay.clear();
+    this.overlay.fillStyle(TRANSITIONS.COLOR, 1);
+
+    if (coverage >= 1) {
+      this.overlay.fillRect(0, 0, width, height);
+      return;
+    }
+
+    switch (transition.effect) {
+      case TRANSITION_EFFECTS.IRIS:
+        this.drawIris(width, height, coverage);
+        break;
+      case TRANSITION_EFFECTS.WIPE:
+        this.drawWipe(width, height, coverage, this.getWipeSide(transition.direction, phase));
+        break;
+      default:
+        this.overlay.fillStyle(TRANSITIONS.COLOR, coverage);
+        this.overlay.fillRect(0, 0, width, height);
+    }
+  }
+
+  /**
+   * Draw a ring around the focus, its hole shrinking as the coverage grows
+   */
+  private drawIris(width: number, height: number, coverage: number): void {
+    const camera = this.scene.cameras.main;
+    const x = this.focus ? this.focus.x - camera.scrollX - this.overlay.x : width / 2;
+    const y = this.focus ? this.focus.y - camera.scrollY - this.overlay.y : height / 2;
+
+    // Distance to the farthest corner, the ring is as thick so it reaches all of them
+    const reach = Math.hypot(Math.max(x, width - x), Math.max(y, height - y));
+    const hole = reach * (1 - coverage);
+    this.overlay.lineStyle(reach, TRANSITIONS.COLOR, 1);
+    this.overlay.strokeCircle(x, y, hole + reach / 2);
+  }
+
+  /**
+   * Draw a band from one side of the screen
+   * @param side - Side of the screen the band is attached to
+   */
+  private drawWipe(width: number, height: number, coverage: number, side: Orientation): void {
+    switch (side) {
+      case Orientation.Left:
+        this.overlay.fillRect(0, 0, width * coverage, height);
+        break;
+      case Orientation.Right:
+        this.overlay.fillRect(width * (1 - coverage), 0, width * coverage, height);
+        break;
+      case Orientation.Up:
+        this.overlay.fillRect(0, 0, width, height * coverage);
+        break;
+      default:
+        this.overlay.fillRect(0, height * (1 - coverage), width, height * coverage);
+    }
+  }
+
+  /**
+   * Side the band of a wipe is attached to
+   * Going out the band grows from the side opposite to the direction,
+   * coming in it shrinks towards the side of the direction, so it keeps sweeping the same way
+   */
+  private getWipeSide(direction: Orientation, phase: TransitionPhase): Orientation {
+    if (phase === TRANSITION_PHASES.IN) {
+      return direction;
+    }
+
+    switch (direction) {
+      case Orientation.Left:
+        return Orientation.Right;
+      case Orientation.Right:
+        return Orientation.Left;
+      case Orientation.Up:
+        return Orientation.Down;
+      default:
+        return Orientation.Up;
+    }
+  }
+
+  /**
+   * Show the loading text over the overlay, in the middle of the screen
+   */
+  private showLoadingText(): void {
+    const { width, height } = this.scene.cameras.main;
+    this.loadingText = this.scene.add
+      .text(width / 2, height / 2, TRANSITIONS.LOADING_TEXT, {
+        font: '8px monospace',
+        color: '#ffffff',
+      })
+      .setOrigin(0.5)
+      .setScrollFactor(0)
+      .setDepth(TRANSITIONS.DEPTH + 1);
+  }
+
+  /**
+   * Remove the loading text if shown
+   */
+  private hideLoadingText(): void {
+    if (this.loadingText) {
+      this.loadingText.destroy();
+      this.loadingText = null;
+    }
+  }
+
+  /**
+   * Remove the overlay if drawn
+   */
+  private destroyOverlay(): void {
+    if (this.overlay) {
+      this.overlay.destroy();
+      this.overlay = null;
+    }
+  }
+
+  /**
+   * Remove the overlay, the scene stops with any running transition
+   */
+  public shutdown(): void {
+    this.hideLoadingText();
+    this.destroyOverlay();
+    this.transitioning = false;
+    this.focus = null;
+  }
+}
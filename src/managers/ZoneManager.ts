@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Zone manager running the triggers drawn in the zones object layer
+ */
+
+import { IZoneManager } from '../types/manager-interfaces';
+import { CustomTilemapObject } from '../types/scene-types';
+import { ZoneHandler } from '../types/zone-types';
+import { Player } from '../game-objects/Player';
+import { AbstractScene } from '../scenes/AbstractScene';
+import { MAP_CONTENT_KEYS } from '../constants/map-content-keys';
+import { ZONE_TYPES } from '../constants/zones';
+import { EVENTS } from '../constants/events';
+import { ZoneHandlerRegistry } from '../factories/ZoneHandlerRegistry';
+import { ZoneTrigger, getZoneTriggerSettings } from '../utils/ZoneTrigger';
+import { isZoneTriggered, markZoneTriggered } from '../utils/world-state';
+import { BaseManager } from './BaseManager';
+
+/**
+ * Zone of the map with its trigger state and handler
+ */
+interface TriggerZone {
+  zone: Phaser.GameObjects.Zone;
+  object: CustomTilemapObject;
+  trigger: ZoneTrigger;
+  handler: ZoneHandler;
+}
+
+/**
+ * Manages the zones of the map
+ *
+ * Responsibilities:
+ * - Creating a zone for each object of the zones layer
+ * - Following the player in and out of the zones, each zone triggers on enter, exit or stay
+ * - Running the handler registered for the `type` property of the zone, see ZONE_TYPES,
+ *   after announcing the zone with ZONE_TRIGGERED on the event bus
+ * - Remembering the one-shot zones that triggered, so they stay spent in later visits and saves
+ *
+ * Zones without a type change the scene, as the first maps did.
+ *
+ * Collaborators:
+ * - ZoneHandlerRegistry: Provides the handler of each zone type
+ */
+export class ZoneManager extends BaseManager implements IZoneManager {
+  private player: Player;
+  private mapKey: string;
+  private handlerRegistry: ZoneHandlerRegistry;
+  private zones: TriggerZone[] = [];
+
+  /**
+   * Create a new ZoneManager
+   * @param scene - The scene this manager belongs to
+   * @param handlerRegistry - Handlers of the zone types, the default ones when omitted
+   */
+  constructor(scene: Phaser.Scene, handlerRegistry: ZoneHandlerRegistry = new ZoneHandlerRegistry()) {
+    super(scene);
+    this.handlerRegistry = handlerRegistry;
+  }
+
+  /**
+   * Create the zones of the map
+   * @param map - The tilemap containing the zones layer
+   * @param player - The player entering and leaving the zones
+   * @param mapKey - Key of the map, used to remember the one-shot zones that triggered
+   */
+  public initialize(map: Phaser.Tilemaps.Tilemap, player: Player, mapKey: string): void {
+    this.player = player;
+    this.mapKey = mapKey;
+
+    const layer = map.objects.find(o => o.name === MAP_CONTENT_KEYS.objects.ZONES);
+    const objects = (layer?.objects || []) as unknown as CustomTilemapObject[];
+    this.zones = objects
+      .map(object => this.createZone(object))
+      .filter(zone => zone !== null);
+  }
+
+  /**
+   * Create the zone of a Tiled object
+   * @returns The zone or null if its type has no handler
+   */
+  private createZone(object: CustomTilemapObject): TriggerZone | null {
+    const handler = this.handlerRegistry.get(object.properties?.type || ZONE_TYPES.CHANGE_SCENE);
+    if (!handler) {
+      return null;
+    }
+
+    const zone = this.scene.add.zone(object.x, object.y, object.width, object.height);
+    // Zone needs physics but doesn't need to move or use gravity
+    this.scene.physics.add.existing(zone, true); // true = static body
+
+    const settings = getZoneTriggerSettings(object.properties, handler.defaults);
+    const fired = settings.once && isZoneTriggered(this.scene.registry, this.mapKey, object.id);
+
+    return { zone, object, handler, trigger: new ZoneTrigger(settings, fired) };
+  }
+
+  /**
+   * Get the registry of the zone handlers, to register additional zone types
+   */
+  public getHandlerRegistry(): ZoneHandlerRegistry {
+    return this.handlerRegistry;
+  }
+
+  /**
+   * Trigger the zones the player entered, left or stays in
+   */
+  public update(): void {
+    const registry = this.scene.registry;
+    const now = (this.scene as AbstractScene).getPlayTime();
+
+    this.zones.forEach(({ zone, object, trigger, handler }) => {
+      const inside = this.player.active && this.scene.physics.overlap(zone, this.player);
+      const event = trigger.update(inside, registry, now);
+      if (event === null) {
+        return;
+      }
+
+      if (trigger.isOnce()) {
+        markZoneTriggered(registry, this.mapKey, object.id);
+      }
+      this.eventBus.emit(EVENTS.ZONE_TRIGGERED, { object, event, sceneKey: this.scene.scene.key });
+      handler.handle({ scene: this.scene as AbstractScene, player: this.player, zone, object, event });
+    });
+  }
+
+  /**
+   * Destroy the zones
+   */
+  public shutdown(): void {
+    this.zones.forEach(({ zone }) => {
+      if (zone.active) {
+        zone.destroy();
+      }
+    });
+    this.zones = [];
+  }
+}
@@ -19,7 +19,13 @@ import {
   IPhysicsManager, 
   IInputManager, 
   ICameraManager, 
-  ISceneFlowManager 
+  ISceneFlowManager,
+  ISaveManager,
+  IItemManager,
+  INavigationManager,
+  IZoneManager,
+  ITransitionManager,
+  IAudioManager
 } from '../types/manager-interfaces';
 
 // Implementation imports (needed for instantiation)
@@ -30,6 +36,27 @@ import { PhysicsManager } from '../managers/PhysicsManager';
 import { InputManager } from '../managers/InputManager';
 import { CameraManager } from '../managers/CameraManager';
 import { SceneFlowManager } from '../managers/SceneFlowManager';
+import { SaveManager } from '../managers/SaveManager';
+import { ItemManager } from '../managers/ItemManager';
+import { NavigationManager } from '../managers/NavigationManager';
+import { ZoneManager } from '../managers/ZoneManager';
+import { TransitionManager } from '../managers/TransitionManager';
+import { AudioManager } from '../managers/AudioManager';
+import { GameManager } from './GameManager';
+import { PauseMenuData, PauseMenuPage } from './PauseMenu';
+
+// Constant imports
+import { SAVE } from '../constants/save';
+import { SCENES } from '../constants/scenes';
+import { INPUT_ACTIONS } from '../constants/input';
+import { EVENTS } from '../constants/events';
+
+// Utility imports
+import { setCheckpoint } from '../utils/world-state';
+import { getCameraRooms, getCameraSettings } from '../utils/camera-settings';
+
+/** Time the tomb of the player is shown before the game over screen, in milliseconds */
+const GAME_OVER_DELAY = 1000;
 
 /**
  * Abstract base class for all game scenes.
@@ -50,6 +77,21 @@ export abstract class AbstractScene extends Phaser.Scene {
   private cameraManager: ICameraManager;
   /** Scene transitions and flow */
   private sceneFlowManager: ISceneFlowManager;
+  /** Save slots */
+  private saveManager: ISaveManager;
+  /** Item pickups */
+  private itemManager: IItemManager;
+  /** Pathfinding around the map obstacles */
+  private navigationManager: INavigationManager;
+  /** Triggers of the zones layer */
+  private zoneManager: IZoneManager;
+  /** Effects covering the screen between scenes */
+  private transitionManager: ITransitionManager;
+  /** Music of the level and sound effects */
+  private audioManager: IAudioManager;
+  
+  /** Time the level has run, in milliseconds scaled by the clock time scale */
+  private playTime = 0;
   
   /** Map key for the scene */
   public mapKey: string;
@@ -60,6 +102,7 @@ export abstract class AbstractScene extends Phaser.Scene {
   public map: Phaser.Tilemaps.Tilemap;
   public layers: MapLayers;
   public monsters: INonPlayerEntity[] = [];
+  public npcs: INonPlayerEntity[] = [];
   public monsterGroup: Phaser.Physics.Arcade.Group;
 
   /**
@@ -74,33 +117,97 @@ export abstract class AbstractScene extends Phaser.Scene {
 
   /**
    * Main update loop - delegates to specialized managers
+   * @param _time - Time of the game loop
+   * @param delta - Time since the previous frame in milliseconds
    */
-  public update(): void {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public update(_time: number, delta: number): void {
+    // The level clock stands still while the scene is paused
+    this.playTime += delta * this.time.timeScale;
+    
+    // The level stands still once the player is dead, until the game over screen leaves it
+    if (!this.player.active) {
+      return;
+    }
+    
     // Update input state
     this.inputManager.update();
     
+    // Nothing else runs until the pause menu resumes the level
+    const { justPressed } = this.inputManager.getActionState();
+    if (justPressed[INPUT_ACTIONS.PAUSE] || justPressed[INPUT_ACTIONS.INVENTORY]) {
+      this.openPauseMenu(justPressed[INPUT_ACTIONS.PAUSE] ? 'main' : 'inventory');
+      return;
+    }
+    
     // Update entity positions and states
     this.entityManager.update();
     
+    // Trigger the zones the player entered, left or stays in, none until the screen is uncovered
+    if (!this.transitionManager.isTransitioning()) {
+      this.zoneManager.update();
+    }
+    
     // Update camera
     this.cameraManager.update();
     
-    // Update spatial partitioning
+    // Update spatial partitioning, only the room of the player is active
     this.spatialManager.update(
       this.cameraManager.getCameraBounds(),
-      new Phaser.Math.Vector2(this.player.x, this.player.y)
+      new Phaser.Math.Vector2(this.player.x, this.player.y),
+      this.cameraManager.getRoom()
     );
     
     // Process batched physics operations
     this.physicsManager.processBatchedPhysics();
   }
 
+  /**
+   * Record the entrance of the level as the checkpoint, once subclasses placed the player,
+   * and announce the level with SCENE_CHANGED on the event bus
+   * A loaded game restores its own checkpoint and a respawn keeps the current one
+   * @param data - Data from the previous scene
+   */
+  protected create(data: InterSceneData): void {
+    if (!data?.save && !data?.respawn) {
+      setCheckpoint(this.registry, { sceneKey: this.scene.key, x: this.player.x, y: this.player.y });
+    }
+
+    const gameManager = this.scene.get(SCENES.GAME_MANAGER) as GameManager;
+    gameManager.eventBus.emit(EVENTS.SCENE_CHANGED, { sceneKey: this.scene.key, comesFrom: data?.comesFrom });
+  }
+
+  /**
+   * Pause the level and open the game over screen over it
+   */
+  public openGameOver(): void {
+    this.scene.launch(SCENES.GAME_OVER, { levelKey: this.scene.key });
+    this.scene.pause(this.scene.key);
+  }
+
+  /**
+   * Pause the level and open the pause menu over it
+   * Pausing the scene freezes its physics, timers, tweens and animations until it resumes
+   * @param page - Page the menu opens on, the inventory action opens the inventory
+   */
+  public openPauseMenu(page: PauseMenuPage = 'main'): void {
+    const data: PauseMenuData = { levelKey: this.scene.key, page };
+    this.scene.launch(SCENES.PAUSE, data);
+    this.scene.pause(this.scene.key);
+  }
+
   /**
    * Scene shutdown handler - delegates to all managers
    */
   public shutdown(): void {
     // Clean up in reverse order of dependency
+    this.saveManager.shutdown();
+    this.audioManager.shutdown();
+    this.itemManager.shutdown();
+    this.navigationManager.shutdown();
+    this.zoneManager.shutdown();
     this.sceneFlowManager.shutdown();
+    this.transitionManager.shutdown();
     this.inputManager.shutdown();
     this.cameraManager.shutdown();
     this.physicsManager.shutdown();
@@ -113,6 +220,8 @@ export abstract class AbstractScene extends Phaser.Scene {
    * Initialize the scene - create and initialize all managers
    */
   protected init(data: InterSceneData): void {
+    this.playTime = 0;
+    
     // Initialize all manager instances
     this.initializeManagers();
     
@@ -123,51 +232,83 @@ export abstract class AbstractScene extends Phaser.Scene {
     this.map = this.mapManager.getMap();
     this.layers = this.mapManager.getLayers();
     
+    // Build the navigation grid from the colliding tiles
+    this.navigationManager.initialize();
+    
     // Initialize spatial manager with map dimensions
     this.spatialManager.initialize(this.map.widthInPixels, this.map.heightInPixels);
     
     // Setup physics world
     this.physicsManager.initialize(this.map.widthInPixels, this.map.heightInPixels);
     
-    // Initialize entities
-    this.entityManager.initialize(this.map, data);
+    // Initialize scene transitions
+    this.sceneFlowManager.initialize(this.map);
+    
+    // Initialize entities, the player enters at the spawn of the scene flow
+    this.entityManager.initialize(this.map, data, this.sceneFlowManager.getPlayerSpawn(data));
     
     // Store references for backward compatibility
     this.player = this.entityManager.getPlayer();
     this.monsters = this.entityManager.getMonsters();
+    this.npcs = this.entityManager.getNpcs();
+    
+    // Show the game over screen shortly after the player dies
+    this.player.once(EVENTS.CHARACTER_DEATH, () => {
+      this.time.delayedCall(GAME_OVER_DELAY, this.openGameOver, [], this);
+    });
     
     // Register entities with spatial manager
     this.spatialManager.registerEntities([
       this.player,
-      ...this.monsters as unknown as Phaser.GameObjects.GameObject[]
+      ...this.monsters as unknown as Phaser.GameObjects.GameObject[],
+      ...this.npcs as unknown as Phaser.GameObjects.GameObject[]
     ]);
     
     // Set up physics colliders
     this.physicsManager.setupColliders(
       this.player,
       this.layers,
-      this.monsters
+      this.monsters,
+      this.npcs
     );
     
+    // Spawn item pickups
+    this.itemManager.initialize(this.map, this.player, this.mapKey);
+    
     // Store monsterGroup for backward compatibility
     this.monsterGroup = this.physicsManager.createGroup(this.monsters as unknown as Phaser.GameObjects.GameObject[]);
     
-    // Initialize scene transitions
-    this.sceneFlowManager.initialize(this.map, this.player);
+    // Create the zones, including the ones leading to other scenes
+    this.zoneManager.initialize(this.map, this.player, this.mapKey);
     
-    // Initialize camera to follow player
+    // Initialize camera to follow player, with the settings of the map properties and its rooms
     this.cameraManager.initialize(
       this.map.widthInPixels,
       this.map.heightInPixels,
-      this.player
+      this.player,
+      getCameraSettings(this.map.properties),
+      getCameraRooms(this.map)
     );
     
+    // Play the music of the map, crossfading from the previous level, and the sound effects
+    this.audioManager.initialize(this.map, this.player, data);
+    
     // Initialize input handling
     this.inputManager.initialize();
     
-    // Set up keyboard shortcuts
+    // Initialize save slots
+    this.saveManager.initialize(this.mapKey);
+    
+    // Set up keyboard shortcuts, including quick save and quick load
+    this.inputManager.addShortcut('k', () => this.saveManager.save(SAVE.QUICK_SAVE_SLOT));
+    this.inputManager.addShortcut('l', () => this.saveManager.load(SAVE.QUICK_SAVE_SLOT));
+    this.addLevelShortcut('1', SCENES.FIRST_LEVEL);
+    this.addLevelShortcut('2', SCENES.SECOND_LEVEL);
     this.inputManager.setupKeyboardShortcuts(this);
     
+    // Uncover the screen covered by the previous scene, once the input is ready to be locked
+    this.transitionManager.initialize(this.map, this.player, data);
+    
     // Store cursors for backward compatibility
     this.cursors = this.inputManager.getCursors();
   }
@@ -179,6 +320,7 @@ export abstract class AbstractScene extends Phaser.Scene {
     // Create managers that don't have dependencies first
     this.inputManager = new InputManager(this);
     this.mapManager = new MapManager(this);
+    this.navigationManager = new NavigationManager(this, this.mapManager);
     this.spatialManager = new SpatialManager(this);
     
     // Create managers that depend on other managers
@@ -190,7 +332,41 @@ export abstract class AbstractScene extends Phaser.Scene {
     
     this.physicsManager = new PhysicsManager(this);
     this.cameraManager = new CameraManager(this);
-    this.sceneFlowManager = new SceneFlowManager(this);
+    this.transitionManager = new TransitionManager(this, this.inputManager);
+    this.sceneFlowManager = new SceneFlowManager(this, this.transitionManager);
+    this.zoneManager = new ZoneManager(this);
+    this.itemManager = new ItemManager(this, this.physicsManager);
+    this.saveManager = new SaveManager(this, this.entityManager);
+    this.audioManager = new AudioManager(this);
+  }
+
+  /**
+   * Register a debug shortcut changing to a level, the player keeps their health and items
+   * @param key - Value of KeyboardEvent.key triggering the change
+   * @param sceneKey - Key of the level
+   */
+  private addLevelShortcut(key: string, sceneKey: string): void {
+    this.inputManager.addShortcut(key, () => {
+      if (this.scene.key !== sceneKey) {
+        this.sceneFlowManager.changeScene(sceneKey, this.player);
+      }
+    });
+  }
+
+  /**
+   * Spawn a monster that is not placed in the map, with the colliders of the other monsters
+   * @param type - Entity type of a hostile definition
+   * @param x - Horizontal position
+   * @param y - Vertical position
+   * @returns The monster or null if the type is not a hostile entity type
+   */
+  public spawnMonster(type: string, x: number, y: number): INonPlayerEntity | null {
+    const monster = this.entityManager.spawnEntity(type, x, y);
+    if (monster) {
+      this.physicsManager.addMonster(monster);
+      this.monsterGroup.add(monster as unknown as Phaser.GameObjects.GameObject);
+    }
+    return monster;
   }
 
   /**
@@ -199,4 +375,69 @@ export abstract class AbstractScene extends Phaser.Scene {
   public getInputManager(): IInputManager {
     return this.inputManager;
   }
+
+  /**
+   * Get the camera manager instance
+   */
+  public getCameraManager(): ICameraManager {
+    return this.cameraManager;
+  }
+
+  /**
+   * Get the transition manager, to know whether the screen is covered
+   */
+  public getTransitionManager(): ITransitionManager {
+    return this.transitionManager;
+  }
+
+  /**
+   * Time the level has run, unlike the clock of the game loop it stands still
+   * while the level is paused and follows the time scale of the scene clock
+   * @returns The time in milliseconds
+   */
+  public getPlayTime(): number {
+    return this.playTime;
+  }
+
+  /**
+   * Get the audio manager, to play the music and sound effects of the level
+   */
+  public getAudioManager(): IAudioManager {
+    return this.audioManager;
+  }
+
+  /**
+   * Get the scene flow manager, to change scene
+   */
+  public getSceneFlowManager(): ISceneFlowManager {
+    return this.sceneFlowManager;
+  }
+
+  /**
+   * Get the zone manager instance
+   */
+  public getZoneManager(): IZoneManager {
+    return this.zoneManager;
+  }
+
+  /**
+   * Get the item manager instance
+   */
+  public getItemManager(): IItemManager {
+    return this.itemManager;
+  }
+
+  /**
+   * Get the navigation manager instance
+   */
+  public getNavigationManager(): INavigationManager {
+    return this.navigationManager;
+  }
+
+  /**
+   * Get the save manager instance
+   */
+  public getSaveManager(): ISaveManager {
+    return this.saveManager;
+  }
 }
@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Dialogue box overlay scene that renders conversations with NPCs.
+ * Runs alongside the HUD and pauses the level while a conversation is open.
+ */
+
+import { ASSETS } from '../constants/assets';
+import { SCENES } from '../constants/scenes';
+import { EVENTS } from '../constants/events';
+import { DialogueTree } from '../types/dialogue-definitions';
+import { GameEventMap } from '../types/event-types';
+import { DialogueRunner } from '../utils/DialogueRunner';
+import { parseDialogues } from '../utils/dialogue-definitions';
+import { GameManager } from './GameManager';
+
+/** Margin between the box and the edges of the screen */
+const BOX_MARGIN = 8;
+/** Height of the dialogue box */
+const BOX_HEIGHT = 80;
+/** Padding between the box border and its text */
+const BOX_PADDING = 6;
+/** Vertical distance between two choices */
+const CHOICE_SPACING = 10;
+
+/** Keys advancing the conversation or confirming a choice */
+const CONFIRM_KEYS = [' ', 'Enter', 'e', 'E'];
+
+/**
+ * Dialogue box overlay scene that renders conversations with NPCs.
+ * Runs alongside the HUD and pauses the level while a conversation is open.
+ *
+ * @class DialogueBox
+ * @extends {Phaser.Scene}
+ */
+export class DialogueBox extends Phaser.Scene {
+  /** Reference to the game manager scene */
+  private gameManager: GameManager;
+  /** Dialogue trees keyed by dialog key */
+  private dialogues: Map<string, DialogueTree>;
+  /** Runner of the open conversation */
+  private runner: DialogueRunner | null = null;
+  /** Key of the level paused during the conversation */
+  private pausedSceneKey: string | null = null;
+  /** Index of the highlighted choice */
+  private selectedChoice = 0;
+
+  private background: Phaser.GameObjects.Graphics;
+  private speakerText: Phaser.GameObjects.Text;
+  private bodyText: Phaser.GameObjects.Text;
+  private choiceTexts: Phaser.GameObjects.Text[] = [];
+
+  /**
+   * Creates an instance of DialogueBox.
+   * Initializes the scene with the appropriate scene key.
+   */
+  constructor() {
+    super(SCENES.DIALOGUE);
+  }
+
+  /**
+   * Creates the dialogue box, hidden until a conversation starts.
+   */
+  protected create() {
+    this.gameManager = this.scene.get(SCENES.GAME_MANAGER) as GameManager;
+    this.dialogues = parseDialogues(this.cache.json.get(ASSETS.DATA.DIALOGUES));
+
+    this.createBox();
+    this.hide();
+
+    this.gameManager.eventBus.on(EVENTS.START_DIALOGUE, this.open, this, this);
+    this.input.keyboard.on('keydown', this.handleKey, this);
+  }
+
+  /**
+   * Creates the box background and texts.
+   */
+  private createBox() {
+    const width = this.cameras.main.width - BOX_MARGIN * 2;
+    const top = this.cameras.main.height - BOX_HEIGHT - BOX_MARGIN;
+
+    this.background = this.add.graphics();
+    this.background.fillStyle(0x000000, 0.85);
+    this.background.fillRect(BOX_MARGIN, top, width, BOX_HEIGHT);
+    this.background.lineStyle(1, 0xffffff, 1);
+    this.background.strokeRect(BOX_MARGIN, top, width, BOX_HEIGHT);
+
+    const textX = BOX_MARGIN + BOX_PADDING;
+    this.speakerText = this.add.text(textX, top + BOX_PADDING, '', {
+      font: '8px monospace',
+      color: '#ffd866',
+    });
+    this.bodyText = this.add
+      .text(textX, top + BOX_PADDING + CHOICE_SPACING, '', {
+        font: '8px monospace',
+        color: '#ffffff',
+      })
+      .setWordWrapWidth(width - BOX_PADDING * 2);
+  }
+
+  /**
+   * Opens a conversation and pauses the level.
+   *
+   * @param {object} payload - Key of the dialogue tree to run and of the level to pause
+   */
+  private open({ dialogKey, sceneKey }: GameEventMap[typeof EVENTS.START_DIALOGUE]) {
+    if (this.runner) return;
+
+    const tree = this.dialogues.get(dialogKey);
+    if (!tree) {
+      console.warn(`DialogueBox: Unknown dialogue "${dialogKey}"`);
+      return;
+    }
+
+    this.runner = new DialogueRunner(tree, this.registry, action => {
+      this.gameManager.eventBus.emit(EVENTS.DIALOGUE_ACTION, { action });
+    });
+    if (!this.runner.start()) {
+      this.runner = null;
+      return;
+    }
+
+    this.pausedSceneKey = sceneKey;
+    this.scene.pause(sceneKey);
+    this.render();
+  }
+
+  /**
+   * Closes the conversation and resumes the level.
+   */
+  private close() {
+    const sceneKey = this.pausedSceneKey;
+    this.runner = null;
+    this.pausedSceneKey = null;
+    this.hide();
+
+    // Resume on the next frame so the key closing the box does not reach the level
+    this.time.delayedCall(0, this.resumeLevel, [sceneKey], this);
+  }
+
+  /**
+   * Resumes the level paused by the conversation.
+   *
+   * @param {string} sceneKey - Key of the paused level
+   */
+  private resumeLevel(sceneKey: string | null) {
+    if (sceneKey) {
+      this.scene.resume(sceneKey);
+    }
+    this.gameManager.eventBus.emit(EVENTS.DIALOGUE_ENDED, { sceneKey });
+  }
+
+  /**
+   * Handles keyboard input while a conversation is open.
+   */
+  private handleKey(event: KeyboardEvent) {
+    // Ignore auto-repeat so holding the talk key does not skip lines
+    if (!this.runner || event.repeat) return;
+
+    const choiceCount = this.runner.getChoices().length;
+    if (event.key === 'ArrowUp' && choiceCount > 0) {
+      this.selectedChoice = (this.selectedChoice + choiceCount - 1) % choiceCount;
+      this.render();
+    } else if (event.key === 'ArrowDown' && choiceCount > 0) {
+      this.selectedChoice = (this.selectedChoice + 1) % choiceCount;
+      this.render();
+    } else if (CONFIRM_KEYS.includes(event.key)) {
+      this.advance();
+    }
+  }
+
+  /**
+   * Moves to the next node, closing the box at the end of the conversation.
+   */
+  private advance() {
+    const node = this.runner.advance(this.selectedChoice);
+    this.selectedChoice = 0;
+    if (!node) {
+      this.close();
+      return;
+    }
+    this.render();
+  }
+
+  /**
+   * Displays the current node and its choices.
+   */
+  private render() {
+    const node = this.runner.getCurrentNode();
+    this.choiceTexts.forEach(text => text.destroy());
+
+    this.speakerText.setText(node.speaker || '');
+    this.bodyText.setText(node.text);
+
+    const choicesTop = this.bodyText.y + this.bodyText.height + BOX_PADDING;
+    this.choiceTexts = this.runner.getChoices().map((choice, index) => {
+      const selected = index === this.selectedChoice;
+      return this.add.text(
+        this.bodyText.x,
+        choicesTop + index * CHOICE_SPACING,
+        `${selected ? '>' : ' '} ${choice.text}`,
+        {
+          font: '8px monospace',
+          color: selected ? '#ffd866' : '#aaaaaa',
+        },
+      );
+    });
+
+    this.setBoxVisible(true);
+  }
+
+  /**
+   * Hides the box.
+   */
+  private hide() {
+    this.choiceTexts.forEach(text => text.destroy());
+    this.choiceTexts = [];
+    this.setBoxVisible(false);
+  }
+
+  /**
+   * Shows or hides the box elements.
+   */
+  private setBoxVisible(visible: boolean) {
+    this.background.setVisible(visible);
+    this.speakerText.setVisible(visible);
+    this.bodyText.setVisible(visible);
+  }
+}
@@ -6,6 +6,19 @@
 import { REGISTRY_KEYS } from '../constants/registry';
 import { SCENES } from '../constants/scenes';
 import { EVENTS } from '../constants/events';
+import { OPTIONS } from '../constants/options';
+import { STARTING_INVENTORY } from '../constants/items';
+import { VOLUME_CHANNELS, VolumeChannel } from '../constants/audio';
+import { InventoryContents } from '../types/item-types';
+import { ISaveStorage, LocalSaveStorage } from '../utils/save-storage';
+import { EventBus } from '../utils/EventBus';
+
+/** Storage keys of the volume channels */
+const VOLUME_STORAGE_KEYS: Record<VolumeChannel, string> = {
+  [VOLUME_CHANNELS.MASTER]: OPTIONS.VOLUME_STORAGE_KEY,
+  [VOLUME_CHANNELS.MUSIC]: OPTIONS.MUSIC_VOLUME_STORAGE_KEY,
+  [VOLUME_CHANNELS.SFX]: OPTIONS.SFX_VOLUME_STORAGE_KEY,
+};
 
 /**
  * Game manager scene that handles game state and registry.
@@ -15,6 +28,19 @@ import { EVENTS } from '../constants/events';
  * @extends {Phaser.Scene}
  */
 export class GameManager extends Phaser.Scene {
+  /** Events shared by the scenes of the game */
+  public readonly eventBus = new EventBus();
+  /** Backend the options are written to */
+  private storage: ISaveStorage = new LocalSaveStorage();
+  /** Volumes of the channels, the master one is also the volume of the sound manager */
+  private volumes: Record<VolumeChannel, number> = {
+    [VOLUME_CHANNELS.MASTER]: OPTIONS.DEFAULT_VOLUME,
+    [VOLUME_CHANNELS.MUSIC]: OPTIONS.DEFAULT_VOLUME,
+    [VOLUME_CHANNELS.SFX]: OPTIONS.DEFAULT_VOLUME,
+  };
+  /** Music track playing across the levels, null when silent */
+  public music: Phaser.Sound.BaseSound | null = null;
+
   /**
    * Creates an instance of GameManager.
    * Initializes the scene with the appropriate scene key.
@@ -38,14 +64,131 @@ export class GameManager extends Phaser.Scene {
    * @param {number} newHp - The new health points value
    */
   public set playerHp(newHp: number) {
-    this.registry.set(REGISTRY_KEYS.PLAYER.HP, newHp);
-    this.events.emit(EVENTS.UPDATE_HP);
+    this.setPlayerHealth(newHp, this.playerMaxHp);
+  }
+
+  /**
+   * Gets the player's maximum health points from the registry.
+   * 
+   * @returns {number} The player's maximum health points, the current ones before a player was created
+   */
+  public get playerMaxHp(): number {
+    return this.registry.get(REGISTRY_KEYS.PLAYER.MAX_HP) ?? this.playerHp;
+  }
+
+  /**
+   * Sets the player's current and maximum health points in the registry and emits an update event.
+   * 
+   * @param {number} hp - The new health points value
+   * @param {number} maxHp - The new maximum health points value
+   */
+  public setPlayerHealth(hp: number, maxHp: number) {
+    this.registry.set(REGISTRY_KEYS.PLAYER.HP, hp);
+    this.registry.set(REGISTRY_KEYS.PLAYER.MAX_HP, maxHp);
+    this.eventBus.emit(EVENTS.UPDATE_HP, { hp, maxHp });
+  }
+
+  /**
+   * Emits an update event for the player's stamina, which is not kept between levels.
+   * 
+   * @param {number} stamina - The new stamina value
+   * @param {number} maxStamina - The maximum stamina value
+   */
+  public setPlayerStamina(stamina: number, maxStamina: number) {
+    this.eventBus.emit(EVENTS.UPDATE_STAMINA, { stamina, maxStamina });
+  }
+
+  /**
+   * Gets the contents of the player's inventory from the registry.
+   * 
+   * @returns {InventoryContents} Quantities held keyed by item id, the starting inventory in a new game
+   */
+  public get inventory(): InventoryContents {
+    return this.registry.get(REGISTRY_KEYS.PLAYER.INVENTORY) || { ...STARTING_INVENTORY };
+  }
+
+  /**
+   * Sets the contents of the player's inventory in the registry and emits an update event.
+   * 
+   * @param {InventoryContents} contents - Quantities held keyed by item id
+   */
+  public set inventory(contents: InventoryContents) {
+    this.registry.set(REGISTRY_KEYS.PLAYER.INVENTORY, contents);
+    this.eventBus.emit(EVENTS.UPDATE_INVENTORY, { contents });
+  }
+
+  /**
+   * Gets the master volume of the game.
+   * 
+   * @returns {number} The volume, between 0 and 1
+   */
+  public get volume(): number {
+    return this.getVolume(VOLUME_CHANNELS.MASTER);
   }
 
   /**
-   * Creates the game manager scene and launches the HUD scene.
+   * Sets the master volume of the game and remembers it for the next sessions.
+   * 
+   * @param {number} volume - The volume, clamped between 0 and 1
+   */
+  public set volume(volume: number) {
+    this.setVolume(VOLUME_CHANNELS.MASTER, volume);
+  }
+
+  /**
+   * Gets the volume of a channel.
+   * 
+   * @param {VolumeChannel} channel - One of VOLUME_CHANNELS
+   * @returns {number} The volume, between 0 and 1
+   */
+  public getVolume(channel: VolumeChannel): number {
+    return this.volumes[channel];
+  }
+
+  /**
+   * Sets the volume of a channel, remembers it for the next sessions and emits an update event.
+   * 
+   * @param {VolumeChannel} channel - One of VOLUME_CHANNELS
+   * @param {number} volume - The volume, clamped between 0 and 1
+   */
+  public setVolume(channel: VolumeChannel, volume: number) {
+    this.applyVolume(channel, volume);
+    this.storage.setItem(VOLUME_STORAGE_KEYS[channel], String(this.getVolume(channel)));
+    this.eventBus.emit(EVENTS.UPDATE_VOLUME, { channel, volume: this.getVolume(channel) });
+  }
+
+  /**
+   * Changes the volume of a channel.
+   */
+  private applyVolume(channel: VolumeChannel, volume: number) {
+    this.volumes[channel] = Phaser.Math.Clamp(volume, 0, 1);
+    if (channel === VOLUME_CHANNELS.MASTER) {
+      this.sound.volume = this.volumes[channel];
+    }
+  }
+
+  /**
+   * Asks the dialogue box to open a conversation.
+   * 
+   * @param {string} dialogKey - Key of the dialogue tree to run
+   * @param {string} sceneKey - Key of the level scene paused during the conversation
+   */
+  public startDialogue(dialogKey: string, sceneKey: string) {
+    this.eventBus.emit(EVENTS.START_DIALOGUE, { dialogKey, sceneKey });
+  }
+
+  /**
+   * Creates the game manager scene, restores the volumes and launches the HUD and dialogue box scenes.
    */
   protected create() {
+    Object.values(VOLUME_CHANNELS).forEach(channel => {
+      const volume = parseFloat(this.storage.getItem(VOLUME_STORAGE_KEYS[channel]));
+      this.applyVolume(channel, isNaN(volume) ? OPTIONS.DEFAULT_VOLUME : volume);
+    });
+
+    this.events.once('destroy', () => this.eventBus.destroy());
+
     this.scene.launch(SCENES.HUD);
+    this.scene.launch(SCENES.DIALOGUE);
   }
 }
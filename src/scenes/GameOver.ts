@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Game over overlay scene launched over the level when the player dies.
+ * Offers to respawn at the last checkpoint or to quit to the title screen.
+ */
+
+import { SCENES } from '../constants/scenes';
+import { INPUT_ACTIONS } from '../constants/input';
+import { IInputManager } from '../types/manager-interfaces';
+import { InputManager } from '../managers/InputManager';
+import { getCheckpoint } from '../utils/world-state';
+import { GameManager } from './GameManager';
+
+/** Vertical position of the first choice */
+const CHOICES_TOP = 130;
+/** Vertical distance between two choices */
+const CHOICE_SPACING = 12;
+
+/**
+ * Data the game over screen is launched with
+ */
+export interface GameOverData {
+  /** Key of the level the player died in */
+  levelKey: string;
+}
+
+/**
+ * Game over overlay scene launched over the level when the player dies.
+ * Offers to respawn at the last checkpoint or to quit to the title screen.
+ *
+ * @class GameOver
+ * @extends {Phaser.Scene}
+ */
+export class GameOver extends Phaser.Scene {
+  /** Reference to the game manager scene */
+  private gameManager: GameManager;
+  /** Actions of the screen, read from the keyboard and the gamepads */
+  private inputManager: IInputManager;
+  /** Key of the level the player died in */
+  private levelKey: string;
+  /** Index of the highlighted choice */
+  private selectedChoice = 0;
+  /** Choices and what they do */
+  private choices: { label: string; confirm: () => void }[] = [
+    { label: 'Continue', confirm: () => this.respawn() },
+    { label: 'Quit to title', confirm: () => this.quitToTitle() },
+  ];
+
+  private choiceTexts: Phaser.GameObjects.Text[] = [];
+
+  /**
+   * Creates an instance of GameOver.
+   * Initializes the scene with the appropriate scene key.
+   */
+  constructor() {
+    super(SCENES.GAME_OVER);
+  }
+
+  /**
+   * Resets the choice each time the screen is launched.
+   *
+   * @param {GameOverData} data - The level the player died in
+   */
+  protected init(data: GameOverData) {
+    this.levelKey = data.levelKey;
+    this.selectedChoice = 0;
+    this.choiceTexts = [];
+  }
+
+  /**
+   * Creates the screen over a dimmed level.
+   */
+  protected create() {
+    this.gameManager = this.scene.get(SCENES.GAME_MANAGER) as GameManager;
+    this.inputManager = new InputManager(this);
+    this.inputManager.initialize(false);
+
+    const { width, height } = this.cameras.main;
+    this.add.graphics().fillStyle(0x000000, 0.7).fillRect(0, 0, width, height);
+    this.add
+      .text(width / 2, height / 3, 'Game over', { font: '24px monospace', color: '#ff5555' })
+      .setOrigin(0.5, 0.5);
+
+    this.render();
+  }
+
+  /**
+   * Handles the choice actions.
+   */
+  public update() {
+    this.inputManager.update();
+    const { justPressed } = this.inputManager.getActionState();
+
+    if (justPressed[INPUT_ACTIONS.MOVE_UP] || justPressed[INPUT_ACTIONS.MOVE_DOWN]) {
+      this.selectedChoice = (this.selectedChoice + 1) % this.choices.length;
+      this.render();
+    } else if (justPressed[INPUT_ACTIONS.SHOOT] || justPressed[INPUT_ACTIONS.INTERACT]) {
+      this.choices[this.selectedChoice].confirm();
+    }
+  }
+
+  /**
+   * Restores the health of the player and restarts the level of the last checkpoint.
+   */
+  public respawn() {
+    const checkpoint = getCheckpoint(this.registry);
+    this.gameManager.playerHp = this.gameManager.playerMaxHp;
+    this.scene.stop(this.levelKey);
+    this.scene.start(checkpoint ? checkpoint.sceneKey : this.levelKey, { comesFrom: this.levelKey, respawn: true });
+  }
+
+  /**
+   * Stops the level and shows the title screen.
+   */
+  public quitToTitle() {
+    this.scene.stop(this.levelKey);
+    this.scene.start(SCENES.TITLE);
+  }
+
+  /**
+   * Displays the choices.
+   */
+  private render() {
+    this.choiceTexts.forEach(text => text.destroy());
+
+    const { width } = this.cameras.main;
+    this.choiceTexts = this.choices.map((choice, index) => {
+      const selected = index === this.selectedChoice;
+      return this.add
+        .text(width / 2, CHOICES_TOP + index * CHOICE_SPACING, `${selected ? '>' : ' '} ${choice.label}`, {
+          font: '8px monospace',
+          color: selected ? '#ffd866' : '#aaaaaa',
+        })
+        .setOrigin(0.5, 0);
+    });
+  }
+}
@@ -1,29 +1,61 @@
 /**
  * @fileoverview Heads-Up Display (HUD) scene that shows player health and other UI elements.
- * Manages the display of hearts representing player health.
+ * Manages the hearts representing player health, the stamina bar, the item counters and the boss health bar.
  */
 
-import { Player } from '../game-objects/Player';
 import { ASSETS } from '../constants/assets';
 import { SCENES } from '../constants/scenes';
 import { EVENTS } from '../constants/events';
+import { HUD_LAYOUT, HUD_COUNTED_ITEM_TYPES } from '../constants/hud';
+import { ITEM_DEFINITIONS } from '../constants/items';
+import { NonPlayerEntity } from '../game-objects/entities/NonPlayerEntity';
+import { GameEventMap } from '../types/event-types';
+import { HeartState, getHeartPositions, getHeartStates, getHeartsPerRow } from '../utils/hud';
 import { GameManager } from './GameManager';
 
-/** Distance between heart sprites in the HUD */
-const DISTANCE_BETWEEN_HEARTS = 15;
+/** Texture of a heart in each state */
+const HEART_TEXTURES: Record<HeartState, string> = {
+  full: ASSETS.IMAGES.HEART,
+  half: ASSETS.IMAGES.HEART_HALF,
+  empty: ASSETS.IMAGES.HEART_EMPTY,
+};
+
+/**
+ * Icon and count of an item shown under the hearts
+ */
+interface ItemCounter {
+  icon: Phaser.GameObjects.Sprite;
+  text: Phaser.GameObjects.Text;
+}
 
 /**
  * Heads-Up Display (HUD) scene that shows player health and other UI elements.
- * Manages the display of hearts representing player health.
- * 
+ * Manages the hearts representing player health, the stamina bar, the item counters and the boss health bar.
+ *
+ * The hearts follow the current and maximum health of the player, a heart holding part
+ * of its health points is shown half full. Everything is placed from the size of the screen
+ * and placed again when the game is resized.
+ *
  * @class HUD
  * @extends {Phaser.Scene}
  */
 export class HUD extends Phaser.Scene {
-  /** Array of heart sprites representing player health */
+  /** Heart sprites representing player health, one per heart of the maximum health */
   private hearts: Phaser.GameObjects.Sprite[];
+  /** State of each heart */
+  private heartStates: HeartState[] = [];
   /** Reference to the game manager scene */
   private gameManager: GameManager;
+  /** Stamina bar under the hearts, hidden until the player stamina is known */
+  private staminaBar: Phaser.GameObjects.Graphics;
+  /** Part of the stamina the player has left */
+  private staminaRatio = 0;
+  /** Counters keyed by item id */
+  private itemCounters: Map<string, ItemCounter> = new Map();
+  /** Boss whose health bar is shown, null when no boss is fighting the player */
+  private boss: NonPlayerEntity | null = null;
+  private bossBar: Phaser.GameObjects.Graphics;
+  private bossName: Phaser.GameObjects.Text;
 
   /**
    * Creates an instance of HUD.
@@ -37,52 +69,240 @@ export class HUD extends Phaser.Scene {
 
   /**
    * Creates the HUD scene and initializes hearts.
-   * Sets up event listeners for health updates.
+   * Sets up event listeners for health, stamina, inventory and boss updates.
    */
   protected create() {
-    const gameManager: any = this.scene.get(SCENES.GAME_MANAGER);
-    this.gameManager = gameManager;
+    this.gameManager = this.scene.get(SCENES.GAME_MANAGER) as GameManager;
+
+    const bus = this.gameManager.eventBus;
+    bus.on(EVENTS.UPDATE_HP, this.updateHearts, this, this);
+    bus.on(EVENTS.UPDATE_STAMINA, this.updateStaminaBar, this, this);
+    bus.on(EVENTS.UPDATE_INVENTORY, this.updateItemCounters, this, this);
+    bus.on(EVENTS.BOSS_ENGAGED, ({ entity, definition }) => this.showBossBar(entity, definition.boss.name), this, this);
+    bus.on(EVENTS.CHARACTER_DAMAGED, this.onCharacterDamaged, this, this);
+    bus.on(EVENTS.ENTITY_DEFEATED, this.onEntityDefeated, this, this);
+    bus.on(EVENTS.SCENE_CHANGED, this.hideBossBar, this, this);
+
+    this.scale.on('resize', this.layout, this);
+    this.events.once('shutdown', () => this.scale.off('resize', this.layout, this, false));
+
+    this.staminaBar = this.add.graphics().setScrollFactor(0).setDepth(100).setVisible(false);
+    this.initItemCounters();
+    this.initBossBar();
+    this.updateHearts({ hp: this.gameManager.playerHp || 0, maxHp: this.gameManager.playerMaxHp || 0 });
+    this.layout();
+
+    // The title screen wakes the HUD when the game starts
+    if (this.scene.isActive(SCENES.TITLE)) {
+      this.scene.sleep(SCENES.HUD);
+    }
+  }
+
+  /**
+   * How full each heart is, from left to right.
+   *
+   * @returns {HeartState[]} The state of each heart
+   */
+  public getHeartStates(): HeartState[] {
+    return [...this.heartStates];
+  }
+
+  /**
+   * Text of each item counter.
+   *
+   * @returns {Record<string, string>} The counts shown keyed by item id
+   */
+  public getItemCounterTexts(): Record<string, string> {
+    const texts: Record<string, string> = {};
+    this.itemCounters.forEach(({ text }, itemId) => (texts[itemId] = text.text));
+    return texts;
+  }
 
-    this.gameManager.events.on(EVENTS.UPDATE_HP, () => {
-      this.updateHearts();
+  /**
+   * Part of the stamina the player has left, shown by the stamina bar.
+   *
+   * @returns {number} The stamina left over the maximum stamina
+   */
+  public getStaminaRatio(): number {
+    return this.staminaRatio;
+  }
+
+  /**
+   * Boss whose health bar is shown.
+   *
+   * @returns {NonPlayerEntity | null} The boss or null when the bar is hidden
+   */
+  public getBoss(): NonPlayerEntity | null {
+    return this.boss;
+  }
+
+  /**
+   * Creates an icon and a count for each counted item, currencies first then ammunition.
+   */
+  private initItemCounters() {
+    HUD_COUNTED_ITEM_TYPES.forEach(type => {
+      Object.values(ITEM_DEFINITIONS)
+        .filter(definition => definition.type === type)
+        .forEach(definition => {
+          const icon = this.add
+            .sprite(0, 0, definition.texture, 0)
+            .setScale(definition.scale ?? 1)
+            .setScrollFactor(0)
+            .setDepth(100);
+          const text = this.add
+            .text(0, 0, '', { font: '8px monospace', color: '#ffffff' })
+            .setOrigin(0, 0.5)
+            .setScrollFactor(0)
+            .setDepth(100);
+          this.itemCounters.set(definition.id, { icon, text });
+        });
     });
 
-    this.initHearts();
-  }
-
-  /**
-   * Initializes the heart sprites in the HUD.
-   * Creates empty hearts for maximum health and filled hearts for current health.
-   */
-  private initHearts() {
-    Array(Player.MAX_HP)
-      .fill(0)
-      .map((_, i) => {
-        return this.add
-          .sprite(
-            (i + 1) * DISTANCE_BETWEEN_HEARTS,
-            DISTANCE_BETWEEN_HEARTS,
-            ASSETS.IMAGES.HEART_EMPTY,
-          )
-          .setScrollFactor(0)
-          .setDepth(50);
-      });
-
-    this.hearts = Array(this.gameManager.playerHp)
-      .fill(0)
-      .map((_, i) => {
-        return this.add
-          .sprite((i + 1) * DISTANCE_BETWEEN_HEARTS, DISTANCE_BETWEEN_HEARTS, ASSETS.IMAGES.HEART)
-          .setScrollFactor(0)
-          .setDepth(100);
-      });
-  }
-
-  private updateHearts() {
-    this.hearts.map((heart, index) => {
-      if (index >= this.gameManager.playerHp) {
-        heart.setAlpha(0);
-      }
+    this.updateItemCounters();
+  }
+
+  /**
+   * Creates the boss health bar, hidden until a boss engages the player.
+   */
+  private initBossBar() {
+    this.bossBar = this.add.graphics().setScrollFactor(0).setDepth(100);
+    this.bossName = this.add
+      .text(0, 0, '', { font: '8px monospace', color: '#ffffff' })
+      .setOrigin(0.5, 1)
+      .setScrollFactor(0)
+      .setDepth(100);
+    this.hideBossBar();
+  }
+
+  /**
+   * Shows the quantity held of each counted item.
+   */
+  private updateItemCounters() {
+    const inventory = this.gameManager.inventory;
+    this.itemCounters.forEach(({ text }, itemId) => {
+      text.setText(`x${inventory[itemId] || 0}`);
+    });
+  }
+
+  /**
+   * Shows the health of the player, adding or removing hearts when the maximum health changes.
+   */
+  private updateHearts({ hp, maxHp }: GameEventMap[typeof EVENTS.UPDATE_HP]) {
+    this.heartStates = getHeartStates(hp, maxHp);
+
+    const countChanged = this.hearts.length !== this.heartStates.length;
+    while (this.hearts.length < this.heartStates.length) {
+      this.hearts.push(this.add.sprite(0, 0, ASSETS.IMAGES.HEART_EMPTY).setScrollFactor(0).setDepth(100));
+    }
+    this.hearts.splice(this.heartStates.length).forEach(heart => heart.destroy());
+
+    this.hearts.forEach((heart, i) => heart.setTexture(HEART_TEXTURES[this.heartStates[i]]));
+    if (countChanged) {
+      this.layout();
+    }
+  }
+
+  /**
+   * Shows the stamina of the player, the bar stays hidden without a maximum stamina.
+   */
+  private updateStaminaBar({ stamina, maxStamina }: GameEventMap[typeof EVENTS.UPDATE_STAMINA]) {
+    this.staminaRatio = maxStamina > 0 ? Phaser.Math.Clamp(stamina / maxStamina, 0, 1) : 0;
+    this.staminaBar.setVisible(maxStamina > 0);
+    this.drawStaminaBar();
+  }
+
+  /**
+   * Draws the stamina bar under the hearts, filled by the stamina left.
+   */
+  private drawStaminaBar() {
+    this.staminaBar
+      .clear()
+      .fillStyle(HUD_LAYOUT.BOSS_BAR_BACKGROUND_COLOR)
+      .fillRect(0, 0, HUD_LAYOUT.STAMINA_BAR_WIDTH, HUD_LAYOUT.STAMINA_BAR_HEIGHT)
+      .fillStyle(HUD_LAYOUT.STAMINA_BAR_COLOR)
+      .fillRect(0, 0, HUD_LAYOUT.STAMINA_BAR_WIDTH * this.staminaRatio, HUD_LAYOUT.STAMINA_BAR_HEIGHT);
+  }
+
+  /**
+   * Shows the health bar of a boss.
+   */
+  private showBossBar(boss: NonPlayerEntity, name: string) {
+    this.boss = boss;
+    this.bossName.setText(name).setVisible(true);
+    this.bossBar.setVisible(true);
+    this.drawBossBar();
+  }
+
+  /**
+   * Hides the boss health bar.
+   */
+  private hideBossBar() {
+    this.boss = null;
+    this.bossBar.clear().setVisible(false);
+    this.bossName.setVisible(false);
+  }
+
+  /**
+   * Redraws the boss health bar when the boss is hurt.
+   */
+  private onCharacterDamaged({ character }: GameEventMap[typeof EVENTS.CHARACTER_DAMAGED]) {
+    if (character === this.boss) {
+      this.drawBossBar();
+    }
+  }
+
+  /**
+   * Hides the boss health bar when the boss is defeated.
+   */
+  private onEntityDefeated({ entity }: GameEventMap[typeof EVENTS.ENTITY_DEFEATED]) {
+    if (entity === this.boss) {
+      this.hideBossBar();
+    }
+  }
+
+  /**
+   * Draws the boss health bar at the bottom of the screen, filled by the health left.
+   */
+  private drawBossBar() {
+    if (!this.boss) {
+      return;
+    }
+
+    const { width, height } = this.cameras.main;
+    const barWidth = Math.min(HUD_LAYOUT.BOSS_BAR_MAX_WIDTH, width * HUD_LAYOUT.BOSS_BAR_WIDTH_RATIO);
+    const x = (width - barWidth) / 2;
+    const y = height - HUD_LAYOUT.MARGIN - HUD_LAYOUT.BOSS_BAR_HEIGHT;
+    const ratio = Phaser.Math.Clamp(this.boss.hp / this.boss.maxHp, 0, 1);
+
+    this.bossBar
+      .clear()
+      .fillStyle(HUD_LAYOUT.BOSS_BAR_BACKGROUND_COLOR)
+      .fillRect(x, y, barWidth, HUD_LAYOUT.BOSS_BAR_HEIGHT)
+      .fillStyle(HUD_LAYOUT.BOSS_BAR_COLOR)
+      .fillRect(x, y, barWidth * ratio, HUD_LAYOUT.BOSS_BAR_HEIGHT);
+    this.bossName.setPosition(width / 2, y - 2);
+  }
+
+  /**
+   * Places the hearts in rows from the top left corner, the stamina bar and the item counters
+   * under them and the boss health bar at the bottom of the screen.
+   */
+  private layout() {
+    const { width } = this.cameras.main;
+    const positions = getHeartPositions(this.hearts.length, width);
+    this.hearts.forEach((heart, i) => heart.setPosition(positions[i].x, positions[i].y));
+
+    const rows = Math.ceil(this.hearts.length / getHeartsPerRow(width));
+    const heartsBottom = HUD_LAYOUT.MARGIN + rows * HUD_LAYOUT.DISTANCE_BETWEEN_HEARTS;
+    this.staminaBar.setPosition(HUD_LAYOUT.MARGIN, heartsBottom);
+    const countersTop = heartsBottom + HUD_LAYOUT.STAMINA_BAR_HEIGHT;
+    const iconX = HUD_LAYOUT.MARGIN + HUD_LAYOUT.DISTANCE_BETWEEN_HEARTS / 2;
+    Array.from(this.itemCounters.values()).forEach(({ icon, text }, i) => {
+      const y = countersTop + (i + 1) * HUD_LAYOUT.DISTANCE_BETWEEN_COUNTERS;
+      icon.setPosition(iconX, y);
+      text.setPosition(iconX + 8, y);
     });
+
+    this.drawBossBar();
   }
 }
@@ -0,0 +1,361 @@
+/**
+ * @fileoverview Pause menu overlay scene launched over the level.
+ * The level is paused while the menu is open, which freezes its physics, timers and tweens.
+ */
+
+import { SCENES } from '../constants/scenes';
+import { INPUT_ACTIONS, InputAction } from '../constants/input';
+import { OPTIONS } from '../constants/options';
+import { VOLUME_CHANNELS, VolumeChannel } from '../constants/audio';
+import { IInputManager } from '../types/manager-interfaces';
+import { InputBinding } from '../types/input-types';
+import { InputManager } from '../managers/InputManager';
+import { InputBindings } from '../utils/InputBindings';
+import { GameManager } from './GameManager';
+import { AbstractScene } from './AbstractScene';
+import { getItemDefinition } from '../constants/items';
+
+/** Vertical position of the menu title */
+const TITLE_TOP = 30;
+/** Vertical position of the first menu item */
+const ITEMS_TOP = 60;
+/** Horizontal position of the menu items */
+const ITEMS_LEFT = 40;
+/** Vertical distance between two menu items */
+const ITEM_SPACING = 12;
+
+/** Names of the actions in the controls page */
+const ACTION_LABELS: Record<InputAction, string> = {
+  [INPUT_ACTIONS.MOVE_UP]: 'Move up',
+  [INPUT_ACTIONS.MOVE_DOWN]: 'Move down',
+  [INPUT_ACTIONS.MOVE_LEFT]: 'Move left',
+  [INPUT_ACTIONS.MOVE_RIGHT]: 'Move right',
+  [INPUT_ACTIONS.ATTACK]: 'Attack',
+  [INPUT_ACTIONS.SHOOT]: 'Shoot',
+  [INPUT_ACTIONS.INTERACT]: 'Interact',
+  [INPUT_ACTIONS.PAUSE]: 'Pause',
+  [INPUT_ACTIONS.INVENTORY]: 'Inventory',
+};
+
+/** Title of each page */
+const PAGE_TITLES: Record<PauseMenuPage, string> = {
+  main: 'Paused',
+  controls: 'Controls',
+  inventory: 'Inventory',
+};
+
+/** Names of the volume channels */
+const VOLUME_LABELS: Record<VolumeChannel, string> = {
+  [VOLUME_CHANNELS.MASTER]: 'Volume',
+  [VOLUME_CHANNELS.MUSIC]: 'Music',
+  [VOLUME_CHANNELS.SFX]: 'Effects',
+};
+
+/**
+ * Page of the menu
+ */
+export type PauseMenuPage = 'main' | 'controls' | 'inventory';
+
+/**
+ * Data the pause menu is launched with
+ */
+export interface PauseMenuData {
+  /** Key of the paused level */
+  levelKey: string;
+  /** Page shown first, the main page when omitted */
+  page?: PauseMenuPage;
+}
+
+/**
+ * Entry of the menu
+ */
+interface MenuItem {
+  /** Text of the entry */
+  label: string;
+  /** Runs when the entry is confirmed */
+  confirm?: () => void;
+  /** Runs when left or right is pressed on the entry */
+  adjust?: (direction: 1 | -1) => void;
+}
+
+/**
+ * Pause menu overlay scene launched over the level.
+ * Offers to resume, change the volume of each channel, rebind the controls or quit to the title screen.
+ * The inventory action opens it on the items the player holds, the ones with effects are used from there.
+ * It is navigated with the input actions, so it follows the player's bindings and gamepad.
+ *
+ * @class PauseMenu
+ * @extends {Phaser.Scene}
+ */
+export class PauseMenu extends Phaser.Scene {
+  /** Reference to the game manager scene */
+  private gameManager: GameManager;
+  /** Actions of the menu, read from the keyboard and the gamepads */
+  private inputManager: IInputManager;
+  /** Key of the paused level */
+  private levelKey: string;
+  /** Page displayed */
+  private page: PauseMenuPage = 'main';
+  /** Index of the highlighted item */
+  private selectedItem = 0;
+  /** Action waiting for a key or a button to be bound to, null when not rebinding */
+  private capturing: InputAction | null = null;
+
+  private titleText: Phaser.GameObjects.Text;
+  private itemTexts: Phaser.GameObjects.Text[] = [];
+
+  /**
+   * Creates an instance of PauseMenu.
+   * Initializes the scene with the appropriate scene key.
+   */
+  constructor() {
+    super(SCENES.PAUSE);
+  }
+
+  /**
+   * Resets the menu each time it is launched.
+   *
+   * @param {PauseMenuData} data - The paused level
+   */
+  protected init(data: PauseMenuData) {
+    this.levelKey = data.levelKey;
+    this.page = data.page ?? 'main';
+    this.selectedItem = 0;
+    this.capturing = null;
+    this.itemTexts = [];
+  }
+
+  /**
+   * Creates the menu over a dimmed level.
+   */
+  protected create() {
+    this.gameManager = this.scene.get(SCENES.GAME_MANAGER) as GameManager;
+    this.inputManager = new InputManager(this);
+    this.inputManager.initialize(false);
+
+    const { width, height } = this.cameras.main;
+    this.add.graphics().fillStyle(0x000000, 0.7).fillRect(0, 0, width, height);
+    this.titleText = this.add
+      .text(width / 2, TITLE_TOP, '', { font: '16px monospace', color: '#ffffff' })
+      .setOrigin(0.5, 0.5);
+
+    this.render();
+  }
+
+  /**
+   * Handles the menu actions.
+   */
+  public update() {
+    this.inputManager.update();
+    if (this.capturing) return;
+
+    const { justPressed } = this.inputManager.getActionState();
+    const items = this.getItems();
+    const item = items[this.selectedItem];
+
+    if (justPressed[INPUT_ACTIONS.INVENTORY] && this.page === 'inventory') {
+      this.resume();
+    } else if (justPressed[INPUT_ACTIONS.PAUSE]) {
+      if (this.page === 'main' || this.page === 'inventory') {
+        this.resume();
+      } else {
+        this.openPage('main');
+      }
+    } else if (justPressed[INPUT_ACTIONS.MOVE_UP]) {
+      this.selectedItem = (this.selectedItem + items.length - 1) % items.length;
+      this.render();
+    } else if (justPressed[INPUT_ACTIONS.MOVE_DOWN]) {
+      this.selectedItem = (this.selectedItem + 1) % items.length;
+      this.render();
+    } else if ((justPressed[INPUT_ACTIONS.MOVE_LEFT] || justPressed[INPUT_ACTIONS.MOVE_RIGHT]) && item.adjust) {
+      item.adjust(justPressed[INPUT_ACTIONS.MOVE_LEFT] ? -1 : 1);
+      this.render();
+    } else if ((justPressed[INPUT_ACTIONS.SHOOT] || justPressed[INPUT_ACTIONS.INTERACT]) && item.confirm) {
+      item.confirm();
+    }
+  }
+
+  /**
+   * Closes the menu and resumes the level where it stopped.
+   */
+  public resume() {
+    this.scene.resume(this.levelKey);
+    this.scene.stop(SCENES.PAUSE);
+  }
+
+  /**
+   * Stops the level and shows the title screen.
+   */
+  public quitToTitle() {
+    this.scene.stop(this.levelKey);
+    this.scene.start(SCENES.TITLE);
+  }
+
+  /**
+   * Entries of the displayed page.
+   */
+  private getItems(): MenuItem[] {
+    if (this.page === 'inventory') {
+      return [
+        ...Object.entries(this.gameManager.inventory)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([itemId, quantity]): MenuItem => {
+            const definition = getItemDefinition(itemId);
+            return {
+              label: `${(definition?.name ?? itemId).padEnd(11)}x${quantity}`,
+              confirm: definition?.effects ? () => this.useItem(itemId) : undefined,
+            };
+          }),
+        { label: 'Resume', confirm: () => this.resume() },
+      ];
+    }
+
+    if (this.page === 'controls') {
+      const bindings = this.inputManager.getBindings();
+      return [
+        ...Object.values(INPUT_ACTIONS).map(action => ({
+          label: `${ACTION_LABELS[action].padEnd(11)}${bindings.get(action).map(InputBindings.describe).join(', ') || '-'}`,
+          confirm: () => this.startCapture(action),
+        })),
+        { label: 'Reset to defaults', confirm: () => this.resetBindings() },
+        { label: 'Back', confirm: () => this.openPage('main') },
+      ];
+    }
+
+    return [
+      { label: 'Resume', confirm: () => this.resume() },
+      ...Object.values(VOLUME_CHANNELS).map((channel): MenuItem => ({
+        label: `${VOLUME_LABELS[channel].padEnd(12)}< ${Math.round(this.gameManager.getVolume(channel) * 100)}% >`,
+        adjust: direction => {
+          const volume = this.gameManager.getVolume(channel) + direction * OPTIONS.VOLUME_STEP;
+          this.gameManager.setVolume(channel, Math.round(volume * 100) / 100);
+        },
+      })),
+      { label: 'Controls', confirm: () => this.openPage('controls') },
+      { label: 'Quit to title', confirm: () => this.quitToTitle() },
+    ];
+  }
+
+  /**
+   * Uses an item of the inventory on the player of the paused level.
+   *
+   * @param {string} itemId - Item identifier
+   */
+  private useItem(itemId: string) {
+    const level = this.scene.get(this.levelKey) as AbstractScene;
+    if (level.player?.useItem(itemId)) {
+      this.selectedItem = Math.min(this.selectedItem, this.getItems().length - 1);
+      this.render();
+    }
+  }
+
+  /**
+   * Displays a page from its first entry.
+   */
+  private openPage(page: PauseMenuPage) {
+    this.page = page;
+    this.selectedItem = 0;
+    this.render();
+  }
+
+  /**
+   * Waits for the next key or gamepad button to bind it to an action.
+   *
+   * @param {InputAction} action - Action to rebind
+   */
+  private startCapture(action: InputAction) {
+    this.capturing = action;
+    this.input.keyboard.on('keydown', this.captureKey, this);
+    if (this.input.gamepad) {
+      this.input.gamepad.once('down', this.captureButton, this);
+    }
+    this.render();
+  }
+
+  /**
+   * Binds the captured key, Escape cancels.
+   */
+  private captureKey(event: KeyboardEvent) {
+    // The key confirming the entry may still be held down
+    if (event.repeat) return;
+
+    const keyCodes = Phaser.Input.Keyboard.KeyCodes as unknown as Record<string, number>;
+    const key = Object.keys(keyCodes).find(name => keyCodes[name] === event.keyCode);
+    if (event.key === 'Escape' || !key) {
+      this.endCapture();
+      return;
+    }
+    this.bindCaptured({ device: 'keyboard', key });
+  }
+
+  /**
+   * Binds the captured gamepad button.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  private captureButton(_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button) {
+    this.bindCaptured({ device: 'gamepad', button: button.index });
+  }
+
+  /**
+   * Replaces the bindings of the same kind of the captured action, sticks stay bound.
+   *
+   * @param {InputBinding} binding - The captured control
+   */
+  private bindCaptured(binding: InputBinding) {
+    const kept = this.inputManager.getBindings().get(this.capturing)
+      .filter(other => other.device !== binding.device || 'axis' in other);
+    this.inputManager.rebind(this.capturing, [...kept, binding]);
+    this.endCapture();
+  }
+
+  /**
+   * Stops waiting for a control.
+   */
+  private endCapture() {
+    this.input.keyboard.off('keydown', this.captureKey, this, false);
+    if (this.input.gamepad) {
+      this.input.gamepad.off('down', this.captureButton, this, false);
+    }
+    this.capturing = null;
+    // The captured press must not also confirm an entry
+    this.inputManager.refresh();
+    this.render();
+  }
+
+  /**
+   * Restores the default bindings of every action.
+   */
+  private resetBindings() {
+    this.inputManager.getBindings().reset();
+    this.inputManager.refresh();
+    this.render();
+  }
+
+  /**
+   * Displays the entries of the page.
+   */
+  private render() {
+    this.itemTexts.forEach(text => text.destroy());
+
+    this.titleText.setText(PAGE_TITLES[this.page]);
+    if (this.capturing) {
+      this.titleText.setText(`Press a key or a button for ${ACTION_LABELS[this.capturing]}`);
+      this.titleText.setFontSize(8);
+    } else {
+      this.titleText.setFontSize(16);
+    }
+
+    this.itemTexts = this.getItems().map((item, index) => {
+      const selected = index === this.selectedItem;
+      return this.add.text(
+        ITEMS_LEFT,
+        ITEMS_TOP + index * ITEM_SPACING,
+        `${selected ? '>' : ' '} ${item.label}`,
+        {
+          font: '8px monospace',
+          color: selected ? '#ffd866' : '#aaaaaa',
+        },
+      );
+    });
+  }
+}
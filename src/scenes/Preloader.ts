@@ -1,6 +1,6 @@
 /**
  * @fileoverview Preloader scene that loads all game assets and creates animations.
- * This scene is responsible for loading images, spritesheets, and tilemaps before the game starts.
+ * This scene is responsible for loading images, spritesheets, tilemaps and audio before the game starts.
  */
 
 import { MAPS } from '../constants/maps';
@@ -8,10 +8,13 @@ import { ASSETS } from '../constants/assets';
 import { SCENES } from '../constants/scenes';
 import { ENTITIES } from '../constants/entities';
 import { ENTITY_DIMENSIONS } from '../constants/entity-animations';
+import { HUMANOID_SPRITESHEET } from '../constants/humanoid-spritesheets';
+import { Orientation } from '../geometry/orientation';
+import { getEntityDefinitions } from '../utils/entity-definitions';
 
 /**
  * Preloader scene that loads all game assets and creates animations.
- * This scene is responsible for loading images, spritesheets, and tilemaps before the game starts.
+ * This scene is responsible for loading images, spritesheets, tilemaps and audio before the game starts.
  * 
  * @class Preloader
  * @extends {Phaser.Scene}
@@ -37,7 +40,7 @@ export class Preloader extends Phaser.Scene {
    */
   protected create() {
     this.createAnimations();
-    this.scene.launch(SCENES.FIRST_LEVEL);
+    this.scene.launch(SCENES.TITLE);
     this.scene.launch(SCENES.GAME_MANAGER);
   }
 
@@ -93,6 +96,10 @@ export class Preloader extends Phaser.Scene {
     // Load maps
     this.loadMaps();
     
+    // Load data files
+    this.loadEntityDefinitions();
+    this.load.json(ASSETS.DATA.DIALOGUES, 'assets/data/dialogues.json');
+    
     // Load images
     this.loadImages();
     
@@ -102,11 +109,15 @@ export class Preloader extends Phaser.Scene {
     // Load enemy assets
     this.loadEnemyAssets();
     
-    // Load Goku NPC assets
+    // Load NPC assets
     this.loadGokuNpcAssets();
+    this.loadHumanoidNpcAssets();
     
     // Load misc assets
     this.loadMiscAssets();
+
+    // Load music and sound effects
+    this.loadAudio();
   }
 
   /**
@@ -117,6 +128,31 @@ export class Preloader extends Phaser.Scene {
     this.load.tilemapTiledJSON(MAPS.secondLevel.key, `assets/${MAPS.secondLevel.file}`);
   }
 
+  /**
+   * Loads the entity definitions and queues the spritesheets they declare
+   */
+  private loadEntityDefinitions() {
+    this.load.once(`filecomplete-json-${ASSETS.DATA.ENTITY_DEFINITIONS}`, () => {
+      this.getEntityDefinitions().forEach(definition => {
+        (definition.spritesheets || []).forEach(sheet => {
+          this.load.spritesheet(sheet.key, sheet.path, {
+            frameWidth: sheet.frameWidth ?? definition.dimensions.width,
+            frameHeight: sheet.frameHeight ?? definition.dimensions.height,
+          });
+        });
+      });
+    });
+    this.load.json(ASSETS.DATA.ENTITY_DEFINITIONS, 'assets/data/entities.json');
+  }
+
+  /**
+   * Returns the valid entity definitions from the JSON cache
+   */
+  private getEntityDefinitions() {
+    const raw = this.cache.json.get(ASSETS.DATA.ENTITY_DEFINITIONS);
+    return Array.from(getEntityDefinitions(raw).values());
+  }
+
   /**
    * Loads all static image assets
    */
@@ -126,6 +162,7 @@ export class Preloader extends Phaser.Scene {
     this.load.image(ASSETS.IMAGES.TREANT_ATTACK, 'assets/environment/sliced-objects/trunk.png');
     this.load.image(ASSETS.IMAGES.HEART, 'assets/heart.png');
     this.load.image(ASSETS.IMAGES.HEART_EMPTY, 'assets/heart-empty.png');
+    this.load.image(ASSETS.IMAGES.HEART_HALF, 'assets/heart-half.png');
     this.load.image(ASSETS.IMAGES.TOMB, 'assets/tomb.png');
   }
 
@@ -158,6 +195,28 @@ export class Preloader extends Phaser.Scene {
       frameWidth: 16,
       frameHeight: 16,
     });
+    
+    // Item pickups
+    this.load.spritesheet(ASSETS.SPRITESHEETS.COIN, 'assets/spritesheets/misc/coin.png', {
+      frameWidth: 5,
+      frameHeight: 7,
+    });
+    this.load.spritesheet(ASSETS.SPRITESHEETS.GEM, 'assets/spritesheets/misc/gem.png', {
+      frameWidth: 7,
+      frameHeight: 7,
+    });
+  }
+
+  /**
+   * Loads the music tracks and sound effects
+   */
+  private loadAudio() {
+    this.load.audio(ASSETS.AUDIO.MUSIC_VILLAGE, 'assets/audio/music/village.wav');
+    this.load.audio(ASSETS.AUDIO.MUSIC_FOREST, 'assets/audio/music/forest.wav');
+    this.load.audio(ASSETS.AUDIO.SFX_ATTACK, 'assets/audio/sfx/attack.wav');
+    this.load.audio(ASSETS.AUDIO.SFX_HIT, 'assets/audio/sfx/hit.wav');
+    this.load.audio(ASSETS.AUDIO.SFX_DEATH, 'assets/audio/sfx/death.wav');
+    this.load.audio(ASSETS.AUDIO.SFX_PICKUP, 'assets/audio/sfx/pickup.wav');
   }
 
   /**
@@ -230,6 +289,26 @@ export class Preloader extends Phaser.Scene {
     });
   }
 
+  /**
+   * Loads the wizard and female villager NPC assets
+   */
+  private loadHumanoidNpcAssets() {
+    this.loadHumanoidSpritesheet(ASSETS.IMAGES.WIZARD_IDLE, 'wizard', 'idle');
+    this.loadHumanoidSpritesheet(ASSETS.IMAGES.WIZARD_WALK, 'wizard', 'walk');
+    this.loadHumanoidSpritesheet(ASSETS.IMAGES.FEMALE_VILLAGER_IDLE, 'female_villager', 'idle');
+    this.loadHumanoidSpritesheet(ASSETS.IMAGES.FEMALE_VILLAGER_WALK, 'female_villager', 'walk');
+  }
+
+  /**
+   * Helper method to load a sheet from assets/humanoid-spritesheets
+   */
+  private loadHumanoidSpritesheet(key: string, character: string, sheet: string) {
+    this.load.spritesheet(key, `assets/humanoid-spritesheets/${character}/standard/${sheet}.png`, {
+      frameWidth: HUMANOID_SPRITESHEET.FRAME_SIZE,
+      frameHeight: HUMANOID_SPRITESHEET.FRAME_SIZE,
+    });
+  }
+
   /**
    * Loads miscellaneous assets
    */
@@ -247,7 +326,9 @@ export class Preloader extends Phaser.Scene {
     this.createPlayerAnimations();
     this.createEnemyAnimations();
     this.createGokuNpcAnimations();
+    this.createHumanoidNpcAnimations();
     this.createMiscAnimations();
+    this.createEntityDefinitionAnimations();
   }
 
   /**
@@ -297,18 +378,21 @@ export class Preloader extends Phaser.Scene {
    * Creates all Goku NPC-related animations
    */
   private createGokuNpcAnimations() {
-    // Goku idle animation
-    this.createAnimation(ASSETS.ANIMATIONS.GOKU_IDLE, ASSETS.IMAGES.GOKU_IDLE, 0, 3, 5);
+    // Goku idle animations
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.GOKU_IDLE_UP, ASSETS.IMAGES.GOKU_IDLE, Orientation.Up, HUMANOID_SPRITESHEET.COLUMNS.IDLE, 2);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.GOKU_IDLE_DOWN, ASSETS.IMAGES.GOKU_IDLE, Orientation.Down, HUMANOID_SPRITESHEET.COLUMNS.IDLE, 2);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.GOKU_IDLE_LEFT, ASSETS.IMAGES.GOKU_IDLE, Orientation.Left, HUMANOID_SPRITESHEET.COLUMNS.IDLE, 2);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.GOKU_IDLE_RIGHT, ASSETS.IMAGES.GOKU_IDLE, Orientation.Right, HUMANOID_SPRITESHEET.COLUMNS.IDLE, 2);
     
     // Goku walk animations
-    this.createAnimation(ASSETS.ANIMATIONS.GOKU_WALK_DOWN, ASSETS.IMAGES.GOKU_WALK, 0, 8, 10);
-    this.createAnimation(ASSETS.ANIMATIONS.GOKU_WALK_UP, ASSETS.IMAGES.GOKU_WALK, 9, 17, 10);
-    this.createAnimation(ASSETS.ANIMATIONS.GOKU_WALK_RIGHT, ASSETS.IMAGES.GOKU_WALK, 18, 26, 10);
-    this.createAnimation(ASSETS.ANIMATIONS.GOKU_WALK_LEFT, ASSETS.IMAGES.GOKU_WALK, 27, 35, 10);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.GOKU_WALK_DOWN, ASSETS.IMAGES.GOKU_WALK, Orientation.Down, HUMANOID_SPRITESHEET.COLUMNS.WALK, 10);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.GOKU_WALK_UP, ASSETS.IMAGES.GOKU_WALK, Orientation.Up, HUMANOID_SPRITESHEET.COLUMNS.WALK, 10);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.GOKU_WALK_RIGHT, ASSETS.IMAGES.GOKU_WALK, Orientation.Right, HUMANOID_SPRITESHEET.COLUMNS.WALK, 10);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.GOKU_WALK_LEFT, ASSETS.IMAGES.GOKU_WALK, Orientation.Left, HUMANOID_SPRITESHEET.COLUMNS.WALK, 10);
     
     // Goku run animations
-    this.createAnimation(ASSETS.ANIMATIONS.GOKU_RUN_RIGHT, ASSETS.IMAGES.GOKU_RUN, 0, 7, 12);
-    this.createAnimation(ASSETS.ANIMATIONS.GOKU_RUN_LEFT, ASSETS.IMAGES.GOKU_RUN, 8, 15, 12);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.GOKU_RUN_RIGHT, ASSETS.IMAGES.GOKU_RUN, Orientation.Right, HUMANOID_SPRITESHEET.COLUMNS.RUN, 12);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.GOKU_RUN_LEFT, ASSETS.IMAGES.GOKU_RUN, Orientation.Left, HUMANOID_SPRITESHEET.COLUMNS.RUN, 12);
     
     // Goku sit animation
     this.createAnimation(ASSETS.ANIMATIONS.GOKU_SIT, ASSETS.IMAGES.GOKU_SIT, 0, 3, 5);
@@ -320,6 +404,33 @@ export class Preloader extends Phaser.Scene {
     this.createAnimation(ASSETS.ANIMATIONS.GOKU_COMBAT_IDLE, ASSETS.IMAGES.GOKU_COMBAT_IDLE, 0, 5, 7);
   }
 
+  /**
+   * Creates the wizard and female villager NPC animations
+   */
+  private createHumanoidNpcAnimations() {
+    const { IDLE, WALK } = HUMANOID_SPRITESHEET.COLUMNS;
+    
+    // Wizard animations
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.WIZARD_IDLE_UP, ASSETS.IMAGES.WIZARD_IDLE, Orientation.Up, IDLE, 2);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.WIZARD_IDLE_DOWN, ASSETS.IMAGES.WIZARD_IDLE, Orientation.Down, IDLE, 2);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.WIZARD_IDLE_LEFT, ASSETS.IMAGES.WIZARD_IDLE, Orientation.Left, IDLE, 2);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.WIZARD_IDLE_RIGHT, ASSETS.IMAGES.WIZARD_IDLE, Orientation.Right, IDLE, 2);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.WIZARD_WALK_UP, ASSETS.IMAGES.WIZARD_WALK, Orientation.Up, WALK, 10);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.WIZARD_WALK_DOWN, ASSETS.IMAGES.WIZARD_WALK, Orientation.Down, WALK, 10);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.WIZARD_WALK_LEFT, ASSETS.IMAGES.WIZARD_WALK, Orientation.Left, WALK, 10);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.WIZARD_WALK_RIGHT, ASSETS.IMAGES.WIZARD_WALK, Orientation.Right, WALK, 10);
+    
+    // Female villager animations
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.FEMALE_VILLAGER_IDLE_UP, ASSETS.IMAGES.FEMALE_VILLAGER_IDLE, Orientation.Up, IDLE, 2);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.FEMALE_VILLAGER_IDLE_DOWN, ASSETS.IMAGES.FEMALE_VILLAGER_IDLE, Orientation.Down, IDLE, 2);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.FEMALE_VILLAGER_IDLE_LEFT, ASSETS.IMAGES.FEMALE_VILLAGER_IDLE, Orientation.Left, IDLE, 2);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.FEMALE_VILLAGER_IDLE_RIGHT, ASSETS.IMAGES.FEMALE_VILLAGER_IDLE, Orientation.Right, IDLE, 2);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.FEMALE_VILLAGER_WALK_UP, ASSETS.IMAGES.FEMALE_VILLAGER_WALK, Orientation.Up, WALK, 10);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.FEMALE_VILLAGER_WALK_DOWN, ASSETS.IMAGES.FEMALE_VILLAGER_WALK, Orientation.Down, WALK, 10);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.FEMALE_VILLAGER_WALK_LEFT, ASSETS.IMAGES.FEMALE_VILLAGER_WALK, Orientation.Left, WALK, 10);
+    this.createHumanoidAnimation(ASSETS.ANIMATIONS.FEMALE_VILLAGER_WALK_RIGHT, ASSETS.IMAGES.FEMALE_VILLAGER_WALK, Orientation.Right, WALK, 10);
+  }
+
   /**
    * Creates miscellaneous animations
    */
@@ -332,6 +443,53 @@ export class Preloader extends Phaser.Scene {
       repeat: 0, // Don't repeat the animation
       hideOnComplete: true // Hide the sprite when animation completes
     });
+    
+    // Item pickup animations
+    this.anims.create({
+      key: ASSETS.ANIMATIONS.COIN_SPIN,
+      frames: this.anims.generateFrameNumbers(ASSETS.SPRITESHEETS.COIN, { start: 0, end: 3 }),
+      frameRate: 8,
+      repeat: -1,
+    });
+    this.anims.create({
+      key: ASSETS.ANIMATIONS.GEM_SHINE,
+      frames: this.anims.generateFrameNumbers(ASSETS.SPRITESHEETS.GEM, { start: 0, end: 3 }),
+      frameRate: 6,
+      repeat: -1,
+    });
+  }
+
+  /**
+   * Creates the animations declared by entity definitions
+   */
+  private createEntityDefinitionAnimations() {
+    this.getEntityDefinitions().forEach(definition => {
+      (definition.animationFrames || []).forEach(anim => {
+        if (this.anims.get(anim.key)) {
+          return;
+        }
+        this.anims.create({
+          key: anim.key,
+          frames: this.anims.generateFrameNumbers(anim.spritesheet, { start: anim.start, end: anim.end }),
+          frameRate: anim.frameRate,
+          repeat: anim.repeat ?? -1,
+        });
+      });
+    });
+  }
+
+  /**
+   * Helper method to create an animation from one direction row of a humanoid sheet
+   */
+  private createHumanoidAnimation(
+    key: string,
+    spriteKey: string,
+    orientation: Orientation,
+    columns: number,
+    frameRate: number,
+  ) {
+    const startFrame = HUMANOID_SPRITESHEET.ROWS[orientation] * columns;
+    this.createAnimation(key, spriteKey, startFrame, startFrame + columns - 1, frameRate);
   }
 
   /**
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Title screen scene starting a new game.
+ * The HUD is hidden while it is displayed.
+ */
+
+import { SCENES } from '../constants/scenes';
+import { INPUT_ACTIONS } from '../constants/input';
+import { IInputManager } from '../types/manager-interfaces';
+import { InputManager } from '../managers/InputManager';
+import { InputBindings } from '../utils/InputBindings';
+
+/** Actions starting the game */
+const START_ACTIONS = [INPUT_ACTIONS.SHOOT, INPUT_ACTIONS.INTERACT, INPUT_ACTIONS.PAUSE];
+
+/**
+ * Title screen scene starting a new game.
+ * The HUD is hidden while it is displayed.
+ *
+ * @class Title
+ * @extends {Phaser.Scene}
+ */
+export class Title extends Phaser.Scene {
+  /** Actions of the screen, read from the keyboard and the gamepads */
+  private inputManager: IInputManager;
+
+  /**
+   * Creates an instance of Title.
+   * Initializes the scene with the appropriate scene key.
+   */
+  constructor() {
+    super(SCENES.TITLE);
+  }
+
+  /**
+   * Creates the title and the prompt.
+   */
+  protected create() {
+    // The HUD sleeps itself when it starts after the title screen
+    if (this.scene.isActive(SCENES.HUD)) {
+      this.scene.sleep(SCENES.HUD);
+    }
+    this.inputManager = new InputManager(this);
+    this.inputManager.initialize(false);
+
+    const { width, height } = this.cameras.main;
+    this.add
+      .text(width / 2, height / 3, 'Simple RPG', { font: '24px monospace', color: '#ffd866' })
+      .setOrigin(0.5, 0.5);
+
+    const startKey = this.inputManager.getBindings().get(INPUT_ACTIONS.SHOOT)[0];
+    this.add
+      .text(width / 2, (height * 2) / 3, `Press ${startKey ? InputBindings.describe(startKey) : 'START'} to play`, {
+        font: '8px monospace',
+        color: '#ffffff',
+      })
+      .setOrigin(0.5, 0.5);
+  }
+
+  /**
+   * Starts the game when a start action is pressed.
+   */
+  public update() {
+    this.inputManager.update();
+    const { justPressed } = this.inputManager.getActionState();
+    if (START_ACTIONS.some(action => justPressed[action])) {
+      this.startGame();
+    }
+  }
+
+  /**
+   * Forgets the previous game and starts the first level.
+   */
+  public startGame() {
+    this.registry.reset();
+    this.scene.wake(SCENES.HUD);
+    this.scene.start(SCENES.FIRST_LEVEL);
+  }
+}
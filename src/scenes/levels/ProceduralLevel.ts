@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Procedural level scene of the game.
+ * Extends the AbstractScene class with a map generated from a seed.
+ */
+
+import { AbstractScene } from '../AbstractScene';
+import { SCENES } from '../../constants/scenes';
+import { MAPS } from '../../constants/maps';
+import { PROCEDURAL } from '../../constants/procedural';
+import { InterSceneData } from '../../types/scene-types';
+import { GeneratedLevel } from '../../types/procedural-types';
+import { ProceduralMapGenerator } from '../../utils/ProceduralMapGenerator';
+import { getFlag, setFlag } from '../../utils/registry-flags';
+import { clearMapState } from '../../utils/world-state';
+
+/**
+ * Level made of rooms and corridors generated from a seed.
+ * The generated map is added to the tilemap cache before the managers are
+ * initialized, so the level uses the same managers as the hand-made ones.
+ *
+ * The seed is passed in the scene data or kept in a story flag, which makes
+ * a saved level come back with the same layout.
+ *
+ * @class ProceduralLevel
+ * @extends {AbstractScene}
+ */
+export class ProceduralLevel extends AbstractScene {
+  /** Generator of the level layouts */
+  private generator = new ProceduralMapGenerator({ exitScene: SCENES.FIRST_LEVEL });
+  /** Level currently played */
+  private level: GeneratedLevel;
+
+  /**
+   * Creates an instance of ProceduralLevel.
+   * Initializes the scene with the key of the generated map.
+   */
+  constructor() {
+    super(SCENES.PROCEDURAL_LEVEL, MAPS.proceduralLevel.key);
+  }
+
+  /**
+   * Generate the level then initialize the managers
+   * @param data - Data from the previous scene, `seed` selects the layout
+   */
+  protected init(data: InterSceneData): void {
+    this.level = this.generator.generate(this.resolveSeed(data));
+    this.addMapToCache();
+
+    super.init(data);
+
+    // A loaded game or a respawn restores the position of the player
+    if (!data?.save && !data?.respawn) {
+      this.player.setPosition(this.level.start.x, this.level.start.y);
+    }
+  }
+
+  /**
+   * Get the level currently played
+   */
+  public getLevel(): GeneratedLevel {
+    return this.level;
+  }
+
+  /**
+   * Seed of the level to generate
+   * A new seed forgets the entities defeated and the items collected in the previous layout
+   */
+  private resolveSeed(data: InterSceneData): number {
+    const stored = getFlag(this.registry, PROCEDURAL.SEED_FLAG);
+    if (typeof stored === 'number' && (data?.seed === undefined || data.seed === stored)) {
+      return stored;
+    }
+
+    const seed = data?.seed ?? Math.floor(Math.random() * 0x100000000);
+    clearMapState(this.registry, this.mapKey);
+    setFlag(this.registry, PROCEDURAL.SEED_FLAG, seed);
+    return seed;
+  }
+
+  /**
+   * Store the generated map under the map key read by the MapManager
+   * The tilesets come from the first level, their tile properties mark the colliding tiles
+   */
+  private addMapToCache(): void {
+    const source = this.cache.tilemap.get(MAPS.firstLevel.key);
+    const data = this.generator.toTiledMap(this.level, source.data.tilesets);
+
+    if (this.cache.tilemap.exists(this.mapKey)) {
+      this.cache.tilemap.remove(this.mapKey);
+    }
+    this.cache.tilemap.add(this.mapKey, { format: Phaser.Tilemaps.Formats.TILED_JSON, data });
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * @fileoverview Types of the camera settings and effects
+ */
+
+/**
+ * How the camera follows its target in a level
+ */
+export interface CameraSettings {
+  /** How quickly the camera catches up with its target, between 0 and 1 */
+  lerp: number;
+  /** Size of the area the target moves in without moving the camera */
+  deadZoneWidth: number;
+  deadZoneHeight: number;
+  /** Distance the camera looks ahead of the target at full speed */
+  lookAhead: number;
+  zoom: number;
+}
+
+/**
+ * How the camera shows a point before coming back to its target
+ */
+export interface FocusOptions {
+  /** Time spent on the point in milliseconds */
+  duration: number;
+  /** Zoom while showing the point, the zoom of the level when omitted */
+  zoom?: number;
+  /** Called when the camera reaches the point */
+  onArrive?: () => void;
+  /** Called when the camera follows the target again */
+  onComplete?: () => void;
+}
@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Types of the damage model
+ */
+
+import { DamageType } from '../constants/combat';
+
+/**
+ * A hit dealt to a character
+ */
+export interface DamageEvent {
+  /** Damage before resistances, critical hits are already multiplied */
+  amount: number;
+  type: DamageType;
+  /** Game object dealing the damage, if any */
+  source?: Phaser.GameObjects.GameObject;
+  /** Velocity given to the character hit */
+  knockback?: Phaser.Math.Vector2;
+  /** Whether the hit is a critical hit */
+  crit: boolean;
+}
+
+/**
+ * Damage reduction keyed by damage type
+ * 0.5 halves the damage, 1 makes immune and negative values are weaknesses
+ */
+export type Resistances = Partial<Record<DamageType, number>>;
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Types for the dialogue trees loaded from JSON
+ */
+
+import { FlagCondition, FlagValue } from '../utils/registry-flags';
+
+/**
+ * Side effect run when a node is entered or a choice is picked
+ * Built-in types are `setFlag`, `incrementFlag` and `clearFlag`,
+ * other types are forwarded to the action handler of the DialogueRunner
+ */
+export interface DialogueAction {
+  type: string;
+  flag?: string;
+  value?: FlagValue;
+  amount?: number;
+  [param: string]: unknown;
+}
+
+/**
+ * Conditional link to a node, the first branch whose conditions hold is followed
+ */
+export interface DialogueBranch {
+  node: string;
+  conditions?: FlagCondition[];
+}
+
+/**
+ * Where the conversation goes next: a node id or a list of conditional branches
+ */
+export type DialogueTarget = string | DialogueBranch[];
+
+/**
+ * Answer the player can pick on a node
+ */
+export interface DialogueChoice {
+  /** Text shown in the dialogue box */
+  text: string;
+  /** Node reached when the choice is picked, the conversation ends when omitted */
+  next?: DialogueTarget;
+  /** The choice is only offered when all conditions hold */
+  conditions?: FlagCondition[];
+  /** Actions run when the choice is picked */
+  actions?: DialogueAction[];
+}
+
+/**
+ * Single line of a conversation
+ */
+export interface DialogueNode {
+  /** Name shown above the text */
+  speaker?: string;
+  /** Text of the line */
+  text: string;
+  /** Answers offered to the player, `next` is ignored when present */
+  choices?: DialogueChoice[];
+  /** Node reached when the player advances, the conversation ends when omitted */
+  next?: DialogueTarget;
+  /** Actions run when the node is entered */
+  actions?: DialogueAction[];
+}
+
+/**
+ * Complete conversation referenced by an entity dialogKey
+ */
+export interface DialogueTree {
+  /** First node of the conversation */
+  start: DialogueTarget;
+  /** Nodes keyed by id */
+  nodes: Record<string, DialogueNode>;
+}
+
+/**
+ * Root of the dialogue JSON file
+ */
+export interface DialogueDefinitionFile {
+  version: number;
+  dialogues: Record<string, DialogueTree>;
+}
@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Types for the state machine AI of non-player entities
+ */
+
+import { AICombatMode } from '../../constants/ai';
+import { StateChange } from '../../utils/StateMachine';
+
+/**
+ * Settings of a state machine AI
+ */
+export interface AIConfig {
+  /** How the entity reacts to the player */
+  combatMode: AICombatMode;
+  /** Distance under which the player is noticed */
+  sightRange: number;
+  /** Distance under which the entity attacks */
+  attackRange: number;
+  /** Maximum distance from home before the entity gives up a chase */
+  leashDistance: number;
+  /** Time spent noticing the player before the chase in milliseconds */
+  alertDuration: number;
+  /** Health ratio under which the entity runs away, 0 to never flee */
+  fleeHealthRatio: number;
+  /** Distance from the player at which a fleeing entity feels safe */
+  fleeDistance: number;
+  /** Walking speed */
+  speed: number;
+}
+
+/**
+ * Snapshot of an AI for debugging
+ */
+export interface AIDebugInfo {
+  state: string | null;
+  previousState: string | null;
+  timeInState: number;
+  combatMode: AICombatMode;
+  /** Whether the entity was hit and fights back */
+  provoked: boolean;
+  history: StateChange[];
+}
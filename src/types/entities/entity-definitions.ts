@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Types for data-driven entity definitions loaded from JSON
+ */
+
+import { CharacterAnimation } from '../../game-objects/Character';
+import { CustomTilemapObject } from '../scene-types';
+import { AbstractScene } from '../../scenes/AbstractScene';
+import { LootTable } from '../item-types';
+import { Resistances } from '../combat-types';
+import { DamageType } from '../../constants/combat';
+
+/**
+ * Free-form parameters passed to a behavior factory
+ */
+export type BehaviorParams = Record<string, unknown>;
+
+/**
+ * Named behavior configuration as it appears in an entity definition
+ */
+export interface BehaviorConfig {
+  /** Name of the behavior in the BehaviorRegistry (e.g. 'chase', 'melee') */
+  type: string;
+  /** Optional parameters forwarded to the behavior factory */
+  params?: BehaviorParams;
+}
+
+/**
+ * Spritesheet declared by an entity definition so that new entities
+ * can ship their own assets without changes to the Preloader
+ */
+export interface SpritesheetDefinition {
+  key: string;
+  path: string;
+  frameWidth?: number;
+  frameHeight?: number;
+}
+
+/**
+ * Animation declared by an entity definition
+ */
+export interface AnimationDefinition {
+  key: string;
+  spritesheet: string;
+  start: number;
+  end: number;
+  frameRate: number;
+  repeat?: number;
+}
+
+/**
+ * Boss settings of an entity definition
+ */
+export interface BossDefinition {
+  /** Name shown above the health bar */
+  name: string;
+}
+
+/**
+ * Complete description of a non-player entity
+ */
+export interface EntityDefinition {
+  /** Entity type identifier, matches the object name in Tiled */
+  type: string;
+  /** Whether the entity fights the player or not */
+  faction: 'hostile' | 'friendly';
+  /** Initial texture key */
+  texture: string;
+  /** Health points */
+  hp: number;
+  /** Damage dealt by each attack */
+  attackDamage?: number;
+  /** Type of the damage dealt, defaults to physical */
+  damageType?: DamageType;
+  /** Chance of a critical hit between 0 and 1 */
+  critChance?: number;
+  /** Speed given to the characters hit */
+  knockback?: number;
+  /** Damage reductions keyed by damage type, 1 makes the entity immune */
+  resistances?: Resistances;
+  /** Invulnerability after a hit (in ms) */
+  invulnerability?: number;
+  /** Sprite frame dimensions */
+  dimensions: { width: number; height: number };
+  /** Optional physics body size, defaults to the sprite size */
+  body?: { width: number; height: number };
+  /** Render depth */
+  depth?: number;
+  /** Whether the physics body can be pushed around */
+  immovable?: boolean;
+  /** Dialog key for the conversation system */
+  dialogKey?: string;
+  /** Items rolled when the entity is defeated */
+  loot?: LootTable;
+  /** Makes the entity a boss whose health bar the HUD shows while it fights the player */
+  boss?: BossDefinition;
+  /**
+   * Animation set keyed by CharacterState
+   * Falls back to ENTITY_ANIMATIONS when omitted
+   */
+  animations?: Record<string, CharacterAnimation>;
+  /** Spritesheets to load for this entity */
+  spritesheets?: SpritesheetDefinition[];
+  /** Phaser animations to create for this entity */
+  animationFrames?: AnimationDefinition[];
+  /** Named behavior configurations for each behavior slot */
+  behaviors: {
+    movement: BehaviorConfig;
+    combat: BehaviorConfig;
+    interaction: BehaviorConfig;
+    /** Optional AI driving the movement and attacks */
+    ai?: BehaviorConfig;
+  };
+}
+
+/**
+ * Root of the entity definition JSON file
+ */
+export interface EntityDefinitionFile {
+  version: number;
+  entities: EntityDefinition[];
+}
+
+/**
+ * Context handed to behavior factories when an entity is built
+ */
+export interface BehaviorContext {
+  /** The scene the entity is created in */
+  scene: AbstractScene;
+  /** The entity definition being instantiated */
+  definition: EntityDefinition;
+  /** The Tiled object the entity was spawned from, if any */
+  spawnObject?: CustomTilemapObject;
+}
@@ -3,6 +3,9 @@
  */
 
 import { EntityType } from '../../constants/entities';
+import { Character } from '../../game-objects/Character';
+import { IAIBehavior } from '../../behaviors/interfaces';
+import { DamageEvent } from '../combat-types';
 
 /**
  * Interface for non-player entities
@@ -20,12 +23,18 @@ export interface INonPlayerEntity {
   /** Activates or deactivates the entity */
   setActive(active: boolean): void;
   
+  /** Id of the Tiled object the entity was spawned from */
+  readonly spawnId?: number;
+  
   /** Dialog key for conversation system (for friendly entities) */
   readonly dialogKey?: string;
   
   /** Handles player interaction with the entity (for friendly entities) */
   interact?(): void;
   
+  /** Checks if the player is able to interact with the entity (for friendly entities) */
+  canInteract?(player: Character): boolean;
+  
   /** Current health points (for hostile entities) */
   readonly hp?: number;
   
@@ -35,8 +44,11 @@ export interface INonPlayerEntity {
   /** Enemy performs attack (for hostile entities) */
   attack?(): void;
   
-  /** Enemy loses health points (for hostile entities) */
-  loseHp?(damage: number): void;
+  /** AI deciding what the entity does, if any */
+  getAIBehavior?(): IAIBehavior | null;
+  
+  /** Entity receives a hit, returns whether it was hurt */
+  takeDamage?(event: DamageEvent): boolean;
 
   /** X position on the game world */
   readonly x: number;
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Payloads of the events of the game-wide event bus
+ */
+
+import { EVENTS } from '../constants/events';
+import { VolumeChannel } from '../constants/audio';
+import { ZoneEvent } from '../constants/zones';
+import { Character } from '../game-objects/Character';
+import { NonPlayerEntity } from '../game-objects/entities/NonPlayerEntity';
+import { Pickup } from '../game-objects/items/Pickup';
+import { INonPlayerEntity } from './entities/entity-interfaces';
+import { EntityDefinition } from './entities/entity-definitions';
+import { DamageEvent } from './combat-types';
+import { DialogueAction } from './dialogue-definitions';
+import { InventoryContents } from './item-types';
+import { CustomTilemapObject } from './scene-types';
+import { TransitionEvent } from './transition-types';
+import { AIState } from '../constants/ai';
+
+/**
+ * Payload of each event of the bus, keyed by event name
+ */
+export interface GameEventMap {
+  /** The player health or maximum health changed */
+  [EVENTS.UPDATE_HP]: { hp: number; maxHp: number };
+  /** The player stamina changed */
+  [EVENTS.UPDATE_STAMINA]: { stamina: number; maxStamina: number };
+  /** The player inventory changed */
+  [EVENTS.UPDATE_INVENTORY]: { contents: InventoryContents };
+  /** A volume channel changed */
+  [EVENTS.UPDATE_VOLUME]: { channel: VolumeChannel; volume: number };
+  /** A character was hurt, also emitted on the character */
+  [EVENTS.CHARACTER_DAMAGED]: { character: Character; event: DamageEvent; damage: number };
+  /** A character ran out of health, also emitted on the character */
+  [EVENTS.CHARACTER_DEATH]: { character: Character };
+  /** A character attacked, also emitted on the character */
+  [EVENTS.CHARACTER_ATTACK]: { character: Character };
+  /** An entity was spawned from the map or by a wave */
+  [EVENTS.ENTITY_SPAWNED]: { entity: INonPlayerEntity; definition: EntityDefinition };
+  /** The AI of an entity changed state, from null on its first update */
+  [EVENTS.AI_STATE_CHANGED]: { entity: NonPlayerEntity; from: AIState | null; to: AIState };
+  /** A boss started fighting the player */
+  [EVENTS.BOSS_ENGAGED]: { entity: NonPlayerEntity; definition: EntityDefinition };
+  /** An entity spawned from a definition died */
+  [EVENTS.ENTITY_DEFEATED]: { entity: NonPlayerEntity; definition: EntityDefinition };
+  /** The player collected a pickup, before it is destroyed */
+  [EVENTS.ITEM_COLLECTED]: { pickup: Pickup };
+  /** A zone triggered, before its handler runs */
+  [EVENTS.ZONE_TRIGGERED]: { object: CustomTilemapObject; event: ZoneEvent; sceneKey: string };
+  /** A level started, from the level the player comes from if any */
+  [EVENTS.SCENE_CHANGED]: { sceneKey: string; comesFrom?: string };
+  /** The screen starts being covered when going out or uncovered when coming in */
+  [EVENTS.TRANSITION_START]: TransitionEvent;
+  /** The screen is covered when going out or uncovered when coming in */
+  [EVENTS.TRANSITION_END]: TransitionEvent;
+  /** A conversation is asked to open over a level */
+  [EVENTS.START_DIALOGUE]: { dialogKey: string; sceneKey: string };
+  /** A conversation ran a custom action */
+  [EVENTS.DIALOGUE_ACTION]: { action: DialogueAction };
+  /** A conversation closed and its level resumed */
+  [EVENTS.DIALOGUE_ENDED]: { sceneKey: string | null };
+}
+
+/**
+ * Name of an event of the bus
+ */
+export type GameEvent = keyof GameEventMap;
+
+/**
+ * Listener of an event of the bus
+ */
+export type GameEventListener<K extends GameEvent> = (payload: GameEventMap[K]) => void;
+
+/**
+ * Events a character emits on itself and on the bus
+ */
+export type CharacterEvent = typeof EVENTS.CHARACTER_DAMAGED | typeof EVENTS.CHARACTER_DEATH | typeof EVENTS.CHARACTER_ATTACK;
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Types of the input actions and their bindings
+ */
+
+import { InputAction } from '../constants/input';
+
+/**
+ * Keyboard key, named as in Phaser.Input.Keyboard.KeyCodes (e.g. "SPACE", "E")
+ */
+export interface KeyboardBinding {
+  device: 'keyboard';
+  key: string;
+}
+
+/**
+ * Gamepad button, indexed as in the standard gamepad mapping
+ */
+export interface GamepadButtonBinding {
+  device: 'gamepad';
+  button: number;
+}
+
+/**
+ * Half of a gamepad axis, the action is held while the axis leans towards the direction
+ */
+export interface GamepadAxisBinding {
+  device: 'gamepad';
+  axis: number;
+  direction: 1 | -1;
+}
+
+export type InputBinding = KeyboardBinding | GamepadButtonBinding | GamepadAxisBinding;
+
+/**
+ * Bindings of every action, any of them triggers the action
+ */
+export type InputBindings = Record<InputAction, InputBinding[]>;
+
+/**
+ * State of the actions for the current frame
+ */
+export interface ActionState {
+  /** Movement with components in [-1, 1]; sticks give values in between, keys give -1, 0 or 1 */
+  move: { x: number; y: number };
+  /** Actions held */
+  pressed: Record<InputAction, boolean>;
+  /** Actions held this frame but not the previous one */
+  justPressed: Record<InputAction, boolean>;
+}
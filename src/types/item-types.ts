@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Types of the items the player can pick up and carry
+ */
+
+/**
+ * Broad category of an item
+ */
+export type ItemType = 'currency' | 'ammo' | 'consumable' | 'key';
+
+/**
+ * Effect applied to the player when an item is used
+ */
+export interface ItemEffect {
+  type: 'heal';
+  amount: number;
+}
+
+/**
+ * Static description of an item
+ */
+export interface ItemDefinition {
+  /** Item identifier, matches the object name in the Tiled items layer */
+  id: string;
+  /** Display name */
+  name: string;
+  type: ItemType;
+  /** Texture of the pickup */
+  texture: string;
+  /** Animation played by the pickup, if any */
+  animation?: string;
+  /** Scale of the pickup sprite, defaults to 1 */
+  scale?: number;
+  /** Whether several units share an inventory slot */
+  stackable: boolean;
+  /** Maximum quantity of a stack, unlimited when omitted */
+  maxStack?: number;
+  /** Effects applied when the item is used */
+  effects?: ItemEffect[];
+  /** Use the item immediately instead of storing it */
+  useOnPickup?: boolean;
+}
+
+/**
+ * Possible outcome of a loot roll
+ */
+export interface LootEntry {
+  /** Item dropped, nothing is dropped when omitted */
+  item?: string;
+  /** Relative chance of this outcome */
+  weight: number;
+  /** Minimum number of units, defaults to 1 */
+  min?: number;
+  /** Maximum number of units, defaults to min */
+  max?: number;
+}
+
+/**
+ * Weighted loot table rolled when an entity is defeated
+ */
+export interface LootTable {
+  /** Number of independent rolls, defaults to 1 */
+  rolls?: number;
+  entries: LootEntry[];
+}
+
+/**
+ * Item dropped by a loot roll
+ */
+export interface LootDrop {
+  item: string;
+  quantity: number;
+}
+
+/**
+ * Quantities held keyed by item id
+ */
+export type InventoryContents = Record<string, number>;
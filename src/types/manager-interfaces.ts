@@ -3,10 +3,18 @@
  */
 
 import { Orientation } from '../geometry/orientation';
-import { InterSceneData, MapLayers, KeyState } from './scene-types';
+import { InterSceneData, MapLayers, PlayerSpawn } from './scene-types';
+import { ActionState, InputBinding } from './input-types';
+import { InputAction } from '../constants/input';
+import { InputBindings } from '../utils/InputBindings';
 import { Player } from '../game-objects/Player';
 import { QuadTree } from '../utils/QuadTree';
 import { INonPlayerEntity } from './entities/entity-interfaces';
+import { SaveSlotInfo, SaveSnapshot } from './save-types';
+import { Pickup } from '../game-objects/items/Pickup';
+import { LootTable } from './item-types';
+import { ZoneHandlerRegistry } from '../factories/ZoneHandlerRegistry';
+import { CameraSettings, FocusOptions } from './camera-types';
 
 /**
  * Interface for map creation and management
@@ -40,6 +48,44 @@ export interface IMapManager {
   shutdown(): void;
 }
 
+/**
+ * Interface for the navigation grid used by moving entities
+ */
+export interface INavigationManager {
+  /**
+   * Build the navigation grid from the map layers
+   */
+  initialize(): void;
+
+  /**
+   * Find a path between two world positions
+   * @param from - Start position
+   * @param to - Goal position
+   * @returns The waypoints or null if the goal cannot be reached
+   */
+  findPath(from: Phaser.Math.Vector2, to: Phaser.Math.Vector2): Phaser.Math.Vector2[] | null;
+
+  /**
+   * Check if the tile at a world position can be walked on
+   */
+  isWalkable(x: number, y: number): boolean;
+
+  /**
+   * Change the walkability of a tile, invalidating the cached paths
+   */
+  setTileWalkable(col: number, row: number, walkable: boolean): void;
+
+  /**
+   * Forget the cached paths
+   */
+  invalidate(): void;
+
+  /**
+   * Clean up resources when scene is shutdown
+   */
+  shutdown(): void;
+}
+
 /**
  * Interface for entity management (players, NPCs, monsters)
  */
@@ -48,21 +94,36 @@ export interface IEntityManager {
    * Initialize entity creation
    * @param map - The tilemap containing entity data
    * @param sceneData - Data from previous scene if any
+   * @param spawn - Where the player enters the scene
    */
-  initialize(map: Phaser.Tilemaps.Tilemap, sceneData: InterSceneData): void;
+  initialize(map: Phaser.Tilemaps.Tilemap, sceneData: InterSceneData, spawn?: PlayerSpawn): void;
 
   /**
    * Create the player at the appropriate position
-   * @param position - Starting position or null to use default
    * @param sceneData - Data from the previous scene
+   * @param spawn - Where the player enters the scene
    */
-  createPlayer(sceneData: InterSceneData): Player;
+  createPlayer(sceneData: InterSceneData, spawn?: PlayerSpawn): Player;
 
   /**
    * Create monsters from map data
    */
   createMonsters(): void;
 
+  /**
+   * Create friendly NPCs from map data
+   */
+  createNpcs(): void;
+
+  /**
+   * Create a hostile entity that is not placed in the map, e.g. a monster of a wave
+   * @param type - Entity type of a hostile definition
+   * @param x - Horizontal position
+   * @param y - Vertical position
+   * @returns The entity or null if the type is unknown
+   */
+  spawnEntity(type: string, x: number, y: number): INonPlayerEntity | null;
+
   /**
    * Get the player instance
    */
@@ -73,6 +134,11 @@ export interface IEntityManager {
    */
   getMonsters(): INonPlayerEntity[];
 
+  /**
+   * Get all friendly NPCs in the scene
+   */
+  getNpcs(): INonPlayerEntity[];
+
   /**
    * Update entity states
    */
@@ -101,12 +167,19 @@ export interface ISpatialManager {
    */
   registerEntities(entities: Phaser.GameObjects.GameObject[]): void;
 
+  /**
+   * Track an entity created after the others were registered
+   * @param entity - Entity to track
+   */
+  addEntity(entity: Phaser.GameObjects.GameObject): void;
+
   /**
    * Update the spatial partitioning structure
    * @param cameraBounds - The current camera view bounds
    * @param playerPosition - The current player position
+   * @param region - Camera room of the player, entities outside of it stand still
    */
-  update(cameraBounds: Phaser.Geom.Rectangle, playerPosition: Phaser.Math.Vector2): void;
+  update(cameraBounds: Phaser.Geom.Rectangle, playerPosition: Phaser.Math.Vector2, region?: Phaser.Geom.Rectangle | null): void;
 
   /**
    * Get active entities within range of the player
@@ -141,11 +214,31 @@ export interface IPhysicsManager {
    * @param player - The player object
    * @param layers - Map layers with collision
    * @param monsters - Monster entities
+   * @param npcs - Friendly NPC entities
    */
   setupColliders(
     player: Player,
     layers: MapLayers,
-    monsters: INonPlayerEntity[]
+    monsters: INonPlayerEntity[],
+    npcs?: INonPlayerEntity[]
+  ): void;
+
+  /**
+   * Give a monster created after setupColliders the colliders of the other monsters
+   * @param monster - The spawned monster
+   */
+  addMonster(monster: INonPlayerEntity): void;
+
+  /**
+   * Collect pickups when the player overlaps them
+   * @param player - The player object
+   * @param pickups - Group holding the pickups
+   * @param onPickup - Called with the overlapped pickup
+   */
+  setupPickupOverlap(
+    player: Player,
+    pickups: Phaser.Physics.Arcade.Group,
+    onPickup: (pickup: Pickup) => void
   ): void;
 
   /**
@@ -177,25 +270,56 @@ export interface IPhysicsManager {
 export interface IInputManager {
   /**
    * Initialize input handlers
+   * @param withShortcuts - Whether to listen to the keyboard shortcuts, menus only read the actions
    */
-  initialize(): void;
+  initialize(withShortcuts?: boolean): void;
 
   /**
    * Set up keyboard shortcuts
-   * @param scene - Reference to the current scene for scene switching
+   * @param scene - The scene listening to the keyboard
    */
   setupKeyboardShortcuts(scene: Phaser.Scene): void;
 
   /**
-   * Get the current key state
+   * Get the state of the actions for the current frame
+   */
+  getActionState(): ActionState;
+
+  /**
+   * Get the bindings of the actions
+   */
+  getBindings(): InputBindings;
+
+  /**
+   * Replace the bindings of an action, the change is persisted
+   * @param action - The action to rebind
+   * @param bindings - New keys, buttons or axes of the action
+   */
+  rebind(action: InputAction, bindings: InputBinding[]): void;
+
+  /**
+   * Reload the bindings, which another scene may have changed, and release every key
+   */
+  refresh(): void;
+
+  /**
+   * Ignore the actions until unlocked, the action state stays idle meanwhile
+   * @param locked - Whether the actions are ignored
    */
-  getKeyState(): KeyState;
+  setLocked(locked: boolean): void;
 
   /**
-   * Update the key state based on current input
+   * Update the action state based on current input
    */
   update(): void;
 
+  /**
+   * Register a keyboard shortcut
+   * @param key - Value of KeyboardEvent.key triggering the action
+   * @param action - Action to run
+   */
+  addShortcut(key: string, action: () => void): void;
+
   /**
    * Get cursor key objects
    */
@@ -216,8 +340,16 @@ export interface ICameraManager {
    * @param mapWidth - Width of the map in pixels
    * @param mapHeight - Height of the map in pixels
    * @param target - The object for the camera to follow
-   */
-  initialize(mapWidth: number, mapHeight: number, target: Phaser.GameObjects.GameObject): void;
+   * @param settings - Camera settings of the level, see getCameraSettings
+   * @param rooms - Rooms the camera stays within, see getCameraRooms
+   */
+  initialize(
+    mapWidth: number,
+    mapHeight: number,
+    target: Phaser.GameObjects.GameObject,
+    settings?: CameraSettings,
+    rooms?: Phaser.Geom.Rectangle[]
+  ): void;
 
   /**
    * Update camera position and bounds
@@ -229,6 +361,32 @@ export interface ICameraManager {
    */
   getCameraBounds(): Phaser.Geom.Rectangle;
 
+  /**
+   * Get the camera settings of the level
+   */
+  getSettings(): CameraSettings;
+
+  /**
+   * Get the room of the target
+   * @returns The room or null if the map has no rooms or the target is outside all of them
+   */
+  getRoom(): Phaser.Geom.Rectangle | null;
+
+  /**
+   * Shake the screen
+   * @param intensity - Fraction of the screen size the camera moves by
+   * @param duration - Time the camera shakes in milliseconds
+   */
+  shake(intensity: number, duration?: number): void;
+
+  /**
+   * Pan to a point, stay there then pan back and follow the target again
+   * @param x - Horizontal position to show
+   * @param y - Vertical position to show
+   * @param options - Time spent on the point, zoom and callbacks
+   */
+  focusOn(x: number, y: number, options: FocusOptions): void;
+
   /**
    * Clean up camera resources
    */
@@ -240,22 +398,25 @@ export interface ICameraManager {
  */
 export interface ISceneFlowManager {
   /**
-   * Initialize scene transition zones
-   * @param map - The tilemap containing zone data
-   * @param player - The player object for overlap detection
+   * Initialize with the map of the scene
+   * @param map - The tilemap containing the spawns and the zones leading to other scenes
    */
-  initialize(map: Phaser.Tilemaps.Tilemap, player: Player): void;
+  initialize(map: Phaser.Tilemaps.Tilemap): void;
 
   /**
-   * Set up scene transition zones from map data
+   * Get where the player appears and which way they face
+   * @param sceneData - Data from the previous scene
    */
-  setupTransitionZones(): void;
+  getPlayerSpawn(sceneData: InterSceneData): PlayerSpawn;
 
   /**
-   * Get player's initial position based on where they came from
-   * @param sceneData - Data from the previous scene
+   * Start another scene once the screen is covered, carrying the health and items of the player over
+   * @param sceneKey - Key of the scene to start
+   * @param player - The player leaving the scene
+   * @param spawn - Name of the spawn of the target scene, next to the zone leading back when omitted
+   * @param effect - Transition effect, one of TRANSITION_EFFECTS
    */
-  getPlayerInitialPosition(sceneData: InterSceneData): Phaser.Math.Vector2;
+  changeScene(sceneKey: string, player: Player, spawn?: string, effect?: string): void;
 
   /**
    * Calculate the position shift when transitioning between scenes
@@ -264,7 +425,199 @@ export interface ISceneFlowManager {
   calculateTransitionShift(orientation: Orientation): Phaser.Math.Vector2;
 
   /**
-   * Clean up transition zones and resources
+   * Clean up resources
+   */
+  shutdown(): void;
+}
+
+/**
+ * Interface for the animated transitions between scenes
+ */
+export interface ITransitionManager {
+  /**
+   * Uncover the screen if the scene was started by a transition
+   * @param map - The tilemap of the scene, large ones are held covered for a while
+   * @param focus - Object the iris opens from
+   * @param sceneData - Data from the previous scene
+   */
+  initialize(map: Phaser.Tilemaps.Tilemap, focus: Player, sceneData: InterSceneData): void;
+
+  /**
+   * Whether the screen is being covered or uncovered
+   */
+  isTransitioning(): boolean;
+
+  /**
+   * Cover the screen then start a scene
+   * @param sceneKey - Key of the scene to start
+   * @param data - Data for the next scene, the transition is added to it
+   * @param effect - One of TRANSITION_EFFECTS, the default effect when omitted
+   * @param direction - Direction a wipe sweeps towards
+   * @returns Whether the transition started, false while another one runs
+   */
+  transitionTo(sceneKey: string, data: InterSceneData, effect?: string, direction?: Orientation): boolean;
+
+  /**
+   * Clean up resources
+   */
+  shutdown(): void;
+}
+
+/**
+ * Interface for the music of the levels and the sound effects
+ */
+export interface IAudioManager {
+  /**
+   * Play the music of the level and listen to the events playing sound effects
+   * @param map - The tilemap whose properties set the music
+   * @param listener - Object the sound effects are heard from
+   * @param sceneData - Data from the previous scene, a transition crossfades the music
+   */
+  initialize(map: Phaser.Tilemaps.Tilemap, listener: Player, sceneData: InterSceneData): void;
+
+  /**
+   * Replace the music track
+   * @param key - Key of the track, null for silence
+   * @param duration - Time the crossfade takes in milliseconds, 0 switches at once
+   */
+  playMusic(key: string | null, duration?: number): void;
+
+  /**
+   * Key of the music track playing
+   * @returns The key or null if the level is silent
+   */
+  getMusicKey(): string | null;
+
+  /**
+   * Play a sound effect heard from a position
+   * @param key - Key of the sound effect
+   * @param x - Horizontal position of the sound
+   * @param y - Vertical position of the sound
+   */
+  playSfx(key: string, x: number, y: number): void;
+
+  /**
+   * Clean up resources
+   */
+  shutdown(): void;
+}
+
+/**
+ * Interface for the zones of the map and their triggers
+ */
+export interface IZoneManager {
+  /**
+   * Create the zones of the map
+   * @param map - The tilemap containing the zones layer
+   * @param player - The player entering and leaving the zones
+   * @param mapKey - Key of the map, used to remember the one-shot zones that triggered
+   */
+  initialize(map: Phaser.Tilemaps.Tilemap, player: Player, mapKey: string): void;
+
+  /**
+   * Get the registry of the zone handlers, to register additional zone types
+   */
+  getHandlerRegistry(): ZoneHandlerRegistry;
+
+  /**
+   * Trigger the zones the player entered, left or stays in
+   */
+  update(): void;
+
+  /**
+   * Destroy the zones
+   */
+  shutdown(): void;
+}
+
+/**
+ * Interface for item pickups
+ */
+export interface IItemManager {
+  /**
+   * Spawn the pickups of the map
+   * @param map - The tilemap containing the items layer
+   * @param player - The player collecting the pickups
+   * @param mapKey - Key of the map
+   */
+  initialize(map: Phaser.Tilemaps.Tilemap, player: Player, mapKey: string): void;
+
+  /**
+   * Spawn a pickup
+   * @param itemId - Item identifier
+   * @param x - X position
+   * @param y - Y position
+   * @param quantity - Number of units
+   * @param spawnId - Id of the Tiled object, if any
+   */
+  spawnPickup(itemId: string, x: number, y: number, quantity?: number, spawnId?: number): Pickup | null;
+
+  /**
+   * Roll a loot table and scatter the drops around a position
+   * @param table - The loot table
+   * @param x - X position
+   * @param y - Y position
+   */
+  dropLoot(table: LootTable, x: number, y: number): Pickup[];
+
+  /**
+   * Seed the generator used for loot rolls, making the drops reproducible
+   */
+  setRandomSeed(seed: number): void;
+
+  /**
+   * Get the pickups lying in the scene
+   */
+  getPickups(): Pickup[];
+
+  /**
+   * Remove the pickups when the scene is shutdown
+   */
+  shutdown(): void;
+}
+
+/**
+ * Interface for saving and loading the game
+ */
+export interface ISaveManager {
+  /**
+   * Initialize the save manager
+   * @param mapKey - Key of the map of the scene
+   */
+  initialize(mapKey: string): void;
+
+  /**
+   * Save the game in a slot
+   * @param slot - Slot index
+   * @returns Whether the game was saved
+   */
+  save(slot: number): boolean;
+
+  /**
+   * Load the game saved in a slot, restarting the saved scene
+   * @param slot - Slot index
+   * @returns Whether a save was found
+   */
+  load(slot: number): boolean;
+
+  /**
+   * Describe every save slot
+   */
+  listSlots(): SaveSlotInfo[];
+
+  /**
+   * Delete the save of a slot
+   * @param slot - Slot index
+   */
+  deleteSlot(slot: number): void;
+
+  /**
+   * Snapshot the current game state
+   */
+  createSnapshot(): SaveSnapshot | null;
+
+  /**
+   * Clean up when the scene is shutdown
    */
   shutdown(): void;
 }
@@ -11,6 +11,7 @@ declare namespace Phaser.Tilemaps {
 
   interface TilemapLayer extends Phaser.GameObjects.GameObject {
     setCollisionByProperty(properties: object): Phaser.Tilemaps.TilemapLayer;
+    getTileAt(tileX: number, tileY: number, nonNull?: boolean): Phaser.Tilemaps.Tile | null;
   }
 }
 
@@ -21,4 +22,52 @@ declare namespace Phaser.GameObjects {
     parentContainer: Phaser.GameObjects.Container | null;
     active: boolean;
   }
-} 
\ No newline at end of file
+} 
+
+declare namespace Phaser.Input.Keyboard {
+  interface Key {
+    reset(): Phaser.Input.Keyboard.Key;
+  }
+}
+
+declare namespace Phaser.Cameras.Scene2D {
+  interface Camera {
+    pan(
+      x: number,
+      y: number,
+      duration?: number,
+      ease?: string,
+      force?: boolean,
+      callback?: (camera: Phaser.Cameras.Scene2D.Camera, progress: number, x: number, y: number) => void,
+      context?: object
+    ): Phaser.Cameras.Scene2D.Camera;
+    zoomTo(
+      zoom: number,
+      duration?: number,
+      ease?: string,
+      force?: boolean,
+      callback?: (camera: Phaser.Cameras.Scene2D.Camera, progress: number, zoom: number) => void,
+      context?: object
+    ): Phaser.Cameras.Scene2D.Camera;
+    setDeadzone(width?: number, height?: number): Phaser.Cameras.Scene2D.Camera;
+  }
+}
+
+declare namespace Phaser.Sound {
+  interface BaseSound {
+    volume: number;
+  }
+}
+
+declare namespace Phaser.Scale {
+  interface ScaleManager extends Phaser.Events.EventEmitter {
+    width: number;
+    height: number;
+  }
+}
+
+declare namespace Phaser {
+  interface Scene {
+    scale: Phaser.Scale.ScaleManager;
+  }
+}
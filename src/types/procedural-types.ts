@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Types of the procedural level generator and of the Tiled JSON it produces
+ */
+
+import { RoomType } from '../constants/procedural';
+import { MapObjectProperties } from './scene-types';
+
+/**
+ * Rectangle in tiles
+ */
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Room carved in a generated level
+ */
+export interface Room extends TileRect {
+  /** Index of the room in the level */
+  index: number;
+  type: RoomType;
+  /** Indexes of the rooms linked to this one by a corridor */
+  connections: number[];
+}
+
+/**
+ * Options of the generator, every field falls back to PROCEDURAL
+ */
+export interface ProceduralOptions {
+  width: number;
+  height: number;
+  minLeafSize: number;
+  minRoomSize: number;
+  roomPadding: number;
+  corridorWidth: number;
+  maxMonstersPerRoom: number;
+  monsterRoomChance: number;
+  decoChance: number;
+  monsterTypes: readonly string[];
+  /** Scene the exit zone of the end room leads to, the level has no exit when omitted */
+  exitScene?: string;
+}
+
+/**
+ * Object of a Tiled object layer
+ */
+export interface TiledObject {
+  id: number;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  visible: boolean;
+  point?: boolean;
+  properties: MapObjectProperties;
+}
+
+/**
+ * Tile layer of a Tiled JSON map
+ */
+export interface TiledTileLayer {
+  name: string;
+  type: 'tilelayer';
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  opacity: number;
+  visible: boolean;
+  /** Tile gids row by row, 0 for an empty cell */
+  data: number[];
+}
+
+/**
+ * Object layer of a Tiled JSON map
+ */
+export interface TiledObjectLayer {
+  name: string;
+  type: 'objectgroup';
+  draworder: string;
+  x: number;
+  y: number;
+  opacity: number;
+  visible: boolean;
+  objects: TiledObject[];
+}
+
+/**
+ * Tiled JSON map, as loaded by Phaser from a map file
+ */
+export interface TiledMapData {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  orientation: 'orthogonal';
+  renderorder: 'right-down';
+  infinite: boolean;
+  version: number;
+  nextobjectid: number;
+  layers: (TiledTileLayer | TiledObjectLayer)[];
+  /** Tilesets copied from a map file, their tile properties mark the colliding tiles */
+  tilesets: unknown[];
+}
+
+/**
+ * Level produced by the generator
+ */
+export interface GeneratedLevel {
+  seed: number;
+  /** Size in tiles */
+  width: number;
+  height: number;
+  rooms: Room[];
+  /** Center of the start room in pixels */
+  start: { x: number; y: number };
+  /** Tile gids of the layers read by the MapManager */
+  terrain: number[];
+  deco: number[];
+  bridge: number[];
+  monsters: TiledObject[];
+  zones: TiledObject[];
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Types of the save snapshots written by the SaveManager
+ */
+
+import { Orientation } from '../geometry/orientation';
+import { FlagValue } from '../utils/registry-flags';
+import { InventoryContents } from './item-types';
+import { Checkpoint } from './scene-types';
+
+/**
+ * State of the player
+ */
+export interface PlayerSaveState {
+  hp: number;
+  maxHp: number;
+  x: number;
+  y: number;
+  orientation: Orientation;
+}
+
+/**
+ * State of a non-player entity still alive when the game was saved
+ */
+export interface EntitySaveState {
+  /** Id of the Tiled object the entity was spawned from */
+  id: number;
+  type: string;
+  x: number;
+  y: number;
+  hp: number;
+}
+
+/**
+ * State of the entities of a map
+ */
+export interface MapSaveState {
+  /** Spawn ids of the defeated entities */
+  killed: number[];
+  /** Spawn ids of the collected pickups */
+  collected: number[];
+  /** Ids of the one-shot zones that triggered */
+  triggered: number[];
+  /** Entities alive when saving, only known for the map the player was in */
+  remaining?: EntitySaveState[];
+}
+
+/**
+ * Complete snapshot of a game
+ */
+export interface SaveSnapshot {
+  /** Format version, older snapshots are migrated when loaded */
+  version: number;
+  /** Timestamp of the save */
+  savedAt: number;
+  /** Key of the level scene the player was in */
+  sceneKey: string;
+  player: PlayerSaveState;
+  /** Items carried by the player */
+  inventory: InventoryContents;
+  /** Entity states keyed by map key */
+  maps: Record<string, MapSaveState>;
+  /** Story flags keyed by flag name */
+  flags: Record<string, FlagValue>;
+  /** Where the player respawns after a game over */
+  checkpoint: Checkpoint;
+}
+
+/**
+ * Summary of a save slot, used to list the slots without loading them
+ */
+export interface SaveSlotInfo {
+  slot: number;
+  empty: boolean;
+  savedAt?: number;
+  sceneKey?: string;
+}
+
+/**
+ * Upgrades a snapshot from one version to the next
+ * Receives the raw JSON since older snapshots do not match the current types
+ */
+export type SaveMigration = (snapshot: Record<string, unknown>) => Record<string, unknown>;
@@ -3,6 +3,10 @@
  */
 
 import { Orientation } from '../geometry/orientation';
+import { SaveSnapshot } from './save-types';
+import { FlagValue } from '../utils/registry-flags';
+import { InventoryContents } from './item-types';
+import { TransitionSettings } from './transition-types';
 
 /**
  * Interface for data passed between scenes
@@ -10,6 +14,46 @@ import { Orientation } from '../geometry/orientation';
 export interface InterSceneData {
   /** The name of the scene the player is coming from */
   comesFrom: string;
+  /** Name of the object of the spawns layer the player appears at */
+  spawn?: string;
+  /** Health and items of the player when leaving the previous scene */
+  player?: PlayerTransferState;
+  /** Snapshot being loaded, the scene restores the player and entities from it */
+  save?: SaveSnapshot;
+  /** Seed of the level to generate, only read by procedural levels */
+  seed?: number;
+  /** Whether the player comes back to life at the last checkpoint */
+  respawn?: boolean;
+  /** Effect that covered the screen, the scene uncovers it with the same effect */
+  transition?: TransitionSettings;
+}
+
+/**
+ * State of the player carried to the next scene
+ */
+export interface PlayerTransferState {
+  hp: number;
+  maxHp: number;
+  inventory: InventoryContents;
+}
+
+/**
+ * Where the player appears when entering a scene and which way they face
+ */
+export interface PlayerSpawn {
+  x: number;
+  y: number;
+  orientation: Orientation;
+}
+
+/**
+ * Place where the player comes back to life after a game over
+ */
+export interface Checkpoint {
+  /** Key of the level scene */
+  sceneKey: string;
+  x: number;
+  y: number;
 }
 
 /**
@@ -18,22 +62,79 @@ export interface InterSceneData {
 export interface MapObjectProperties {
   scene?: string;
   comesBackFrom?: Orientation;
+  /** Spawn of the target scene a scene change leads to */
+  spawn?: string;
+  /** Orientation of the player appearing at a spawn */
+  facing?: Orientation;
+  /** Effect of a scene change, see TRANSITION_EFFECTS */
+  transition?: string;
   message?: string;
+  quantity?: number;
+  dialogKey?: string;
   type?: string;
-  shouldWander?: string;
+  /** Whether the entity walks around its spawn point */
+  shouldWander?: boolean | string;
+  /** Maximum distance from the spawn point of a wandering entity */
+  wanderRadius?: number;
+  /** Id of the polyline, polygon or point object the entity patrols along */
+  patrolPath?: number;
+  /** Time spent standing at each patrol waypoint in milliseconds */
+  patrolPause?: number;
+  /** How an entity with an AI reacts to the player, see AI_COMBAT_MODES */
   combatMode?: string;
+  /** Health restored by a checkpoint, true restores all of it */
+  heal?: boolean | number;
+  /** When a zone triggers, see ZONE_EVENTS */
+  event?: string;
+  /** Whether a zone triggers only once, remembered across levels and saves */
+  once?: boolean;
+  /** Shortest time between two triggers of a zone while the player stays inside, in milliseconds */
+  interval?: number;
+  /** Flag required by a zone, it must be truthy unless a comparison is set */
+  flag?: string;
+  /** Value the required flag must have */
+  flagEquals?: FlagValue;
+  /** Value the required flag must not have */
+  flagNotEquals?: FlagValue;
+  /** Lowest value of the required numeric flag */
+  flagAtLeast?: number;
+  /** Flag set to true when a zone triggers */
+  setFlag?: string;
+  /** Type of the entities spawned by a wave */
+  entity?: string;
+  /** Number of entities spawned by a wave */
+  count?: number;
+  /** Id of the point, polyline or polygon object whose points the entities of a wave spawn at */
+  spawnPoints?: number;
+  /** Damage dealt by a damage zone */
+  damage?: number;
+  /** Type of the damage dealt by a damage zone, see DAMAGE_TYPES */
+  damageType?: string;
+  /** Id of the object a cutscene shows */
+  focus?: number;
+  /** Time a cutscene shows its focus in milliseconds */
+  duration?: number;
+  /** Zoom of the camera while a cutscene shows its focus */
+  zoom?: number;
 }
 
 /**
  * Type for tilemap objects with our custom properties
  */
 export interface CustomTilemapObject extends Phaser.GameObjects.GameObject {
+  id: number;
   x: number;
   y: number;
   width: number;
   height: number;
   name: string;
   properties: MapObjectProperties;
+  /** Whether the object is a point */
+  point?: boolean;
+  /** Points of a polyline, relative to the object position */
+  polyline?: { x: number; y: number }[];
+  /** Points of a polygon, relative to the object position */
+  polygon?: { x: number; y: number }[];
 }
 
 /**
@@ -44,15 +145,4 @@ export interface MapLayers {
   deco: Phaser.Tilemaps.TilemapLayer;
   bridge: Phaser.Tilemaps.TilemapLayer;
 }
-
-/**
- * Interface for keyboard input state
- */
-export interface KeyState {
-  left: boolean;
-  right: boolean;
-  up: boolean;
-  down: boolean;
-  space: boolean;
-  shift: boolean;
-} 
\ No newline at end of file
+ 
\ No newline at end of file
@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Types of the animated transitions between scenes
+ */
+
+import { TransitionEffect, TransitionPhase } from '../constants/transitions';
+import { Orientation } from '../geometry/orientation';
+
+/**
+ * How the screen is covered and uncovered, carried to the next scene in the scene data
+ */
+export interface TransitionSettings {
+  effect: TransitionEffect;
+  /** Direction a wipe sweeps towards */
+  direction: Orientation;
+}
+
+/**
+ * Payload of the TRANSITION_START and TRANSITION_END events of the bus
+ */
+export interface TransitionEvent extends TransitionSettings {
+  phase: TransitionPhase;
+  /** Scene being left when going out, entered when coming in */
+  sceneKey: string;
+}
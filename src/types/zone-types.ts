@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Types of the zone triggers and of the handlers reacting to them
+ */
+
+import { ZoneEvent } from '../constants/zones';
+import { FlagCondition } from '../utils/registry-flags';
+import { CustomTilemapObject } from './scene-types';
+import { Player } from '../game-objects/Player';
+import { AbstractScene } from '../scenes/AbstractScene';
+
+/**
+ * When and how often a zone triggers
+ */
+export interface ZoneTriggerSettings {
+  event: ZoneEvent;
+  /** Whether the zone triggers only once */
+  once: boolean;
+  /** Shortest time between two triggers while the player stays inside, in milliseconds */
+  interval: number;
+  /** Flags that must hold for the zone to trigger */
+  conditions: FlagCondition[];
+  /** Flag set to true when the zone triggers */
+  setFlag?: string;
+}
+
+/**
+ * What a handler receives when its zone triggers
+ */
+export interface ZoneContext {
+  scene: AbstractScene;
+  player: Player;
+  /** Game object of the zone, centered on the position of the Tiled object */
+  zone: Phaser.GameObjects.Zone;
+  /** Tiled object the zone was created from */
+  object: CustomTilemapObject;
+  /** Event the zone triggered at */
+  event: ZoneEvent;
+}
+
+/**
+ * Reaction to the zones of a type
+ */
+export interface ZoneHandler {
+  /** Runs each time a zone of the type triggers */
+  handle: (context: ZoneContext) => void;
+  /** Settings of the zones that do not set them in Tiled */
+  defaults?: Partial<Pick<ZoneTriggerSettings, 'event' | 'once' | 'interval'>>;
+}
@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Sequences a dialogue tree, independently from its rendering
+ */
+
+import {
+  DialogueAction,
+  DialogueChoice,
+  DialogueNode,
+  DialogueTarget,
+  DialogueTree,
+} from '../types/dialogue-definitions';
+import {
+  FlagStore,
+  checkConditions,
+  clearFlag,
+  incrementFlag,
+  setFlag,
+} from './registry-flags';
+
+/** Built-in actions operating on a flag */
+const FLAG_ACTIONS = ['setFlag', 'incrementFlag', 'clearFlag'];
+
+/**
+ * Handler for actions that are not built into the runner
+ */
+export type DialogueActionHandler = (action: DialogueAction) => void;
+
+/**
+ * Walks through a dialogue tree
+ *
+ * Conditions are evaluated and actions applied against the flag store,
+ * so the same runner drives the dialogue box and can be used without Phaser.
+ */
+export class DialogueRunner {
+  private tree: DialogueTree;
+  private flags: FlagStore;
+  private actionHandler?: DialogueActionHandler;
+  private currentNode: DialogueNode | null = null;
+
+  /**
+   * Create a new DialogueRunner
+   * @param tree - The conversation to run
+   * @param flags - Store holding the story flags, usually the game registry
+   * @param actionHandler - Optional handler for custom actions
+   */
+  constructor(tree: DialogueTree, flags: FlagStore, actionHandler?: DialogueActionHandler) {
+    this.tree = tree;
+    this.flags = flags;
+    this.actionHandler = actionHandler;
+  }
+
+  /**
+   * Start the conversation from its first node
+   * @returns The first node or null if no node is reachable
+   */
+  public start(): DialogueNode | null {
+    return this.goTo(this.tree.start);
+  }
+
+  /**
+   * Get the node currently displayed, null once the conversation is over
+   */
+  public getCurrentNode(): DialogueNode | null {
+    return this.currentNode;
+  }
+
+  /**
+   * Get the choices of the current node whose conditions hold
+   */
+  public getChoices(): DialogueChoice[] {
+    if (!this.currentNode || !this.currentNode.choices) return [];
+    return this.currentNode.choices.filter(choice =>
+      checkConditions(this.flags, choice.conditions),
+    );
+  }
+
+  /**
+   * Move to the next node
+   * @param choiceIndex - Index of the picked choice among `getChoices()`
+   * @returns The new node or null when the conversation is over
+   */
+  public advance(choiceIndex = 0): DialogueNode | null {
+    if (!this.currentNode) return null;
+
+    const choices = this.getChoices();
+    if (choices.length === 0) {
+      return this.goTo(this.currentNode.next);
+    }
+
+    const choice = choices[choiceIndex];
+    if (!choice) {
+      console.warn(`DialogueRunner: No choice at index ${choiceIndex}`);
+      return this.currentNode;
+    }
+    this.runActions(choice.actions);
+    return this.goTo(choice.next);
+  }
+
+  /**
+   * Whether the conversation is over
+   */
+  public isFinished(): boolean {
+    return this.currentNode === null;
+  }
+
+  /**
+   * Enter the node designated by a target
+   */
+  private goTo(target?: DialogueTarget): DialogueNode | null {
+    const nodeId = this.resolveTarget(target);
+    if (nodeId === null) {
+      this.currentNode = null;
+      return null;
+    }
+
+    const node = this.tree.nodes[nodeId];
+    if (!node) {
+      console.warn(`DialogueRunner: Unknown node "${nodeId}"`);
+      this.currentNode = null;
+      return null;
+    }
+
+    this.currentNode = node;
+    this.runActions(node.actions);
+    return node;
+  }
+
+  /**
+   * Resolve a target to a node id, null when no branch applies
+   */
+  private resolveTarget(target?: DialogueTarget): string | null {
+    if (target === undefined) return null;
+    if (typeof target === 'string') return target;
+
+    const branch = target.find(candidate => checkConditions(this.flags, candidate.conditions));
+    return branch ? branch.node : null;
+  }
+
+  /**
+   * Apply a list of actions
+   */
+  private runActions(actions?: DialogueAction[]): void {
+    (actions || []).forEach(action => {
+      if (FLAG_ACTIONS.includes(action.type) && typeof action.flag !== 'string') {
+        console.warn(`DialogueRunner: Action "${action.type}" has no flag`);
+        return;
+      }
+
+      switch (action.type) {
+        case 'setFlag':
+          setFlag(this.flags, action.flag, action.value ?? true);
+          break;
+        case 'incrementFlag':
+          incrementFlag(this.flags, action.flag, action.amount ?? 1);
+          break;
+        case 'clearFlag':
+          clearFlag(this.flags, action.flag);
+          break;
+        default:
+          if (this.actionHandler) {
+            this.actionHandler(action);
+          } else {
+            console.warn(`DialogueRunner: Unhandled action "${action.type}"`);
+          }
+      }
+    });
+  }
+}
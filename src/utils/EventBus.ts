@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Game-wide event bus with typed payloads
+ */
+
+import { GameEvent, GameEventListener, GameEventMap } from '../types/event-types';
+
+/**
+ * Listener removed when a scene shuts down
+ */
+interface SceneBinding {
+  event: GameEvent;
+  listener: GameEventListener<GameEvent>;
+  context: unknown;
+  /** Function registered on the emitter, wraps the listener of once */
+  registered: GameEventListener<GameEvent>;
+  /** Removes the shutdown and destroy hooks from the scene */
+  unbind: () => void;
+}
+
+/**
+ * Events shared by the scenes of the game, each with the payload declared in GameEventMap
+ *
+ * The GameManager holds the bus of the game. A listener added with a scene is removed
+ * when that scene shuts down, so the managers of a level do not leak handlers into the next one.
+ */
+export class EventBus {
+  private emitter = new Phaser.Events.EventEmitter();
+  /** Listeners added with a scene, until they are removed */
+  private sceneBindings: SceneBinding[] = [];
+
+  /**
+   * Listen to an event
+   * @param event - One of the events of GameEventMap
+   * @param listener - Receives the payload of the event
+   * @param context - Value of `this` in the listener
+   * @param scene - Scene whose shutdown removes the listener, none keeps it until removed
+   */
+  public on<K extends GameEvent>(
+    event: K,
+    listener: GameEventListener<K>,
+    context?: unknown,
+    scene?: Phaser.Scene
+  ): this {
+    this.emitter.on(event, listener, context);
+    this.bindToScene(event, listener, listener, context, scene);
+    return this;
+  }
+
+  /**
+   * Listen to the next occurrence of an event
+   * @param event - One of the events of GameEventMap
+   * @param listener - Receives the payload of the event
+   * @param context - Value of `this` in the listener
+   * @param scene - Scene whose shutdown removes the listener if the event did not occur
+   */
+  public once<K extends GameEvent>(
+    event: K,
+    listener: GameEventListener<K>,
+    context?: unknown,
+    scene?: Phaser.Scene
+  ): this {
+    if (!scene) {
+      this.emitter.once(event, listener, context);
+      return this;
+    }
+
+    // The scene hooks go away with the listener once the event occurred
+    const registered: GameEventListener<K> = payload => {
+      this.off(event, listener, context);
+      listener.call(context, payload);
+    };
+    this.emitter.once(event, registered);
+    this.bindToScene(event, listener, registered, context, scene);
+    return this;
+  }
+
+  /**
+   * Stop listening to an event
+   * @param event - One of the events of GameEventMap
+   * @param listener - The listener given to on or once
+   * @param context - The context given to on or once, none removes the listener for every context
+   */
+  public off<K extends GameEvent>(event: K, listener: GameEventListener<K>, context?: unknown): this {
+    this.emitter.off(event, listener, context, false);
+    this.sceneBindings = this.sceneBindings.filter(binding => {
+      const matches = binding.event === event && binding.listener === listener &&
+        (context === undefined || binding.context === context);
+      if (matches) {
+        this.emitter.off(event, binding.registered, undefined, false);
+        binding.unbind();
+      }
+      return !matches;
+    });
+    return this;
+  }
+
+  /**
+   * Emit an event
+   * @param event - One of the events of GameEventMap
+   * @param payload - Payload of the event
+   * @returns Whether the event had listeners
+   */
+  public emit<K extends GameEvent>(event: K, payload: GameEventMap[K]): boolean {
+    return this.emitter.emit(event, payload);
+  }
+
+  /**
+   * Number of listeners of an event
+   */
+  public listenerCount(event: GameEvent): number {
+    return this.emitter.listenerCount(event);
+  }
+
+  /**
+   * Remove every listener
+   */
+  public destroy(): void {
+    this.sceneBindings.forEach(binding => binding.unbind());
+    this.sceneBindings = [];
+    this.emitter.removeAllListeners();
+  }
+
+  /**
+   * Remove a listener when a scene shuts down or is destroyed
+   * The hooks are removed from the scene as soon as the listener is removed
+   */
+  private bindToScene<K extends GameEvent>(
+    event: K,
+    listener: GameEventListener<K>,
+    registered: GameEventListener<K>,
+    context: unknown,
+    scene?: Phaser.Scene
+  ): void {
+    if (!scene) {
+      return;
+    }
+
+    const remove = () => this.off(event, listener, context);
+    const unbind = () => {
+      scene.events.off('shutdown', remove, undefined, false);
+      scene.events.off('destroy', remove, undefined, false);
+    };
+    scene.events.once('shutdown', remove);
+    scene.events.once('destroy', remove);
+    this.sceneBindings.push({
+      event,
+      listener: listener as GameEventListener<GameEvent>,
+      context,
+      registered: registered as GameEventListener<GameEvent>,
+      unbind,
+    });
+  }
+}
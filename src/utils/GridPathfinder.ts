@@ -0,0 +1,232 @@
+/**
+ * @fileoverview A* pathfinding on a grid of walkable cells
+ */
+
+import { NAVIGATION } from '../constants/navigation';
+
+/**
+ * Cell of the navigation grid
+ */
+export interface GridCell {
+  col: number;
+  row: number;
+}
+
+/**
+ * Node of the open list
+ */
+interface SearchNode {
+  index: number;
+  cost: number;
+  estimate: number;
+}
+
+/** Offsets of the four neighbours, entities only walk along the axes */
+const NEIGHBOURS: GridCell[] = [
+  { col: 1, row: 0 },
+  { col: -1, row: 0 },
+  { col: 0, row: 1 },
+  { col: 0, row: -1 },
+];
+
+/**
+ * Finds paths between cells of a walkability grid
+ *
+ * Paths are cached by start and goal cell; changing the walkability of a cell
+ * invalidates the cache. The pathfinder has no Phaser dependency.
+ */
+export class GridPathfinder {
+  private readonly width: number;
+  private readonly height: number;
+  private walkable: boolean[];
+  private cache: Map<string, GridCell[] | null> = new Map();
+  private cacheSize: number;
+  private maxSearchNodes: number;
+
+  /**
+   * Create a new GridPathfinder
+   * @param width - Number of columns
+   * @param height - Number of rows
+   * @param isWalkable - Initial walkability of each cell
+   * @param cacheSize - Number of paths kept in the cache
+   * @param maxSearchNodes - Cells explored before a search gives up
+   */
+  constructor(
+    width: number,
+    height: number,
+    isWalkable: (col: number, row: number) => boolean,
+    cacheSize: number = NAVIGATION.PATH_CACHE_SIZE,
+    maxSearchNodes: number = NAVIGATION.MAX_SEARCH_NODES,
+  ) {
+    this.width = width;
+    this.height = height;
+    this.cacheSize = cacheSize;
+    this.maxSearchNodes = maxSearchNodes;
+    this.walkable = new Array(width * height);
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        this.walkable[row * width + col] = isWalkable(col, row);
+      }
+    }
+  }
+
+  /**
+   * Check if a cell is inside the grid and can be walked on
+   */
+  public isWalkable(col: number, row: number): boolean {
+    return this.isInside(col, row) && this.walkable[row * this.width + col];
+  }
+
+  /**
+   * Change the walkability of a cell, e.g. when a door opens
+   */
+  public setWalkable(col: number, row: number, walkable: boolean): void {
+    if (!this.isInside(col, row) || this.walkable[row * this.width + col] === walkable) {
+      return;
+    }
+    this.walkable[row * this.width + col] = walkable;
+    this.invalidate();
+  }
+
+  /**
+   * Forget the cached paths
+   */
+  public invalidate(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Find the shortest path between two cells
+   * The start cell does not need to be walkable, so entities overlapping an
+   * obstacle can still leave it
+   * @returns The cells from the start to the goal, only keeping the turns,
+   * or null if the goal cannot be reached
+   */
+  public findPath(start: GridCell, goal: GridCell): GridCell[] | null {
+    const key = `${start.col},${start.row}>${goal.col},${goal.row}`;
+    if (this.cache.has(key)) {
+      return this.cache.get(key) || null;
+    }
+
+    const path = this.search(start, goal);
+    if (this.cache.size >= this.cacheSize) {
+      // Maps iterate in insertion order, drop the oldest path
+      this.cache.delete(this.cache.keys().next().value);
+    }
+    this.cache.set(key, path);
+    return path;
+  }
+
+  /**
+   * A* search with a Manhattan distance heuristic
+   */
+  private search(start: GridCell, goal: GridCell): GridCell[] | null {
+    if (!this.isInside(start.col, start.row) || !this.isWalkable(goal.col, goal.row)) {
+      return null;
+    }
+
+    const startIndex = start.row * this.width + start.col;
+    const goalIndex = goal.row * this.width + goal.col;
+    const costs = new Map<number, number>([[startIndex, 0]]);
+    const parents = new Map<number, number>();
+    const closed = new Set<number>();
+    const open: SearchNode[] = [{ index: startIndex, cost: 0, estimate: this.heuristic(start, goal) }];
+
+    while (open.length > 0 && closed.size < this.maxSearchNodes) {
+      const current = popLowest(open);
+      if (current.index === goalIndex) {
+        return this.buildPath(parents, goalIndex);
+      }
+      if (closed.has(current.index)) continue;
+      closed.add(current.index);
+
+      const col = current.index % this.width;
+      const row = Math.floor(current.index / this.width);
+
+      NEIGHBOURS.forEach(offset => {
+        const next = { col: col + offset.col, row: row + offset.row };
+        if (!this.isWalkable(next.col, next.row)) return;
+
+        const nextIndex = next.row * this.width + next.col;
+        const cost = current.cost + 1;
+        if (closed.has(nextIndex) || cost >= (costs.get(nextIndex) ?? Infinity)) return;
+
+        costs.set(nextIndex, cost);
+        parents.set(nextIndex, current.index);
+        pushNode(open, { index: nextIndex, cost, estimate: cost + this.heuristic(next, goal) });
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Walk the parents back from the goal, keeping the start, the turns and the goal
+   */
+  private buildPath(parents: Map<number, number>, goalIndex: number): GridCell[] {
+    const cells: GridCell[] = [];
+    let index: number | undefined = goalIndex;
+    while (index !== undefined) {
+      cells.unshift({ col: index % this.width, row: Math.floor(index / this.width) });
+      index = parents.get(index);
+    }
+
+    return cells.filter((_cell, i) => {
+      if (i === 0 || i === cells.length - 1) return true;
+      const previous = cells[i - 1];
+      const next = cells[i + 1];
+      return previous.col !== next.col && previous.row !== next.row;
+    });
+  }
+
+  /**
+   * Manhattan distance between two cells
+   */
+  private heuristic(a: GridCell, b: GridCell): number {
+    return Math.abs(a.col - b.col) + Math.abs(a.row - b.row);
+  }
+
+  /**
+   * Check if a cell is inside the grid
+   */
+  private isInside(col: number, row: number): boolean {
+    return col >= 0 && row >= 0 && col < this.width && row < this.height;
+  }
+}
+
+/**
+ * Add a node to a binary heap ordered by estimate
+ */
+function pushNode(heap: SearchNode[], node: SearchNode): void {
+  heap.push(node);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].estimate <= heap[i].estimate) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+/**
+ * Remove the node with the lowest estimate from a binary heap
+ */
+function popLowest(heap: SearchNode[]): SearchNode {
+  const lowest = heap[0];
+  const last = heap.pop() as SearchNode;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left].estimate < heap[smallest].estimate) smallest = left;
+      if (right < heap.length && heap[right].estimate < heap[smallest].estimate) smallest = right;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return lowest;
+}
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Bindings of the input actions persisted to a storage backend
+ */
+
+import { DEFAULT_BINDINGS, GAMEPAD, INPUT, INPUT_ACTIONS, InputAction } from '../constants/input';
+import { InputBinding, InputBindings as InputBindingMap } from '../types/input-types';
+import { ISaveStorage } from './save-storage';
+
+/**
+ * Keys, buttons and axes bound to each action
+ *
+ * Only the actions the player customized are written to the storage, the
+ * others keep following DEFAULT_BINDINGS. The class has no Phaser dependency.
+ */
+export class InputBindings {
+  private storage: ISaveStorage;
+  private bindings: InputBindingMap;
+
+  /**
+   * Create new InputBindings, restoring the customized ones from the storage
+   * @param storage - Backend the customized bindings are written to
+   */
+  constructor(storage: ISaveStorage) {
+    this.storage = storage;
+    this.bindings = { ...DEFAULT_BINDINGS, ...this.load() };
+  }
+
+  /**
+   * Bindings of an action
+   */
+  public get(action: InputAction): InputBinding[] {
+    return this.bindings[action];
+  }
+
+  /**
+   * Bindings of every action
+   */
+  public getAll(): InputBindingMap {
+    return { ...this.bindings };
+  }
+
+  /**
+   * Replace the bindings of an action and persist them
+   * A binding already used by another action is removed from it
+   * @param action - The action to rebind
+   * @param bindings - New bindings of the action
+   */
+  public rebind(action: InputAction, bindings: InputBinding[]): void {
+    Object.values(INPUT_ACTIONS).forEach(other => {
+      if (other !== action) {
+        this.bindings[other] = this.bindings[other].filter(
+          binding => !bindings.some(taken => InputBindings.isSame(binding, taken))
+        );
+      }
+    });
+    this.bindings[action] = [...bindings];
+    this.save();
+  }
+
+  /**
+   * Restore the default bindings of every action
+   */
+  public reset(): void {
+    this.bindings = { ...DEFAULT_BINDINGS };
+    this.storage.removeItem(INPUT.STORAGE_KEY);
+  }
+
+  /**
+   * Check if two bindings refer to the same control
+   */
+  public static isSame(a: InputBinding, b: InputBinding): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  /**
+   * Name of the control of a binding as shown to the player, e.g. "SPACE", "PAD A" or "PAD LEFT_STICK_X+"
+   */
+  public static describe(binding: InputBinding): string {
+    if (binding.device === 'keyboard') return binding.key.toUpperCase();
+    if ('button' in binding) {
+      const name = Object.keys(GAMEPAD.BUTTONS).find(key => GAMEPAD.BUTTONS[key as keyof typeof GAMEPAD.BUTTONS] === binding.button);
+      return `PAD ${name || binding.button}`;
+    }
+    const name = Object.keys(GAMEPAD.AXES).find(key => GAMEPAD.AXES[key as keyof typeof GAMEPAD.AXES] === binding.axis);
+    return `PAD ${name || `AXIS ${binding.axis}`}${binding.direction > 0 ? '+' : '-'}`;
+  }
+
+  /**
+   * Write the bindings that differ from the defaults
+   */
+  private save(): void {
+    const customized = Object.values(INPUT_ACTIONS)
+      .filter(action => JSON.stringify(this.bindings[action]) !== JSON.stringify(DEFAULT_BINDINGS[action]))
+      .reduce((result, action) => ({ ...result, [action]: this.bindings[action] }), {});
+
+    try {
+      this.storage.setItem(INPUT.STORAGE_KEY, JSON.stringify(customized));
+    } catch (error) {
+      console.error('InputBindings: Could not write the bindings', error);
+    }
+  }
+
+  /**
+   * Read the customized bindings, ignoring unknown actions and malformed entries
+   */
+  private load(): Partial<InputBindingMap> {
+    const json = this.storage.getItem(INPUT.STORAGE_KEY);
+    if (json === null) return {};
+
+    try {
+      const raw = JSON.parse(json) as Record<string, unknown>;
+      const actions = Object.values(INPUT_ACTIONS) as string[];
+      return Object.entries(raw || {})
+        .filter(([action, bindings]) => actions.includes(action) && Array.isArray(bindings))
+        .reduce((result, [action, bindings]) => ({
+          ...result,
+          [action]: (bindings as unknown[]).filter(InputBindings.isBinding),
+        }), {});
+    } catch (error) {
+      console.warn('InputBindings: Stored bindings are corrupted, using the defaults', error);
+      return {};
+    }
+  }
+
+  /**
+   * Check the shape of a binding read from the storage
+   */
+  private static isBinding(value: unknown): value is InputBinding {
+    const binding = value as Record<string, unknown>;
+    if (!binding || typeof binding !== 'object') return false;
+    if (binding.device === 'keyboard') return typeof binding.key === 'string';
+    if (binding.device !== 'gamepad') return false;
+    if (typeof binding.button === 'number') return true;
+    return typeof binding.axis === 'number' && (binding.direction === 1 || binding.direction === -1);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Inventory holding the items carried by the player
+ */
+
+import { getItemDefinition } from '../constants/items';
+import { InventoryContents } from '../types/item-types';
+
+/**
+ * Called with the new contents whenever the inventory changes
+ */
+export type InventoryChangeHandler = (contents: InventoryContents) => void;
+
+/**
+ * Quantities of items keyed by item id
+ *
+ * Stackable items are capped at their maxStack, other items at one unit.
+ * The inventory is plain data, the owner decides where the contents are persisted.
+ */
+export class Inventory {
+  private contents: InventoryContents = {};
+  private onChange?: InventoryChangeHandler;
+
+  /**
+   * Create a new Inventory
+   * @param contents - Initial contents, e.g. restored from the registry
+   * @param onChange - Called whenever the contents change
+   */
+  constructor(contents: InventoryContents = {}, onChange?: InventoryChangeHandler) {
+    this.contents = { ...contents };
+    this.onChange = onChange;
+  }
+
+  /**
+   * Add units of an item
+   * @param itemId - Item identifier
+   * @param quantity - Number of units to add
+   * @returns Number of units actually added
+   */
+  public add(itemId: string, quantity = 1): number {
+    const definition = getItemDefinition(itemId);
+    if (!definition) {
+      console.warn(`Inventory: Unknown item "${itemId}"`);
+      return 0;
+    }
+
+    const current = this.getQuantity(itemId);
+    const capacity = definition.stackable ? definition.maxStack ?? Infinity : 1;
+    const added = Math.max(0, Math.min(quantity, capacity - current));
+    if (added > 0) {
+      this.contents[itemId] = current + added;
+      this.notify();
+    }
+    return added;
+  }
+
+  /**
+   * Remove units of an item
+   * @param itemId - Item identifier
+   * @param quantity - Number of units to remove
+   * @returns Whether enough units were held, nothing is removed otherwise
+   */
+  public remove(itemId: string, quantity = 1): boolean {
+    const current = this.getQuantity(itemId);
+    if (current < quantity) {
+      return false;
+    }
+
+    if (current === quantity) {
+      delete this.contents[itemId];
+    } else {
+      this.contents[itemId] = current - quantity;
+    }
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Number of units held of an item
+   */
+  public getQuantity(itemId: string): number {
+    return this.contents[itemId] || 0;
+  }
+
+  /**
+   * Check if at least some units of an item are held
+   */
+  public has(itemId: string, quantity = 1): boolean {
+    return this.getQuantity(itemId) >= quantity;
+  }
+
+  /**
+   * Copy of the contents
+   */
+  public getContents(): InventoryContents {
+    return { ...this.contents };
+  }
+
+  /**
+   * Replace the contents, e.g. when loading a save
+   */
+  public setContents(contents: InventoryContents): void {
+    this.contents = { ...contents };
+    this.notify();
+  }
+
+  /**
+   * Inform the owner of a change
+   */
+  private notify(): void {
+    if (this.onChange) {
+      this.onChange(this.getContents());
+    }
+  }
+}
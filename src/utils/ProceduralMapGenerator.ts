@@ -0,0 +1,413 @@
+/**
+ * @fileoverview Seeded generator of room-based levels in the Tiled JSON format
+ */
+
+import { PROCEDURAL, ROOM_TYPES } from '../constants/procedural';
+import { MAP_CONTENT_KEYS } from '../constants/map-content-keys';
+import { Orientation } from '../geometry/orientation';
+import {
+  GeneratedLevel,
+  ProceduralOptions,
+  Room,
+  TiledMapData,
+  TiledObject,
+  TiledObjectLayer,
+  TiledTileLayer,
+  TileRect,
+} from '../types/procedural-types';
+import { SeededRandom } from './SeededRandom';
+
+/** Options used when the caller does not override them */
+const DEFAULT_OPTIONS: ProceduralOptions = {
+  width: PROCEDURAL.WIDTH,
+  height: PROCEDURAL.HEIGHT,
+  minLeafSize: PROCEDURAL.MIN_LEAF_SIZE,
+  minRoomSize: PROCEDURAL.MIN_ROOM_SIZE,
+  roomPadding: PROCEDURAL.ROOM_PADDING,
+  corridorWidth: PROCEDURAL.CORRIDOR_WIDTH,
+  maxMonstersPerRoom: PROCEDURAL.MAX_MONSTERS_PER_ROOM,
+  monsterRoomChance: PROCEDURAL.MONSTER_ROOM_CHANCE,
+  decoChance: PROCEDURAL.DECO_CHANCE,
+  monsterTypes: PROCEDURAL.MONSTER_TYPES,
+};
+
+/**
+ * Generates levels made of rooms linked by corridors
+ *
+ * The map is split by binary space partitioning and a room is placed in each
+ * leaf. The rooms are linked along a minimum spanning tree of their centers,
+ * so every room can be reached, and corridors are carved between linked rooms.
+ * The same seed always yields the same level. The generator has no Phaser
+ * dependency; `toTiledMap()` turns a level into data the MapManager can load.
+ */
+export class ProceduralMapGenerator {
+  private options: ProceduralOptions;
+  private random = new SeededRandom(0);
+  private nextObjectId = 1;
+
+  /**
+   * Create a new ProceduralMapGenerator
+   * @param options - Overrides of the PROCEDURAL settings
+   */
+  constructor(options: Partial<ProceduralOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Generate a level
+   * @param seed - Seed of the level
+   */
+  public generate(seed: number): GeneratedLevel {
+    const { width, height } = this.options;
+    this.random.setSeed(seed);
+    this.nextObjectId = 1;
+
+    // The outer ring of the map always stays a wall
+    const leaves = this.splitSpace({ x: 1, y: 1, width: width - 2, height: height - 2 });
+    const rooms = leaves.map((leaf, index) => this.placeRoom(leaf, index));
+
+    const terrain: number[] = new Array(width * height).fill(PROCEDURAL.TILES.WALL);
+    rooms.forEach(room => this.carve(terrain, room));
+    this.connectRooms(rooms).forEach(([from, to]) => this.carveCorridor(terrain, rooms[from], rooms[to]));
+
+    const startRoom = this.assignRoomTypes(rooms);
+    const start = this.getRoomCenter(startRoom);
+
+    return {
+      seed,
+      width,
+      height,
+      rooms,
+      start: {
+        x: (start.x + 0.5) * PROCEDURAL.TILE_SIZE,
+        y: (start.y + 0.5) * PROCEDURAL.TILE_SIZE,
+      },
+      terrain,
+      deco: this.decorate(rooms, startRoom),
+      bridge: new Array(width * height).fill(0),
+      monsters: this.placeMonsters(rooms),
+      zones: this.placeExit(rooms),
+    };
+  }
+
+  /**
+   * Convert a level to the Tiled JSON format read by Phaser
+   * @param level - The generated level
+   * @param tilesets - Tilesets of a map file, their tile properties mark the colliding tiles
+   */
+  public toTiledMap(level: GeneratedLevel, tilesets: unknown[]): TiledMapData {
+    const objects = [...level.monsters, ...level.zones];
+
+    return {
+      width: level.width,
+      height: level.height,
+      tilewidth: PROCEDURAL.TILE_SIZE,
+      tileheight: PROCEDURAL.TILE_SIZE,
+      orientation: 'orthogonal',
+      renderorder: 'right-down',
+      infinite: false,
+      version: 1,
+      nextobjectid: objects.reduce((max, object) => Math.max(max, object.id), 0) + 1,
+      layers: [
+        this.createTileLayer(MAP_CONTENT_KEYS.layers.BACKGROUND, level, level.terrain),
+        this.createTileLayer(MAP_CONTENT_KEYS.layers.BRIDGE, level, level.bridge),
+        this.createTileLayer(MAP_CONTENT_KEYS.layers.DECORATION, level, level.deco),
+        this.createObjectLayer(MAP_CONTENT_KEYS.objects.MONSTERS, level.monsters),
+        this.createObjectLayer(MAP_CONTENT_KEYS.objects.ZONES, level.zones),
+      ],
+      tilesets,
+    };
+  }
+
+  /**
+   * Split an area in two until the leaves are too small to be split again
+   * Areas are cut across their longest side so the leaves stay roughly square
+   */
+  private splitSpace(area: TileRect): TileRect[] {
+    const { minLeafSize } = this.options;
+    const canSplitX = area.width >= minLeafSize * 2;
+    const canSplitY = area.height >= minLeafSize * 2;
+    if (!canSplitX && !canSplitY) {
+      return [area];
+    }
+
+    const vertical = canSplitX && (
+      !canSplitY ||
+      area.width > area.height ||
+      (area.width === area.height && this.random.next() < 0.5)
+    );
+    const cut = this.random.between(minLeafSize, (vertical ? area.width : area.height) - minLeafSize);
+
+    const first: TileRect = vertical
+      ? { ...area, width: cut }
+      : { ...area, height: cut };
+    const second: TileRect = vertical
+      ? { ...area, x: area.x + cut, width: area.width - cut }
+      : { ...area, y: area.y + cut, height: area.height - cut };
+
+    return [...this.splitSpace(first), ...this.splitSpace(second)];
+  }
+
+  /**
+   * Place a room of random size inside a leaf
+   */
+  private placeRoom(leaf: TileRect, index: number): Room {
+    const { minRoomSize, roomPadding } = this.options;
+    const maxWidth = leaf.width - roomPadding * 2;
+    const maxHeight = leaf.height - roomPadding * 2;
+    const width = this.random.between(Math.min(minRoomSize, maxWidth), maxWidth);
+    const height = this.random.between(Math.min(minRoomSize, maxHeight), maxHeight);
+
+    return {
+      index,
+      type: ROOM_TYPES.EMPTY,
+      x: leaf.x + roomPadding + this.random.between(0, maxWidth - width),
+      y: leaf.y + roomPadding + this.random.between(0, maxHeight - height),
+      width,
+      height,
+      connections: [],
+    };
+  }
+
+  /**
+   * Link the rooms along a minimum spanning tree (Prim's algorithm)
+   * @returns Pairs of linked room indexes
+   */
+  private connectRooms(rooms: Room[]): [number, number][] {
+    const links: [number, number][] = [];
+    const connected = new Set<number>([0]);
+
+    while (connected.size < rooms.length) {
+      let best: [number, number] = null;
+      let bestDistance = Infinity;
+
+      connected.forEach(from => {
+        rooms.forEach((room, to) => {
+          if (connected.has(to)) return;
+          const distance = this.getRoomDistance(rooms[from], room);
+          if (distance < bestDistance) {
+            best = [from, to];
+            bestDistance = distance;
+          }
+        });
+      });
+
+      connected.add(best[1]);
+      links.push(best);
+      rooms[best[0]].connections.push(best[1]);
+      rooms[best[1]].connections.push(best[0]);
+    }
+
+    return links;
+  }
+
+  /**
+   * Carve an L-shaped corridor between the centers of two rooms
+   */
+  private carveCorridor(terrain: number[], from: Room, to: Room): void {
+    const width = this.options.corridorWidth;
+    const a = this.getRoomCenter(from);
+    const b = this.getRoomCenter(to);
+    // The corner is either below or above the start so corridors do not all look alike
+    const corner = this.random.next() < 0.5 ? { x: b.x, y: a.y } : { x: a.x, y: b.y };
+
+    [[a, corner], [corner, b]].forEach(([start, end]) => {
+      this.carve(terrain, {
+        x: Math.min(start.x, end.x),
+        y: Math.min(start.y, end.y),
+        width: Math.abs(start.x - end.x) + width,
+        height: Math.abs(start.y - end.y) + width,
+      });
+    });
+  }
+
+  /**
+   * Turn the tiles of an area into floor, leaving the outer ring of the map untouched
+   */
+  private carve(terrain: number[], area: TileRect): void {
+    const { width, height } = this.options;
+    for (let y = Math.max(1, area.y); y < Math.min(height - 1, area.y + area.height); y++) {
+      for (let x = Math.max(1, area.x); x < Math.min(width - 1, area.x + area.width); x++) {
+        terrain[y * width + x] = PROCEDURAL.TILES.FLOOR;
+      }
+    }
+  }
+
+  /**
+   * Pick the start room and make the room the farthest from it the end room
+   * The other rooms hold monsters or stay empty
+   * @returns The start room
+   */
+  private assignRoomTypes(rooms: Room[]): Room {
+    const start = rooms[this.random.between(0, rooms.length - 1)];
+    const depths = this.getRoomDepths(rooms, start);
+    const end = rooms.reduce((farthest, room) => (depths[room.index] > depths[farthest.index] ? room : farthest));
+
+    rooms.forEach(room => {
+      room.type = this.random.next() < this.options.monsterRoomChance ? ROOM_TYPES.MONSTER : ROOM_TYPES.EMPTY;
+    });
+    end.type = ROOM_TYPES.END;
+    start.type = ROOM_TYPES.START;
+    return start;
+  }
+
+  /**
+   * Number of corridors between a room and every other room
+   */
+  private getRoomDepths(rooms: Room[], origin: Room): number[] {
+    const depths: number[] = new Array(rooms.length).fill(-1);
+    const queue = [origin.index];
+    depths[origin.index] = 0;
+
+    while (queue.length > 0) {
+      const index = queue.shift();
+      rooms[index].connections.forEach(next => {
+        if (depths[next] === -1) {
+          depths[next] = depths[index] + 1;
+          queue.push(next);
+        }
+      });
+    }
+    return depths;
+  }
+
+  /**
+   * Spawn points of the monsters, inside the monster rooms
+   */
+  private placeMonsters(rooms: Room[]): TiledObject[] {
+    const { maxMonstersPerRoom, monsterTypes } = this.options;
+    const monsters: TiledObject[] = [];
+
+    rooms
+      .filter(room => room.type === ROOM_TYPES.MONSTER)
+      .forEach(room => {
+        const count = this.random.between(1, maxMonstersPerRoom);
+        for (let i = 0; i < count; i++) {
+          const type = monsterTypes[this.random.between(0, monsterTypes.length - 1)];
+          // Keep off the walls so the monster body does not spawn inside one
+          const x = this.random.between(room.x + 1, room.x + room.width - 2);
+          const y = this.random.between(room.y + 1, room.y + room.height - 2);
+          monsters.push(this.createObject(type, (x + 0.5) * PROCEDURAL.TILE_SIZE, (y + 0.5) * PROCEDURAL.TILE_SIZE, {
+            point: true,
+            properties: { shouldWander: true },
+          }));
+        }
+      });
+
+    return monsters;
+  }
+
+  /**
+   * Zone of the end room leading out of the level
+   */
+  private placeExit(rooms: Room[]): TiledObject[] {
+    const { exitScene } = this.options;
+    const end = rooms.find(room => room.type === ROOM_TYPES.END);
+    if (!exitScene || !end) {
+      return [];
+    }
+
+    const center = this.getRoomCenter(end);
+    return [
+      this.createObject('', center.x * PROCEDURAL.TILE_SIZE, center.y * PROCEDURAL.TILE_SIZE, {
+        width: PROCEDURAL.TILE_SIZE,
+        height: PROCEDURAL.TILE_SIZE,
+        properties: { type: 'CHANGE_SCENE', scene: exitScene, comesBackFrom: Orientation.Down },
+      }),
+    ];
+  }
+
+  /**
+   * Scatter decorations on the floor of the rooms, the start room is kept clear
+   */
+  private decorate(rooms: Room[], startRoom: Room): number[] {
+    const { width, height, decoChance } = this.options;
+    const deco: number[] = new Array(width * height).fill(0);
+    const tiles = PROCEDURAL.TILES.DECO;
+
+    rooms
+      .filter(room => room !== startRoom)
+      .forEach(room => {
+        for (let y = room.y; y < room.y + room.height; y++) {
+          for (let x = room.x; x < room.x + room.width; x++) {
+            if (this.random.next() < decoChance) {
+              deco[y * width + x] = tiles[this.random.between(0, tiles.length - 1)];
+            }
+          }
+        }
+      });
+
+    return deco;
+  }
+
+  /**
+   * Create an object of an object layer
+   */
+  private createObject(name: string, x: number, y: number, fields: Partial<TiledObject>): TiledObject {
+    return {
+      id: this.nextObjectId++,
+      name,
+      type: '',
+      x,
+      y,
+      width: 0,
+      height: 0,
+      rotation: 0,
+      visible: true,
+      properties: {},
+      ...fields,
+    };
+  }
+
+  /**
+   * Tile at the center of a room
+   */
+  private getRoomCenter(room: Room): { x: number; y: number } {
+    return {
+      x: room.x + Math.floor(room.width / 2),
+      y: room.y + Math.floor(room.height / 2),
+    };
+  }
+
+  /**
+   * Manhattan distance between the centers of two rooms
+   */
+  private getRoomDistance(a: Room, b: Room): number {
+    const centerA = this.getRoomCenter(a);
+    const centerB = this.getRoomCenter(b);
+    return Math.abs(centerA.x - centerB.x) + Math.abs(centerA.y - centerB.y);
+  }
+
+  /**
+   * Create a tile layer of a Tiled map
+   */
+  private createTileLayer(name: string, level: GeneratedLevel, data: number[]): TiledTileLayer {
+    return {
+      name,
+      type: 'tilelayer',
+      width: level.width,
+      height: level.height,
+      x: 0,
+      y: 0,
+      opacity: 1,
+      visible: true,
+      data,
+    };
+  }
+
+  /**
+   * Create an object layer of a Tiled map
+   */
+  private createObjectLayer(name: string, objects: TiledObject[]): TiledObjectLayer {
+    return {
+      name,
+      type: 'objectgroup',
+      draworder: 'topdown',
+      x: 0,
+      y: 0,
+      opacity: 1,
+      visible: true,
+      objects,
+    };
+  }
+}
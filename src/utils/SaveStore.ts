@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Versioned save slots on top of a storage backend
+ */
+
+import { SaveMigration, SaveSlotInfo, SaveSnapshot } from '../types/save-types';
+import { ISaveStorage } from './save-storage';
+
+/**
+ * Options of a SaveStore
+ */
+export interface SaveStoreOptions {
+  /** Version of the snapshots written by the game */
+  version: number;
+  /** Number of available slots */
+  slotCount: number;
+  /** Prefix of the storage keys */
+  keyPrefix: string;
+}
+
+/**
+ * Reads and writes save snapshots in numbered slots
+ *
+ * Snapshots are stored as JSON with their format version. When an older
+ * snapshot is loaded, the migrations registered for each version in between
+ * are applied in order. The store has no Phaser dependency.
+ */
+export class SaveStore {
+  private storage: ISaveStorage;
+  private options: SaveStoreOptions;
+  private migrations: Map<number, SaveMigration> = new Map();
+
+  /**
+   * Create a new SaveStore
+   * @param storage - Backend the snapshots are written to
+   * @param options - Version, slot count and key prefix
+   */
+  constructor(storage: ISaveStorage, options: SaveStoreOptions) {
+    this.storage = storage;
+    this.options = options;
+  }
+
+  /**
+   * Register the migration upgrading snapshots of a version to the next one
+   * @param fromVersion - Version the migration applies to
+   * @param migration - Function returning the upgraded snapshot
+   */
+  public registerMigration(fromVersion: number, migration: SaveMigration): void {
+    this.migrations.set(fromVersion, migration);
+  }
+
+  /**
+   * Write a snapshot to a slot
+   * @returns Whether the snapshot was written
+   */
+  public save(slot: number, snapshot: SaveSnapshot): boolean {
+    if (!this.isValidSlot(slot)) return false;
+
+    try {
+      this.storage.setItem(this.getKey(slot), JSON.stringify(snapshot));
+      return true;
+    } catch (error) {
+      console.error(`SaveStore: Could not write slot ${slot}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Read the snapshot of a slot, migrated to the current version
+   * @returns The snapshot or null if the slot is empty or unreadable
+   */
+  public load(slot: number): SaveSnapshot | null {
+    const raw = this.readRaw(slot);
+    return raw ? this.migrate(raw) : null;
+  }
+
+  /**
+   * Remove the snapshot of a slot
+   */
+  public delete(slot: number): void {
+    if (this.isValidSlot(slot)) {
+      this.storage.removeItem(this.getKey(slot));
+    }
+  }
+
+  /**
+   * Check if a slot holds a snapshot
+   */
+  public has(slot: number): boolean {
+    return this.readRaw(slot) !== null;
+  }
+
+  /**
+   * Describe every slot
+   */
+  public listSlots(): SaveSlotInfo[] {
+    return Array.from({ length: this.options.slotCount }, (_, slot) => {
+      const raw = this.readRaw(slot);
+      if (!raw) {
+        return { slot, empty: true };
+      }
+      return {
+        slot,
+        empty: false,
+        savedAt: raw.savedAt as number,
+        sceneKey: raw.sceneKey as string,
+      };
+    });
+  }
+
+  /**
+   * Upgrade a raw snapshot to the current version
+   * @returns The snapshot or null if it cannot be upgraded
+   */
+  public migrate(raw: Record<string, unknown>): SaveSnapshot | null {
+    let snapshot = raw;
+    let version = typeof snapshot.version === 'number' ? snapshot.version : 0;
+
+    if (version > this.options.version) {
+      console.warn(`SaveStore: Snapshot version ${version} is newer than ${this.options.version}`);
+      return null;
+    }
+
+    while (version < this.options.version) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        console.warn(`SaveStore: No migration from version ${version}`);
+        return null;
+      }
+      snapshot = { ...migration(snapshot), version: version + 1 };
+      version += 1;
+    }
+
+    return snapshot as unknown as SaveSnapshot;
+  }
+
+  /**
+   * Read and parse the JSON of a slot
+   */
+  private readRaw(slot: number): Record<string, unknown> | null {
+    if (!this.isValidSlot(slot)) return null;
+
+    const json = this.storage.getItem(this.getKey(slot));
+    if (json === null) return null;
+
+    try {
+      const raw = JSON.parse(json);
+      return raw && typeof raw === 'object' ? raw : null;
+    } catch (error) {
+      console.warn(`SaveStore: Slot ${slot} is corrupted`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Storage key of a slot
+   */
+  private getKey(slot: number): string {
+    return `${this.options.keyPrefix}${slot}`;
+  }
+
+  /**
+   * Check that a slot index is in range
+   */
+  private isValidSlot(slot: number): boolean {
+    const valid = Number.isInteger(slot) && slot >= 0 && slot < this.options.slotCount;
+    if (!valid) {
+      console.warn(`SaveStore: Invalid slot ${slot}`);
+    }
+    return valid;
+  }
+}
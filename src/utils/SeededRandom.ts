@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Seedable pseudo-random number generator
+ */
+
+/**
+ * Deterministic random number generator (mulberry32)
+ *
+ * The same seed always yields the same sequence, which makes loot rolls
+ * and generated content reproducible. It has no Phaser dependency.
+ */
+export class SeededRandom {
+  private state: number;
+
+  /**
+   * Create a new SeededRandom
+   * @param seed - Initial seed, a time-based seed is used when omitted
+   */
+  constructor(seed: number = Date.now()) {
+    this.setSeed(seed);
+  }
+
+  /**
+   * Restart the sequence from a seed
+   */
+  public setSeed(seed: number): void {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Float in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [min, max]
+   */
+  public between(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  public realBetween(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Pick an element with a probability proportional to its weight
+   * @param items - Candidates
+   * @param getWeight - Weight of a candidate, non-positive weights are never picked
+   * @returns The picked element or undefined if no weight is positive
+   */
+  public weightedPick<T>(items: T[], getWeight: (item: T) => number): T | undefined {
+    const total = items.reduce((sum, item) => sum + Math.max(0, getWeight(item)), 0);
+    if (total <= 0) return undefined;
+
+    let threshold = this.next() * total;
+    for (const item of items) {
+      threshold -= Math.max(0, getWeight(item));
+      if (threshold < 0) return item;
+    }
+    return items[items.length - 1];
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Generic finite state machine
+ */
+
+/**
+ * Hooks of a state, all optional
+ */
+export interface StateDefinition<TContext> {
+  /** Called when the machine enters the state */
+  enter?(context: TContext): void;
+  /** Called on every update while the machine is in the state */
+  update?(context: TContext, timeInState: number): void;
+  /** Called when the machine leaves the state */
+  exit?(context: TContext): void;
+}
+
+/**
+ * Condition moving the machine from some states to another one
+ */
+export interface StateTransition<TContext> {
+  /** States the transition applies to, '*' for every state but the target */
+  from: string[] | '*';
+  /** Target state */
+  to: string;
+  /** Whether the machine should change state */
+  condition: (context: TContext, timeInState: number) => boolean;
+}
+
+/**
+ * Record of a state change
+ */
+export interface StateChange {
+  from: string | null;
+  to: string;
+  /** Time of the change */
+  at: number;
+}
+
+/**
+ * Called whenever the machine changes state
+ */
+export type StateChangeHandler = (change: StateChange) => void;
+
+/**
+ * Finite state machine driven by an external clock
+ *
+ * Transitions are checked in the order they were added on every update, the
+ * first one whose condition holds wins. The machine keeps the last changes for
+ * inspection. It has no Phaser dependency.
+ */
+export class StateMachine<TContext> {
+  private static readonly HISTORY_SIZE = 10;
+
+  private context: TContext;
+  private states: Map<string, StateDefinition<TContext>> = new Map();
+  private transitions: StateTransition<TContext>[] = [];
+  private current: string | null = null;
+  private previous: string | null = null;
+  private enteredAt = 0;
+  private history: StateChange[] = [];
+  private onChange?: StateChangeHandler;
+
+  /**
+   * Create a new StateMachine
+   * @param context - Object handed to the state hooks and transition conditions
+   * @param onChange - Called whenever the machine changes state
+   */
+  constructor(context: TContext, onChange?: StateChangeHandler) {
+    this.context = context;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Declare a state
+   */
+  public addState(name: string, definition: StateDefinition<TContext> = {}): this {
+    this.states.set(name, definition);
+    return this;
+  }
+
+  /**
+   * Declare a transition
+   * @param from - States the transition applies to, '*' for every state but the target
+   * @param to - Target state
+   * @param condition - Whether the machine should change state
+   */
+  public addTransition(
+    from: string | string[] | '*',
+    to: string,
+    condition: StateTransition<TContext>['condition'],
+  ): this {
+    const sources = from === '*' ? '*' : Array.isArray(from) ? from : [from];
+    this.transitions.push({ from: sources, to, condition });
+    return this;
+  }
+
+  /**
+   * Check the transitions of the current state then update it
+   * @param now - Current time in milliseconds
+   * @returns The current state
+   */
+  public update(now: number): string | null {
+    if (this.current === null) return null;
+
+    const transition = this.transitions.find(
+      candidate => this.appliesTo(candidate) && candidate.condition(this.context, now - this.enteredAt),
+    );
+    if (transition) {
+      this.setState(transition.to, now);
+    }
+
+    const state = this.current !== null ? this.states.get(this.current) : undefined;
+    if (state?.update) {
+      state.update(this.context, now - this.enteredAt);
+    }
+    return this.current;
+  }
+
+  /**
+   * Force a state, running the exit and enter hooks
+   * @param name - Name of the state
+   * @param now - Current time in milliseconds
+   */
+  public setState(name: string, now: number): void {
+    const next = this.states.get(name);
+    if (!next) {
+      console.warn(`StateMachine: Unknown state "${name}"`);
+      return;
+    }
+
+    const from = this.current;
+    const state = from !== null ? this.states.get(from) : undefined;
+    if (state?.exit) {
+      state.exit(this.context);
+    }
+
+    this.previous = from;
+    this.current = name;
+    this.enteredAt = now;
+
+    const change = { from, to: name, at: now };
+    this.history.push(change);
+    if (this.history.length > StateMachine.HISTORY_SIZE) {
+      this.history.shift();
+    }
+
+    if (next.enter) {
+      next.enter(this.context);
+    }
+    if (this.onChange) {
+      this.onChange(change);
+    }
+  }
+
+  /**
+   * Name of the current state, null before the machine is started
+   */
+  public getState(): string | null {
+    return this.current;
+  }
+
+  /**
+   * Name of the state before the current one
+   */
+  public getPreviousState(): string | null {
+    return this.previous;
+  }
+
+  /**
+   * Time spent in the current state
+   * @param now - Current time in milliseconds
+   */
+  public getTimeInState(now: number): number {
+    return now - this.enteredAt;
+  }
+
+  /**
+   * Last state changes, oldest first
+   */
+  public getHistory(): StateChange[] {
+    return [...this.history];
+  }
+
+  /**
+   * Check if a transition can fire from the current state
+   */
+  private appliesTo(transition: StateTransition<TContext>): boolean {
+    if (transition.from === '*') {
+      return transition.to !== this.current;
+    }
+    return this.current !== null && transition.from.includes(this.current);
+  }
+}
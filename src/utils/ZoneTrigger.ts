@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Trigger state of a zone: enter, exit and stay detection, conditions and one-shot zones
+ */
+
+import { ZONE_EVENTS, ZoneEvent } from '../constants/zones';
+import { MapObjectProperties } from '../types/scene-types';
+import { ZoneHandler, ZoneTriggerSettings } from '../types/zone-types';
+import { FlagCondition, FlagStore, checkConditions, setFlag } from './registry-flags';
+
+/** Settings of a zone when neither Tiled nor its handler set them */
+const DEFAULT_SETTINGS: Pick<ZoneTriggerSettings, 'event' | 'once' | 'interval'> = {
+  event: ZONE_EVENTS.ENTER,
+  once: false,
+  interval: 0,
+};
+
+/**
+ * Decides when a zone triggers from whether the player is inside it each frame
+ *
+ * The class has no Phaser dependency, the ZoneManager feeds it the overlap of the
+ * player and the zone.
+ */
+export class ZoneTrigger {
+  private settings: ZoneTriggerSettings;
+  private inside = false;
+  private fired: boolean;
+  /** Time of the last trigger, null before the first one */
+  private lastTrigger: number = null;
+
+  /**
+   * Create a new ZoneTrigger
+   * @param settings - When and how often the zone triggers
+   * @param fired - Whether the zone already triggered, a one-shot zone that did never triggers again
+   */
+  constructor(settings: ZoneTriggerSettings, fired = false) {
+    this.settings = settings;
+    this.fired = fired;
+  }
+
+  /**
+   * Whether the zone triggered at least once
+   */
+  public hasFired(): boolean {
+    return this.fired;
+  }
+
+  /**
+   * Whether the zone triggers only once
+   */
+  public isOnce(): boolean {
+    return this.settings.once;
+  }
+
+  /**
+   * Follow the player for one frame
+   * @param inside - Whether the player overlaps the zone
+   * @param store - Flags the conditions are checked against and the setFlag flag is written to
+   * @param now - Current time in milliseconds
+   * @returns The event the zone triggers at, null when it does not trigger
+   */
+  public update(inside: boolean, store: FlagStore, now: number): ZoneEvent | null {
+    const wasInside = this.inside;
+    this.inside = inside;
+
+    if (!this.matches(inside, wasInside, now)) return null;
+    if (this.settings.once && this.fired) return null;
+    if (!checkConditions(store, this.settings.conditions)) return null;
+
+    this.fired = true;
+    this.lastTrigger = now;
+    if (this.settings.setFlag) {
+      setFlag(store, this.settings.setFlag, true);
+    }
+    return this.settings.event;
+  }
+
+  /**
+   * Check if the movement of the player is the one the zone waits for
+   * A stay zone also triggers on the frame the player enters it
+   */
+  private matches(inside: boolean, wasInside: boolean, now: number): boolean {
+    switch (this.settings.event) {
+      case ZONE_EVENTS.ENTER:
+        return inside && !wasInside;
+      case ZONE_EVENTS.EXIT:
+        return !inside && wasInside;
+      case ZONE_EVENTS.STAY:
+        return inside && (this.lastTrigger === null || now - this.lastTrigger >= this.settings.interval);
+      default:
+        return false;
+    }
+  }
+}
+
+/**
+ * Read the trigger settings of a zone from its Tiled properties
+ * Missing settings fall back to the defaults of the handler, then to a repeatable enter trigger
+ * @param properties - Properties of the Tiled object
+ * @param defaults - Defaults of the handler of the zone type
+ */
+export function getZoneTriggerSettings(
+  properties: MapObjectProperties = {},
+  defaults: ZoneHandler['defaults'] = {},
+): ZoneTriggerSettings {
+  const events: string[] = Object.values(ZONE_EVENTS);
+  if (properties.event !== undefined && !events.includes(properties.event)) {
+    console.warn(`ZoneTrigger: Unknown zone event "${properties.event}"`);
+  }
+
+  const conditions: FlagCondition[] = [];
+  if (properties.flag) {
+    conditions.push({
+      flag: properties.flag,
+      equals: properties.flagEquals,
+      notEquals: properties.flagNotEquals,
+      atLeast: properties.flagAtLeast,
+    });
+  }
+
+  return {
+    event: events.includes(properties.event)
+      ? (properties.event as ZoneEvent)
+      : defaults.event ?? DEFAULT_SETTINGS.event,
+    once: properties.once ?? defaults.once ?? DEFAULT_SETTINGS.once,
+    interval: properties.interval ?? defaults.interval ?? DEFAULT_SETTINGS.interval,
+    conditions,
+    setFlag: properties.setFlag,
+  };
+}
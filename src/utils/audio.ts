@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Music track of a map and attenuation of the sounds heard from a distance
+ */
+
+import { AUDIO, AUDIO_MAP_PROPERTIES } from '../constants/audio';
+import { getMapProperties } from './camera-settings';
+
+/**
+ * Get the music track of a map
+ * @param properties - Value of the `properties` field of the map
+ * @returns The key of the track or null if the level is silent
+ */
+export function getMusicTrack(properties: unknown): string | null {
+  const music = getMapProperties(properties)[AUDIO_MAP_PROPERTIES.MUSIC];
+  return typeof music === 'string' && music !== '' ? music : null;
+}
+
+/**
+ * Get the part of its volume a sound keeps at a distance from the listener
+ * The volume decreases linearly to silence at the hearing distance
+ * @param distance - Distance between the sound and the listener
+ * @param hearingDistance - Distance beyond which the sound is not heard
+ * @returns The attenuation, from 0 to 1
+ */
+export function getAttenuation(distance: number, hearingDistance: number = AUDIO.HEARING_DISTANCE): number {
+  if (hearingDistance <= 0) {
+    return 0;
+  }
+  return Math.min(1, Math.max(0, 1 - distance / hearingDistance));
+}
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Camera settings read from the Tiled properties of a map and its camera rooms
+ */
+
+import { CameraSettings } from '../types/camera-types';
+import { CustomTilemapObject } from '../types/scene-types';
+import { CAMERA, CAMERA_MAP_PROPERTIES } from '../constants/camera';
+import { MAP_CONTENT_KEYS } from '../constants/map-content-keys';
+
+/**
+ * Get the properties of a map as an object
+ * Older Tiled versions export them as an object, newer ones as a list of names and values
+ * @param properties - Value of the `properties` field of the map
+ */
+export function getMapProperties(properties: unknown): Record<string, unknown> {
+  if (Array.isArray(properties)) {
+    return properties.reduce((values: Record<string, unknown>, { name, value }) => ({ ...values, [name]: value }), {});
+  }
+  return (properties as Record<string, unknown>) || {};
+}
+
+/**
+ * Get the camera settings of a map, the defaults of CAMERA for the properties it does not set
+ * Invalid values are reported and replaced by the default
+ * @param properties - Value of the `properties` field of the map
+ */
+export function getCameraSettings(properties: unknown): CameraSettings {
+  const values = getMapProperties(properties);
+
+  const read = (name: string, fallback: number, isValid: (value: number) => boolean): number => {
+    if (values[name] === undefined) {
+      return fallback;
+    }
+    const value = Number(values[name]);
+    if (Number.isNaN(value) || !isValid(value)) {
+      console.warn(`getCameraSettings: Invalid ${name} "${values[name]}"`);
+      return fallback;
+    }
+    return value;
+  };
+  const positive = (value: number) => value >= 0;
+
+  return {
+    lerp: read(CAMERA_MAP_PROPERTIES.LERP, CAMERA.LERP, value => value > 0 && value <= 1),
+    deadZoneWidth: read(CAMERA_MAP_PROPERTIES.DEAD_ZONE_WIDTH, CAMERA.DEAD_ZONE_WIDTH, positive),
+    deadZoneHeight: read(CAMERA_MAP_PROPERTIES.DEAD_ZONE_HEIGHT, CAMERA.DEAD_ZONE_HEIGHT, positive),
+    lookAhead: read(CAMERA_MAP_PROPERTIES.LOOK_AHEAD, CAMERA.LOOK_AHEAD, positive),
+    zoom: read(CAMERA_MAP_PROPERTIES.ZOOM, CAMERA.ZOOM, value => value > 0),
+  };
+}
+
+/**
+ * Get the rectangles of the rooms layer, the camera stays within the room of the player
+ * @param map - The tilemap, none if it has no rooms layer
+ */
+export function getCameraRooms(map: Phaser.Tilemaps.Tilemap): Phaser.Geom.Rectangle[] {
+  const layer = map.objects.find(objects => objects.name === MAP_CONTENT_KEYS.objects.ROOMS);
+  const objects = (layer?.objects || []) as unknown as CustomTilemapObject[];
+  return objects
+    .filter(object => object.width > 0 && object.height > 0)
+    .map(object => new Phaser.Geom.Rectangle(object.x, object.y, object.width, object.height));
+}
+
+/**
+ * Find the room containing a point
+ * @param rooms - Rooms of the map
+ * @param current - Room the point was in, kept while it contains the point so overlapping rooms do not flicker
+ * @returns The room or null if no room contains the point
+ */
+export function findCameraRoom(
+  rooms: Phaser.Geom.Rectangle[],
+  x: number,
+  y: number,
+  current: Phaser.Geom.Rectangle | null = null
+): Phaser.Geom.Rectangle | null {
+  if (current && current.contains(x, y)) {
+    return current;
+  }
+  return rooms.find(room => room.contains(x, y)) || null;
+}
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Creation and resolution of damage events
+ */
+
+import { COMBAT, DAMAGE_TYPES, DamageType } from '../constants/combat';
+import { DamageEvent, Resistances } from '../types/combat-types';
+
+/**
+ * Options of a damage event
+ */
+export interface DamageOptions {
+  source?: Phaser.GameObjects.GameObject;
+  knockback?: Phaser.Math.Vector2;
+  /** Chance of a critical hit between 0 and 1 */
+  critChance?: number;
+}
+
+/**
+ * Create a damage event, rolling for a critical hit
+ * @param amount - Base damage
+ * @param type - Damage type
+ * @param options - Source, knockback and critical hit chance
+ */
+export function createDamageEvent(
+  amount: number,
+  type: DamageType = DAMAGE_TYPES.PHYSICAL,
+  options: DamageOptions = {},
+): DamageEvent {
+  const crit = (options.critChance ?? 0) > Math.random();
+  return {
+    amount: crit ? amount * COMBAT.CRIT_MULTIPLIER : amount,
+    type,
+    source: options.source,
+    knockback: options.knockback,
+    crit,
+  };
+}
+
+/**
+ * Damage actually taken once the resistances apply
+ * Health is counted in half points, so the result is rounded to the nearest half.
+ * A hit that gets through deals at least half a point, only a resistance of 1 grants immunity
+ * @returns The damage, 0 when the character is immune
+ */
+export function resolveDamage(event: DamageEvent, resistances: Resistances = {}): number {
+  const resistance = resistances[event.type] ?? 0;
+  const amount = event.amount * (1 - resistance);
+  return amount > 0 ? Math.max(0.5, Math.round(amount * 2) / 2) : 0;
+}
+
+/**
+ * Knockback pushing a target away from an attacker
+ * @param from - Position of the attacker
+ * @param to - Position of the target
+ * @param force - Speed given to the target
+ */
+export function getKnockback(
+  from: Phaser.Math.Vector2,
+  to: Phaser.Math.Vector2,
+  force: number,
+): Phaser.Math.Vector2 {
+  const direction = to.clone().subtract(from);
+  if (direction.lengthSq() === 0) {
+    return new Phaser.Math.Vector2(0, 0);
+  }
+  return direction.normalize().scale(force);
+}
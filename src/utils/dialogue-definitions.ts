@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Parsing and validation of the dialogue trees
+ */
+
+import {
+  DialogueDefinitionFile,
+  DialogueTarget,
+  DialogueTree,
+} from '../types/dialogue-definitions';
+
+/** Version of the dialogue format understood by the game */
+export const DIALOGUE_DEFINITION_VERSION = 1;
+
+/**
+ * Node ids referenced by a target
+ */
+function getTargetNodes(target?: DialogueTarget): string[] {
+  if (target === undefined) return [];
+  if (typeof target === 'string') return [target];
+  return target.map(branch => branch.node);
+}
+
+/**
+ * Validate a single dialogue tree
+ * @param tree - Raw tree read from JSON
+ * @returns List of problems, empty when the tree is valid
+ */
+export function validateDialogueTree(tree: Partial<DialogueTree>): string[] {
+  const errors: string[] = [];
+
+  if (!tree.nodes || typeof tree.nodes !== 'object') {
+    return ['missing "nodes"'];
+  }
+  if (tree.start === undefined) {
+    errors.push('missing "start"');
+  }
+
+  const checkTarget = (target: DialogueTarget | undefined, origin: string) => {
+    getTargetNodes(target).forEach(nodeId => {
+      if (!tree.nodes[nodeId]) {
+        errors.push(`${origin} references unknown node "${nodeId}"`);
+      }
+    });
+  };
+
+  checkTarget(tree.start, '"start"');
+  Object.entries(tree.nodes).forEach(([id, node]) => {
+    if (typeof node.text !== 'string') {
+      errors.push(`node "${id}" has no "text"`);
+    }
+    checkTarget(node.next, `node "${id}"`);
+    (node.choices || []).forEach((choice, index) => {
+      checkTarget(choice.next, `choice ${index} of node "${id}"`);
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Parse the dialogue file, discarding invalid trees
+ * @param raw - Content of the JSON file
+ * @returns Valid trees keyed by dialog key
+ */
+export function parseDialogues(raw: unknown): Map<string, DialogueTree> {
+  const dialogues = new Map<string, DialogueTree>();
+  const file = raw as Partial<DialogueDefinitionFile>;
+
+  if (!file || !file.dialogues || typeof file.dialogues !== 'object') {
+    console.warn('Dialogues: file has no "dialogues" object');
+    return dialogues;
+  }
+
+  if (file.version !== DIALOGUE_DEFINITION_VERSION) {
+    console.warn(`Dialogues: expected version ${DIALOGUE_DEFINITION_VERSION}, got ${file.version}`);
+  }
+
+  Object.entries(file.dialogues).forEach(([key, tree]) => {
+    const errors = validateDialogueTree(tree);
+    if (errors.length > 0) {
+      console.warn(`Dialogues: skipping "${key}" (${errors.join(', ')})`);
+      return;
+    }
+    dialogues.set(key, tree);
+  });
+
+  return dialogues;
+}
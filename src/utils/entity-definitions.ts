@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Parsing and validation of data-driven entity definitions
+ */
+
+import { EntityDefinition, EntityDefinitionFile } from '../types/entities/entity-definitions';
+import { DAMAGE_TYPES } from '../constants/combat';
+
+/** Version of the entity definition format understood by the game */
+export const ENTITY_DEFINITION_VERSION = 1;
+
+/** Behavior slots every definition must configure */
+const REQUIRED_BEHAVIORS = ['movement', 'combat', 'interaction'] as const;
+
+/** Definitions already parsed, keyed by the JSON content they were parsed from */
+const parsedDefinitions = new WeakMap<object, Map<string, EntityDefinition>>();
+
+/**
+ * Validate a single entity definition
+ * @param definition - Raw definition read from JSON
+ * @returns List of problems, empty when the definition is valid
+ */
+export function validateEntityDefinition(definition: Partial<EntityDefinition>): string[] {
+  const errors: string[] = [];
+
+  if (!definition.type || typeof definition.type !== 'string') {
+    errors.push('missing "type"');
+  }
+  if (definition.faction !== 'hostile' && definition.faction !== 'friendly') {
+    errors.push('"faction" must be "hostile" or "friendly"');
+  }
+  if (!definition.texture || typeof definition.texture !== 'string') {
+    errors.push('missing "texture"');
+  }
+  if (typeof definition.hp !== 'number' || definition.hp <= 0) {
+    errors.push('"hp" must be a positive number');
+  }
+  if (
+    !definition.dimensions ||
+    typeof definition.dimensions.width !== 'number' ||
+    typeof definition.dimensions.height !== 'number'
+  ) {
+    errors.push('"dimensions" must have a numeric width and height');
+  }
+  const damageTypes = Object.values(DAMAGE_TYPES) as string[];
+  if (definition.damageType && !damageTypes.includes(definition.damageType)) {
+    errors.push(`unknown "damageType" "${definition.damageType}"`);
+  }
+  Object.keys(definition.resistances || {}).forEach(type => {
+    if (!damageTypes.includes(type)) {
+      errors.push(`unknown resistance "${type}"`);
+    }
+  });
+  if (definition.loot && !Array.isArray(definition.loot.entries)) {
+    errors.push('"loot" must have an "entries" array');
+  }
+  if (definition.boss && typeof definition.boss.name !== 'string') {
+    errors.push('"boss" must have a "name"');
+  }
+  REQUIRED_BEHAVIORS.forEach(slot => {
+    if (!definition.behaviors || !definition.behaviors[slot] || !definition.behaviors[slot].type) {
+      errors.push(`missing "${slot}" behavior`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Parse the entity definition file, discarding invalid definitions
+ * @param raw - Content of the JSON file
+ * @returns Valid definitions keyed by entity type
+ */
+export function parseEntityDefinitions(raw: unknown): Map<string, EntityDefinition> {
+  const definitions = new Map<string, EntityDefinition>();
+  const file = raw as Partial<EntityDefinitionFile>;
+
+  if (!file || !Array.isArray(file.entities)) {
+    console.warn('Entity definitions: file has no "entities" array');
+    return definitions;
+  }
+
+  if (file.version !== ENTITY_DEFINITION_VERSION) {
+    console.warn(
+      `Entity definitions: expected version ${ENTITY_DEFINITION_VERSION}, got ${file.version}`,
+    );
+  }
+
+  file.entities.forEach((definition, index) => {
+    const errors = validateEntityDefinition(definition);
+    if (errors.length > 0) {
+      console.warn(`Entity definitions: skipping entry ${index} (${errors.join(', ')})`);
+      return;
+    }
+    if (definitions.has(definition.type)) {
+      console.warn(`Entity definitions: duplicate type "${definition.type}", keeping the last one`);
+    }
+    definitions.set(definition.type, definition);
+  });
+
+  return definitions;
+}
+
+/**
+ * Get the definitions of the entity definition file, parsing it only once
+ * so each problem is reported a single time
+ * @param raw - Content of the JSON file
+ * @returns Valid definitions keyed by entity type
+ */
+export function getEntityDefinitions(raw: unknown): Map<string, EntityDefinition> {
+  if (!raw || typeof raw !== 'object') {
+    return parseEntityDefinitions(raw);
+  }
+  if (!parsedDefinitions.has(raw)) {
+    parsedDefinitions.set(raw, parseEntityDefinitions(raw));
+  }
+  return parsedDefinitions.get(raw);
+}
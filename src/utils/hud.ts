@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Hearts showing the health of the player and their place on the screen
+ */
+
+import { HUD_LAYOUT } from '../constants/hud';
+
+/**
+ * How full a heart of the HUD is
+ */
+export type HeartState = 'full' | 'half' | 'empty';
+
+/**
+ * Get how full each heart is
+ * A heart is shown half full while it holds part of its health points,
+ * the last heart holds the health points left over when the maximum is not a multiple
+ * @param hp - Current health points
+ * @param maxHp - Maximum health points, one heart for each HP_PER_HEART
+ * @param hpPerHeart - Health points of a full heart
+ * @returns The state of each heart, from left to right
+ */
+export function getHeartStates(hp: number, maxHp: number, hpPerHeart: number = HUD_LAYOUT.HP_PER_HEART): HeartState[] {
+  const count = Math.max(0, Math.ceil(maxHp / hpPerHeart));
+  return Array.from({ length: count }, (_, i) => {
+    const capacity = Math.min(hpPerHeart, maxHp - i * hpPerHeart);
+    const held = hp - i * hpPerHeart;
+    if (held >= capacity) {
+      return 'full';
+    }
+    return held > 0 ? 'half' : 'empty';
+  });
+}
+
+/**
+ * Get the position of each heart, in rows from the top left corner of the screen
+ * A row holds as many hearts as fit in the part of the screen width given to the hearts
+ * @param count - Number of hearts
+ * @param screenWidth - Width of the screen
+ * @returns The center of each heart
+ */
+export function getHeartPositions(count: number, screenWidth: number): { x: number; y: number }[] {
+  const perRow = getHeartsPerRow(screenWidth);
+  return Array.from({ length: count }, (_, i) => ({
+    x: HUD_LAYOUT.MARGIN + ((i % perRow) + 0.5) * HUD_LAYOUT.DISTANCE_BETWEEN_HEARTS,
+    y: HUD_LAYOUT.MARGIN + (Math.floor(i / perRow) + 0.5) * HUD_LAYOUT.DISTANCE_BETWEEN_HEARTS,
+  }));
+}
+
+/**
+ * Get the number of hearts a row holds, at least one
+ * @param screenWidth - Width of the screen
+ */
+export function getHeartsPerRow(screenWidth: number): number {
+  const width = screenWidth * HUD_LAYOUT.HEARTS_WIDTH_RATIO - HUD_LAYOUT.MARGIN;
+  return Math.max(1, Math.floor(width / HUD_LAYOUT.DISTANCE_BETWEEN_HEARTS));
+}
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Rolling of the loot tables
+ */
+
+import { LootDrop, LootTable } from '../types/item-types';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Roll a loot table
+ * @param table - The loot table
+ * @param random - Random generator, seed it for reproducible drops
+ * @returns Items dropped, units of the same item are merged
+ */
+export function rollLoot(table: LootTable, random: SeededRandom): LootDrop[] {
+  const quantities = new Map<string, number>();
+  const rolls = table.rolls ?? 1;
+
+  for (let i = 0; i < rolls; i++) {
+    const entry = random.weightedPick(table.entries, candidate => candidate.weight);
+    if (!entry || !entry.item) continue;
+
+    const min = entry.min ?? 1;
+    const quantity = random.between(min, Math.max(min, entry.max ?? min));
+    if (quantity > 0) {
+      quantities.set(entry.item, (quantities.get(entry.item) || 0) + quantity);
+    }
+  }
+
+  return Array.from(quantities.entries()).map(([item, quantity]) => ({ item, quantity }));
+}
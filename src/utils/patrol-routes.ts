@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Patrol routes read from the polyline and polygon objects of a map
+ */
+
+import { CustomTilemapObject } from '../types/scene-types';
+
+/**
+ * Waypoints walked by a patrolling entity
+ */
+export interface PatrolRoute {
+  /** Waypoints in world coordinates */
+  points: Phaser.Math.Vector2[];
+  /** Whether the last waypoint leads back to the first one */
+  loop: boolean;
+}
+
+/**
+ * Find an object by its Tiled id in any object layer
+ */
+export function findMapObject(map: Phaser.Tilemaps.Tilemap, id: number): CustomTilemapObject | undefined {
+  for (const layer of map.objects) {
+    const objects = layer.objects as unknown as CustomTilemapObject[];
+    const found = objects.find(object => object.id === id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Build the route described by a polyline or polygon object
+ * Polygons are looped, polylines are walked back and forth; a point object is a
+ * route with a single waypoint
+ * @returns The route or null if the object has no points
+ */
+export function getPatrolRoute(object: CustomTilemapObject): PatrolRoute | null {
+  const shape = object.polygon || object.polyline;
+  if (shape && shape.length > 0) {
+    return {
+      points: shape.map(point => new Phaser.Math.Vector2(object.x + point.x, object.y + point.y)),
+      loop: Boolean(object.polygon),
+    };
+  }
+  if (object.point) {
+    return { points: [new Phaser.Math.Vector2(object.x, object.y)], loop: false };
+  }
+  return null;
+}
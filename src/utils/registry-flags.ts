@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Story flags stored in the game registry and conditions evaluated against them
+ */
+
+import { REGISTRY_KEYS } from '../constants/registry';
+
+/** Values a flag can hold */
+export type FlagValue = boolean | number | string;
+
+/**
+ * Minimal key/value store, satisfied by the Phaser registry
+ */
+export interface FlagStore {
+  get(key: string): unknown;
+  set(key: string, value: unknown): unknown;
+  remove(key: string): unknown;
+}
+
+/**
+ * Condition on a single flag
+ * Without any comparison the flag must be truthy
+ */
+export interface FlagCondition {
+  flag: string;
+  equals?: FlagValue;
+  notEquals?: FlagValue;
+  atLeast?: number;
+}
+
+/**
+ * Registry key under which a flag is stored
+ */
+export function getFlagKey(flag: string): string {
+  return `${REGISTRY_KEYS.FLAG_PREFIX}${flag}`;
+}
+
+/**
+ * Read a flag, undefined when it was never set
+ */
+export function getFlag(store: FlagStore, flag: string): FlagValue | undefined {
+  return store.get(getFlagKey(flag)) as FlagValue | undefined;
+}
+
+/**
+ * Set a flag
+ */
+export function setFlag(store: FlagStore, flag: string, value: FlagValue): void {
+  store.set(getFlagKey(flag), value);
+}
+
+/**
+ * Remove a flag
+ */
+export function clearFlag(store: FlagStore, flag: string): void {
+  store.remove(getFlagKey(flag));
+}
+
+/**
+ * Add an amount to a numeric flag, missing flags count as 0
+ */
+export function incrementFlag(store: FlagStore, flag: string, amount = 1): void {
+  const current = getFlag(store, flag);
+  setFlag(store, flag, (typeof current === 'number' ? current : 0) + amount);
+}
+
+/**
+ * Extract the flags from all the values of a store
+ * @param values - Every entry of the store, e.g. `registry.getAll()`
+ * @returns Flag values keyed by flag name
+ */
+export function getAllFlags(values: Record<string, unknown>): Record<string, FlagValue> {
+  const flags: Record<string, FlagValue> = {};
+  Object.entries(values).forEach(([key, value]) => {
+    if (key.startsWith(REGISTRY_KEYS.FLAG_PREFIX)) {
+      flags[key.slice(REGISTRY_KEYS.FLAG_PREFIX.length)] = value as FlagValue;
+    }
+  });
+  return flags;
+}
+
+/**
+ * Check a single condition
+ */
+export function checkCondition(store: FlagStore, condition: FlagCondition): boolean {
+  const value = getFlag(store, condition.flag);
+
+  if (condition.equals !== undefined && value !== condition.equals) return false;
+  if (condition.notEquals !== undefined && value === condition.notEquals) return false;
+  if (condition.atLeast !== undefined) {
+    return typeof value === 'number' && value >= condition.atLeast;
+  }
+  if (condition.equals === undefined && condition.notEquals === undefined) {
+    return Boolean(value);
+  }
+  return true;
+}
+
+/**
+ * Check that every condition holds, an empty or missing list always holds
+ */
+export function checkConditions(store: FlagStore, conditions?: FlagCondition[]): boolean {
+  return (conditions || []).every(condition => checkCondition(store, condition));
+}
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Upgrades of old save snapshots
+ *
+ * When the snapshot format changes, bump SAVE.VERSION and add an entry keyed by
+ * the previous version that turns an old snapshot into the new format.
+ */
+
+import { SaveMigration } from '../types/save-types';
+import { STARTING_INVENTORY } from '../constants/items';
+
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  // Version 2 added the inventory and the collected pickups of each map
+  1: snapshot => {
+    const maps = (snapshot.maps || {}) as Record<string, Record<string, unknown>>;
+    const migratedMaps: Record<string, Record<string, unknown>> = {};
+    Object.entries(maps).forEach(([mapKey, state]) => {
+      migratedMaps[mapKey] = { ...state, collected: [] };
+    });
+    return { ...snapshot, inventory: {}, maps: migratedMaps };
+  },
+  // Version 3 added the checkpoint, the saved position stands in for it
+  2: snapshot => {
+    const player = (snapshot.player || {}) as Record<string, unknown>;
+    return { ...snapshot, checkpoint: { sceneKey: snapshot.sceneKey, x: player.x, y: player.y } };
+  },
+  // Version 4 added the one-shot zones that triggered in each map
+  3: snapshot => {
+    const maps = (snapshot.maps || {}) as Record<string, Record<string, unknown>>;
+    const migratedMaps: Record<string, Record<string, unknown>> = {};
+    Object.entries(maps).forEach(([mapKey, state]) => {
+      migratedMaps[mapKey] = { ...state, triggered: [] };
+    });
+    return { ...snapshot, maps: migratedMaps };
+  },
+  // Version 5 made shooting use up arrows, the starting ones are given to older games
+  4: snapshot => {
+    const inventory = (snapshot.inventory || {}) as Record<string, number>;
+    return { ...snapshot, inventory: { ...STARTING_INVENTORY, ...inventory } };
+  },
+};
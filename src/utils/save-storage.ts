@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Storage backends for the save slots
+ */
+
+/**
+ * Key/value string storage, a subset of the Web Storage API
+ * Implement it to store saves somewhere other than localStorage
+ */
+export interface ISaveStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Storage backed by window.localStorage
+ * Falls back to memory when localStorage is unavailable (private browsing, Node)
+ */
+export class LocalSaveStorage implements ISaveStorage {
+  private fallback: MemorySaveStorage | null = null;
+
+  constructor() {
+    if (!LocalSaveStorage.isAvailable()) {
+      console.warn('LocalSaveStorage: localStorage unavailable, saves will not persist');
+      this.fallback = new MemorySaveStorage();
+    }
+  }
+
+  public getItem(key: string): string | null {
+    return this.fallback ? this.fallback.getItem(key) : window.localStorage.getItem(key);
+  }
+
+  public setItem(key: string, value: string): void {
+    if (this.fallback) {
+      this.fallback.setItem(key, value);
+      return;
+    }
+    window.localStorage.setItem(key, value);
+  }
+
+  public removeItem(key: string): void {
+    if (this.fallback) {
+      this.fallback.removeItem(key);
+      return;
+    }
+    window.localStorage.removeItem(key);
+  }
+
+  /**
+   * Check that localStorage exists and accepts writes
+   */
+  private static isAvailable(): boolean {
+    try {
+      const probe = '__save_storage_probe__';
+      window.localStorage.setItem(probe, probe);
+      window.localStorage.removeItem(probe);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * In-memory storage, used in tests and when localStorage is unavailable
+ */
+export class MemorySaveStorage implements ISaveStorage {
+  private items: Map<string, string> = new Map();
+
+  public getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key) : null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
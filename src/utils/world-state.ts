@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Persistent state of the maps stored in the game registry
+ */
+
+import { REGISTRY_KEYS } from '../constants/registry';
+import { FlagStore } from './registry-flags';
+import { Checkpoint } from '../types/scene-types';
+
+/** Spawn ids of Tiled objects keyed by map */
+export type SpawnIdsByMap = Record<string, number[]>;
+
+/** Spawn ids of the defeated entities keyed by map */
+export type KilledEntities = SpawnIdsByMap;
+
+/** Spawn ids of the collected pickups keyed by map */
+export type CollectedItems = SpawnIdsByMap;
+
+/** Ids of the one-shot zones that triggered keyed by map */
+export type TriggeredZones = SpawnIdsByMap;
+
+/**
+ * Read a list of spawn ids per map
+ */
+function getSpawnIds(store: FlagStore, key: string): SpawnIdsByMap {
+  return (store.get(key) as SpawnIdsByMap) || {};
+}
+
+/**
+ * Add a spawn id to the list of a map
+ */
+function addSpawnId(store: FlagStore, key: string, mapKey: string, spawnId: number): void {
+  const ids = getSpawnIds(store, key);
+  const mapIds = ids[mapKey] || [];
+  if (!mapIds.includes(spawnId)) {
+    store.set(key, { ...ids, [mapKey]: [...mapIds, spawnId] });
+  }
+}
+
+/**
+ * Get the defeated entities of every map
+ */
+export function getKilledEntities(store: FlagStore): KilledEntities {
+  return getSpawnIds(store, REGISTRY_KEYS.WORLD.KILLED_ENTITIES);
+}
+
+/**
+ * Replace the defeated entities of every map
+ */
+export function setKilledEntities(store: FlagStore, killed: KilledEntities): void {
+  store.set(REGISTRY_KEYS.WORLD.KILLED_ENTITIES, killed);
+}
+
+/**
+ * Check if the entity spawned from a Tiled object was defeated
+ */
+export function isEntityKilled(store: FlagStore, mapKey: string, spawnId: number): boolean {
+  return (getKilledEntities(store)[mapKey] || []).includes(spawnId);
+}
+
+/**
+ * Remember that the entity spawned from a Tiled object was defeated
+ */
+export function markEntityKilled(store: FlagStore, mapKey: string, spawnId: number): void {
+  addSpawnId(store, REGISTRY_KEYS.WORLD.KILLED_ENTITIES, mapKey, spawnId);
+}
+
+/**
+ * Forget the defeated entities, collected pickups and triggered zones of a map,
+ * e.g. when a procedural map is generated again with another layout
+ */
+export function clearMapState(store: FlagStore, mapKey: string): void {
+  [
+    REGISTRY_KEYS.WORLD.KILLED_ENTITIES,
+    REGISTRY_KEYS.WORLD.COLLECTED_ITEMS,
+    REGISTRY_KEYS.WORLD.TRIGGERED_ZONES,
+  ].forEach(key => {
+    const ids = { ...getSpawnIds(store, key) };
+    delete ids[mapKey];
+    store.set(key, ids);
+  });
+}
+
+/**
+ * Get the collected pickups of every map
+ */
+export function getCollectedItems(store: FlagStore): CollectedItems {
+  return getSpawnIds(store, REGISTRY_KEYS.WORLD.COLLECTED_ITEMS);
+}
+
+/**
+ * Replace the collected pickups of every map
+ */
+export function setCollectedItems(store: FlagStore, collected: CollectedItems): void {
+  store.set(REGISTRY_KEYS.WORLD.COLLECTED_ITEMS, collected);
+}
+
+/**
+ * Check if the pickup spawned from a Tiled object was collected
+ */
+export function isItemCollected(store: FlagStore, mapKey: string, spawnId: number): boolean {
+  return (getCollectedItems(store)[mapKey] || []).includes(spawnId);
+}
+
+/**
+ * Remember that the pickup spawned from a Tiled object was collected
+ */
+export function markItemCollected(store: FlagStore, mapKey: string, spawnId: number): void {
+  addSpawnId(store, REGISTRY_KEYS.WORLD.COLLECTED_ITEMS, mapKey, spawnId);
+}
+
+/**
+ * Get the one-shot zones that triggered in every map
+ */
+export function getTriggeredZones(store: FlagStore): TriggeredZones {
+  return getSpawnIds(store, REGISTRY_KEYS.WORLD.TRIGGERED_ZONES);
+}
+
+/**
+ * Replace the one-shot zones that triggered in every map
+ */
+export function setTriggeredZones(store: FlagStore, triggered: TriggeredZones): void {
+  store.set(REGISTRY_KEYS.WORLD.TRIGGERED_ZONES, triggered);
+}
+
+/**
+ * Check if the one-shot zone created from a Tiled object already triggered
+ */
+export function isZoneTriggered(store: FlagStore, mapKey: string, zoneId: number): boolean {
+  return (getTriggeredZones(store)[mapKey] || []).includes(zoneId);
+}
+
+/**
+ * Remember that the one-shot zone created from a Tiled object triggered
+ */
+export function markZoneTriggered(store: FlagStore, mapKey: string, zoneId: number): void {
+  addSpawnId(store, REGISTRY_KEYS.WORLD.TRIGGERED_ZONES, mapKey, zoneId);
+}
+
+/**
+ * Get the last checkpoint reached, null before the first level starts
+ */
+export function getCheckpoint(store: FlagStore): Checkpoint | null {
+  return (store.get(REGISTRY_KEYS.WORLD.CHECKPOINT) as Checkpoint) || null;
+}
+
+/**
+ * Record the checkpoint the player respawns at after a game over
+ */
+export function setCheckpoint(store: FlagStore, checkpoint: Checkpoint): void {
+  store.set(REGISTRY_KEYS.WORLD.CHECKPOINT, checkpoint);
+}
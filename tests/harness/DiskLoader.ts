@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Synchronous stand-in for the Phaser loader reading the assets from disk
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Root of the repository, asset urls are relative to it */
+const ROOT = path.resolve(__dirname, '../..');
+
+/**
+ * Loads the files queued by the Preloader as soon as they are queued
+ *
+ * JSON files go to the caches as usual. Images are never decoded: a texture of
+ * the size read from the PNG header is added instead, which keeps the frames,
+ * animations and default body sizes of the sprites identical to the game.
+ * Audio files are cached as they are, the game runs without audio.
+ */
+export class DiskLoader extends Phaser.Events.EventEmitter {
+  private scene: Phaser.Scene;
+
+  /**
+   * Create a new DiskLoader
+   * @param scene - Scene whose texture manager and caches receive the files
+   */
+  constructor(scene: Phaser.Scene) {
+    super();
+    this.scene = scene;
+  }
+
+  /**
+   * Add an image texture
+   */
+  public image(key: string, url: string): this {
+    this.scene.textures.addImage(key, this.createImage(url));
+    return this;
+  }
+
+  /**
+   * Add a spritesheet texture
+   */
+  public spritesheet(key: string, url: string, config: { frameWidth: number; frameHeight: number }): this {
+    this.scene.textures.addSpriteSheet(key, this.createImage(url), config);
+    return this;
+  }
+
+  /**
+   * Add a Tiled JSON map to the tilemap cache
+   */
+  public tilemapTiledJSON(key: string, url: string): this {
+    this.scene.cache.tilemap.add(key, { format: Phaser.Tilemaps.Formats.TILED_JSON, data: this.readJson(url) });
+    return this;
+  }
+
+  /**
+   * Add a JSON file to the JSON cache, then emit the event of the Phaser loader
+   */
+  public json(key: string, url: string): this {
+    const data = this.readJson(url);
+    this.scene.cache.json.add(key, data);
+    this.emit(`filecomplete-json-${key}`, key, 'json', data);
+    return this;
+  }
+
+  /**
+   * Add an audio file to the audio cache, it is never decoded
+   */
+  public audio(key: string, url: string): this {
+    this.scene.cache.audio.add(key, fs.readFileSync(path.join(ROOT, url)));
+    return this;
+  }
+
+  /**
+   * Parse a JSON file
+   */
+  private readJson(url: string): unknown {
+    return JSON.parse(fs.readFileSync(path.join(ROOT, url), 'utf8'));
+  }
+
+  /**
+   * Image element with the dimensions of a PNG file
+   */
+  private createImage(url: string): HTMLImageElement {
+    const header = Buffer.alloc(24);
+    const file = fs.openSync(path.join(ROOT, url), 'r');
+    fs.readSync(file, header, 0, 24, 0);
+    fs.closeSync(file);
+
+    // The IHDR chunk starts with the width and height as big-endian integers
+    const image = document.createElement('img');
+    image.width = header.readUInt32BE(16);
+    image.height = header.readUInt32BE(20);
+    return image;
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Headless game driven frame by frame from a test
+ */
+
+import { Preloader } from '../../src/scenes/Preloader';
+import { FirstLevel } from '../../src/scenes/levels/FirstLevel';
+import { SecondLevel } from '../../src/scenes/levels/SecondLevel';
+import { ProceduralLevel } from '../../src/scenes/levels/ProceduralLevel';
+import { GameManager } from '../../src/scenes/GameManager';
+import { HUD } from '../../src/scenes/HUD';
+import { DialogueBox } from '../../src/scenes/DialogueBox';
+import { PauseMenu } from '../../src/scenes/PauseMenu';
+import { Title } from '../../src/scenes/Title';
+import { GameOver } from '../../src/scenes/GameOver';
+import { AbstractScene } from '../../src/scenes/AbstractScene';
+import { Player } from '../../src/game-objects/Player';
+import { SCENES } from '../../src/constants/scenes';
+import { InterSceneData } from '../../src/types/scene-types';
+import { DiskLoader } from './DiskLoader';
+
+/** Duration of a frame in milliseconds */
+const FRAME_DURATION = 1000 / 60;
+
+/** Frames stepped before giving up on a condition */
+const DEFAULT_MAX_FRAMES = 600;
+
+/** Keys bound to the input actions by default */
+export type GameKey = 'left' | 'up' | 'right' | 'down' | 'space' | 'shift' | 'interact' | 'pause' | 'inventory';
+
+/** Browser key and key code of each game key */
+const KEYS: Record<GameKey, { key: string; keyCode: number }> = {
+  left: { key: 'ArrowLeft', keyCode: 37 },
+  up: { key: 'ArrowUp', keyCode: 38 },
+  right: { key: 'ArrowRight', keyCode: 39 },
+  down: { key: 'ArrowDown', keyCode: 40 },
+  space: { key: ' ', keyCode: 32 },
+  shift: { key: 'Shift', keyCode: 16 },
+  interact: { key: 'e', keyCode: 69 },
+  pause: { key: 'Escape', keyCode: 27 },
+  inventory: { key: 'i', keyCode: 73 },
+};
+
+/** Level scenes of the game */
+const LEVELS: string[] = [SCENES.FIRST_LEVEL, SCENES.SECOND_LEVEL, SCENES.PROCEDURAL_LEVEL];
+
+/**
+ * Preloader reading the assets from disk instead of downloading them
+ */
+class HeadlessPreloader extends Preloader {
+  protected preload() {
+    this.load = new DiskLoader(this) as unknown as Phaser.Loader.LoaderPlugin;
+    (this as unknown as { loadAssets(): void }).loadAssets();
+  }
+}
+
+/**
+ * Options of a harness
+ */
+export interface HarnessOptions {
+  /** Level to play, the first level by default */
+  level?: string;
+  /** Data handed to the level */
+  data?: Partial<InterSceneData>;
+}
+
+/**
+ * Runs the game with the HEADLESS renderer and the real scenes and managers
+ *
+ * The game loop is stopped once booted: the test advances the game one frame
+ * at a time, at 60 frames per second of game time. `Date` follows the game
+ * time so hit delays measured with the clock stay deterministic. Keys are sent
+ * as browser keyboard events, so they go through the Phaser keyboard and the
+ * InputManager exactly as in the browser.
+ */
+export class GameHarness {
+  public readonly game: Phaser.Game;
+  private time = 0;
+  private startDate = Date.now();
+
+  private constructor(game: Phaser.Game) {
+    this.game = game;
+  }
+
+  /**
+   * Boot the game, start it from the title screen and wait until a level is playing
+   */
+  public static async boot(options: HarnessOptions = {}): Promise<GameHarness> {
+    jest.useFakeTimers({
+      doNotFake: [
+        'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'requestAnimationFrame', 'cancelAnimationFrame',
+        'requestIdleCallback', 'cancelIdleCallback', 'setImmediate', 'clearImmediate', 'setInterval',
+        'clearInterval', 'setTimeout', 'clearTimeout',
+      ],
+    });
+
+    const game = new Phaser.Game({
+      type: Phaser.HEADLESS,
+      width: 400,
+      height: 250,
+      physics: { default: 'arcade' },
+      scene: [HeadlessPreloader, FirstLevel, SecondLevel, ProceduralLevel, GameManager, HUD, DialogueBox, PauseMenu, Title, GameOver],
+      banner: false,
+      audio: { noAudio: true },
+    } as Phaser.Types.Core.GameConfig);
+
+    await new Promise<void>(resolve => game.events.once('ready', () => resolve()));
+    game.loop.stop();
+
+    const harness = new GameHarness(game);
+    harness.stepUntil(() => game.scene.isActive(SCENES.TITLE));
+    (game.scene.getScene(SCENES.TITLE) as Title).startGame();
+    harness.stepUntil(() => game.scene.isActive(SCENES.FIRST_LEVEL) && game.scene.isActive(SCENES.HUD));
+    if (options.level && options.level !== SCENES.FIRST_LEVEL || options.data) {
+      harness.startLevel(options.level || SCENES.FIRST_LEVEL, options.data);
+    }
+    return harness;
+  }
+
+  /**
+   * Level currently played
+   */
+  public get level(): AbstractScene {
+    const key = LEVELS.find(level => this.game.scene.isActive(level));
+    return key ? (this.game.scene.getScene(key) as AbstractScene) : null;
+  }
+
+  /**
+   * Player of the current level
+   */
+  public get player(): Player {
+    return this.level.player;
+  }
+
+  /**
+   * Game time elapsed since the harness started, in milliseconds
+   */
+  public get now(): number {
+    return this.time;
+  }
+
+  /**
+   * Advance the game
+   * @param frames - Number of frames
+   */
+  public step(frames = 1): void {
+    for (let i = 0; i < frames; i++) {
+      this.time += FRAME_DURATION;
+      jest.setSystemTime(this.startDate + this.time);
+      this.game.headlessStep(this.time, FRAME_DURATION);
+    }
+  }
+
+  /**
+   * Advance the game for a duration
+   * @param duration - Game time in milliseconds
+   */
+  public wait(duration: number): void {
+    this.step(Math.ceil(duration / FRAME_DURATION));
+  }
+
+  /**
+   * Advance the game until a condition holds
+   * @returns Number of frames stepped
+   * @throws When the condition still does not hold after maxFrames
+   */
+  public stepUntil(condition: () => boolean, maxFrames = DEFAULT_MAX_FRAMES): number {
+    for (let frames = 0; frames < maxFrames; frames++) {
+      if (condition()) return frames;
+      this.step();
+    }
+    if (condition()) return maxFrames;
+    throw new Error(`GameHarness: Condition not met after ${maxFrames} frames`);
+  }
+
+  /**
+   * Start to hold game keys or character keys, they are read on the next frame
+   */
+  public press(...keys: (GameKey | string)[]): void {
+    keys.forEach(key => this.dispatchKey('keydown', ...GameHarness.resolveKey(key)));
+  }
+
+  /**
+   * Release game keys or character keys
+   */
+  public release(...keys: (GameKey | string)[]): void {
+    keys.forEach(key => this.dispatchKey('keyup', ...GameHarness.resolveKey(key)));
+  }
+
+  /**
+   * Hold game keys or character keys for a number of frames, then release them
+   */
+  public hold(keys: (GameKey | string)[], frames: number): void {
+    this.press(...keys);
+    this.step(frames);
+    this.release(...keys);
+    this.step();
+  }
+
+  /**
+   * Type a character key, e.g. a keyboard shortcut
+   */
+  public type(key: string): void {
+    this.press(key);
+    this.step();
+    this.release(key);
+    this.step();
+  }
+
+  /**
+   * Start a level and wait until it is playing
+   */
+  public startLevel(key: string, data: Partial<InterSceneData> = {}): AbstractScene {
+    this.level.scene.start(key, { comesFrom: this.level.scene.key, ...data });
+    // The scene starts on the next step, the running level may be the one restarted
+    this.step();
+    this.stepUntil(() => this.game.scene.isActive(key));
+    return this.level;
+  }
+
+  /**
+   * Stop the game and restore the real clock
+   */
+  public destroy(): void {
+    // The game is destroyed at the start of its next step
+    this.game.destroy(true);
+    this.game.headlessStep(this.time + FRAME_DURATION, FRAME_DURATION);
+    jest.useRealTimers();
+  }
+
+  /**
+   * Browser key and key code of a game key or a character key
+   */
+  private static resolveKey(key: GameKey | string): [string, number] {
+    const gameKey = KEYS[key as GameKey];
+    return gameKey ? [gameKey.key, gameKey.keyCode] : [key, key.toUpperCase().charCodeAt(0)];
+  }
+
+  /**
+   * Send a keyboard event to the window, where the Phaser keyboard listens
+   */
+  private dispatchKey(type: 'keydown' | 'keyup', key: string, keyCode: number): void {
+    const event = new KeyboardEvent(type, { key, bubbles: true, cancelable: true });
+    Object.defineProperty(event, 'keyCode', { value: keyCode });
+    Object.defineProperty(event, 'which', { value: keyCode });
+    window.dispatchEvent(event);
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Browser APIs missing from jsdom that Phaser needs to boot headless.
+ * Runs before every test file, then exposes Phaser as the global the game code expects.
+ */
+
+/**
+ * 2D context that accepts every call and draws nothing
+ * Phaser only draws on canvases to probe features and to render text
+ */
+function createContextStub(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const target: Record<string | symbol, unknown> = { canvas };
+  const handler: ProxyHandler<Record<string | symbol, unknown>> = {
+    get: (context, property) => {
+      if (property in context) return context[property];
+      if (property === 'getImageData' || property === 'createImageData') {
+        return (_x: number, _y: number, width = 1, height = 1) => ({
+          width,
+          height,
+          data: new Uint8ClampedArray(Math.max(1, width * height) * 4),
+        });
+      }
+      if (property === 'measureText') {
+        return (text: string) => ({ width: text.length * 6 });
+      }
+      return () => undefined;
+    },
+    set: (context, property, value) => {
+      context[property] = value;
+      return true;
+    },
+  };
+  return new Proxy(target, handler) as unknown as CanvasRenderingContext2D;
+}
+
+HTMLCanvasElement.prototype.getContext = function (this: HTMLCanvasElement) {
+  return createContextStub(this);
+} as unknown as typeof HTMLCanvasElement.prototype.getContext;
+
+// jsdom never loads images, Phaser waits for its default textures before starting
+Object.defineProperty(HTMLImageElement.prototype, 'src', {
+  configurable: true,
+  get(this: HTMLImageElement & { currentSource?: string }) {
+    return this.currentSource || '';
+  },
+  set(this: HTMLImageElement & { currentSource?: string }, value: string) {
+    this.currentSource = value;
+    setTimeout(() => this.dispatchEvent(new Event('load')));
+  },
+});
+
+window.focus = () => undefined;
+
+// The game code uses the Phaser global, as the webpack build does
+(global as unknown as { Phaser: unknown }).Phaser = require('phaser/dist/phaser.js');
@@ -0,0 +1,71 @@
+import { GameHarness } from '../harness/GameHarness';
+import { SCENES } from '../../src/constants/scenes';
+import { ASSETS } from '../../src/constants/assets';
+import { AUDIO, VOLUME_CHANNELS } from '../../src/constants/audio';
+import { EVENTS } from '../../src/constants/events';
+import { OPTIONS } from '../../src/constants/options';
+import { GameManager } from '../../src/scenes/GameManager';
+import { Character } from '../../src/game-objects/Character';
+
+describe('Audio', () => {
+  let harness: GameHarness;
+  let gameManager: GameManager;
+
+  beforeEach(async () => {
+    harness = await GameHarness.boot();
+    gameManager = harness.game.scene.getScene(SCENES.GAME_MANAGER) as GameManager;
+  });
+
+  afterEach(() => {
+    harness.destroy();
+    localStorage.clear();
+  });
+
+  it('crossfades to the music of the next level', () => {
+    const village = gameManager.music;
+    const villageDestroyed = jest.fn();
+    village.once('destroy', villageDestroyed);
+
+    expect(harness.level.getAudioManager().getMusicKey()).toBe(ASSETS.AUDIO.MUSIC_VILLAGE);
+
+    harness.level.getSceneFlowManager().changeScene(SCENES.SECOND_LEVEL, harness.player);
+    harness.stepUntil(() => harness.level?.scene.key === SCENES.SECOND_LEVEL);
+    harness.step();
+    const forest = gameManager.music;
+
+    expect(harness.level.getAudioManager().getMusicKey()).toBe(ASSETS.AUDIO.MUSIC_FOREST);
+    expect(village.volume).toBeGreaterThan(0);
+    expect(forest.volume).toBeLessThan(1);
+
+    harness.wait(AUDIO.CROSSFADE_DURATION + 100);
+
+    expect(forest.volume).toBe(1);
+    expect(villageDestroyed).toHaveBeenCalled();
+  });
+
+  it('applies and remembers the volume of the music', () => {
+    gameManager.setVolume(VOLUME_CHANNELS.MUSIC, 0.4);
+
+    expect(gameManager.music.volume).toBe(0.4);
+    expect(localStorage.getItem(OPTIONS.MUSIC_VOLUME_STORAGE_KEY)).toBe('0.4');
+  });
+
+  it('plays the sound effects quieter the farther they are from the player', () => {
+    const play = jest.spyOn(harness.level.sound, 'play');
+    const player = harness.player;
+    gameManager.setVolume(VOLUME_CHANNELS.SFX, 0.5);
+
+    const monster = harness.level.monsters[0] as unknown as Character;
+
+    player.emitCombatEvent(EVENTS.CHARACTER_ATTACK, { character: player });
+    monster.setPosition(player.x + AUDIO.HEARING_DISTANCE / 2, player.y);
+    monster.emitCombatEvent(EVENTS.CHARACTER_DEATH, { character: monster });
+    monster.setPosition(player.x + AUDIO.HEARING_DISTANCE, player.y);
+    monster.emitCombatEvent(EVENTS.CHARACTER_DEATH, { character: monster });
+
+    expect(play.mock.calls).toEqual([
+      [ASSETS.AUDIO.SFX_ATTACK, { volume: 0.5 }],
+      [ASSETS.AUDIO.SFX_DEATH, { volume: 0.25 }],
+    ]);
+  });
+});
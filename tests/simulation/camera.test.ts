@@ -0,0 +1,69 @@
+import { GameHarness } from '../harness/GameHarness';
+import { SCENES } from '../../src/constants/scenes';
+import { createDamageEvent } from '../../src/utils/damage';
+
+/** Edge between the north and south rooms of the second level, see assets/maps/second-map.json */
+const ROOM_BOUNDARY = 320;
+
+describe('Camera', () => {
+  let harness: GameHarness;
+
+  beforeEach(async () => {
+    harness = await GameHarness.boot();
+  });
+
+  afterEach(() => {
+    harness.destroy();
+  });
+
+  it('follows the player with the settings of the map properties', () => {
+    harness.startLevel(SCENES.SECOND_LEVEL);
+    const settings = harness.level.getCameraManager().getSettings();
+
+    expect(settings.lookAhead).toBe(24);
+    expect(settings.deadZoneWidth).toBe(32);
+  });
+
+  it('looks ahead of the player walking', () => {
+    harness.startLevel(SCENES.SECOND_LEVEL);
+    const camera = harness.level.cameras.main;
+
+    harness.press('right');
+    harness.wait(1000);
+
+    expect(camera.followOffset.x).toBeLessThan(-10);
+
+    harness.release('right');
+    harness.wait(2000);
+
+    expect(camera.followOffset.x).toBeCloseTo(0, 0);
+  });
+
+  it('keeps the camera in the room of the player until they walk into the next one', () => {
+    harness.startLevel(SCENES.SECOND_LEVEL);
+    const level = harness.level;
+    const camera = level.cameras.main;
+    const northTreant = level.monsters.find(monster => monster.y < ROOM_BOUNDARY);
+    const southTreant = level.monsters.find(monster => monster.y > ROOM_BOUNDARY);
+    harness.step(2);
+
+    expect(camera.scrollY + camera.height).toBeLessThanOrEqual(ROOM_BOUNDARY);
+    expect(southTreant.active).toBe(false);
+
+    harness.press('down');
+    harness.stepUntil(() => level.player.y > ROOM_BOUNDARY + 10);
+    harness.release('down');
+    harness.stepUntil(() => camera.scrollY >= ROOM_BOUNDARY);
+
+    expect(level.getCameraManager().getRoom().y).toBe(ROOM_BOUNDARY);
+    expect(southTreant.active).toBe(true);
+    expect(northTreant.active).toBe(false);
+  });
+
+  it('shakes the screen when the player is hit', () => {
+    const player = harness.player;
+    harness.stepUntil(() => player.takeDamage(createDamageEvent(1)));
+
+    expect(harness.level.cameras.main.shakeEffect.isRunning).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+import { GameHarness } from '../harness/GameHarness';
+import { SCENES } from '../../src/constants/scenes';
+import { createDamageEvent } from '../../src/utils/damage';
+import { getCheckpoint } from '../../src/utils/world-state';
+
+/** Checkpoint zone of the first level, see assets/maps/tilemap.json */
+const CHECKPOINT = { sceneKey: SCENES.FIRST_LEVEL, x: 90, y: 200 };
+
+describe('Checkpoints', () => {
+  let harness: GameHarness;
+
+  const walkToCheckpoint = () => {
+    harness.press('right');
+    harness.stepUntil(() => getCheckpoint(harness.level.registry)?.x === CHECKPOINT.x);
+    harness.release('right');
+  };
+
+  beforeEach(async () => {
+    harness = await GameHarness.boot();
+  });
+
+  afterEach(() => {
+    harness.destroy();
+  });
+
+  it('becomes the checkpoint and heals the player when touched', () => {
+    const player = harness.player;
+    harness.stepUntil(() => player.takeDamage(createDamageEvent(2)));
+    expect(player.hp).toBeLessThan(player.maxHp);
+
+    walkToCheckpoint();
+
+    expect(getCheckpoint(harness.level.registry)).toEqual(CHECKPOINT);
+    expect(player.hp).toBe(player.maxHp);
+  });
+
+  it('respawns the player at the last touched checkpoint', () => {
+    walkToCheckpoint();
+    harness.hold(['left'], 30);
+
+    const player = harness.player;
+    harness.stepUntil(() => player.takeDamage(createDamageEvent(player.hp)));
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.GAME_OVER));
+    harness.hold(['space'], 1);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.FIRST_LEVEL));
+
+    expect(harness.player.x).toBeCloseTo(CHECKPOINT.x, 0);
+    expect(harness.player.y).toBeCloseTo(CHECKPOINT.y, 0);
+  });
+});
@@ -0,0 +1,73 @@
+import { GameHarness } from '../harness/GameHarness';
+import { NonPlayerEntity } from '../../src/game-objects/entities/NonPlayerEntity';
+import { Log } from '../../src/game-objects/projectiles/Log';
+
+/** Tiled object id of the mole of the first level */
+const MOLE_SPAWN_ID = 15;
+/** Tiled object id of the patrolling treant of the first level */
+const TREANT_SPAWN_ID = 1;
+
+describe('Combat', () => {
+  let harness: GameHarness;
+  let mole: NonPlayerEntity;
+
+  beforeEach(async () => {
+    harness = await GameHarness.boot();
+    mole = harness.level.monsters
+      .map(monster => monster as unknown as NonPlayerEntity)
+      .find(monster => monster.spawnId === MOLE_SPAWN_ID);
+  });
+
+  afterEach(() => {
+    harness.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('lets a monster hurt the player standing next to it', () => {
+    harness.player.setPosition(mole.x - 20, mole.y);
+
+    harness.stepUntil(() => harness.player.hp < harness.player.maxHp);
+
+    expect(harness.player.hp).toBe(harness.player.maxHp - 1);
+  });
+
+  it('keeps the player invulnerable for a while after a hit', () => {
+    harness.player.setPosition(mole.x - 20, mole.y);
+    harness.stepUntil(() => harness.player.hp < harness.player.maxHp);
+    const hp = harness.player.hp;
+
+    harness.wait(200);
+
+    expect(harness.player.hp).toBe(hp);
+  });
+
+  it('hurts a monster with an arrow', () => {
+    // No critical hit
+    jest.spyOn(Math, 'random').mockReturnValue(0.99);
+    const hp = mole.hp;
+    harness.player.setPosition(mole.x - 60, mole.y);
+    harness.hold(['right'], 1);
+
+    harness.hold(['space'], 1);
+    harness.stepUntil(() => mole.hp < hp);
+
+    expect(mole.hp).toBe(hp - 1);
+  });
+
+  it('makes a treant drop its log where it stands', () => {
+    const treant = harness.level.monsters
+      .map(monster => monster as unknown as NonPlayerEntity)
+      .find(monster => monster.spawnId === TREANT_SPAWN_ID);
+    // The treant starts too far from the player to be updated
+    treant.setActive(true);
+    treant.setVisible(true);
+    harness.player.setPosition(treant.x - 50, treant.y);
+
+    const findLog = () => harness.level.children.list.find(child => child instanceof Log) as Log;
+    harness.stepUntil(() => findLog() !== undefined);
+
+    expect(findLog().x).toBeCloseTo(treant.x, 0);
+    expect(findLog().y).toBeCloseTo(treant.y, 0);
+    expect(Math.abs(findLog().x - harness.player.x)).toBeGreaterThan(20);
+  });
+});
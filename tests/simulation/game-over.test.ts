@@ -0,0 +1,63 @@
+import { GameHarness } from '../harness/GameHarness';
+import { SCENES } from '../../src/constants/scenes';
+import { GameManager } from '../../src/scenes/GameManager';
+import { createDamageEvent } from '../../src/utils/damage';
+
+describe('Game over', () => {
+  let harness: GameHarness;
+
+  const killPlayer = () => {
+    const player = harness.player;
+    // The player is invulnerable for a while after spawning
+    harness.stepUntil(() => player.takeDamage(createDamageEvent(player.hp)));
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.GAME_OVER));
+  };
+
+  beforeEach(async () => {
+    harness = await GameHarness.boot();
+  });
+
+  afterEach(() => {
+    harness.destroy();
+  });
+
+  it('leaves the title screen for the first level', () => {
+    expect(harness.game.scene.isActive(SCENES.TITLE)).toBe(false);
+    expect(harness.level.scene.key).toBe(SCENES.FIRST_LEVEL);
+  });
+
+  it('freezes the level when the player dies', () => {
+    killPlayer();
+
+    expect(harness.game.scene.isActive(SCENES.FIRST_LEVEL)).toBe(false);
+    expect(() => harness.step(10)).not.toThrow();
+  });
+
+  it('respawns at the checkpoint with full health', () => {
+    const checkpoint = { x: harness.player.x, y: harness.player.y };
+    // Away from the checkpoint zone on the right of the entrance
+    harness.hold(['left'], 30);
+    killPlayer();
+
+    harness.hold(['space'], 1);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.FIRST_LEVEL));
+
+    const gameManager = harness.game.scene.getScene(SCENES.GAME_MANAGER) as GameManager;
+    expect(harness.player.active).toBe(true);
+    expect(harness.player.hp).toBe(harness.player.maxHp);
+    expect(gameManager.playerHp).toBe(harness.player.maxHp);
+    expect(harness.player.x).toBeCloseTo(checkpoint.x, 0);
+    expect(harness.player.y).toBeCloseTo(checkpoint.y, 0);
+  });
+
+  it('quits to the title screen', () => {
+    killPlayer();
+
+    harness.hold(['down'], 1);
+    harness.hold(['space'], 1);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.TITLE));
+
+    expect(harness.game.scene.isActive(SCENES.FIRST_LEVEL)).toBe(false);
+    expect(harness.game.scene.isActive(SCENES.GAME_OVER)).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { GameHarness } from '../harness/GameHarness';
+import { SCENES } from '../../src/constants/scenes';
+import { ASSETS } from '../../src/constants/assets';
+import { HUD } from '../../src/scenes/HUD';
+import { NonPlayerEntity } from '../../src/game-objects/entities/NonPlayerEntity';
+import { EntityDefinitionFile } from '../../src/types/entities/entity-definitions';
+import { createDamageEvent } from '../../src/utils/damage';
+import { ITEMS, STARTING_INVENTORY } from '../../src/constants/items';
+import { STAMINA } from '../../src/constants/combat';
+
+/** Tiled object id of the mole of the first level */
+const MOLE_SPAWN_ID = 15;
+
+describe('HUD', () => {
+  let harness: GameHarness;
+  let hud: HUD;
+
+  beforeEach(async () => {
+    harness = await GameHarness.boot();
+    hud = harness.game.scene.getScene(SCENES.HUD) as HUD;
+  });
+
+  afterEach(() => {
+    harness.destroy();
+  });
+
+  it('shows healing, half hearts and a new maximum health', () => {
+    const player = harness.player;
+    player.hp = 7.5;
+
+    expect(hud.getHeartStates().filter(state => state === 'full')).toHaveLength(7);
+    expect(hud.getHeartStates()[7]).toBe('half');
+
+    player.hp = player.maxHp;
+    player.maxHp = 12;
+
+    expect(hud.getHeartStates()).toEqual([...Array(10).fill('full'), 'empty', 'empty']);
+  });
+
+  it('shows the health bar of a boss while it fights the player', () => {
+    const file = harness.game.cache.json.get(ASSETS.DATA.ENTITY_DEFINITIONS) as EntityDefinitionFile;
+    harness.game.cache.json.add(ASSETS.DATA.ENTITY_DEFINITIONS, {
+      ...file,
+      entities: file.entities.map(definition =>
+        definition.type === 'mole' ? { ...definition, boss: { name: 'Mole King' } } : definition
+      ),
+    });
+    harness.startLevel(SCENES.FIRST_LEVEL);
+    const mole = harness.level.monsters
+      .map(monster => monster as unknown as NonPlayerEntity)
+      .find(monster => monster.spawnId === MOLE_SPAWN_ID);
+
+    expect(hud.getBoss()).toBeNull();
+
+    harness.player.setPosition(mole.x - 40, mole.y);
+    harness.stepUntil(() => hud.getBoss() !== null);
+
+    expect(hud.getBoss()).toBe(mole);
+
+    mole.takeDamage(createDamageEvent(mole.hp));
+
+    expect(hud.getBoss()).toBeNull();
+  });
+
+  it('shows the arrows and the stamina left', () => {
+    const player = harness.player;
+    expect(hud.getItemCounterTexts()[ITEMS.ARROW]).toBe(`x${STARTING_INVENTORY[ITEMS.ARROW]}`);
+    expect(hud.getStaminaRatio()).toBe(1);
+
+    player.shootWeapon();
+
+    expect(hud.getItemCounterTexts()[ITEMS.ARROW]).toBe(`x${STARTING_INVENTORY[ITEMS.ARROW] - 1}`);
+    expect(hud.getStaminaRatio()).toBeCloseTo((STAMINA.MAX - STAMINA.SHOOT_COST) / STAMINA.MAX, 1);
+  });
+});
@@ -0,0 +1,43 @@
+import { GameHarness } from '../harness/GameHarness';
+import { INPUT, INPUT_ACTIONS } from '../../src/constants/input';
+import { CharacterState } from '../../src/constants/character-states';
+import { IInputManager } from '../../src/types/manager-interfaces';
+
+describe('Input actions', () => {
+  let harness: GameHarness;
+
+  afterEach(() => {
+    harness.destroy();
+    localStorage.clear();
+  });
+
+  it('moves with the keys stored as custom bindings', async () => {
+    localStorage.setItem(INPUT.STORAGE_KEY, JSON.stringify({
+      [INPUT_ACTIONS.MOVE_RIGHT]: [{ device: 'keyboard', key: 'D' }],
+    }));
+    harness = await GameHarness.boot();
+    const { x } = harness.player;
+
+    harness.hold(['right'], 10);
+    expect(harness.player.x).toBeCloseTo(x, 0);
+
+    harness.hold(['d'], 10);
+    expect(harness.player.x).toBeGreaterThan(x + 5);
+  });
+
+  it('shoots with a rebound key and persists the binding', async () => {
+    harness = await GameHarness.boot();
+    const { inputManager } = harness.level as unknown as { inputManager: IInputManager };
+
+    inputManager.rebind(INPUT_ACTIONS.SHOOT, [{ device: 'keyboard', key: 'F' }]);
+    harness.hold(['space'], 1);
+    expect(harness.player.isActionState(CharacterState.SHOOTING)).toBe(false);
+
+    harness.press('f');
+    harness.step();
+    expect(harness.player.isActionState(CharacterState.SHOOTING)).toBe(true);
+    expect(JSON.parse(localStorage.getItem(INPUT.STORAGE_KEY))).toEqual({
+      [INPUT_ACTIONS.SHOOT]: [{ device: 'keyboard', key: 'F' }],
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { GameHarness } from '../harness/GameHarness';
+import { SCENES } from '../../src/constants/scenes';
+import { INPUT, INPUT_ACTIONS } from '../../src/constants/input';
+import { OPTIONS } from '../../src/constants/options';
+import { CharacterState } from '../../src/constants/character-states';
+import { GameManager } from '../../src/scenes/GameManager';
+import { EVENTS } from '../../src/constants/events';
+import { NonPlayerEntity } from '../../src/game-objects/entities/NonPlayerEntity';
+import { AI_DEFAULTS, AI_STATES } from '../../src/constants/ai';
+import { ITEMS, STARTING_INVENTORY } from '../../src/constants/items';
+
+/** Tiled object id of the mole of the first level */
+const MOLE_SPAWN_ID = 15;
+
+describe('Pause menu', () => {
+  let harness: GameHarness;
+
+  const openMenu = () => {
+    harness.hold(['pause'], 1);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.PAUSE));
+  };
+
+  const select = (downPresses: number) => {
+    for (let i = 0; i < downPresses; i++) {
+      harness.hold(['down'], 1);
+    }
+    harness.hold(['space'], 1);
+  };
+
+  beforeEach(async () => {
+    harness = await GameHarness.boot();
+  });
+
+  afterEach(() => {
+    harness.destroy();
+    localStorage.clear();
+  });
+
+  it('freezes the level and its timers until it is resumed', () => {
+    const player = harness.player;
+    const timer = harness.level.time.addEvent({ delay: 10000 });
+    openMenu();
+    const { x } = player;
+    const elapsed = timer.getElapsed();
+
+    harness.hold(['right'], 30);
+
+    expect(harness.game.scene.isActive(SCENES.FIRST_LEVEL)).toBe(false);
+    expect(player.x).toBe(x);
+    expect(timer.getElapsed()).toBe(elapsed);
+
+    harness.hold(['pause'], 1);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.FIRST_LEVEL));
+    harness.hold(['right'], 30);
+
+    expect(harness.game.scene.isActive(SCENES.PAUSE)).toBe(false);
+    expect(player.x).toBeGreaterThan(x + 10);
+    expect(timer.getElapsed()).toBeGreaterThan(elapsed);
+  });
+
+  it('changes and remembers the volume', () => {
+    const gameManager = harness.game.scene.getScene(SCENES.GAME_MANAGER) as GameManager;
+    openMenu();
+
+    harness.hold(['down'], 1);
+    harness.hold(['left'], 1);
+    harness.hold(['left'], 1);
+
+    expect(gameManager.volume).toBeCloseTo(1 - 2 * OPTIONS.VOLUME_STEP);
+    expect(localStorage.getItem(OPTIONS.VOLUME_STORAGE_KEY)).toBe(String(gameManager.volume));
+  });
+
+  it('rebinds an action used by the level once resumed', () => {
+    openMenu();
+    select(4);
+    // Shoot is the sixth action of the controls page
+    select(5);
+    harness.hold(['f'], 1);
+    harness.hold(['pause'], 1);
+    harness.hold(['pause'], 1);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.FIRST_LEVEL));
+
+    harness.press('f');
+    harness.step();
+
+    expect(JSON.parse(localStorage.getItem(INPUT.STORAGE_KEY))[INPUT_ACTIONS.SHOOT]).toEqual([
+      { device: 'gamepad', button: 0 },
+      { device: 'keyboard', key: 'F' },
+    ]);
+    expect(harness.player.isActionState(CharacterState.SHOOTING)).toBe(true);
+  });
+
+  it('quits to the title screen, which starts a new game', () => {
+    openMenu();
+    select(5);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.TITLE));
+
+    expect(harness.game.scene.isActive(SCENES.FIRST_LEVEL)).toBe(false);
+    expect(harness.game.scene.getScene(SCENES.HUD).sys.isSleeping()).toBe(true);
+
+    harness.hold(['space'], 1);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.FIRST_LEVEL));
+
+    expect(harness.game.scene.isActive(SCENES.HUD)).toBe(true);
+    expect(harness.player.hp).toBe(harness.player.maxHp);
+  });
+
+  it('keeps the attack cooldowns and hit invulnerability through a pause', () => {
+    const mole = harness.level.monsters
+      .map(monster => monster as unknown as NonPlayerEntity)
+      .find(monster => monster.spawnId === MOLE_SPAWN_ID);
+    const attacks: number[] = [];
+    mole.on(EVENTS.CHARACTER_ATTACK, () => attacks.push(harness.level.getPlayTime()));
+    harness.player.setPosition(mole.x - 20, mole.y);
+    harness.stepUntil(() => harness.player.hp < harness.player.maxHp);
+
+    openMenu();
+    harness.wait(3000);
+    harness.hold(['pause'], 1);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.FIRST_LEVEL));
+
+    expect(harness.player.canGetHit()).toBe(false);
+
+    harness.stepUntil(() => attacks.length > 1);
+
+    expect(attacks[1] - attacks[0]).toBeGreaterThanOrEqual(1000);
+    expect(attacks[1] - attacks[0]).toBeLessThan(1200);
+  });
+
+  it('keeps the time left in an AI state through a pause', () => {
+    const mole = harness.level.monsters
+      .map(monster => monster as unknown as NonPlayerEntity)
+      .find(monster => monster.spawnId === MOLE_SPAWN_ID);
+    harness.player.setPosition(mole.x - 60, mole.y);
+    harness.stepUntil(() => mole.getData('aiState') === AI_STATES.ALERT);
+    const alertedAt = harness.level.getPlayTime();
+
+    openMenu();
+    harness.wait(3000);
+    harness.hold(['pause'], 1);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.FIRST_LEVEL));
+
+    expect(mole.getData('aiState')).toBe(AI_STATES.ALERT);
+
+    harness.stepUntil(() => mole.getData('aiState') === AI_STATES.CHASE);
+    const alertDuration = harness.level.getPlayTime() - alertedAt;
+
+    expect(alertDuration).toBeGreaterThanOrEqual(AI_DEFAULTS.ALERT_DURATION);
+    expect(alertDuration).toBeLessThan(AI_DEFAULTS.ALERT_DURATION + 200);
+  });
+
+  it('opens on the inventory with the inventory action and closes with it', () => {
+    const texts = () => harness.game.scene.getScene(SCENES.PAUSE).children.list
+      .filter(child => child instanceof Phaser.GameObjects.Text)
+      .map(child => (child as Phaser.GameObjects.Text).text);
+
+    harness.hold(['inventory'], 1);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.PAUSE));
+
+    expect(harness.game.scene.isActive(SCENES.FIRST_LEVEL)).toBe(false);
+    expect(texts()).toContain('Inventory');
+    expect(texts().some(text => new RegExp(`Arrow\\s+x${STARTING_INVENTORY[ITEMS.ARROW]}$`).test(text))).toBe(true);
+
+    harness.hold(['inventory'], 1);
+    harness.stepUntil(() => harness.game.scene.isActive(SCENES.FIRST_LEVEL));
+
+    expect(harness.game.scene.isActive(SCENES.PAUSE)).toBe(false);
+  });
+});
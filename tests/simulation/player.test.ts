@@ -0,0 +1,126 @@
+import { GameHarness } from '../harness/GameHarness';
+import { SCENES } from '../../src/constants/scenes';
+import { Arrow } from '../../src/game-objects/projectiles/Arrow';
+import { Orientation } from '../../src/geometry/orientation';
+import { ITEMS, STARTING_INVENTORY } from '../../src/constants/items';
+import { STAMINA } from '../../src/constants/combat';
+
+describe('Player', () => {
+  let harness: GameHarness;
+
+  beforeEach(async () => {
+    harness = await GameHarness.boot();
+  });
+
+  afterEach(() => {
+    harness.destroy();
+    localStorage.clear();
+  });
+
+  it('starts in the first level with full health', () => {
+    expect(harness.level.scene.key).toBe(SCENES.FIRST_LEVEL);
+    expect(harness.player.hp).toBe(harness.player.maxHp);
+  });
+
+  it('walks while a direction key is held', () => {
+    const { x, y } = harness.player;
+
+    harness.hold(['right'], 30);
+
+    expect(harness.player.x).toBeGreaterThan(x + 10);
+    expect(harness.player.y).toBeCloseTo(y, 0);
+  });
+
+  it('stops shortly after the key is released', () => {
+    harness.hold(['down'], 10);
+    harness.step(5);
+    const { y } = harness.player;
+
+    harness.step(10);
+
+    expect(harness.player.y).toBeCloseTo(y, 0);
+  });
+
+  it('walks diagonally no faster than straight', () => {
+    const { x, y } = harness.player;
+    harness.hold(['right'], 30);
+    const straight = harness.player.x - x;
+    harness.step(10);
+
+    const start = { x: harness.player.x, y: harness.player.y };
+    harness.hold(['right', 'down'], 30);
+    const dx = harness.player.x - start.x;
+    const dy = harness.player.y - start.y;
+
+    expect(start.y).toBeCloseTo(y, 0);
+    expect(dx).toBeCloseTo(dy, 0);
+    expect(Math.hypot(dx, dy)).toBeCloseTo(straight, 0);
+    expect(harness.player.getOrientation()).toBe(Orientation.Right);
+  });
+
+  it('shoots arrows in the direction travelled', () => {
+    harness.hold(['up', 'left'], 10);
+    harness.hold(['space'], 1);
+
+    const findArrow = () => harness.level.children.list.find(child => child instanceof Arrow) as Arrow;
+    harness.stepUntil(() => findArrow() !== undefined);
+    const velocity = findArrow().body.velocity;
+
+    expect(velocity.x).toBeLessThan(0);
+    expect(velocity.x).toBeCloseTo(velocity.y, 0);
+  });
+
+  it('shoots the way the player faces after loading a save', () => {
+    const saved = harness.player;
+    saved.setOrientation(Orientation.Up);
+    harness.level.getSaveManager().save(0);
+    harness.level.getSaveManager().load(0);
+    harness.stepUntil(() => harness.player !== saved && harness.player !== undefined);
+
+    harness.hold(['space'], 1);
+    const findArrow = () => harness.level.children.list.find(child => child instanceof Arrow) as Arrow;
+    harness.stepUntil(() => findArrow() !== undefined);
+    const velocity = findArrow().body.velocity;
+
+    expect(harness.player.getOrientation()).toBe(Orientation.Up);
+    expect(velocity.y).toBeLessThan(0);
+    expect(velocity.x).toBeCloseTo(0, 0);
+  });
+
+  it('uses up an arrow on each shot and does not shoot without arrows', () => {
+    const player = harness.player;
+    const findArrows = () => harness.level.children.list.filter(child => child instanceof Arrow);
+    expect(player.inventory.getQuantity(ITEMS.ARROW)).toBe(STARTING_INVENTORY[ITEMS.ARROW]);
+
+    harness.hold(['space'], 1);
+    harness.stepUntil(() => findArrows().length === 1);
+
+    expect(player.inventory.getQuantity(ITEMS.ARROW)).toBe(STARTING_INVENTORY[ITEMS.ARROW] - 1);
+
+    player.inventory.setContents({});
+    harness.wait(1000);
+    harness.hold(['space'], 30);
+
+    expect(player.canShoot()).toBe(false);
+    expect(findArrows()).toHaveLength(1);
+  });
+
+  it('spends stamina on shots and regains it over time', () => {
+    const player = harness.player;
+    expect(player.stamina).toBe(STAMINA.MAX);
+
+    player.shootWeapon();
+
+    expect(player.stamina).toBeLessThanOrEqual(STAMINA.MAX - STAMINA.SHOOT_COST + 1);
+
+    player.spendStamina(player.stamina);
+
+    expect(player.canShoot()).toBe(false);
+    expect(player.shootWeapon()).toBe(false);
+
+    harness.wait(1000);
+
+    expect(player.stamina).toBeGreaterThanOrEqual(STAMINA.SHOOT_COST);
+    expect(player.canShoot()).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import { GameHarness } from '../harness/GameHarness';
+import { SCENES } from '../../src/constants/scenes';
+import { MAP_CONTENT_KEYS } from '../../src/constants/map-content-keys';
+import { CustomTilemapObject } from '../../src/types/scene-types';
+import { ProceduralLevel } from '../../src/scenes/levels/ProceduralLevel';
+import { Orientation } from '../../src/geometry/orientation';
+import { createDamageEvent } from '../../src/utils/damage';
+import { EVENTS } from '../../src/constants/events';
+import { GameManager } from '../../src/scenes/GameManager';
+import { GameEventMap } from '../../src/types/event-types';
+
+describe('Scene flow', () => {
+  let harness: GameHarness;
+
+  beforeEach(async () => {
+    harness = await GameHarness.boot();
+  });
+
+  afterEach(() => {
+    harness.destroy();
+  });
+
+  it('changes level when the player walks into a transition zone', () => {
+    const zones = harness.level.map.objects.find(layer => layer.name === MAP_CONTENT_KEYS.objects.ZONES);
+    const zone = zones.objects[0] as unknown as CustomTilemapObject;
+
+    harness.player.setPosition(zone.x, zone.y);
+    harness.stepUntil(() => harness.level?.scene.key === SCENES.SECOND_LEVEL);
+
+    expect(harness.level.scene.key).toBe(SCENES.SECOND_LEVEL);
+  });
+
+  it('announces the next level and removes the listeners of the level left', () => {
+    const eventBus = (harness.game.scene.getScene(SCENES.GAME_MANAGER) as GameManager).eventBus;
+    const changes: GameEventMap[typeof EVENTS.SCENE_CHANGED][] = [];
+    eventBus.on(EVENTS.SCENE_CHANGED, change => changes.push(change));
+    const listeners = eventBus.listenerCount(EVENTS.ENTITY_DEFEATED);
+
+    harness.level.getSceneFlowManager().changeScene(SCENES.SECOND_LEVEL, harness.player);
+    harness.stepUntil(() => harness.level?.scene.key === SCENES.SECOND_LEVEL);
+
+    expect(changes).toEqual([{ sceneKey: SCENES.SECOND_LEVEL, comesFrom: SCENES.FIRST_LEVEL }]);
+    expect(eventBus.listenerCount(EVENTS.ENTITY_DEFEATED)).toBe(listeners);
+  });
+
+  it('places the player at the spawn the transition zone leads to', () => {
+    const zones = harness.level.map.objects.find(layer => layer.name === MAP_CONTENT_KEYS.objects.ZONES);
+    const zone = zones.objects[0] as unknown as CustomTilemapObject;
+    harness.player.setPosition(zone.x, zone.y);
+    harness.stepUntil(() => harness.level?.scene.key === SCENES.SECOND_LEVEL);
+
+    const spawns = harness.level.map.objects.find(layer => layer.name === MAP_CONTENT_KEYS.objects.SPAWNS);
+    const spawn = spawns.objects.find(object => object.name === zone.properties.spawn) as unknown as CustomTilemapObject;
+
+    expect(harness.player.x).toBe(spawn.x);
+    expect(harness.player.y).toBe(spawn.y);
+    expect(harness.player.getOrientation()).toBe(Orientation.Right);
+  });
+
+  it('carries the health and items of the player to the next level', () => {
+    const player = harness.player;
+    harness.stepUntil(() => player.takeDamage(createDamageEvent(2)));
+    player.inventory.add('gem', 2);
+
+    harness.type('2');
+    harness.stepUntil(() => harness.level?.scene.key === SCENES.SECOND_LEVEL);
+
+    expect(harness.player).not.toBe(player);
+    expect(harness.player.hp).toBe(player.maxHp - 2);
+    expect(harness.player.inventory.getQuantity('gem')).toBe(2);
+  });
+
+  it('changes level with the keyboard shortcuts', () => {
+    harness.type('2');
+    harness.stepUntil(() => harness.level?.scene.key === SCENES.SECOND_LEVEL);
+    // Scene changes are ignored until the screen is uncovered
+    harness.stepUntil(() => !harness.level.getTransitionManager().isTransitioning());
+
+    harness.type('1');
+    harness.stepUntil(() => harness.level?.scene.key === SCENES.FIRST_LEVEL);
+
+    expect(harness.player.hp).toBe(harness.player.maxHp);
+  });
+
+  it('generates the same procedural level from the same seed', () => {
+    const first = harness.startLevel(SCENES.PROCEDURAL_LEVEL, { seed: 7 }) as ProceduralLevel;
+    const rooms = first.getLevel().rooms;
+
+    expect(harness.player.x).toBe(first.getLevel().start.x);
+    expect(harness.player.y).toBe(first.getLevel().start.y);
+
+    harness.startLevel(SCENES.FIRST_LEVEL);
+    const second = harness.startLevel(SCENES.PROCEDURAL_LEVEL) as ProceduralLevel;
+
+    expect(second.getLevel().seed).toBe(7);
+    expect(second.getLevel().rooms).toEqual(rooms);
+  });
+});
@@ -0,0 +1,80 @@
+import { GameHarness } from '../harness/GameHarness';
+import { SCENES } from '../../src/constants/scenes';
+import { EVENTS } from '../../src/constants/events';
+import { TRANSITION_EFFECTS, TRANSITIONS } from '../../src/constants/transitions';
+import { Orientation } from '../../src/geometry/orientation';
+import { TransitionEvent } from '../../src/types/transition-types';
+import { GameManager } from '../../src/scenes/GameManager';
+
+describe('Transitions', () => {
+  let harness: GameHarness;
+
+  const findText = (message: string) => harness.level.children.list
+    .find(child => child instanceof Phaser.GameObjects.Text && child.text === message);
+
+  beforeEach(async () => {
+    harness = await GameHarness.boot();
+  });
+
+  afterEach(() => {
+    harness.destroy();
+  });
+
+  it('covers the screen before changing scene and uncovers it after', () => {
+    const events: TransitionEvent[] = [];
+    const gameManager = harness.game.scene.getScene(SCENES.GAME_MANAGER) as GameManager;
+    gameManager.eventBus.on(EVENTS.TRANSITION_END, event => events.push(event));
+
+    const player = harness.player;
+    const x = player.x;
+    harness.level.getSceneFlowManager().changeScene(SCENES.SECOND_LEVEL, player, undefined, TRANSITION_EFFECTS.WIPE);
+    harness.press('right');
+    harness.step(10);
+    harness.release('right');
+
+    expect(harness.level.scene.key).toBe(SCENES.FIRST_LEVEL);
+    expect(player.x).toBeCloseTo(x, 0);
+
+    harness.stepUntil(() => harness.level?.scene.key === SCENES.SECOND_LEVEL);
+    const transitionManager = harness.level.getTransitionManager();
+
+    expect(transitionManager.isTransitioning()).toBe(true);
+
+    harness.stepUntil(() => !transitionManager.isTransitioning());
+
+    expect(events.map(({ phase, sceneKey }) => [phase, sceneKey])).toEqual([
+      ['out', SCENES.FIRST_LEVEL],
+      ['in', SCENES.SECOND_LEVEL],
+    ]);
+    expect(events[1].effect).toBe(TRANSITION_EFFECTS.WIPE);
+  });
+
+  it('ignores other scene changes while a transition runs', () => {
+    const transitionManager = harness.level.getTransitionManager();
+
+    expect(transitionManager.transitionTo(SCENES.SECOND_LEVEL, { comesFrom: SCENES.FIRST_LEVEL })).toBe(true);
+    expect(transitionManager.transitionTo(SCENES.PROCEDURAL_LEVEL, { comesFrom: SCENES.FIRST_LEVEL })).toBe(false);
+
+    harness.stepUntil(() => harness.level?.scene.key === SCENES.SECOND_LEVEL);
+    harness.wait(TRANSITIONS.DURATION * 2);
+
+    expect(harness.level.scene.key).toBe(SCENES.SECOND_LEVEL);
+  });
+
+  it('holds a large map covered while it loads', () => {
+    harness.startLevel(SCENES.PROCEDURAL_LEVEL, {
+      transition: { effect: TRANSITION_EFFECTS.IRIS, direction: Orientation.Down },
+    });
+
+    expect(findText(TRANSITIONS.LOADING_TEXT)).toBeDefined();
+
+    harness.wait(TRANSITIONS.LOADING_HOLD + 100);
+
+    expect(findText(TRANSITIONS.LOADING_TEXT)).toBeUndefined();
+    expect(harness.level.getTransitionManager().isTransitioning()).toBe(true);
+
+    harness.wait(TRANSITIONS.DURATION);
+
+    expect(harness.level.getTransitionManager().isTransitioning()).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { GameHarness } from '../harness/GameHarness';
+import { SCENES } from '../../src/constants/scenes';
+import { MAP_CONTENT_KEYS } from '../../src/constants/map-content-keys';
+import { ZONE_TYPES, ZONES } from '../../src/constants/zones';
+import { MapObjectProperties } from '../../src/types/scene-types';
+import { isZoneTriggered } from '../../src/utils/world-state';
+
+/** Patrol path of the first level, see assets/maps/tilemap.json */
+const PATROL_PATH = { id: 21, x: 440, y: 120 };
+
+describe('Zones', () => {
+  let harness: GameHarness;
+  let nextZoneId = 1000;
+
+  /** Add a zone on the player to the first level and create the zones again */
+  const addZone = (properties: MapObjectProperties): number => {
+    const level = harness.level;
+    const layer = level.map.objects.find(objects => objects.name === MAP_CONTENT_KEYS.objects.ZONES);
+    const id = nextZoneId++;
+    (layer.objects as unknown[]).push({
+      id, name: '', x: level.player.x, y: level.player.y, width: 16, height: 16, properties,
+    });
+
+    level.getZoneManager().shutdown();
+    level.getZoneManager().initialize(level.map, level.player, level.mapKey);
+    return id;
+  };
+
+  const findText = (message: string) => harness.level.children.list
+    .find(child => child instanceof Phaser.GameObjects.Text && child.text === message);
+
+  beforeEach(async () => {
+    harness = await GameHarness.boot();
+  });
+
+  afterEach(() => {
+    harness.destroy();
+  });
+
+  it('shows the message of a message zone for a while', () => {
+    addZone({ type: ZONE_TYPES.MESSAGE, message: 'Beware of the river' });
+    harness.step(2);
+
+    expect(findText('Beware of the river')).toBeDefined();
+
+    harness.wait(ZONES.MESSAGE_DURATION + ZONES.MESSAGE_FADE_DURATION + 100);
+
+    expect(findText('Beware of the river')).toBeUndefined();
+  });
+
+  it('keeps hurting the player standing in a damage zone', () => {
+    const player = harness.player;
+    addZone({ type: ZONE_TYPES.DAMAGE, damage: 1 });
+
+    harness.stepUntil(() => player.hp === player.maxHp - 1);
+    harness.stepUntil(() => player.hp === player.maxHp - 2);
+
+    expect(player.hp).toBe(player.maxHp - 2);
+  });
+
+  it('spawns a wave of monsters once', () => {
+    const level = harness.level;
+    const monsterCount = level.monsters.length;
+    const zoneId = addZone({ type: ZONE_TYPES.SPAWN_WAVE, entity: 'mole', count: 2 });
+    harness.step(2);
+
+    const x = level.player.x;
+    level.player.setX(x + 100);
+    harness.step(2);
+    level.player.setX(x);
+    harness.step(2);
+
+    expect(level.monsters.length).toBe(monsterCount + 2);
+    expect(isZoneTriggered(level.registry, level.mapKey, zoneId)).toBe(true);
+  });
+
+  it('opens the conversation of a dialogue zone', () => {
+    addZone({ type: ZONE_TYPES.DIALOGUE, dialogKey: 'wizard' });
+    harness.stepUntil(() => !harness.game.scene.isActive(SCENES.FIRST_LEVEL));
+
+    expect(harness.game.scene.isActive(SCENES.DIALOGUE)).toBe(true);
+  });
+
+  it('shows the focus of a cutscene while the player cannot move', () => {
+    const player = harness.player;
+    const camera = harness.level.cameras.main;
+    addZone({ type: ZONE_TYPES.CUTSCENE, focus: PATROL_PATH.id, duration: 500, zoom: 2 });
+
+    const x = player.x;
+    harness.press('right');
+    harness.stepUntil(() => Math.abs(camera.scrollX + camera.width / 2 - PATROL_PATH.x) < 1);
+
+    expect(player.x).toBeCloseTo(x, 0);
+    expect(camera.zoom).toBeCloseTo(2, 1);
+
+    harness.stepUntil(() => player.x > x + 10);
+    harness.release('right');
+
+    expect(camera.zoom).toBe(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { EventBus } from '../../src/utils/EventBus';
+import { EVENTS } from '../../src/constants/events';
+
+/** Stand-in for a scene, only its events are used */
+const createScene = () => ({ events: new Phaser.Events.EventEmitter() }) as unknown as Phaser.Scene;
+
+describe('EventBus', () => {
+  it('hands the payload of an event to its listeners', () => {
+    const bus = new EventBus();
+    const listener = jest.fn();
+    const once = jest.fn();
+    bus.on(EVENTS.UPDATE_HP, listener);
+    bus.once(EVENTS.UPDATE_HP, once);
+
+    bus.emit(EVENTS.UPDATE_HP, { hp: 2, maxHp: 2 });
+    bus.emit(EVENTS.UPDATE_HP, { hp: 1, maxHp: 2 });
+    bus.off(EVENTS.UPDATE_HP, listener);
+    bus.emit(EVENTS.UPDATE_HP, { hp: 0, maxHp: 2 });
+
+    expect(listener.mock.calls).toEqual([[{ hp: 2, maxHp: 2 }], [{ hp: 1, maxHp: 2 }]]);
+    expect(once.mock.calls).toEqual([[{ hp: 2, maxHp: 2 }]]);
+  });
+
+  it('removes the listeners of a scene when it shuts down', () => {
+    const bus = new EventBus();
+    const scene = createScene();
+    const listener = jest.fn();
+    bus.on(EVENTS.UPDATE_HP, listener, undefined, scene);
+    bus.on(EVENTS.UPDATE_HP, () => undefined);
+
+    scene.events.emit('shutdown');
+    bus.emit(EVENTS.UPDATE_HP, { hp: 1, maxHp: 2 });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(bus.listenerCount(EVENTS.UPDATE_HP)).toBe(1);
+    expect(scene.events.listenerCount('shutdown') + scene.events.listenerCount('destroy')).toBe(0);
+  });
+
+  it('removes the scene hooks of a listener removed before the scene shuts down', () => {
+    const bus = new EventBus();
+    const scene = createScene();
+    const listener = jest.fn();
+    const once = jest.fn();
+    bus.on(EVENTS.UPDATE_HP, listener, undefined, scene);
+    bus.once(EVENTS.UPDATE_HP, once, undefined, scene);
+
+    bus.emit(EVENTS.UPDATE_HP, { hp: 1, maxHp: 2 });
+    bus.emit(EVENTS.UPDATE_HP, { hp: 2, maxHp: 2 });
+    bus.off(EVENTS.UPDATE_HP, listener);
+
+    expect(once.mock.calls).toEqual([[{ hp: 1, maxHp: 2 }]]);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(bus.listenerCount(EVENTS.UPDATE_HP)).toBe(0);
+    expect(scene.events.listenerCount('shutdown') + scene.events.listenerCount('destroy')).toBe(0);
+  });
+});
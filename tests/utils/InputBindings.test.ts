@@ -0,0 +1,37 @@
+import { InputBindings } from '../../src/utils/InputBindings';
+import { MemorySaveStorage } from '../../src/utils/save-storage';
+import { DEFAULT_BINDINGS, INPUT, INPUT_ACTIONS } from '../../src/constants/input';
+
+describe('InputBindings', () => {
+  it('removes a rebound control from the action it was bound to', () => {
+    const bindings = new InputBindings(new MemorySaveStorage());
+
+    bindings.rebind(INPUT_ACTIONS.ATTACK, [{ device: 'keyboard', key: 'SPACE' }]);
+
+    expect(bindings.get(INPUT_ACTIONS.ATTACK)).toEqual([{ device: 'keyboard', key: 'SPACE' }]);
+    expect(bindings.get(INPUT_ACTIONS.SHOOT).some(binding => binding.device === 'keyboard')).toBe(false);
+  });
+
+  it('restores the customized bindings and ignores malformed ones', () => {
+    const storage = new MemorySaveStorage();
+    storage.setItem(INPUT.STORAGE_KEY, JSON.stringify({
+      [INPUT_ACTIONS.PAUSE]: [{ device: 'keyboard', key: 'P' }, { device: 'mouse' }],
+      unknown: [{ device: 'keyboard', key: 'Q' }],
+    }));
+
+    const bindings = new InputBindings(storage);
+
+    expect(bindings.get(INPUT_ACTIONS.PAUSE)).toEqual([{ device: 'keyboard', key: 'P' }]);
+    expect(bindings.get(INPUT_ACTIONS.INTERACT)).toEqual(DEFAULT_BINDINGS[INPUT_ACTIONS.INTERACT]);
+  });
+
+  it('falls back to the defaults after a reset', () => {
+    const storage = new MemorySaveStorage();
+    const bindings = new InputBindings(storage);
+    bindings.rebind(INPUT_ACTIONS.INVENTORY, [{ device: 'gamepad', button: 4 }]);
+
+    bindings.reset();
+
+    expect(new InputBindings(storage).getAll()).toEqual(DEFAULT_BINDINGS);
+  });
+});
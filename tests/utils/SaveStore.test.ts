@@ -0,0 +1,134 @@
+import { SaveStore } from '../../src/utils/SaveStore';
+import { MemorySaveStorage } from '../../src/utils/save-storage';
+import { SAVE_MIGRATIONS } from '../../src/utils/save-migrations';
+import { SAVE } from '../../src/constants/save';
+import { Orientation } from '../../src/geometry/orientation';
+import { SaveSnapshot } from '../../src/types/save-types';
+import { ITEMS, STARTING_INVENTORY } from '../../src/constants/items';
+
+const createStore = (storage = new MemorySaveStorage()) => {
+  const store = new SaveStore(storage, {
+    version: SAVE.VERSION,
+    slotCount: SAVE.SLOT_COUNT,
+    keyPrefix: SAVE.STORAGE_KEY_PREFIX,
+  });
+  Object.entries(SAVE_MIGRATIONS).forEach(([fromVersion, migration]) => {
+    store.registerMigration(Number(fromVersion), migration);
+  });
+  return store;
+};
+
+const snapshot: SaveSnapshot = {
+  version: SAVE.VERSION,
+  savedAt: 1000,
+  sceneKey: 'FirstLevel',
+  player: { hp: 7, maxHp: 10, x: 10, y: 20, orientation: Orientation.Left },
+  inventory: { coin: 3 },
+  maps: { first: { killed: [3], collected: [4], triggered: [5] } },
+  flags: { metElder: true },
+  checkpoint: { sceneKey: 'FirstLevel', x: 1, y: 2 },
+};
+
+/** Snapshot written by the first version of the save format */
+const versionOne = {
+  version: 1,
+  savedAt: 1000,
+  sceneKey: 'FirstLevel',
+  player: { hp: 7, maxHp: 10, x: 10, y: 20, orientation: Orientation.Left },
+  maps: { first: { killed: [3] } },
+  flags: {},
+};
+
+describe('SaveStore', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('loads a saved snapshot back and lists its slot', () => {
+    const store = createStore();
+
+    expect(store.save(1, snapshot)).toBe(true);
+
+    expect(store.load(1)).toEqual(snapshot);
+    expect(store.listSlots()).toEqual([
+      { slot: 0, empty: true },
+      { slot: 1, empty: false, savedAt: 1000, sceneKey: 'FirstLevel' },
+      { slot: 2, empty: true },
+    ]);
+
+    store.delete(1);
+
+    expect(store.has(1)).toBe(false);
+  });
+
+  it('migrates a snapshot of the first version to the current one', () => {
+    const storage = new MemorySaveStorage();
+    storage.setItem(`${SAVE.STORAGE_KEY_PREFIX}0`, JSON.stringify(versionOne));
+
+    const loaded = createStore(storage).load(0);
+
+    expect(loaded.version).toBe(SAVE.VERSION);
+    expect(loaded.maps.first).toEqual({ killed: [3], collected: [], triggered: [] });
+    expect(loaded.checkpoint).toEqual({ sceneKey: 'FirstLevel', x: 10, y: 20 });
+    expect(loaded.inventory).toEqual(STARTING_INVENTORY);
+  });
+
+  it('adds the inventory and the collected pickups in version 2', () => {
+    const migrated = SAVE_MIGRATIONS[1](versionOne);
+
+    expect(migrated.inventory).toEqual({});
+    expect(migrated.maps).toEqual({ first: { killed: [3], collected: [] } });
+  });
+
+  it('uses the saved position as the checkpoint in version 3', () => {
+    const migrated = SAVE_MIGRATIONS[2]({ ...versionOne, version: 2 });
+
+    expect(migrated.checkpoint).toEqual({ sceneKey: 'FirstLevel', x: 10, y: 20 });
+  });
+
+  it('adds the triggered zones in version 4', () => {
+    const migrated = SAVE_MIGRATIONS[3]({ ...versionOne, version: 3, maps: { first: { killed: [], collected: [1] } } });
+
+    expect(migrated.maps).toEqual({ first: { killed: [], collected: [1], triggered: [] } });
+  });
+
+  it('gives the starting arrows to the games saved before version 5', () => {
+    const migrated = SAVE_MIGRATIONS[4]({ ...versionOne, version: 4, inventory: { coin: 2 } });
+    const kept = SAVE_MIGRATIONS[4]({ ...versionOne, version: 4, inventory: { [ITEMS.ARROW]: 3 } });
+
+    expect(migrated.inventory).toEqual({ ...STARTING_INVENTORY, coin: 2 });
+    expect(kept.inventory).toEqual({ [ITEMS.ARROW]: 3 });
+  });
+
+  it('rejects a snapshot newer than the game or without a migration', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const store = createStore();
+    const unmigrated = new SaveStore(new MemorySaveStorage(), { version: 2, slotCount: 1, keyPrefix: 'test.' });
+
+    expect(store.migrate({ ...snapshot, version: SAVE.VERSION + 1 })).toBeNull();
+    expect(unmigrated.migrate(versionOne)).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('treats a corrupted slot as empty', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const storage = new MemorySaveStorage();
+    storage.setItem(`${SAVE.STORAGE_KEY_PREFIX}2`, '{"version": 4,');
+    const store = createStore(storage);
+
+    expect(store.load(2)).toBeNull();
+    expect(store.has(2)).toBe(false);
+    expect(store.listSlots()[2]).toEqual({ slot: 2, empty: true });
+  });
+
+  it('refuses slots out of range', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const store = createStore();
+
+    expect(store.save(-1, snapshot)).toBe(false);
+    expect(store.save(SAVE.SLOT_COUNT, snapshot)).toBe(false);
+    expect(store.save(0.5, snapshot)).toBe(false);
+    expect(store.load(SAVE.SLOT_COUNT)).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,70 @@
+import { ZoneTrigger, getZoneTriggerSettings } from '../../src/utils/ZoneTrigger';
+import { FlagStore, getFlag, setFlag } from '../../src/utils/registry-flags';
+import { ZONE_EVENTS } from '../../src/constants/zones';
+
+const createStore = (): FlagStore => {
+  const values = new Map<string, unknown>();
+  return {
+    get: key => values.get(key),
+    set: (key, value) => values.set(key, value),
+    remove: key => values.delete(key),
+  };
+};
+
+describe('ZoneTrigger', () => {
+  it('triggers on the frame the player enters or leaves the zone', () => {
+    const store = createStore();
+    const enter = new ZoneTrigger(getZoneTriggerSettings({}));
+    const exit = new ZoneTrigger(getZoneTriggerSettings({ event: ZONE_EVENTS.EXIT }));
+
+    const frames = [false, true, true, false, true];
+
+    expect(frames.map((inside, now) => enter.update(inside, store, now))).toEqual([null, 'enter', null, null, 'enter']);
+    expect(frames.map((inside, now) => exit.update(inside, store, now))).toEqual([null, null, null, 'exit', null]);
+  });
+
+  it('triggers at most once per interval while the player stays inside', () => {
+    const store = createStore();
+    const trigger = new ZoneTrigger(getZoneTriggerSettings({ event: ZONE_EVENTS.STAY, interval: 100 }));
+
+    const triggers = [0, 50, 100, 150, 220].filter(now => trigger.update(true, store, now) !== null);
+
+    expect(triggers).toEqual([0, 100, 220]);
+  });
+
+  it('triggers a one-shot zone once, even across instances', () => {
+    const store = createStore();
+    const settings = getZoneTriggerSettings({ once: true });
+    const trigger = new ZoneTrigger(settings);
+
+    expect(trigger.update(true, store, 0)).toBe('enter');
+    trigger.update(false, store, 1);
+    expect(trigger.update(true, store, 2)).toBeNull();
+    expect(new ZoneTrigger(settings, trigger.hasFired()).update(true, store, 3)).toBeNull();
+  });
+
+  it('waits for its flag condition and sets its flag', () => {
+    const store = createStore();
+    const trigger = new ZoneTrigger(getZoneTriggerSettings({ flag: 'keys', flagAtLeast: 2, setFlag: 'doorOpened' }));
+
+    setFlag(store, 'keys', 1);
+    expect(trigger.update(true, store, 0)).toBeNull();
+    expect(getFlag(store, 'doorOpened')).toBeUndefined();
+
+    setFlag(store, 'keys', 2);
+    trigger.update(false, store, 1);
+    expect(trigger.update(true, store, 2)).toBe('enter');
+    expect(getFlag(store, 'doorOpened')).toBe(true);
+  });
+
+  it('prefers the Tiled properties to the defaults of the handler', () => {
+    const defaults = { event: ZONE_EVENTS.STAY, once: true, interval: 500 };
+
+    expect(getZoneTriggerSettings({}, defaults)).toMatchObject(defaults);
+    expect(getZoneTriggerSettings({ event: 'exit', once: false, interval: 0 }, defaults)).toMatchObject({
+      event: ZONE_EVENTS.EXIT,
+      once: false,
+      interval: 0,
+    });
+  });
+});
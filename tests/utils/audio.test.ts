@@ -0,0 +1,17 @@
+import { getAttenuation, getMusicTrack } from '../../src/utils/audio';
+
+describe('Audio', () => {
+  it('reads the music track of a map, none leaves the level silent', () => {
+    expect(getMusicTrack({ music: 'music-forest' })).toBe('music-forest');
+    expect(getMusicTrack([{ name: 'music', type: 'string', value: 'music-forest' }])).toBe('music-forest');
+    expect(getMusicTrack({ music: '' })).toBeNull();
+    expect(getMusicTrack(undefined)).toBeNull();
+  });
+
+  it('lowers the sounds linearly to silence at the hearing distance', () => {
+    expect(getAttenuation(0, 200)).toBe(1);
+    expect(getAttenuation(50, 200)).toBe(0.75);
+    expect(getAttenuation(200, 200)).toBe(0);
+    expect(getAttenuation(500, 200)).toBe(0);
+  });
+});
@@ -0,0 +1,44 @@
+import { findCameraRoom, getCameraSettings, getMapProperties } from '../../src/utils/camera-settings';
+import { CAMERA } from '../../src/constants/camera';
+
+describe('Camera settings', () => {
+  it('reads the map properties exported by any Tiled version', () => {
+    expect(getMapProperties({ cameraZoom: 2 })).toEqual({ cameraZoom: 2 });
+    expect(getMapProperties([{ name: 'cameraZoom', type: 'float', value: 2 }])).toEqual({ cameraZoom: 2 });
+    expect(getMapProperties(undefined)).toEqual({});
+  });
+
+  it('overrides the defaults with the properties of the map', () => {
+    const settings = getCameraSettings({ cameraLookAhead: 24, cameraDeadZoneWidth: '32' });
+
+    expect(settings).toEqual({
+      lerp: CAMERA.LERP,
+      deadZoneWidth: 32,
+      deadZoneHeight: CAMERA.DEAD_ZONE_HEIGHT,
+      lookAhead: 24,
+      zoom: CAMERA.ZOOM,
+    });
+  });
+
+  it('keeps the defaults of invalid properties', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const settings = getCameraSettings({ cameraLerp: 2, cameraZoom: 0, cameraLookAhead: 'far' });
+
+    expect(settings.lerp).toBe(CAMERA.LERP);
+    expect(settings.zoom).toBe(CAMERA.ZOOM);
+    expect(settings.lookAhead).toBe(CAMERA.LOOK_AHEAD);
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+
+  it('finds the room of a point, keeping the current one where rooms overlap', () => {
+    const west = new Phaser.Geom.Rectangle(0, 0, 200, 100);
+    const east = new Phaser.Geom.Rectangle(180, 0, 200, 100);
+
+    expect(findCameraRoom([west, east], 190, 50)).toBe(west);
+    expect(findCameraRoom([west, east], 190, 50, east)).toBe(east);
+    expect(findCameraRoom([west, east], 250, 50, west)).toBe(east);
+    expect(findCameraRoom([west, east], 250, 150, west)).toBeNull();
+  });
+});
@@ -0,0 +1,17 @@
+import { resolveDamage } from '../../src/utils/damage';
+import { DAMAGE_TYPES } from '../../src/constants/combat';
+import { DamageEvent } from '../../src/types/combat-types';
+
+const hit = (amount: number): DamageEvent => ({ amount, type: DAMAGE_TYPES.PIERCING, crit: false });
+
+describe('Damage', () => {
+  it('rounds the damage left by a resistance to half points', () => {
+    expect(resolveDamage(hit(3), { piercing: 0.5 })).toBe(1.5);
+    expect(resolveDamage(hit(1), { physical: 0.5 })).toBe(1);
+  });
+
+  it('deals at least half a point unless the resistance grants immunity', () => {
+    expect(resolveDamage(hit(1), { piercing: 0.8 })).toBe(0.5);
+    expect(resolveDamage(hit(1), { piercing: 1 })).toBe(0);
+  });
+});
@@ -0,0 +1,27 @@
+import { getEntityDefinitions } from '../../src/utils/entity-definitions';
+
+describe('Entity definitions', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('parses a file once and reports its problems a single time', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const raw = { version: 1, entities: [{ type: 'broken' }] };
+
+    const first = getEntityDefinitions(raw);
+    const second = getEntityDefinitions(raw);
+
+    expect(second).toBe(first);
+    expect(first.size).toBe(0);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('parses a replaced file again', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const first = getEntityDefinitions({ version: 1, entities: [] });
+
+    expect(getEntityDefinitions({ version: 1, entities: [] })).not.toBe(first);
+  });
+});
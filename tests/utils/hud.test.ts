@@ -0,0 +1,21 @@
+import { getHeartPositions, getHeartStates, getHeartsPerRow } from '../../src/utils/hud';
+import { HUD_LAYOUT } from '../../src/constants/hud';
+
+describe('HUD', () => {
+  it('fills a heart per health point and half a heart for half a point', () => {
+    expect(getHeartStates(2.5, 4, 1)).toEqual(['full', 'full', 'half', 'empty']);
+    expect(getHeartStates(3, 5, 2)).toEqual(['full', 'half', 'empty']);
+    expect(getHeartStates(5, 5, 2)).toEqual(['full', 'full', 'full']);
+    expect(getHeartStates(0, 0)).toEqual([]);
+  });
+
+  it('wraps the hearts into rows on narrow screens', () => {
+    const perRow = getHeartsPerRow(400);
+    const positions = getHeartPositions(perRow + 1, 400);
+
+    expect(getHeartsPerRow(200)).toBeLessThan(perRow);
+    expect(positions[perRow - 1].y).toBe(positions[0].y);
+    expect(positions[perRow]).toEqual({ x: positions[0].x, y: positions[0].y + HUD_LAYOUT.DISTANCE_BETWEEN_HEARTS });
+    expect(getHeartsPerRow(0)).toBe(1);
+  });
+});